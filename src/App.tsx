@@ -5,18 +5,31 @@ import { RabbitTeam } from '@/components/rabbits';
 import { CrateShop } from '@/components/crates';
 import { AchievementList, AchievementToast } from '@/components/achievements';
 import { PrestigePanel } from '@/components/prestige';
+import { StatsPanel } from '@/components/stats';
+import { QuestPanel } from '@/components/quests';
 import {
   ProductionDisplay,
   SavingIndicator,
   LoadingScreen,
+  OpenElsewhereScreen,
   Settings,
   TabNavigation,
   Header,
   WelcomeBackModal,
+  DailyRewardModal,
   MilestoneCelebration,
 } from '@/components/ui';
-import { useGameLoop, useAutoSave, useOfflineTime, useMilestoneDetection } from '@/hooks';
-import { loadGame } from '@/services';
+import {
+  useGameLoop,
+  useAutoSave,
+  useOfflineTime,
+  useMilestoneDetection,
+  useStorageError,
+  useTabRole,
+  useDailyReward,
+} from '@/hooks';
+import { acquireLeadership, initializePersistence, loadGame } from '@/services';
+import { useSettingsStore } from '@/stores/settingsStore';
 
 /**
  * Main App Component
@@ -29,28 +42,45 @@ function App() {
   const [isPrestigeOpen, setIsPrestigeOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('clicker');
   const [showWelcomeBack, setShowWelcomeBack] = useState(false);
+  const [showDailyReward, setShowDailyReward] = useState(false);
+
+  // Only one tab runs and saves the game; the others wait until the player takes over
+  const tabRole = useTabRole();
+  const isInactiveTab = isLoading || tabRole !== 'leader';
 
-  // Calculate offline earnings
-  const offlineEarnings = useOfflineTime();
+  // Calculate offline earnings (waits for loading to complete)
+  const offlineEarnings = useOfflineTime(isInactiveTab);
 
   // Load saved game on initialization
   useEffect(() => {
-    try {
-      // Attempt to load saved game
-      const loaded = loadGame();
-
-      if (loaded) {
-        // Successfully loaded existing save
-      } else {
-        // First-time player - no save exists, start fresh
+    const load = async () => {
+      try {
+        // Leave the save alone if another tab is already running the game
+        if ((await acquireLeadership()) !== 'leader') {
+          return;
+        }
+
+        // Open storage (IndexedDB, or localStorage as a fallback) and restore the stores
+        await initializePersistence();
+
+        // Attempt to load saved game
+        const loaded = loadGame();
+
+        if (loaded) {
+          // Successfully loaded existing save
+        } else {
+          // First-time player - no save exists, start fresh
+        }
+      } catch (error) {
+        // Handle corrupted save gracefully
+        console.error('Failed to load save, starting fresh:', error);
+      } finally {
+        // Always finish loading, even if errors occurred
+        setIsLoading(false);
       }
-    } catch (error) {
-      // Handle corrupted save gracefully
-      console.error('Failed to load save, starting fresh:', error);
-    } finally {
-      // Always finish loading, even if errors occurred
-      setIsLoading(false);
-    }
+    };
+
+    void load();
   }, []);
 
   // Show welcome back modal if there are offline earnings
@@ -60,15 +90,34 @@ function App() {
     }
   }, [isLoading, offlineEarnings]);
 
-  // Initialize game loop for idle production (waits for loading to complete)
-  useGameLoop(false, isLoading);
+  // Show the daily reward modal when a reward is waiting (checked again while the game is open)
+  const isDailyRewardAvailable = useDailyReward(isInactiveTab);
+  useEffect(() => {
+    if (isDailyRewardAvailable) {
+      setShowDailyReward(true);
+    }
+  }, [isDailyRewardAvailable]);
+
+  // Initialize game loop for idle production (waits for loading, stops if another tab takes over)
+  useGameLoop(false, isInactiveTab);
+
+  // Initialize auto-save system (waits for loading, stops if another tab takes over)
+  const { isSaving, triggerSave } = useAutoSave(isInactiveTab);
 
-  // Initialize auto-save system (waits for loading to complete)
-  const { isSaving, triggerSave } = useAutoSave(isLoading);
+  // Failed storage writes (e.g. quota exceeded) are shown next to the saving indicator
+  const storageError = useStorageError();
 
   // Initialize milestone detection (active after loading completes)
   useMilestoneDetection();
 
+  // Re-render the tree when the notation setting changes so every number display updates
+  useSettingsStore((state) => state.notation);
+
+  // Another tab is running the game
+  if (tabRole === 'follower') {
+    return <OpenElsewhereScreen />;
+  }
+
   // Show loading screen while restoring save data
   if (isLoading) {
     return <LoadingScreen />;
@@ -77,7 +126,7 @@ function App() {
   return (
     <div className="min-h-screen bg-cream">
       {/* Saving Indicator */}
-      <SavingIndicator isSaving={isSaving} />
+      <SavingIndicator isSaving={isSaving} storageError={storageError} />
 
       {/* Achievement Toast Notifications */}
       <AchievementToast />
@@ -111,6 +160,11 @@ function App() {
         />
       )}
 
+      {/* Daily Reward Modal (after the welcome back modal is closed) */}
+      {showDailyReward && !showWelcomeBack && (
+        <DailyRewardModal onClose={() => setShowDailyReward(false)} />
+      )}
+
       {/* Main Content */}
       <main className="container mx-auto px-4 pt-20 pb-20 md:pb-8">
 
@@ -137,8 +191,12 @@ function App() {
             </div>
           )}
           {activeTab === 'stats' && (
-            <div className="card">
-              <ProductionDisplay />
+            <div className="flex flex-col gap-6 max-h-[calc(100vh-13rem)] overflow-y-auto">
+              <div className="card">
+                <ProductionDisplay />
+              </div>
+              <QuestPanel />
+              <StatsPanel />
             </div>
           )}
         </div>
@@ -164,6 +222,8 @@ function App() {
             <div className="card">
               <ProductionDisplay />
             </div>
+            <QuestPanel />
+            <StatsPanel />
           </div>
         </div>
 
@@ -186,8 +246,12 @@ function App() {
           </div>
 
           {/* Column 4: Stats */}
-          <div className="card">
-            <ProductionDisplay />
+          <div className="flex flex-col gap-6">
+            <div className="card">
+              <ProductionDisplay />
+            </div>
+            <QuestPanel />
+            <StatsPanel />
           </div>
         </div>
       </main>
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Achievement } from '@/types/achievement';
 import { playAchievementUnlockSound, preloadAchievementSounds } from '@/utils/achievementSounds';
+import { gameBus } from '@/services/gameBus';
 
 interface ToastData {
   id: string;
@@ -104,15 +105,10 @@ export function AchievementToast() {
   }, []);
 
   /**
-   * Expose showToast globally for achievement system
+   * Show a toast for every unlocked achievement
    */
   useEffect(() => {
-    // Attach to window for global access
-    window.showAchievementToast = showToast;
-
-    return () => {
-      delete window.showAchievementToast;
-    };
+    return gameBus.on('AchievementUnlocked', ({ achievement }) => showToast(achievement));
   }, [showToast]);
 
   if (!currentToast) {
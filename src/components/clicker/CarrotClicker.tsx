@@ -1,8 +1,9 @@
 import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useGameStore } from '@/stores/gameStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 // import { playSound } from '@/utils/sounds'; // TODO: Re-enable when click sound is fixed
-import { formatNumber } from '@/utils';
+import { bigFloor, formatNumber } from '@/utils';
 import { ClickParticles, type Particle } from './ClickParticles';
 
 /**
@@ -12,6 +13,7 @@ import { ClickParticles, type Particle } from './ClickParticles';
  */
 export function CarrotClicker() {
   const { carrots, clickPower, carrotsPerSecond, click } = useGameStore();
+  const particlesEnabled = useSettingsStore((state) => state.particlesEnabled);
   const [particles, setParticles] = useState<Particle[]>([]);
   const buttonRef = useRef<HTMLButtonElement>(null);
 
@@ -21,13 +23,13 @@ export function CarrotClicker() {
   const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
     // TODO: Re-enable click sound with better audio pooling/limiting system
     // Current issue: Even with throttling, rapid clicking causes freeze and audio playback queue
-    // playSound('/assets/sounds/click.mp3', { volume: 0.3, throttle: 150 });
+    // playSound('/assets/sounds/click.mp3', { volume: 0.3, throttle: 150, category: 'click' });
 
     // Update game state
     click();
 
-    // Spawn particles at click position
-    if (buttonRef.current) {
+    // Spawn particles at click position (unless turned off in settings)
+    if (particlesEnabled && buttonRef.current) {
       const rect = buttonRef.current.getBoundingClientRect();
       const x = event.clientX - rect.left;
       const y = event.clientY - rect.top;
@@ -74,7 +76,7 @@ export function CarrotClicker() {
       {/* Carrot Count Display - Rounded card */}
       <div className="text-center card border-2 border-carrot px-8 py-6">
         <div className="text-7xl font-black text-carrot tracking-tight">
-          {formatNumber(Math.floor(carrots))}
+          {formatNumber(bigFloor(carrots))}
         </div>
         <div className="text-2xl font-bold text-accent mt-2 uppercase tracking-wider">
           Carrots
@@ -1,13 +1,14 @@
 import { formatNumber } from '@/utils/formatNumber';
 import { calculateProductionBreakdown } from '@/game/mechanics/production';
 import { useUpgradeStore } from '@/stores/upgradeStore';
+import { usePrestigeStore } from '@/stores/prestigeStore';
 import { CPS_MULTIPLIER_UPGRADES } from '@/game/data/upgrades';
 import { getBuildingById } from '@/game/data/buildings';
 
 /**
  * ProductionBreakdown Tooltip Component
  * Shows detailed CPS breakdown on hover
- * Displays breakdown by source: rabbits, buildings, auto-clickers, and multipliers
+ * Displays breakdown by source: rabbits, buildings, auto-clickers, multipliers, and Golden Seeds
  */
 export function ProductionBreakdown() {
   // Calculate breakdown - this uses getState() internally but calculates all at once
@@ -46,7 +47,11 @@ export function ProductionBreakdown() {
     return multiplier;
   });
 
-  const totalMultiplier = globalMultiplier * cpsMultiplier;
+  // Subscribe to Golden Seeds so the prestige bonus row stays current
+  const goldenSeeds = usePrestigeStore((state) => state.goldenSeeds);
+
+  // Includes rabbit abilities that boost all production
+  const totalMultiplier = globalMultiplier * cpsMultiplier * breakdown.abilityMultiplier;
 
   return (
     <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-64 p-4 bg-gray-900 text-white rounded-lg shadow-xl pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-50">
@@ -93,6 +98,16 @@ export function ProductionBreakdown() {
           </span>
         </div>
 
+        {/* Golden Seed prestige bonus */}
+        {goldenSeeds > 0 && (
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-gray-300">🌱 Golden Seeds ({breakdown.prestigeMultiplier.toFixed(2)}×):</span>
+            <span className="font-semibold text-amber-300">
+              +{formatNumber(breakdown.prestige)}
+            </span>
+          </div>
+        )}
+
         {/* Total */}
         <div className="flex justify-between items-center text-base font-bold pt-2 border-t-2 border-green-500">
           <span className="text-green-400">📊 Total CPS:</span>
@@ -104,7 +119,7 @@ export function ProductionBreakdown() {
         {/* Formula explanation */}
         <div className="text-xs text-gray-400 pt-2 border-t border-gray-700">
           <p className="italic">
-            Total = (Rabbits + Buildings + Auto-clickers) × Multipliers
+            Total = (Rabbits + Buildings + Auto-clickers) × Multipliers × Golden Seeds
           </p>
         </div>
       </div>
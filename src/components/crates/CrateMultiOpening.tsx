@@ -0,0 +1,165 @@
+import { useEffect, useMemo } from 'react';
+import { motion, MotionConfig } from 'framer-motion';
+import type { Crate } from '@/types/crate';
+import type { Rarity } from '@/types/rabbit';
+import type { CrateOpenResult } from '@/stores/crateStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { isRarityAtLeast } from '@/game/systems/gacha';
+import { formatNumber } from '@/utils';
+import { playCrateOpenSound, playCrateRevealSounds, preloadCrateSounds } from '@/utils/crateSounds';
+
+interface CrateMultiOpeningProps {
+  crate: Crate;
+  results: CrateOpenResult[];
+  onComplete: () => void;
+}
+
+/**
+ * Delay between revealed cards in seconds
+ */
+const REVEAL_STAGGER = 0.12;
+
+/**
+ * CrateMultiOpening Component
+ * Summary reveal for a multi-open: every rabbit in the batch, new vs duplicate, and XP earned
+ */
+export function CrateMultiOpening({ crate, results, onComplete }: CrateMultiOpeningProps) {
+  const newCount = results.filter((result) => !result.isDuplicate).length;
+  const duplicateCount = results.length - newCount;
+  const totalXP = results.reduce((total, result) => total + result.xpCompensation, 0);
+  const reducedMotion = useSettingsStore((state) => state.reducedMotion);
+  // Reveal everything at once with reduced motion
+  const revealStagger = reducedMotion ? 0 : REVEAL_STAGGER;
+
+  // Best rarity in the batch drives the reveal sound
+  const bestRarity = useMemo(
+    () =>
+      results.reduce<Rarity>(
+        (best, result) => (isRarityAtLeast(result.rabbit.rarity, best) ? result.rabbit.rarity : best),
+        'common'
+      ),
+    [results]
+  );
+
+  // Play sounds once on mount (duplicate sound only if nothing was new)
+  useEffect(() => {
+    preloadCrateSounds();
+    playCrateOpenSound();
+    const revealTimer = window.setTimeout(() => {
+      playCrateRevealSounds(bestRarity, newCount === 0);
+    }, results.length * revealStagger * 1000);
+
+    return () => clearTimeout(revealTimer);
+  }, [bestRarity, newCount, results.length, revealStagger]);
+
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onComplete();
+      }
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onComplete]);
+
+  return (
+    <MotionConfig reducedMotion={reducedMotion ? 'always' : 'user'}>
+      <div
+        className="fixed inset-0 flex items-center justify-center z-50 p-4"
+        style={{ backgroundColor: '#FFF4E6' }}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Crate opening results"
+      >
+        <motion.div
+          className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-full overflow-y-auto"
+          initial={{ opacity: 0, y: 50, scale: 0.9 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          transition={{ type: 'spring', stiffness: 200, damping: 20 }}
+        >
+          {/* Header */}
+          <div className="text-center mb-4">
+            <div className="text-5xl mb-2">{crate.icon}</div>
+            <h2 className="text-3xl font-bold text-gray-800">
+              {crate.name} ×{results.length}
+            </h2>
+          </div>
+
+          {/* Rabbits */}
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4">
+            {results.map((result, i) => (
+              <motion.div
+                key={`${result.rabbit.id}-${i}`}
+                className={`rounded-lg p-3 text-center border-2 ${getRarityCardColor(result.rabbit.rarity)}`}
+                initial={{ opacity: 0, scale: 0, rotate: -90 }}
+                animate={{ opacity: 1, scale: 1, rotate: 0 }}
+                transition={{ delay: i * revealStagger, type: 'spring', stiffness: 200, damping: 15 }}
+              >
+                <div className="text-4xl mb-1">{result.rabbit.image}</div>
+                <div className="text-sm font-bold text-gray-800 leading-tight">{result.rabbit.name}</div>
+                <div className="text-xs font-bold uppercase text-gray-600">{result.rabbit.rarity}</div>
+                {result.isDuplicate ? (
+                  <div className="mt-1 text-xs font-bold text-yellow-800">
+                    +{formatNumber(result.xpCompensation)} XP
+                  </div>
+                ) : (
+                  <div className="mt-1 text-xs font-bold text-green-700">✨ NEW</div>
+                )}
+              </motion.div>
+            ))}
+          </div>
+
+          {/* Summary */}
+          <motion.div
+            className="bg-gray-100 rounded-lg p-4 mb-4 space-y-2"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: results.length * revealStagger }}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">New Rabbits</span>
+              <span className="text-lg font-bold text-green-700">{newCount}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Duplicates</span>
+              <span className="text-lg font-bold text-yellow-700">{duplicateCount}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Duplicate XP</span>
+              <span className="text-lg font-bold text-carrot">+{formatNumber(totalXP)} XP</span>
+            </div>
+          </motion.div>
+
+          {/* Close Button */}
+          <button
+            onClick={onComplete}
+            className="w-full btn-primary font-bold py-3 px-6 rounded-lg transition-all shadow-lg"
+          >
+            Awesome!
+          </button>
+        </motion.div>
+      </div>
+    </MotionConfig>
+  );
+}
+
+/**
+ * Get rarity card color classes
+ */
+function getRarityCardColor(rarity: Rarity): string {
+  switch (rarity) {
+    case 'common':
+      return 'bg-gray-50 border-gray-300';
+    case 'uncommon':
+      return 'bg-green-50 border-green-400';
+    case 'rare':
+      return 'bg-blue-50 border-blue-400';
+    case 'epic':
+      return 'bg-purple-50 border-purple-400';
+    case 'legendary':
+      return 'bg-yellow-50 border-yellow-400';
+    case 'mythical':
+      return 'bg-pink-50 border-pink-400';
+  }
+}
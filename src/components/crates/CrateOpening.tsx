@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import { motion, AnimatePresence, MotionConfig } from 'framer-motion';
 import type { Crate } from '@/types/crate';
 import type { Rabbit } from '@/types/rabbit';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { formatNumber } from '@/utils';
 import { playCrateOpenSound, playCrateRevealSounds, preloadCrateSounds } from '@/utils/crateSounds';
 
@@ -18,10 +19,12 @@ type AnimationStage = 'closed' | 'shaking' | 'opening' | 'revealing' | 'complete
 /**
  * CrateOpening Component
  * Animated crate opening experience with suspenseful sequence
+ * With reduced motion on, the shake and burst stages are skipped and the rabbit fades in
  */
 export function CrateOpening({ crate, rabbit, isDuplicate, xpAmount, onComplete }: CrateOpeningProps) {
   const [stage, setStage] = useState<AnimationStage>('closed');
   const timeoutsRef = useRef<number[]>([]);
+  const reducedMotion = useSettingsStore((state) => state.reducedMotion);
 
   // Preload crate sounds on mount
   useEffect(() => {
@@ -52,6 +55,20 @@ export function CrateOpening({ crate, rabbit, isDuplicate, xpAmount, onComplete
 
     // Small delay before starting to ensure component is mounted
     const startTimer = window.setTimeout(() => {
+      // Reduced motion: reveal straight away
+      if (reducedMotion) {
+        setStage('revealing');
+        playCrateOpenSound();
+        playCrateRevealSounds(rabbit.rarity, isDuplicate);
+
+        timeoutsRef.current.push(
+          window.setTimeout(() => {
+            setStage('complete');
+          }, 300)
+        );
+        return;
+      }
+
       // Stage 1: Shake animation
       setStage('shaking');
 
@@ -86,7 +103,7 @@ export function CrateOpening({ crate, rabbit, isDuplicate, xpAmount, onComplete
     return () => {
       clearTimeout(startTimer);
     };
-  }, [rabbit, stage, isDuplicate]);
+  }, [rabbit, stage, isDuplicate, reducedMotion]);
 
   // Memoize particle data to prevent visual inconsistencies on re-renders
   const burstParticles = useMemo(() =>
@@ -120,322 +137,324 @@ export function CrateOpening({ crate, rabbit, isDuplicate, xpAmount, onComplete
   if (!rabbit) return null;
 
   return (
-    <div
-      className="fixed inset-0 flex items-center justify-center z-50 p-4"
-      style={{ backgroundColor: '#FFF4E6' }}
-      role="dialog"
-      aria-modal="true"
-      aria-label="Crate opening animation"
-    >
-      <div className="max-w-2xl w-full">
-        <AnimatePresence mode="wait">
-          {/* Stage 1-2: Closed/Shaking Crate */}
-          {(stage === 'closed' || stage === 'shaking') && (
-            <motion.div
-              key="crate-closed"
-              className="text-center relative"
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{
-                opacity: 1,
-                scale: stage === 'shaking' ? [1, 1.05, 0.95, 1.05, 0.95, 1] : 1,
-                rotate: stage === 'shaking' ? [0, -8, 8, -10, 10, -8, 8, 0] : 0,
-                y: stage === 'shaking' ? [0, -10, 0, -15, 0, -10, 0] : 0,
-              }}
-              exit={{ opacity: 0, scale: 1.3 }}
-              transition={{
-                scale: {
-                  duration: 0.8,
-                  ease: [0.4, 0, 0.2, 1],
-                  times: [0, 0.2, 0.4, 0.6, 0.8, 1],
-                },
-                rotate: {
-                  duration: 0.8,
-                  ease: [0.4, 0, 0.2, 1],
-                  times: [0, 0.15, 0.3, 0.45, 0.6, 0.75, 0.9, 1],
-                },
-                y: {
-                  duration: 0.8,
-                  ease: [0.4, 0, 0.2, 1],
-                  times: [0, 0.2, 0.35, 0.5, 0.65, 0.8, 1],
-                },
-              }}
-            >
-              {/* Anticipation glow during shake */}
-              {stage === 'shaking' && (
-                <motion.div
-                  className="absolute inset-0 -z-10"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: [0, 0.6, 0] }}
-                  transition={{ duration: 0.8, times: [0, 0.5, 1] }}
-                >
-                  <div className={`absolute inset-0 blur-3xl ${getRarityParticleColor(rabbit.rarity)} opacity-50`} />
-                </motion.div>
-              )}
-
-              {/* Crate (animation starts automatically) */}
-              <div className="text-9xl mb-6 relative">
-                {crate.icon}
-
-                {/* Crack lines appear during shake */}
+    <MotionConfig reducedMotion={reducedMotion ? 'always' : 'user'}>
+      <div
+        className="fixed inset-0 flex items-center justify-center z-50 p-4"
+        style={{ backgroundColor: '#FFF4E6' }}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Crate opening animation"
+      >
+        <div className="max-w-2xl w-full">
+          <AnimatePresence mode="wait">
+            {/* Stage 1-2: Closed/Shaking Crate */}
+            {(stage === 'closed' || stage === 'shaking') && (
+              <motion.div
+                key="crate-closed"
+                className="text-center relative"
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{
+                  opacity: 1,
+                  scale: stage === 'shaking' ? [1, 1.05, 0.95, 1.05, 0.95, 1] : 1,
+                  rotate: stage === 'shaking' ? [0, -8, 8, -10, 10, -8, 8, 0] : 0,
+                  y: stage === 'shaking' ? [0, -10, 0, -15, 0, -10, 0] : 0,
+                }}
+                exit={{ opacity: 0, scale: 1.3 }}
+                transition={{
+                  scale: {
+                    duration: 0.8,
+                    ease: [0.4, 0, 0.2, 1],
+                    times: [0, 0.2, 0.4, 0.6, 0.8, 1],
+                  },
+                  rotate: {
+                    duration: 0.8,
+                    ease: [0.4, 0, 0.2, 1],
+                    times: [0, 0.15, 0.3, 0.45, 0.6, 0.75, 0.9, 1],
+                  },
+                  y: {
+                    duration: 0.8,
+                    ease: [0.4, 0, 0.2, 1],
+                    times: [0, 0.2, 0.35, 0.5, 0.65, 0.8, 1],
+                  },
+                }}
+              >
+                {/* Anticipation glow during shake */}
                 {stage === 'shaking' && (
                   <motion.div
-                    className="absolute inset-0 flex items-center justify-center text-6xl opacity-70"
-                    initial={{ opacity: 0, scale: 0.5 }}
-                    animate={{ opacity: [0, 0.7, 0.7], scale: [0.5, 1, 1] }}
+                    className="absolute inset-0 -z-10"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: [0, 0.6, 0] }}
                     transition={{ duration: 0.8, times: [0, 0.5, 1] }}
                   >
-                    ⚡
+                    <div className={`absolute inset-0 blur-3xl ${getRarityParticleColor(rabbit.rarity)} opacity-50`} />
                   </motion.div>
                 )}
-              </div>
-
-              <p className="text-white text-2xl font-bold animate-pulse">
-                {stage === 'closed' ? 'Preparing...' : 'Opening...'}
-              </p>
-            </motion.div>
-          )}
-
-          {/* Stage 3: Opening Burst */}
-          {stage === 'opening' && (
-            <motion.div
-              key="crate-burst"
-              className="text-center relative"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-            >
-              {/* Enhanced burst particles with physics */}
-              <div className="relative">
-                {/* Main energy burst particles */}
-                {burstParticles.map((particle, i) => {
-                  const isEpicPlus = ['epic', 'legendary', 'mythical'].includes(rabbit.rarity);
-
-                  return (
+
+                {/* Crate (animation starts automatically) */}
+                <div className="text-9xl mb-6 relative">
+                  {crate.icon}
+
+                  {/* Crack lines appear during shake */}
+                  {stage === 'shaking' && (
                     <motion.div
-                      key={`burst-${i}`}
-                      className={`absolute top-1/2 left-1/2 w-3 h-3 rounded-full ${getRarityParticleColor(rabbit.rarity)}`}
-                      initial={{ scale: 0, x: 0, y: 0, opacity: 1 }}
-                      animate={{
-                        scale: [0, 1.2, 0.8, 0],
-                        x: [0, Math.cos(particle.angle) * particle.distance * 0.5, Math.cos(particle.angle) * particle.distance],
-                        y: [0, Math.sin(particle.angle) * particle.distance * 0.5 - 30, Math.sin(particle.angle) * particle.distance + 50],
-                        opacity: [1, 1, 0.8, 0],
-                        rotate: [0, particle.rotation],
-                      }}
-                      transition={{
-                        duration: 1,
-                        ease: [0.25, 0.46, 0.45, 0.94],
-                        times: [0, 0.3, 0.7, 1],
-                      }}
-                      style={{
-                        boxShadow: isEpicPlus ? '0 0 10px currentColor' : 'none',
-                      }}
-                    />
-                  );
-                })}
-
-                {/* Confetti for Epic+ rarities */}
-                {['epic', 'legendary', 'mythical'].includes(rabbit.rarity) && (
-                  <>
-                    {confettiParticles.map((particle, i) => (
+                      className="absolute inset-0 flex items-center justify-center text-6xl opacity-70"
+                      initial={{ opacity: 0, scale: 0.5 }}
+                      animate={{ opacity: [0, 0.7, 0.7], scale: [0.5, 1, 1] }}
+                      transition={{ duration: 0.8, times: [0, 0.5, 1] }}
+                    >
+                      ⚡
+                    </motion.div>
+                  )}
+                </div>
+
+                <p className="text-white text-2xl font-bold animate-pulse">
+                  {stage === 'closed' ? 'Preparing...' : 'Opening...'}
+                </p>
+              </motion.div>
+            )}
+
+            {/* Stage 3: Opening Burst */}
+            {stage === 'opening' && (
+              <motion.div
+                key="crate-burst"
+                className="text-center relative"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+              >
+                {/* Enhanced burst particles with physics */}
+                <div className="relative">
+                  {/* Main energy burst particles */}
+                  {burstParticles.map((particle, i) => {
+                    const isEpicPlus = ['epic', 'legendary', 'mythical'].includes(rabbit.rarity);
+
+                    return (
                       <motion.div
-                        key={`confetti-${i}`}
-                        className={`absolute top-1/2 left-1/2 w-2 h-3 ${particle.color}`}
-                        initial={{ scale: 0, x: 0, y: 0, opacity: 1, rotate: 0 }}
+                        key={`burst-${i}`}
+                        className={`absolute top-1/2 left-1/2 w-3 h-3 rounded-full ${getRarityParticleColor(rabbit.rarity)}`}
+                        initial={{ scale: 0, x: 0, y: 0, opacity: 1 }}
                         animate={{
-                          scale: [0, 1, 1, 1],
-                          x: Math.cos(particle.angle) * particle.distance,
-                          y: [0, Math.sin(particle.angle) * particle.distance - 50, Math.sin(particle.angle) * particle.distance + 200],
-                          opacity: [1, 1, 1, 0],
+                          scale: [0, 1.2, 0.8, 0],
+                          x: [0, Math.cos(particle.angle) * particle.distance * 0.5, Math.cos(particle.angle) * particle.distance],
+                          y: [0, Math.sin(particle.angle) * particle.distance * 0.5 - 30, Math.sin(particle.angle) * particle.distance + 50],
+                          opacity: [1, 1, 0.8, 0],
                           rotate: [0, particle.rotation],
                         }}
                         transition={{
-                          duration: 1.2,
+                          duration: 1,
                           ease: [0.25, 0.46, 0.45, 0.94],
+                          times: [0, 0.3, 0.7, 1],
+                        }}
+                        style={{
+                          boxShadow: isEpicPlus ? '0 0 10px currentColor' : 'none',
                         }}
                       />
-                    ))}
-                  </>
-                )}
+                    );
+                  })}
+
+                  {/* Confetti for Epic+ rarities */}
+                  {['epic', 'legendary', 'mythical'].includes(rabbit.rarity) && (
+                    <>
+                      {confettiParticles.map((particle, i) => (
+                        <motion.div
+                          key={`confetti-${i}`}
+                          className={`absolute top-1/2 left-1/2 w-2 h-3 ${particle.color}`}
+                          initial={{ scale: 0, x: 0, y: 0, opacity: 1, rotate: 0 }}
+                          animate={{
+                            scale: [0, 1, 1, 1],
+                            x: Math.cos(particle.angle) * particle.distance,
+                            y: [0, Math.sin(particle.angle) * particle.distance - 50, Math.sin(particle.angle) * particle.distance + 200],
+                            opacity: [1, 1, 1, 0],
+                            rotate: [0, particle.rotation],
+                          }}
+                          transition={{
+                            duration: 1.2,
+                            ease: [0.25, 0.46, 0.45, 0.94],
+                          }}
+                        />
+                      ))}
+                    </>
+                  )}
+
+                  {/* Rainbow shimmer for Legendary */}
+                  {rabbit.rarity === 'legendary' && (
+                    <motion.div
+                      className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2"
+                      initial={{ scale: 0, opacity: 0 }}
+                      animate={{
+                        scale: [0, 3, 4],
+                        opacity: [0, 0.8, 0],
+                      }}
+                      transition={{ duration: 1 }}
+                    >
+                      <div className="w-64 h-64 rounded-full bg-gradient-to-r from-red-500 via-yellow-500 via-green-500 via-blue-500 to-purple-500 blur-2xl" />
+                    </motion.div>
+                  )}
+
+                  {/* Sparkle particles */}
+                  {sparkleParticles.map((particle, i) => (
+                    <motion.div
+                      key={`sparkle-${i}`}
+                      className="absolute top-1/2 left-1/2 text-3xl"
+                      initial={{ scale: 0, x: 0, y: 0, opacity: 0 }}
+                      animate={{
+                        scale: [0, 1.5, 0],
+                        x: Math.cos(particle.angle) * particle.distance,
+                        y: Math.sin(particle.angle) * particle.distance,
+                        opacity: [0, 1, 0],
+                        rotate: [0, 180],
+                      }}
+                      transition={{
+                        duration: 0.8,
+                        delay: i * 0.05,
+                        ease: 'easeOut',
+                      }}
+                    >
+                      ✨
+                    </motion.div>
+                  ))}
 
-                {/* Rainbow shimmer for Legendary */}
-                {rabbit.rarity === 'legendary' && (
+                  {/* Central glow effect */}
                   <motion.div
-                    className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2"
-                    initial={{ scale: 0, opacity: 0 }}
-                    animate={{
-                      scale: [0, 3, 4],
-                      opacity: [0, 0.8, 0],
-                    }}
-                    transition={{ duration: 1 }}
+                    className="relative"
+                    initial={{ scale: 0.5, opacity: 0 }}
+                    animate={{ scale: [0.5, 1.5, 1], opacity: [0, 1, 0.8] }}
+                    transition={{ duration: 0.8 }}
                   >
-                    <div className="w-64 h-64 rounded-full bg-gradient-to-r from-red-500 via-yellow-500 via-green-500 via-blue-500 to-purple-500 blur-2xl" />
+                    <div className={`text-9xl ${getRarityGlowColor(rabbit.rarity)} drop-shadow-2xl`}>
+                      ✨
+                    </div>
+                  </motion.div>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Stage 4-5: Revealing/Complete */}
+            {(stage === 'revealing' || stage === 'complete') && (
+              <motion.div
+                key="rabbit-reveal"
+                className="bg-white rounded-lg p-8 relative overflow-hidden"
+                initial={{ opacity: 0, y: 50, scale: 0.9 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.8 }}
+                transition={{ type: 'spring', stiffness: 200, damping: 20 }}
+              >
+                {/* Rarity border glow */}
+                <div
+                  className={`absolute inset-0 ${getRarityBorderGlow(
+                    rabbit.rarity
+                  )} opacity-20 ${reducedMotion ? '' : 'animate-pulse'}`}
+                />
+
+                <div className="relative z-10">
+                  {/* Rarity Badge */}
+                  <motion.div
+                    className="mb-4"
+                    initial={{ y: -20, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    transition={{ delay: 0.2 }}
+                  >
+                    <span
+                      className={`inline-block text-sm font-bold px-4 py-2 rounded-full ${getRarityColor(
+                        rabbit.rarity
+                      )}`}
+                    >
+                      {rabbit.rarity.toUpperCase()}
+                    </span>
                   </motion.div>
-                )}
 
-                {/* Sparkle particles */}
-                {sparkleParticles.map((particle, i) => (
+                  {/* Rabbit Image */}
                   <motion.div
-                    key={`sparkle-${i}`}
-                    className="absolute top-1/2 left-1/2 text-3xl"
-                    initial={{ scale: 0, x: 0, y: 0, opacity: 0 }}
-                    animate={{
-                      scale: [0, 1.5, 0],
-                      x: Math.cos(particle.angle) * particle.distance,
-                      y: Math.sin(particle.angle) * particle.distance,
-                      opacity: [0, 1, 0],
-                      rotate: [0, 180],
-                    }}
+                    className="text-8xl mb-4"
+                    initial={{ scale: 0, rotate: -180 }}
+                    animate={{ scale: 1, rotate: 0 }}
                     transition={{
-                      duration: 0.8,
-                      delay: i * 0.05,
-                      ease: 'easeOut',
+                      delay: 0.3,
+                      type: 'spring',
+                      stiffness: 200,
+                      damping: 15,
                     }}
                   >
-                    ✨
+                    {rabbit.image}
                   </motion.div>
-                ))}
-
-                {/* Central glow effect */}
-                <motion.div
-                  className="relative"
-                  initial={{ scale: 0.5, opacity: 0 }}
-                  animate={{ scale: [0.5, 1.5, 1], opacity: [0, 1, 0.8] }}
-                  transition={{ duration: 0.8 }}
-                >
-                  <div className={`text-9xl ${getRarityGlowColor(rabbit.rarity)} drop-shadow-2xl`}>
-                    ✨
-                  </div>
-                </motion.div>
-              </div>
-            </motion.div>
-          )}
-
-          {/* Stage 4-5: Revealing/Complete */}
-          {(stage === 'revealing' || stage === 'complete') && (
-            <motion.div
-              key="rabbit-reveal"
-              className="bg-white rounded-lg p-8 relative overflow-hidden"
-              initial={{ opacity: 0, y: 50, scale: 0.9 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.8 }}
-              transition={{ type: 'spring', stiffness: 200, damping: 20 }}
-            >
-              {/* Rarity border glow */}
-              <div
-                className={`absolute inset-0 ${getRarityBorderGlow(
-                  rabbit.rarity
-                )} opacity-20 animate-pulse`}
-              />
-
-              <div className="relative z-10">
-                {/* Rarity Badge */}
-                <motion.div
-                  className="mb-4"
-                  initial={{ y: -20, opacity: 0 }}
-                  animate={{ y: 0, opacity: 1 }}
-                  transition={{ delay: 0.2 }}
-                >
-                  <span
-                    className={`inline-block text-sm font-bold px-4 py-2 rounded-full ${getRarityColor(
-                      rabbit.rarity
-                    )}`}
+
+                  {/* Rabbit Name */}
+                  <motion.h2
+                    className="text-3xl font-bold text-gray-800 mb-2"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.5 }}
                   >
-                    {rabbit.rarity.toUpperCase()}
-                  </span>
-                </motion.div>
-
-                {/* Rabbit Image */}
-                <motion.div
-                  className="text-8xl mb-4"
-                  initial={{ scale: 0, rotate: -180 }}
-                  animate={{ scale: 1, rotate: 0 }}
-                  transition={{
-                    delay: 0.3,
-                    type: 'spring',
-                    stiffness: 200,
-                    damping: 15,
-                  }}
-                >
-                  {rabbit.image}
-                </motion.div>
-
-                {/* Rabbit Name */}
-                <motion.h2
-                  className="text-3xl font-bold text-gray-800 mb-2"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.5 }}
-                >
-                  {rabbit.name}
-                </motion.h2>
-
-                {/* Description */}
-                <motion.p
-                  className="text-gray-600 mb-4"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.6 }}
-                >
-                  {rabbit.description}
-                </motion.p>
-
-                {/* Stats */}
-                <motion.div
-                  className="bg-gray-100 rounded-lg p-4 mb-4"
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.7 }}
-                >
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-gray-600">Base CPS</span>
-                    <span className="text-lg font-bold text-carrot">
-                      +{formatNumber(rabbit.baseCPS)}/s
-                    </span>
-                  </div>
-                </motion.div>
-
-                {/* Duplicate/New Message */}
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.9 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  transition={{ delay: 0.8 }}
-                >
-                  {isDuplicate ? (
-                    <div className="bg-yellow-100 border-2 border-yellow-400 rounded-lg p-3 mb-4">
-                      <p className="text-yellow-800 font-bold text-center">
-                        ⚠️ Duplicate! +{xpAmount ? formatNumber(xpAmount) : '0'} XP
-                      </p>
-                    </div>
-                  ) : (
-                    <div className="bg-green-100 border-2 border-green-400 rounded-lg p-3 mb-4">
-                      <p className="text-green-800 font-bold text-center">
-                        ✨ Added to collection!
-                      </p>
-                    </div>
-                  )}
-                </motion.div>
+                    {rabbit.name}
+                  </motion.h2>
+
+                  {/* Description */}
+                  <motion.p
+                    className="text-gray-600 mb-4"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.6 }}
+                  >
+                    {rabbit.description}
+                  </motion.p>
 
-                {/* Close Button */}
-                {stage === 'complete' && (
-                  <motion.button
-                    onClick={onComplete}
-                    className="w-full btn-primary font-bold py-3 px-6 rounded-lg transition-all shadow-lg"
+                  {/* Stats */}
+                  <motion.div
+                    className="bg-gray-100 rounded-lg p-4 mb-4"
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: 0.9 }}
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
+                    transition={{ delay: 0.7 }}
                   >
-                    Awesome!
-                  </motion.button>
-                )}
-              </div>
-            </motion.div>
-          )}
-        </AnimatePresence>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">Base CPS</span>
+                      <span className="text-lg font-bold text-carrot">
+                        +{formatNumber(rabbit.baseCPS)}/s
+                      </span>
+                    </div>
+                  </motion.div>
+
+                  {/* Duplicate/New Message */}
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ delay: 0.8 }}
+                  >
+                    {isDuplicate ? (
+                      <div className="bg-yellow-100 border-2 border-yellow-400 rounded-lg p-3 mb-4">
+                        <p className="text-yellow-800 font-bold text-center">
+                          ⚠️ Duplicate! +{xpAmount ? formatNumber(xpAmount) : '0'} XP
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="bg-green-100 border-2 border-green-400 rounded-lg p-3 mb-4">
+                        <p className="text-green-800 font-bold text-center">
+                          ✨ Added to collection!
+                        </p>
+                      </div>
+                    )}
+                  </motion.div>
+
+                  {/* Close Button */}
+                  {stage === 'complete' && (
+                    <motion.button
+                      onClick={onComplete}
+                      className="w-full btn-primary font-bold py-3 px-6 rounded-lg transition-all shadow-lg"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.9 }}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      Awesome!
+                    </motion.button>
+                  )}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
       </div>
-    </div>
+    </MotionConfig>
   );
 }
 
@@ -1,14 +1,16 @@
 import { useState } from 'react';
 import { useGameStore } from '@/stores/gameStore';
-import { useCrateStore } from '@/stores/crateStore';
+import { useCrateStore, type CrateOpenResult } from '@/stores/crateStore';
 import { useRabbitStore } from '@/stores/rabbitStore';
 import { CRATE_TYPES } from '@/game/data/crates';
-import { calculateDuplicateCompensation } from '@/game/systems/gacha';
+import { calculateDuplicateCompensation, MULTI_OPEN_COUNT } from '@/game/systems/gacha';
 import type { Crate } from '@/types/crate';
 import type { Rabbit } from '@/types/rabbit';
-import { formatNumber } from '@/utils';
+import { bigGte, bigLt, bigSubtract, formatNumber } from '@/utils';
 import { CrateOpening } from './CrateOpening';
+import { CrateMultiOpening } from './CrateMultiOpening';
 import { PityCounter } from './PityCounter';
+import { EventCrateCard } from './EventCrateCard';
 
 /**
  * CrateShop Component
@@ -19,6 +21,7 @@ export function CrateShop() {
   const { ownedRabbits } = useRabbitStore();
   const {
     openCrate,
+    purchaseCrates,
     cratesSinceEpic,
     cratesSinceLegendary,
     cratesSinceMythical,
@@ -32,6 +35,7 @@ export function CrateShop() {
   const [openedCrate, setOpenedCrate] = useState<Crate | null>(null);
   const [isDuplicate, setIsDuplicate] = useState(false);
   const [xpAmount, setXpAmount] = useState<number>(0);
+  const [multiResults, setMultiResults] = useState<CrateOpenResult[] | null>(null);
 
   /**
    * Handle crate purchase and opening
@@ -45,7 +49,7 @@ export function CrateShop() {
       return;
     }
 
-    if (usesCarrots && (!crate.cost.carrots || carrots < crate.cost.carrots)) {
+    if (usesCarrots && (!crate.cost.carrots || bigLt(carrots, crate.cost.carrots))) {
       return;
     }
 
@@ -94,14 +98,42 @@ export function CrateShop() {
   };
 
   /**
-   * Check if player can afford a crate
+   * Handle multi-open purchase
+   * The store charges the whole batch once as it opens it
    */
-  const canAfford = (crate: Crate): boolean => {
+  const handleMultiPurchase = async (crate: Crate) => {
+    if (!canAfford(crate, MULTI_OPEN_COUNT)) {
+      return;
+    }
+
+    setIsOpening(true);
+    try {
+      // Simulate opening delay for anticipation
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const results = await purchaseCrates(crate.type, MULTI_OPEN_COUNT);
+      if (results.length === 0) {
+        return;
+      }
+
+      setOpenedCrate(crate);
+      setMultiResults(results);
+    } catch (error) {
+      console.error('Failed to open crates:', error);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  /**
+   * Check if player can afford a number of crates
+   */
+  const canAfford = (crate: Crate, count = 1): boolean => {
     if (crate.cost.goldenCarrots !== undefined) {
-      return goldenCarrots >= crate.cost.goldenCarrots;
+      return goldenCarrots >= crate.cost.goldenCarrots * count;
     }
     if (crate.cost.carrots !== undefined) {
-      return carrots >= crate.cost.carrots;
+      return bigGte(carrots, crate.cost.carrots * count);
     }
     return false;
   };
@@ -114,6 +146,7 @@ export function CrateShop() {
     setOpenedCrate(null);
     setIsDuplicate(false);
     setXpAmount(0);
+    setMultiResults(null);
   };
 
   return (
@@ -139,10 +172,14 @@ export function CrateShop() {
         />
       </div>
 
+      {/* Limited-time event */}
+      <EventCrateCard />
+
       {/* Crate Cards */}
       <div className="flex flex-col gap-4">
         {CRATE_TYPES.map((crate) => {
           const affordable = canAfford(crate);
+          const multiAffordable = canAfford(crate, MULTI_OPEN_COUNT);
 
           return (
             <div
@@ -239,12 +276,28 @@ export function CrateShop() {
                     {isOpening ? 'OPENING...' : 'OPEN CRATE'}
                   </button>
 
+                  {/* Multi-open Button (guaranteed rare or better) */}
+                  <button
+                    onClick={() => handleMultiPurchase(crate)}
+                    disabled={!multiAffordable || isOpening}
+                    title={`Open ${MULTI_OPEN_COUNT} crates for ${formatNumber(
+                      (crate.cost.goldenCarrots ?? crate.cost.carrots ?? 0) * MULTI_OPEN_COUNT
+                    )}. At least one Rare or better guaranteed.`}
+                    className={`text-sm font-bold px-6 py-2 rounded-xl border-2 border-purple-400 text-purple-700 bg-purple-50 transition-all duration-200 ${
+                      multiAffordable && !isOpening
+                        ? 'hover:shadow-lg hover:scale-105'
+                        : 'opacity-40 cursor-not-allowed'
+                    }`}
+                  >
+                    OPEN ×{MULTI_OPEN_COUNT}
+                  </button>
+
                   {!affordable && (
                     <span className="text-xs text-red-600 font-bold bg-red-50 px-3 py-1.5 rounded-lg">
                       {crate.cost.goldenCarrots !== undefined ? (
                         <>Need {formatNumber(crate.cost.goldenCarrots - goldenCarrots)} more 🥕✨</>
                       ) : (
-                        <>Need {formatNumber((crate.cost.carrots || 0) - carrots)} more 🥕</>
+                        <>Need {formatNumber(bigSubtract(crate.cost.carrots || 0, carrots))} more 🥕</>
                       )}
                     </span>
                   )}
@@ -265,6 +318,11 @@ export function CrateShop() {
           onComplete={closeResult}
         />
       )}
+
+      {/* Multi-open Summary */}
+      {multiResults && openedCrate && (
+        <CrateMultiOpening crate={openedCrate} results={multiResults} onComplete={closeResult} />
+      )}
     </div>
   );
 }
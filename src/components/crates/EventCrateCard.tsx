@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { MotionConfig } from 'framer-motion';
+import { useEventStore, createEventProgress } from '@/stores/eventStore';
+import type { CrateOpenResult } from '@/stores/crateStore';
+import { useRabbitStore } from '@/stores/rabbitStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { EVENTS } from '@/game/data/events';
+import {
+  countEventRabbits,
+  getActiveEvent,
+  getEventAchievementProgress,
+  getEventStatus,
+  getEventTimes,
+  getTimeRemaining,
+} from '@/game/systems/events';
+import { formatNumber } from '@/utils';
+import { CrateOpening } from './CrateOpening';
+import { PityCounter } from './PityCounter';
+
+/**
+ * Days after an event ends that its leftover conversion is still shown
+ */
+const CONVERSION_NOTICE_DAYS = 7;
+
+/**
+ * Format a countdown
+ * @param ms - Time left in milliseconds
+ * @returns Formatted countdown (e.g., "3d 4h", "2h 15m", "45s")
+ */
+function formatCountdown(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Current time, refreshed every second
+ */
+function useNow(): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  return now;
+}
+
+/**
+ * EventCrateCard Component
+ * Shows the running limited-time event in the crate shop: countdown, event currency,
+ * the event crate, its pity progress and the event achievements.
+ * Between events it shows the next one and what leftover currency was converted to.
+ */
+export function EventCrateCard() {
+  const now = useNow();
+  const events = useEventStore((state) => state.events);
+  const openEventCrate = useEventStore((state) => state.openEventCrate);
+  const ownedRabbits = useRabbitStore((state) => state.ownedRabbits);
+  const reducedMotion = useSettingsStore((state) => state.reducedMotion);
+
+  const [isOpening, setIsOpening] = useState(false);
+  const [result, setResult] = useState<CrateOpenResult | null>(null);
+
+  const activeEvent = getActiveEvent(now);
+  const upcomingEvent = EVENTS.find((event) => getEventStatus(event, now) === 'upcoming');
+  const recentConversion = EVENTS.map((event) => ({ event, progress: events[event.id] })).find(
+    ({ event, progress }) =>
+      progress?.conversion &&
+      progress.conversion.goldenCarrots > 0 &&
+      now - getEventTimes(event).end < CONVERSION_NOTICE_DAYS * 86400 * 1000
+  );
+
+  /**
+   * Handle event crate purchase and opening
+   */
+  const handleOpen = async () => {
+    if (!activeEvent) {
+      return;
+    }
+
+    setIsOpening(true);
+    try {
+      // Simulate opening delay for anticipation
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      setResult(openEventCrate(activeEvent.id));
+    } catch (error) {
+      console.error('Failed to open event crate:', error);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const conversionNotice = recentConversion?.progress?.conversion && (
+    <p className="text-sm font-medium text-gray-700 bg-yellow-50 px-3 py-2 rounded-lg">
+      {recentConversion.event.icon} {recentConversion.event.name} has ended. Your leftover{' '}
+      {formatNumber(recentConversion.progress.conversion.currency)}{' '}
+      {recentConversion.event.currency.name} became{' '}
+      {formatNumber(recentConversion.progress.conversion.goldenCarrots)} 🥕✨
+    </p>
+  );
+
+  if (!activeEvent) {
+    if (!upcomingEvent && !conversionNotice) {
+      return null;
+    }
+
+    return (
+      <div className="card border-2 border-gray-200 space-y-3">
+        {conversionNotice}
+        {upcomingEvent && (
+          <p className="text-sm font-bold text-gray-700">
+            {upcomingEvent.icon} {upcomingEvent.name} starts in{' '}
+            {formatCountdown(getTimeRemaining(upcomingEvent, now))}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { crate, currency, pityThresholds } = activeEvent;
+  const progress = events[activeEvent.id] ?? createEventProgress();
+  const cost = crate.cost.eventCurrency ?? 0;
+  const affordable = progress.currency >= cost;
+  const counts = {
+    currencyEarned: progress.currencyEarned,
+    cratesOpened: progress.cratesOpened,
+    rabbitsCollected: countEventRabbits(activeEvent, ownedRabbits),
+  };
+
+  return (
+    <div className="card border-2 border-orange-300 bg-gradient-to-br from-orange-50 to-yellow-50 space-y-4">
+      {conversionNotice}
+
+      {/* Event header and countdown */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <span className="text-5xl">{activeEvent.icon}</span>
+          <div>
+            <h3 className="font-black text-xl text-accent">{activeEvent.name}</h3>
+            <p className="text-sm font-medium text-gray-700 leading-snug">
+              {activeEvent.description}
+            </p>
+          </div>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <div className="text-xs font-bold text-accent uppercase tracking-wide">Ends in</div>
+          <div className="text-lg font-black text-orange-600">
+            {formatCountdown(getTimeRemaining(activeEvent, now))}
+          </div>
+        </div>
+      </div>
+
+      {/* Currency */}
+      <div className="flex items-center justify-between gap-2 bg-white rounded-xl px-4 py-2 shadow-sm">
+        <span className="text-2xl font-black text-gray-800">
+          {currency.icon} {formatNumber(progress.currency)}
+        </span>
+        <span className="text-xs font-medium text-gray-600 text-right">
+          1 per {currency.clicksPerUnit} clicks or {currency.secondsPerUnit / 60} min played.
+          <br />
+          Leftovers become {currency.goldenCarrotsPerUnit} 🥕✨ each when the event ends.
+        </span>
+      </div>
+
+      {/* Event crate */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="text-4xl p-3 bg-gradient-to-br from-orange-400 to-orange-600 rounded-2xl shadow-md">
+            {crate.icon}
+          </div>
+          <div>
+            <div className="font-black text-accent">{crate.name}</div>
+            <div className="text-xs font-medium text-gray-600">
+              {activeEvent.rabbits.map((rabbit) => rabbit.name).join(', ')} ·{' '}
+              {Object.entries(crate.dropRates)
+                .filter(([, rate]) => rate > 0)
+                .map(([rarity, rate]) => `${rarity} ${(rate * 100).toFixed(0)}%`)
+                .join(', ')}
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={() => void handleOpen()}
+          disabled={!affordable || isOpening}
+          className={`btn-primary text-sm font-bold px-6 py-3 rounded-xl shadow-md transition-all duration-200 flex-shrink-0 ${
+            affordable && !isOpening ? 'hover:shadow-lg hover:scale-105' : 'opacity-40 cursor-not-allowed'
+          }`}
+        >
+          {isOpening ? 'OPENING...' : `OPEN · ${currency.icon} ${formatNumber(cost)}`}
+        </button>
+      </div>
+
+      <PityCounter
+        cratesSinceEpic={progress.pity.cratesSinceEpic}
+        cratesSinceLegendary={progress.pity.cratesSinceLegendary}
+        cratesSinceMythical={progress.pity.cratesSinceMythical}
+        epicPityThreshold={pityThresholds.epic}
+        legendaryPityThreshold={pityThresholds.legendary}
+        mythicalPityThreshold={pityThresholds.mythical}
+      />
+
+      {/* Event achievements */}
+      <div>
+        <h4 className="text-xs font-black text-accent uppercase tracking-wide mb-2">
+          Event Achievements
+        </h4>
+        <ul className="space-y-1 text-sm">
+          {activeEvent.achievements.map((achievement) => {
+            const isDone = progress.completedAchievements.includes(achievement.id);
+            const current = getEventAchievementProgress(achievement, counts);
+            return (
+              <li key={achievement.id} className="flex items-center justify-between gap-2">
+                <span className={isDone ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                  {achievement.icon} {achievement.name}: {achievement.description}
+                </span>
+                <span className="font-semibold text-gray-800 flex-shrink-0">
+                  {isDone
+                    ? '✓'
+                    : `${formatNumber(current)}/${formatNumber(achievement.requirement.target)}`}{' '}
+                  · {achievement.goldenCarrots} 🥕✨
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {result && (
+        <MotionConfig reducedMotion={reducedMotion ? 'always' : 'user'}>
+          <CrateOpening
+            crate={crate}
+            rabbit={result.rabbit}
+            isDuplicate={result.isDuplicate}
+            xpAmount={result.xpCompensation}
+            onComplete={() => setResult(null)}
+          />
+        </MotionConfig>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
 export { CrateShop } from './CrateShop';
 export { CrateOpening } from './CrateOpening';
+export { CrateMultiOpening } from './CrateMultiOpening';
 export { PityCounter } from './PityCounter';
+export { EventCrateCard } from './EventCrateCard';
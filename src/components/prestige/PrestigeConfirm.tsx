@@ -8,7 +8,7 @@ interface PrestigeConfirmProps {
   newGoldenSeeds: number;
   /** New multiplier after prestige */
   newMultiplier: number;
-  /** Number of Legendary/Mythical rabbits that will be kept */
+  /** Number of Legendary/Mythical and event rabbits that will be kept */
   keptRabbitsCount: number;
   /** Number of rabbits that will be lost */
   lostRabbitsCount: number;
@@ -113,7 +113,7 @@ export function PrestigeConfirm({
                 <li className="flex items-center gap-2">
                   <span className="text-lg">🐰</span>
                   <span className="font-semibold">
-                    {keptRabbitsCount} Legendary/Mythical Rabbits (level 1)
+                    {keptRabbitsCount} Legendary/Mythical/Event Rabbits (level 1)
                   </span>
                 </li>
                 <li className="flex items-center gap-2">
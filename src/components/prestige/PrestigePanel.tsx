@@ -4,13 +4,14 @@ import { usePrestigeStore } from '@/stores/prestigeStore';
 import { useRabbitStore } from '@/stores/rabbitStore';
 import { useAchievementStore } from '@/stores/achievementStore';
 import { ACHIEVEMENTS } from '@/game/data/achievements';
-import { formatNumber } from '@/utils';
+import { bigDivide, bigToNumber, formatNumber } from '@/utils';
 import {
   canPrestige,
   calculatePrestigeReward,
   getPrestigeBonus,
   calculateMultiplierFromSeeds,
   performPrestige,
+  isKeptOnPrestige,
   PRESTIGE_UNLOCK_THRESHOLD,
 } from '@/game/mechanics/prestige';
 import { PrestigeConfirm } from './PrestigeConfirm';
@@ -55,9 +56,7 @@ export function PrestigePanel({ onClose }: PrestigePanelProps) {
 
   // Get what will be kept
   const allRabbits = getOwnedRabbitsArray();
-  const keptRabbits = allRabbits.filter(
-    (rabbit) => rabbit.rarity === 'legendary' || rabbit.rarity === 'mythical'
-  );
+  const keptRabbits = allRabbits.filter(isKeptOnPrestige);
 
   // Handle prestige
   const handlePrestige = async () => {
@@ -125,7 +124,7 @@ export function PrestigePanel({ onClose }: PrestigePanelProps) {
                     You need {formatNumber(PRESTIGE_UNLOCK_THRESHOLD)} lifetime carrots to prestige.
                     <br />
                     Current: {formatNumber(lifetimeCarrots)} (
-                    {((lifetimeCarrots / PRESTIGE_UNLOCK_THRESHOLD) * 100).toFixed(1)}%)
+                    {(bigToNumber(bigDivide(lifetimeCarrots, PRESTIGE_UNLOCK_THRESHOLD)) * 100).toFixed(1)}%)
                   </p>
                 </div>
               </div>
@@ -221,8 +220,8 @@ export function PrestigePanel({ onClose }: PrestigePanelProps) {
               <li className="flex items-center gap-2">
                 <span className="text-xl">🐰</span>
                 <span>
-                  <strong>Rare Rabbits:</strong> {keptRabbits.length} Legendary/Mythical rabbits
-                  (reset to level 1)
+                  <strong>Rare Rabbits:</strong> {keptRabbits.length} Legendary/Mythical and
+                  event rabbits (reset to level 1)
                 </span>
               </li>
               <li className="flex items-center gap-2">
@@ -251,7 +250,7 @@ export function PrestigePanel({ onClose }: PrestigePanelProps) {
               <li className="flex items-center gap-2">
                 <span className="text-xl">🐰</span>
                 <span>
-                  <strong>Common/Uncommon/Rare/Epic Rabbits</strong> (
+                  <strong>Other Common/Uncommon/Rare/Epic Rabbits</strong> (
                   {allRabbits.length - keptRabbits.length} rabbits)
                 </span>
               </li>
@@ -0,0 +1,154 @@
+import { useEffect } from 'react';
+import { useQuestStore, QUEST_PERIODS, type ActiveQuest } from '@/stores/questStore';
+import { useGameStore } from '@/stores/gameStore';
+import { getQuestById } from '@/game/data/quests';
+import { getNextQuestPeriodStart, getQuestRerollCost } from '@/game/systems/quests';
+import type { QuestPeriod } from '@/types/quest';
+import { formatNumber } from '@/utils';
+
+/**
+ * How often an open panel checks whether a board has refreshed
+ */
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const PERIOD_LABELS: Record<QuestPeriod, string> = {
+  daily: 'Daily Quests',
+  weekly: 'Weekly Quests',
+};
+
+/**
+ * Format the time until a board refreshes
+ * @param ms - Time left in milliseconds
+ * @returns Formatted time (e.g., "3d 4h", "2h 15m", "5m")
+ */
+function formatTimeLeft(ms: number): string {
+  const minutes = Math.max(Math.ceil(ms / 60000), 1);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+interface QuestRowProps {
+  quest: ActiveQuest;
+  rerollCost: number;
+  canAffordReroll: boolean;
+  onClaim: () => void;
+  onReroll: () => void;
+}
+
+/**
+ * One quest with its progress bar and claim/reroll button
+ */
+function QuestRow({ quest, rerollCost, canAffordReroll, onClaim, onReroll }: QuestRowProps) {
+  const data = getQuestById(quest.questId);
+  if (!data) {
+    return null;
+  }
+
+  const { target } = data.objective;
+  const isComplete = quest.progress >= target;
+
+  return (
+    <li
+      className={`rounded-lg border-2 p-2 ${
+        quest.claimed ? 'border-gray-100 opacity-60' : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-semibold text-gray-800">
+          {data.icon} {data.description}
+        </span>
+        <span className="text-yellow-600 font-bold flex-shrink-0">+{data.goldenCarrots} 🥕✨</span>
+      </div>
+      <div className="mt-1 flex items-center gap-2">
+        <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+          <div
+            className="bg-gradient-to-r from-green-400 to-green-600 h-full transition-all duration-300"
+            style={{ width: `${Math.min((quest.progress / target) * 100, 100)}%` }}
+          />
+        </div>
+        <span className="text-xs text-gray-600 flex-shrink-0">
+          {formatNumber(Math.floor(quest.progress))}/{formatNumber(target)}
+        </span>
+        {quest.claimed ? (
+          <span className="text-xs font-bold text-green-600">✓ Claimed</span>
+        ) : isComplete ? (
+          <button
+            onClick={onClaim}
+            className="text-xs font-bold px-3 py-1 rounded-lg bg-green-500 text-white hover:bg-green-600 transition-colors"
+          >
+            Claim
+          </button>
+        ) : (
+          <button
+            onClick={onReroll}
+            disabled={!canAffordReroll}
+            title={`Swap for another quest for ${rerollCost} Golden Carrots`}
+            className="text-xs font-bold px-3 py-1 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            🎲 {rerollCost}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * QuestPanel Component
+ * Shows the daily and weekly quest boards with progress, rewards to claim,
+ * rerolls and the time until each board refreshes
+ */
+export function QuestPanel() {
+  const boards = useQuestStore((state) => state.boards);
+  const refreshQuests = useQuestStore((state) => state.refreshQuests);
+  const claimQuest = useQuestStore((state) => state.claimQuest);
+  const rerollQuest = useQuestStore((state) => state.rerollQuest);
+  const goldenCarrots = useGameStore((state) => state.goldenCarrots);
+
+  // Draw boards on first view and whenever a period ends while the game is open
+  useEffect(() => {
+    refreshQuests();
+    const intervalId = setInterval(refreshQuests, REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [refreshQuests]);
+
+  const now = Date.now();
+
+  return (
+    <div className="card space-y-4">
+      <h3 className="text-xl font-black text-gray-800">Quests</h3>
+
+      {QUEST_PERIODS.map((period) => {
+        const board = boards[period];
+        const rerollCost = getQuestRerollCost(period, board.rerolls);
+
+        return (
+          <section key={period}>
+            <div className="flex items-baseline justify-between gap-2 mb-2">
+              <h4 className="text-sm font-bold text-gray-700">{PERIOD_LABELS[period]}</h4>
+              <span className="text-xs text-gray-500">
+                New in {formatTimeLeft(getNextQuestPeriodStart(period, now) - now)}
+              </span>
+            </div>
+            <ul className="space-y-2">
+              {board.quests.map((quest, index) => (
+                <QuestRow
+                  key={`${quest.questId}-${index}`}
+                  quest={quest}
+                  rerollCost={rerollCost}
+                  canAffordReroll={goldenCarrots >= rerollCost}
+                  onClaim={() => claimQuest(period, index)}
+                  onReroll={() => rerollQuest(period, index)}
+                />
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
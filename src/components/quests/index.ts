@@ -0,0 +1 @@
+export { QuestPanel } from './QuestPanel';
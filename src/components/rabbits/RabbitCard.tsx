@@ -1,6 +1,14 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import type { Rabbit, Rarity } from '@/types/rabbit';
+import { useRabbitStore } from '@/stores/rabbitStore';
+import {
+  calculateRabbitCPS,
+  getAbilityCooldownRemaining,
+  getAbilityTiming,
+  isAbilityInEffect,
+} from '@/game/systems/abilities';
+import { getLevelCap, getXPForNextLevel, getXPToNextLevel, isMaxLevel } from '@/game/systems/leveling';
 import { formatNumber } from '@/utils';
 
 interface RabbitCardProps {
@@ -61,21 +69,18 @@ function getRarityBgColor(rarity: Rarity): string {
 }
 
 /**
- * Calculate current CPS for this rabbit based on level and ability
+ * Get a short label for what an ability does
  */
-function calculateRabbitCPS(rabbit: Rabbit): number {
-  let cps = rabbit.baseCPS;
-
-  // Apply level scaling (+10% per level)
-  const levelMultiplier = 1 + (rabbit.level - 1) * 0.1;
-  cps *= levelMultiplier;
-
-  // Apply ability bonus if it affects CPS
-  if (rabbit.ability && rabbit.ability.target === 'cps') {
-    cps *= (1 + rabbit.ability.value / 100);
-  }
-
-  return cps;
+function getAbilityEffectLabel(target: NonNullable<Rabbit['ability']>['target'], value: number): string {
+  const labels: Record<NonNullable<Rabbit['ability']>['target'], string> = {
+    cps: `+${value}% own CPS`,
+    click_power: `+${value}% click power`,
+    cost_reduction: `-${value}% costs`,
+    drop_rate: `+${value}% rare drop luck`,
+    offline_earnings: `+${value}% offline efficiency`,
+    all: `+${value}% all production`,
+  };
+  return labels[target];
 }
 
 /**
@@ -90,12 +95,59 @@ export function RabbitCard({
   className = '',
 }: RabbitCardProps) {
   const [showTooltip, setShowTooltip] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const activatedAt = useRabbitStore((state) => state.abilityActivations[rabbit.id]);
+  const activateAbility = useRabbitStore((state) => state.activateAbility);
+  const rabbitXP = useRabbitStore((state) => state.rabbitXP);
+  const levelUpRabbit = useRabbitStore((state) => state.levelUpRabbit);
+  const investXP = useRabbitStore((state) => state.investXP);
 
   const borderColor = getRarityBorderColor(rabbit.rarity);
   const textColor = getRarityTextColor(rabbit.rarity);
   const bgColor = getRarityBgColor(rabbit.rarity);
 
-  const currentCPS = calculateRabbitCPS(rabbit);
+  const ability = rabbit.ability;
+  const isTimedAbility = isActive && !!ability && ability.type !== 'passive';
+
+  // Tick once per second while a timed ability is shown so status and cooldown stay current
+  useEffect(() => {
+    if (!isTimedAbility) {
+      return;
+    }
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isTimedAbility]);
+
+  // Abilities only apply while the rabbit is in the active team
+  const abilityInEffect =
+    isActive && !!ability && isAbilityInEffect(ability, activatedAt, now, rabbit.obtainedAt);
+  const cooldownRemaining = ability ? getAbilityCooldownRemaining(ability, activatedAt, now) : 0;
+  const currentCPS = calculateRabbitCPS(rabbit, abilityInEffect ? 1 : 0);
+
+  // Leveling
+  const levelCap = getLevelCap(rabbit.rarity);
+  const atMaxLevel = isMaxLevel(rabbit);
+  const xpForNextLevel = getXPForNextLevel(rabbit.rarity, rabbit.level);
+  const xpToNextLevel = getXPToNextLevel(rabbit);
+  const levelProgress = xpForNextLevel > 0 ? (rabbit.experience / xpForNextLevel) * 100 : 100;
+
+  const handleLevelUp = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    levelUpRabbit(rabbit.id);
+  };
+
+  const handleInvestAll = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    investXP(rabbit.id, rabbitXP);
+  };
+
+  const handleActivate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (activateAbility(rabbit.id)) {
+      setNow(Date.now());
+    }
+  };
 
   return (
     <motion.div
@@ -149,11 +201,48 @@ export function RabbitCard({
         {isOwned && (
           <>
             {/* Level */}
-            <div className="flex justify-between items-center text-sm mb-2">
+            <div className="flex justify-between items-center text-sm mb-1">
               <span className="text-gray-600">Level</span>
-              <span className="font-semibold">{rabbit.level}</span>
+              <span className="font-semibold">
+                {rabbit.level} / {levelCap}
+              </span>
             </div>
 
+            {/* XP Progress & Level Up */}
+            {atMaxLevel ? (
+              <div className="text-xs font-bold text-center text-yellow-600 mb-2">MAX LEVEL</div>
+            ) : (
+              <div className="mb-2">
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden mb-1">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${levelProgress}%` }}
+                  />
+                </div>
+                <div className="text-xs text-gray-500 text-right mb-1">
+                  {formatNumber(rabbit.experience)} / {formatNumber(xpForNextLevel)} XP
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={handleLevelUp}
+                    disabled={rabbitXP < xpToNextLevel}
+                    className="flex-1 px-2 py-1 rounded text-xs font-bold transition-colors bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-300 disabled:text-gray-600 disabled:cursor-not-allowed"
+                    title={`Spend ${formatNumber(xpToNextLevel)} XP to reach level ${rabbit.level + 1}`}
+                  >
+                    Level Up ({formatNumber(xpToNextLevel)} XP)
+                  </button>
+                  <button
+                    onClick={handleInvestAll}
+                    disabled={rabbitXP <= 0}
+                    className="px-2 py-1 rounded text-xs font-bold transition-colors bg-blue-100 hover:bg-blue-200 text-blue-700 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+                    title="Invest all pooled XP"
+                  >
+                    All
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Carrots/s Contribution */}
             <div className="flex justify-between items-center text-sm mb-2">
               <span className="text-gray-600">Carrots/s</span>
@@ -174,12 +263,29 @@ export function RabbitCard({
                 role="button"
                 aria-label={`Ability: ${rabbit.ability.name}`}
               >
-                <div className="flex items-center gap-2">
+                <div className="flex items-center justify-between gap-2">
                   <span className="text-sm font-semibold text-purple-600">
                     ⚡ {rabbit.ability.name}
                   </span>
+                  {abilityInEffect && rabbit.ability.type !== 'passive' && (
+                    <span className="text-xs font-bold text-green-600">ON</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {getAbilityEffectLabel(rabbit.ability.target, rabbit.ability.value)}
                 </div>
 
+                {/* Activate button for active abilities */}
+                {isActive && rabbit.ability.type === 'active' && (
+                  <button
+                    onClick={handleActivate}
+                    disabled={cooldownRemaining > 0}
+                    className="mt-2 w-full px-2 py-1 rounded text-xs font-bold transition-colors bg-purple-600 hover:bg-purple-700 text-white disabled:bg-gray-300 disabled:text-gray-600 disabled:cursor-not-allowed"
+                  >
+                    {cooldownRemaining > 0 ? `Ready in ${Math.ceil(cooldownRemaining)}s` : 'Activate'}
+                  </button>
+                )}
+
                 {/* Tooltip */}
                 {showTooltip && (
                   <div
@@ -190,8 +296,10 @@ export function RabbitCard({
                     <div className="text-gray-300">{rabbit.ability.description}</div>
                     <div className="mt-1 text-purple-300">
                       {rabbit.ability.type === 'passive' && '🔄 Passive'}
-                      {rabbit.ability.type === 'active' && '⚡ Active'}
-                      {rabbit.ability.type === 'conditional' && '✨ Conditional'}
+                      {rabbit.ability.type === 'active' &&
+                        `⚡ Active: lasts ${getAbilityTiming(rabbit.ability).duration}s, ${getAbilityTiming(rabbit.ability).cooldown}s cooldown`}
+                      {rabbit.ability.type === 'conditional' &&
+                        `✨ Conditional: ${getAbilityTiming(rabbit.ability).duration}s every ${getAbilityTiming(rabbit.ability).cooldown}s`}
                     </div>
                   </div>
                 )}
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { useRabbitStore } from '@/stores/rabbitStore';
 import { RABBITS } from '@/game/data/rabbits';
+import { EVENT_RABBITS } from '@/game/data/events';
 import { RabbitCard } from './RabbitCard';
 import type { Rarity, Rabbit } from '@/types/rabbit';
 
@@ -27,9 +28,15 @@ export function RabbitCollection() {
   const [selectedRarity, setSelectedRarity] = useState<Rarity | 'all'>('all');
   const [sortBy, setSortBy] = useState<SortOption>('rarity');
 
+  // Event rabbits are listed once owned, since they cannot be obtained outside their event
+  const collectableRabbits = useMemo(
+    () => [...RABBITS, ...EVENT_RABBITS.filter((rabbit) => ownedRabbits.has(rabbit.id))],
+    [ownedRabbits]
+  );
+
   // Convert all game rabbits to display format
   const allRabbits = useMemo(() => {
-    return RABBITS.map((rabbitData) => {
+    return collectableRabbits.map((rabbitData) => {
       const ownedRabbit = ownedRabbits.get(rabbitData.id);
 
       if (ownedRabbit) {
@@ -46,7 +53,7 @@ export function RabbitCollection() {
         } as Rabbit;
       }
     });
-  }, [ownedRabbits]);
+  }, [collectableRabbits, ownedRabbits]);
 
   // Filter by rarity
   const filteredRabbits = useMemo(() => {
@@ -94,7 +101,7 @@ export function RabbitCollection() {
 
   // Count owned rabbits
   const ownedCount = ownedRabbits.size;
-  const totalCount = RABBITS.length;
+  const totalCount = collectableRabbits.length;
 
   return (
     <div className="flex flex-col gap-6">
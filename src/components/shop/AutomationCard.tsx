@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import type { Automation } from '@/types/upgrade';
+import { getAutomationBudgetCurrency } from '@/game/mechanics/automation';
+import { formatNumber } from '@/utils';
+
+interface AutomationCardProps {
+  automation: Automation;
+  /** Current budget reserve (only used when purchased) */
+  reserve: number;
+  isAffordable: boolean;
+  onPurchase: (automationId: string) => void;
+  onToggle: (automationId: string) => void;
+  onReserveChange: (automationId: string, reserve: number) => void;
+}
+
+/**
+ * Get a short label for what an automation does
+ */
+function getEffectLabel(automation: Automation): string {
+  const seconds = automation.effect.interval / 1000;
+  const every = seconds === 1 ? 'every second' : `every ${seconds}s`;
+
+  switch (automation.effect.type) {
+    case 'auto_click':
+      return `${automation.effect.value} click ${every}`;
+    case 'auto_buy_upgrade':
+      return `${automation.effect.value} upgrade ${every}`;
+    case 'auto_buy_building':
+      return `${automation.effect.value} building ${every}`;
+    case 'auto_open_crate':
+      return `${automation.effect.value} crate ${every}`;
+  }
+}
+
+/**
+ * AutomationCard Component
+ * Displays an automation with purchase button, enable toggle, and budget limit
+ */
+export function AutomationCard({
+  automation,
+  reserve,
+  isAffordable,
+  onPurchase,
+  onToggle,
+  onReserveChange,
+}: AutomationCardProps) {
+  const [reserveInput, setReserveInput] = useState(String(reserve));
+  const budgetCurrency = getAutomationBudgetCurrency(automation);
+  const usesGoldenCarrots = automation.cost.goldenCarrots !== undefined;
+  const cost = automation.cost.goldenCarrots ?? automation.cost.carrots ?? 0;
+
+  /**
+   * Apply the reserve input when the field loses focus
+   * Invalid input is reverted to the current reserve
+   */
+  const handleReserveBlur = () => {
+    const value = Number(reserveInput);
+    if (Number.isFinite(value) && value >= 0) {
+      onReserveChange(automation.id, Math.floor(value));
+      setReserveInput(String(Math.floor(value)));
+    } else {
+      setReserveInput(String(reserve));
+    }
+  };
+
+  return (
+    <div
+      className={`card transition-all duration-200 border-2 ${
+        automation.isPurchased && automation.isEnabled ? 'border-green-400' : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-4">
+        {/* Info */}
+        <div className="flex-1">
+          <h3 className="font-black text-xl text-accent mb-1">{automation.name}</h3>
+          <p className="text-sm font-medium text-gray-700 leading-snug">{automation.description}</p>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            <span className="inline-flex items-center gap-2 bg-gradient-to-r from-purple-500 to-purple-600 text-white text-sm font-bold px-4 py-2 rounded-xl shadow-sm">
+              <span className="text-lg">🤖</span>
+              <span>{getEffectLabel(automation)}</span>
+            </span>
+          </div>
+
+          {/* Budget Limit */}
+          {automation.isPurchased && budgetCurrency && (
+            <label className="mt-3 flex items-center gap-2 text-sm font-bold text-accent">
+              <span>Keep at least</span>
+              <input
+                type="number"
+                min={0}
+                value={reserveInput}
+                onChange={(e) => setReserveInput(e.target.value)}
+                onBlur={handleReserveBlur}
+                className="w-32 px-2 py-1 border-2 border-gray-300 rounded-lg text-right"
+                aria-label={`Budget reserve for ${automation.name}`}
+              />
+              <span>{budgetCurrency === 'goldenCarrots' ? '🥇' : '🥕'}</span>
+            </label>
+          )}
+        </div>
+
+        {/* Purchase / Toggle */}
+        <div className="flex flex-col items-end gap-3 flex-shrink-0">
+          {automation.isPurchased ? (
+            <button
+              onClick={() => onToggle(automation.id)}
+              role="switch"
+              aria-checked={automation.isEnabled}
+              className={`px-5 py-3 rounded-xl text-sm font-bold shadow-md transition-colors ${
+                automation.isEnabled
+                  ? 'bg-green-500 hover:bg-green-600 text-white'
+                  : 'bg-gray-300 hover:bg-gray-400 text-gray-700'
+              }`}
+            >
+              {automation.isEnabled ? 'ON' : 'OFF'}
+            </button>
+          ) : (
+            <>
+              <div className="text-right">
+                <div className="text-xs font-bold text-accent uppercase tracking-wide mb-1">
+                  Cost
+                </div>
+                <div
+                  className={`font-black text-2xl flex items-center gap-2 ${
+                    isAffordable ? (usesGoldenCarrots ? 'text-primary' : 'text-carrot') : 'text-gray-400'
+                  }`}
+                >
+                  <span className="text-xl">{usesGoldenCarrots ? '🥇' : '🥕'}</span>
+                  <span>{formatNumber(cost)}</span>
+                </div>
+              </div>
+              <button
+                onClick={() => onPurchase(automation.id)}
+                disabled={!isAffordable}
+                className={`btn-primary px-6 py-3 rounded-xl font-bold shadow-md transition-all ${
+                  isAffordable ? 'hover:shadow-lg hover:scale-105' : 'opacity-40 cursor-not-allowed'
+                }`}
+              >
+                Buy
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import type { BuildingData } from '@/game/data/buildings';
-import { calculateBuildingCost } from '@/game/data/buildings';
-import { formatNumber } from '@/utils';
+import { bigSubtract, formatNumber, type BigNumber } from '@/utils';
 
 interface BuildingCardProps {
   building: BuildingData;
   ownedCount: number;
-  currentCarrots: number;
+  /** Number of buildings the buy button purchases */
+  quantity: number;
+  /** Cost of the next `quantity` buildings (after cost reduction) */
+  currentCost: BigNumber;
+  currentCarrots: BigNumber;
   isAffordable: boolean;
   isUnlocked: boolean;
   onPurchase: (buildingId: string) => void;
@@ -18,15 +21,16 @@ interface BuildingCardProps {
 export function BuildingCard({
   building,
   ownedCount,
+  quantity,
+  currentCost,
   currentCarrots,
   isAffordable,
   isUnlocked,
   onPurchase,
 }: BuildingCardProps) {
   const canPurchase = isAffordable && isUnlocked;
-  const currentCost = calculateBuildingCost(building, ownedCount);
   const totalCPS = building.baseCPS * ownedCount;
-  const carrotDeficit = currentCost - currentCarrots;
+  const carrotDeficit = bigSubtract(currentCost, currentCarrots);
 
   return (
     <div
@@ -138,7 +142,7 @@ export function BuildingCard({
                 : 'opacity-40 cursor-not-allowed'
             }`}
           >
-            BUY
+            {quantity > 1 ? `BUY x${formatNumber(quantity)}` : 'BUY'}
           </button>
 
           {!isAffordable && isUnlocked && (
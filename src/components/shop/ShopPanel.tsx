@@ -2,21 +2,30 @@ import { useState } from 'react';
 import { useGameStore } from '@/stores/gameStore';
 import { useUpgradeStore } from '@/stores/upgradeStore';
 import { useRabbitStore } from '@/stores/rabbitStore';
+import { useAutomationStore } from '@/stores/automationStore';
 import { getClickUpgrades, getAutoClickerUpgrades, getCPSMultiplierUpgrades, getSpecialUpgrades } from '@/game/data/upgrades';
 import { getCommonRabbits } from '@/game/data/rabbits';
-import { BUILDINGS, getUnlockedBuildings, calculateBuildingCost } from '@/game/data/buildings';
+import { BUILDINGS, getUnlockedBuildings } from '@/game/data/buildings';
 import { RABBIT_PURCHASE_COST } from '@/game/data/constants';
 import { UpgradeCard } from './UpgradeCard';
 import { RabbitCard } from './RabbitCard';
 import { BuildingCard } from './BuildingCard';
+import { AutomationCard } from './AutomationCard';
 import { CrateShop } from '@/components/crates';
 import { playSound } from '@/utils/sounds';
-import { formatNumber } from '@/utils';
+import { gameBus } from '@/services/gameBus';
+import { bigFloor, bigGte, bigLt, formatNumber } from '@/utils';
+import type { BuyQuantity } from '@/types/upgrade';
 
 interface ShopPanelProps {
   onPurchase?: () => void;
 }
 
+/**
+ * Building buy quantity options
+ */
+const BUY_QUANTITIES: BuyQuantity[] = [1, 10, 100, 'max'];
+
 /**
  * ShopPanel Component
  * Displays available upgrades and handles purchases
@@ -28,13 +37,28 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
     canAfford,
     isPurchased,
     checkRequirements,
-    purchaseBuilding,
+    purchaseBuildings,
     getBuildingCount,
+    getBulkBuildingCost,
+    getMaxAffordableBuildings,
+    getUpgradeCost,
   } = useUpgradeStore();
   const { addRabbit, ownedRabbits } = useRabbitStore();
+  const {
+    automations: automationSettings,
+    getAutomations,
+    purchaseAutomation,
+    toggleAutomation,
+    setReserve,
+  } = useAutomationStore();
 
   // Tab state
-  const [activeTab, setActiveTab] = useState<'upgrades' | 'buildings' | 'crates' | 'rabbits'>('upgrades');
+  const [activeTab, setActiveTab] = useState<
+    'upgrades' | 'buildings' | 'automation' | 'crates' | 'rabbits'
+  >('upgrades');
+
+  // Building buy quantity
+  const [buyQuantity, setBuyQuantity] = useState<BuyQuantity>(1);
 
   const clickUpgrades = getClickUpgrades();
   const autoClickerUpgrades = getAutoClickerUpgrades();
@@ -47,7 +71,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
     const success = purchaseUpgrade(upgradeId);
     if (success) {
       // Play purchase sound
-      playSound('/assets/sounds/purchase.mp3', { volume: 0.4 });
+      playSound('/assets/sounds/purchase.mp3', { volume: 0.4, category: 'purchase' });
 
       // Trigger save after successful purchase
       onPurchase?.();
@@ -70,7 +94,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
     }
 
     // Check if can afford
-    if (carrots < RABBIT_PURCHASE_COST) {
+    if (bigLt(carrots, RABBIT_PURCHASE_COST)) {
       return;
     }
 
@@ -91,25 +115,47 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
 
     // Add rabbit to collection
     addRabbit(newRabbit);
+    gameBus.emit('RabbitObtained', { rabbit: newRabbit, isDuplicate: false, xpCompensation: 0 });
 
     // Play purchase sound
-    playSound('/assets/sounds/purchase.mp3', { volume: 0.4 });
+    playSound('/assets/sounds/purchase.mp3', { volume: 0.4, category: 'purchase' });
 
     // Trigger save after successful purchase
     onPurchase?.();
   };
 
+  /**
+   * Resolve the selected buy quantity for a building
+   * 'max' resolves to the affordable amount (at least 1, so the next unit's cost is shown)
+   */
+  const getBuyQuantity = (buildingId: string): number => {
+    return buyQuantity === 'max' ? Math.max(1, getMaxAffordableBuildings(buildingId)) : buyQuantity;
+  };
+
   /**
    * Handle building purchase
    */
   const handleBuildingPurchase = (buildingId: string) => {
-    const success = purchaseBuilding(buildingId);
+    const success = purchaseBuildings(buildingId, getBuyQuantity(buildingId));
     if (success) {
       // Trigger save after successful purchase
       onPurchase?.();
     }
   };
 
+  /**
+   * Handle automation purchase
+   */
+  const handleAutomationPurchase = (automationId: string) => {
+    const success = purchaseAutomation(automationId);
+    if (success) {
+      playSound('/assets/sounds/purchase.mp3', { volume: 0.4, category: 'purchase' });
+
+      // Trigger save after successful purchase
+      onPurchase?.();
+    }
+  };
+
   return (
     <div className="flex flex-col gap-6">
       {/* Shop Header - Rounded card design */}
@@ -125,7 +171,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
               Your Carrots
             </div>
             <div className="text-3xl font-black text-accent">
-              {formatNumber(Math.floor(carrots))}
+              {formatNumber(bigFloor(carrots))}
             </div>
           </div>
         </div>
@@ -152,6 +198,16 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
           >
             🏭 Buildings
           </button>
+          <button
+            onClick={() => setActiveTab('automation')}
+            className={`px-6 py-3 rounded-2xl font-bold transition-all whitespace-nowrap shadow-sm ${
+              activeTab === 'automation'
+                ? 'bg-accent text-white'
+                : 'bg-white text-accent hover:bg-cream'
+            }`}
+          >
+            🤖 Automation
+          </button>
           <button
             onClick={() => setActiveTab('crates')}
             className={`px-6 py-3 rounded-2xl font-bold transition-all whitespace-nowrap shadow-sm ${
@@ -189,7 +245,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
             </div>
 
             {clickUpgrades.map((upgrade) => {
-              const affordable = canAfford(upgrade.currentCost);
+              const affordable = canAfford(getUpgradeCost(upgrade.id));
               const purchased = isPurchased(upgrade.id);
               const requirementsMet = checkRequirements(upgrade.id);
 
@@ -197,6 +253,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
                 <UpgradeCard
                   key={upgrade.id}
                   upgrade={upgrade}
+                  cost={getUpgradeCost(upgrade.id)}
                   isAffordable={affordable}
                   isPurchased={purchased}
                   onPurchase={handlePurchase}
@@ -217,7 +274,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
             </div>
 
             {autoClickerUpgrades.map((upgrade) => {
-              const affordable = canAfford(upgrade.currentCost);
+              const affordable = canAfford(getUpgradeCost(upgrade.id));
               const purchased = isPurchased(upgrade.id);
               const requirementsMet = checkRequirements(upgrade.id);
 
@@ -225,6 +282,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
                 <UpgradeCard
                   key={upgrade.id}
                   upgrade={upgrade}
+                  cost={getUpgradeCost(upgrade.id)}
                   isAffordable={affordable}
                   isPurchased={purchased}
                   onPurchase={handlePurchase}
@@ -245,7 +303,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
             </div>
 
             {cpsMultiplierUpgrades.map((upgrade) => {
-              const affordable = canAfford(upgrade.currentCost);
+              const affordable = canAfford(getUpgradeCost(upgrade.id));
               const purchased = isPurchased(upgrade.id);
               const requirementsMet = checkRequirements(upgrade.id);
 
@@ -253,6 +311,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
                 <UpgradeCard
                   key={upgrade.id}
                   upgrade={upgrade}
+                  cost={getUpgradeCost(upgrade.id)}
                   isAffordable={affordable}
                   isPurchased={purchased}
                   onPurchase={handlePurchase}
@@ -275,7 +334,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
             {specialUpgrades.map((upgrade) => {
               const affordable = upgrade.goldenCarrotCost
                 ? goldenCarrots >= upgrade.goldenCarrotCost
-                : canAfford(upgrade.currentCost);
+                : canAfford(getUpgradeCost(upgrade.id));
               const purchased = isPurchased(upgrade.id);
               const requirementsMet = checkRequirements(upgrade.id);
 
@@ -283,6 +342,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
                 <UpgradeCard
                   key={upgrade.id}
                   upgrade={upgrade}
+                  cost={getUpgradeCost(upgrade.id)}
                   isAffordable={affordable}
                   isPurchased={purchased}
                   onPurchase={handlePurchase}
@@ -308,10 +368,30 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
             Automated carrot production facilities. Each building generates carrots per second!
           </p>
 
+          {/* Buy Quantity Selector */}
+          <div className="flex justify-center gap-2" role="radiogroup" aria-label="Buy quantity">
+            {BUY_QUANTITIES.map((quantity) => (
+              <button
+                key={quantity}
+                onClick={() => setBuyQuantity(quantity)}
+                role="radio"
+                aria-checked={buyQuantity === quantity}
+                className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+                  buyQuantity === quantity
+                    ? 'bg-blue-500 text-white shadow-md'
+                    : 'bg-white text-accent border-2 border-gray-200 hover:border-blue-400'
+                }`}
+              >
+                {quantity === 'max' ? 'Max' : `x${quantity}`}
+              </button>
+            ))}
+          </div>
+
           {BUILDINGS.map((building) => {
             const ownedCount = getBuildingCount(building.id);
-            const currentCost = calculateBuildingCost(building, ownedCount);
-            const affordable = carrots >= currentCost;
+            const quantity = getBuyQuantity(building.id);
+            const currentCost = getBulkBuildingCost(building.id, quantity);
+            const affordable = bigGte(carrots, currentCost);
             const isUnlocked = unlockedBuildings.some((b) => b.id === building.id);
 
             return (
@@ -319,6 +399,8 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
                 key={building.id}
                 building={building}
                 ownedCount={ownedCount}
+                quantity={quantity}
+                currentCost={currentCost}
                 currentCarrots={carrots}
                 isAffordable={affordable}
                 isUnlocked={isUnlocked}
@@ -329,6 +411,40 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
         </div>
       )}
 
+      {/* Automation Tab */}
+      {activeTab === 'automation' && (
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center gap-3">
+            <div className="h-1 bg-gradient-to-r from-transparent via-purple-400 to-transparent flex-1 rounded-full"></div>
+            <h3 className="text-base font-black text-accent uppercase tracking-wider px-4 py-2 bg-white rounded-2xl shadow-bold border-2 border-purple-400">
+              Automation
+            </h3>
+            <div className="h-1 bg-gradient-to-r from-transparent via-purple-400 to-transparent flex-1 rounded-full"></div>
+          </div>
+          <p className="text-sm font-bold text-accent text-center mb-2 bg-white rounded-2xl px-4 py-3 shadow-md border-2 border-cream">
+            Helpers that click, buy and open crates for you. Set a budget so they never spend below what you want to keep!
+          </p>
+
+          {getAutomations().map((automation) => {
+            const affordable =
+              bigGte(carrots, automation.cost.carrots ?? 0) &&
+              (automation.cost.goldenCarrots ?? 0) <= goldenCarrots;
+
+            return (
+              <AutomationCard
+                key={automation.id}
+                automation={automation}
+                reserve={automationSettings[automation.id]?.reserve ?? 0}
+                isAffordable={affordable}
+                onPurchase={handleAutomationPurchase}
+                onToggle={toggleAutomation}
+                onReserveChange={setReserve}
+              />
+            );
+          })}
+        </div>
+      )}
+
       {/* Crates Tab */}
       {activeTab === 'crates' && <CrateShop />}
 
@@ -347,7 +463,7 @@ export function ShopPanel({ onPurchase }: ShopPanelProps) {
           </p>
 
           {commonRabbits.map((rabbitData) => {
-            const affordable = carrots >= RABBIT_PURCHASE_COST;
+            const affordable = bigGte(carrots, RABBIT_PURCHASE_COST);
             const owned = ownedRabbits.has(rabbitData.id);
 
             return (
@@ -3,6 +3,8 @@ import { formatNumber } from '@/utils';
 
 interface UpgradeCardProps {
   upgrade: Upgrade;
+  /** Carrot cost after cost reduction */
+  cost: number;
   isAffordable: boolean;
   isPurchased: boolean;
   onPurchase: (upgradeId: string) => void;
@@ -15,6 +17,7 @@ interface UpgradeCardProps {
  */
 export function UpgradeCard({
   upgrade,
+  cost,
   isAffordable,
   isPurchased,
   onPurchase,
@@ -115,7 +118,7 @@ export function UpgradeCard({
               ) : (
                 <>
                   <span className="text-xl">🥕</span>
-                  <span>{formatNumber(upgrade.currentCost)}</span>
+                  <span>{formatNumber(cost)}</span>
                 </>
               )}
             </div>
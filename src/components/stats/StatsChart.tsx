@@ -0,0 +1,112 @@
+import { bigLog10, bigLt, formatNumber, type BigNumber } from '@/utils';
+
+/**
+ * One point of a chart series
+ */
+export interface StatsChartPoint {
+  /** Timestamp of the point */
+  time: number;
+  value: BigNumber;
+}
+
+interface StatsChartProps {
+  title: string;
+  points: StatsChartPoint[];
+  /** Tailwind stroke class for the line (e.g. "stroke-green-500") */
+  lineClassName: string;
+  /** Timestamps drawn as vertical markers (e.g. prestiges) */
+  markers?: number[];
+}
+
+/**
+ * Drawing area in SVG units; the chart scales to its container width
+ */
+const WIDTH = 300;
+const HEIGHT = 100;
+
+/**
+ * Position on the log scale (values below 1 sit on the baseline)
+ */
+function logValue(value: BigNumber): number {
+  return bigLt(value, 1) ? 0 : bigLog10(value);
+}
+
+/**
+ * StatsChart Component
+ * Line chart of a sampled big number series on a log scale,
+ * since production grows by orders of magnitude over a run
+ */
+export function StatsChart({ title, points, lineClassName, markers = [] }: StatsChartProps) {
+  if (points.length < 2) {
+    return (
+      <div>
+        <h4 className="text-sm font-bold text-gray-700 mb-1">{title}</h4>
+        <p className="text-xs text-gray-500 italic">
+          Not enough data yet. A sample is taken every minute of play.
+        </p>
+      </div>
+    );
+  }
+
+  const startTime = points[0].time;
+  const timeSpan = Math.max(points[points.length - 1].time - startTime, 1);
+  const logs = points.map((point) => logValue(point.value));
+  const minLog = Math.min(...logs);
+  const logSpan = Math.max(Math.max(...logs) - minLog, 1);
+
+  const x = (time: number) => ((time - startTime) / timeSpan) * WIDTH;
+  const y = (log: number) => HEIGHT - ((log - minLog) / logSpan) * HEIGHT;
+
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.time)},${y(logs[index])}`)
+    .join(' ');
+
+  const maxPoint = points[logs.indexOf(Math.max(...logs))];
+  const minPoint = points[logs.indexOf(minLog)];
+  const visibleMarkers = markers.filter(
+    (time) => time >= startTime && time <= startTime + timeSpan
+  );
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <h4 className="text-sm font-bold text-gray-700">{title}</h4>
+        <span className="text-xs text-gray-500">
+          {formatNumber(minPoint.value)} – {formatNumber(maxPoint.value)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${title} chart`}
+        className="w-full h-24 bg-gray-50 rounded border border-gray-200"
+      >
+        {visibleMarkers.map((time) => (
+          <line
+            key={time}
+            x1={x(time)}
+            x2={x(time)}
+            y1={0}
+            y2={HEIGHT}
+            className="stroke-purple-400"
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <path
+          d={path}
+          fill="none"
+          className={lineClassName}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-0.5">
+        <span>{new Date(startTime).toLocaleString()}</span>
+        <span>{new Date(startTime + timeSpan).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+}
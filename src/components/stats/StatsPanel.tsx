@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useStatsStore, type RunStats } from '@/stores/statsStore';
+import { useGameStore } from '@/stores/gameStore';
+import { CRATE_TYPES } from '@/game/data/crates';
+import { formatNumber } from '@/utils';
+import { StatsChart } from './StatsChart';
+
+type StatsView = 'run' | 'allTime';
+
+/**
+ * Finished runs listed under the prestige history
+ */
+const LISTED_PRESTIGE_RUNS = 5;
+
+/**
+ * Format seconds into a human-readable duration
+ * @param seconds - Duration in seconds
+ * @returns Formatted duration (e.g., "2d 4h", "3h 12m", "45s")
+ */
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${Math.floor(seconds % 60)}s`;
+  return `${Math.floor(seconds)}s`;
+}
+
+/**
+ * Label and value rows for a set of run metrics
+ */
+function getMetricRows(run: RunStats, totalClicks: number | null): [string, string][] {
+  const rows: [string, string][] = [
+    ['Time played', formatDuration(run.timePlayed)],
+    ['Carrots from clicks', formatNumber(run.carrotsFromClicks)],
+    ['Carrots from idle', formatNumber(run.carrotsFromIdle)],
+    ['Highest CPS', formatNumber(run.highestCarrotsPerSecond)],
+    ['Golden Carrots earned', formatNumber(run.goldenCarrotsEarned)],
+    ['Golden Carrots spent', formatNumber(run.goldenCarrotsSpent)],
+  ];
+
+  // Clicks are only counted per run by the game store
+  if (totalClicks !== null) {
+    rows.splice(1, 0, ['Clicks', formatNumber(totalClicks)]);
+  }
+
+  return rows;
+}
+
+/**
+ * StatsPanel Component
+ * Shows current-run and all-time statistics, crates opened, prestige run
+ * history and charts of production over time
+ */
+export function StatsPanel() {
+  const [view, setView] = useState<StatsView>('run');
+  const currentRun = useStatsStore((state) => state.currentRun);
+  const allTime = useStatsStore((state) => state.allTime);
+  const prestigeRuns = useStatsStore((state) => state.prestigeRuns);
+  const samples = useStatsStore((state) => state.samples);
+  const totalClicks = useGameStore((state) => state.totalClicks);
+
+  const run = view === 'run' ? currentRun : allTime;
+  const rows = getMetricRows(run, view === 'run' ? totalClicks : null);
+  const prestigeMarkers = prestigeRuns.map((record) => record.endedAt);
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xl font-black text-gray-800">Statistics</h3>
+        <div className="flex rounded-lg bg-gray-100 p-1 text-sm font-semibold">
+          {(
+            [
+              ['run', 'This Run'],
+              ['allTime', 'All Time'],
+            ] as const
+          ).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              aria-pressed={view === id}
+              className={`px-3 py-1 rounded-md transition-colors ${
+                view === id ? 'bg-white text-gray-800 shadow' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {view === 'run' ? 'Run started' : 'Tracking since'}{' '}
+        {new Date(run.startedAt).toLocaleString()}
+      </p>
+
+      <dl className="space-y-1 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <dt className="text-gray-600">{label}</dt>
+            <dd className="font-semibold text-gray-800">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div>
+        <h4 className="text-sm font-bold text-gray-700 mb-1">Crates Opened</h4>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          {CRATE_TYPES.map((crate) => (
+            <div key={crate.id} className="flex justify-between gap-2">
+              <dt className="text-gray-600">{crate.name}</dt>
+              <dd className="font-semibold text-gray-800">{run.cratesOpened[crate.type] ?? 0}</dd>
+            </div>
+          ))}
+          {(run.cratesOpened.special_event ?? 0) > 0 && (
+            <div className="flex justify-between gap-2">
+              <dt className="text-gray-600">Event Crates</dt>
+              <dd className="font-semibold text-gray-800">{run.cratesOpened.special_event}</dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      <StatsChart
+        title="Carrots per Second"
+        points={samples.map((sample) => ({ time: sample.time, value: sample.carrotsPerSecond }))}
+        lineClassName="stroke-green-500"
+        markers={prestigeMarkers}
+      />
+      <StatsChart
+        title="Carrots"
+        points={samples.map((sample) => ({ time: sample.time, value: sample.carrots }))}
+        lineClassName="stroke-orange-500"
+        markers={prestigeMarkers}
+      />
+      {prestigeMarkers.length > 0 && (
+        <p className="text-xs text-gray-500">Dashed lines mark prestiges.</p>
+      )}
+
+      {prestigeRuns.length > 0 && (
+        <div>
+          <h4 className="text-sm font-bold text-gray-700 mb-1">Prestige Runs</h4>
+          <ul className="space-y-1 text-sm">
+            {prestigeRuns
+              .slice(-LISTED_PRESTIGE_RUNS)
+              .reverse()
+              .map((record) => (
+                <li key={record.prestigeNumber} className="flex justify-between gap-2">
+                  <span className="text-gray-600">#{record.prestigeNumber}</span>
+                  <span className="text-gray-800">
+                    {formatDuration((record.endedAt - record.startedAt) / 1000)} (
+                    {formatDuration(record.timePlayed)} played)
+                  </span>
+                  <span className="font-semibold text-gray-800">
+                    {formatNumber(record.carrotsEarned)} 🥕
+                  </span>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { StatsPanel } from './StatsPanel';
+export { StatsChart } from './StatsChart';
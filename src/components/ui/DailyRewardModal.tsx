@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useDailyRewardStore, type DailyRewardClaim } from '@/stores/dailyRewardStore';
+import {
+  DAILY_REWARD_CYCLE_DAYS,
+  DAILY_REWARD_WEEK_DAYS,
+  getDailyRewardForDay,
+} from '@/game/data/dailyRewards';
+import { getCrateByType } from '@/game/data/crates';
+import { STREAK_GRACE_DAYS } from '@/game/systems/dailyRewards';
+import type { DailyReward } from '@/types/reward';
+import { bigFloor, formatNumber } from '@/utils';
+
+interface DailyRewardModalProps {
+  /** Callback when modal is closed */
+  onClose: () => void;
+}
+
+/**
+ * Short labels for the parts of a reward (e.g., "🥕 10 min", "⭐ 5", "📦 Basic Crate")
+ */
+function describeReward(reward: DailyReward): string[] {
+  const parts: string[] = [];
+  if (reward.productionMinutes) {
+    parts.push(`🥕 ${reward.productionMinutes} min`);
+  }
+  if (reward.goldenCarrots) {
+    parts.push(`⭐ ${reward.goldenCarrots}`);
+  }
+  if (reward.crate) {
+    const crate = getCrateByType(reward.crate);
+    parts.push(`${crate?.icon ?? '🎁'} ${crate?.name ?? 'Crate'}`);
+  }
+  return parts;
+}
+
+/**
+ * DailyRewardModal Component
+ * Shows this week of the reward calendar and lets the player claim today's reward
+ */
+export function DailyRewardModal({ onClose }: DailyRewardModalProps) {
+  const claimReward = useDailyRewardStore((state) => state.claimReward);
+  const [status] = useState(() => useDailyRewardStore.getState().getStatus());
+  const [claim, setClaim] = useState<DailyRewardClaim | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const streakDay = status.nextStreakDay;
+  const calendarDay = ((streakDay - 1) % DAILY_REWARD_CYCLE_DAYS) + 1;
+  const weekStart =
+    Math.floor((calendarDay - 1) / DAILY_REWARD_WEEK_DAYS) * DAILY_REWARD_WEEK_DAYS + 1;
+  const weekDays = Array.from(
+    { length: Math.min(DAILY_REWARD_WEEK_DAYS, DAILY_REWARD_CYCLE_DAYS - weekStart + 1) },
+    (_, i) => weekStart + i
+  );
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      const result = await claimReward();
+      if (result) {
+        setClaim(result);
+      } else {
+        onClose();
+      }
+    } catch (error) {
+      console.error('Failed to claim daily reward:', error);
+      onClose();
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden border-4 border-gray-800 animate-scale-in">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-yellow-400 via-orange-400 to-orange-500 text-white p-6">
+          <div className="flex items-center justify-center gap-3 mb-2">
+            <span className="text-5xl">📅</span>
+            <h2 className="text-3xl font-bold">Daily Reward</h2>
+          </div>
+          <p className="text-center text-orange-50 text-sm">
+            Day {streakDay} of your login streak
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {status.streakBroken && !claim && (
+            <p className="p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+              You missed more than {STREAK_GRACE_DAYS} day{STREAK_GRACE_DAYS === 1 ? '' : 's'},
+              so your streak starts over.
+            </p>
+          )}
+
+          {/* This week of the calendar */}
+          <ol className="grid grid-cols-7 gap-1">
+            {weekDays.map((day) => {
+              const isToday = day === calendarDay;
+              const isClaimed = day < calendarDay || (isToday && claim !== null);
+              return (
+                <li
+                  key={day}
+                  className={`rounded-lg border-2 p-1 text-center text-[10px] leading-tight ${
+                    isToday
+                      ? 'border-orange-500 bg-orange-50'
+                      : isClaimed
+                        ? 'border-gray-200 bg-gray-100 text-gray-400'
+                        : 'border-gray-200'
+                  }`}
+                >
+                  <div className="font-bold text-xs mb-1">
+                    {isClaimed ? '✓' : `Day ${day}`}
+                  </div>
+                  {describeReward(getDailyRewardForDay(day)).map((part) => (
+                    <div key={part}>{part}</div>
+                  ))}
+                </li>
+              );
+            })}
+          </ol>
+
+          {/* Claimed rewards */}
+          {claim && (
+            <div className="card border-2 border-gray-200 bg-gray-50">
+              <div className="space-y-2 text-sm">
+                {claim.carrots.mantissa > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Carrots</span>
+                    <span className="font-bold text-carrot">
+                      +{formatNumber(bigFloor(claim.carrots))} 🥕
+                    </span>
+                  </div>
+                )}
+                {claim.goldenCarrots > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Golden Carrots</span>
+                    <span className="font-bold text-yellow-600">
+                      +{formatNumber(claim.goldenCarrots)} ⭐
+                    </span>
+                  </div>
+                )}
+                {claim.crateResult && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Free crate</span>
+                    <span className="font-bold text-gray-900">
+                      {claim.crateResult.rabbit.name}
+                      {claim.crateResult.isDuplicate &&
+                        ` (duplicate, +${claim.crateResult.xpCompensation} XP)`}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500 text-center">
+            A new reward unlocks every day. Missing {STREAK_GRACE_DAYS} day
+            {STREAK_GRACE_DAYS === 1 ? '' : 's'} keeps your streak; missing more starts it over.
+          </p>
+
+          {claim ? (
+            <button
+              onClick={onClose}
+              className="w-full py-4 rounded-xl font-bold text-lg bg-gradient-to-r from-green-500 to-green-700 text-white hover:from-green-600 hover:to-green-800 hover:shadow-lg transition-all"
+            >
+              Continue Playing
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                disabled={isClaiming}
+                className="px-4 py-4 rounded-xl font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+              >
+                Later
+              </button>
+              <button
+                onClick={() => void handleClaim()}
+                disabled={isClaiming || status.availability !== 'available'}
+                className="flex-1 py-4 rounded-xl font-bold text-lg bg-gradient-to-r from-orange-400 to-orange-600 text-white hover:from-orange-500 hover:to-orange-700 hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isClaiming ? 'Claiming...' : 'Claim Reward'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
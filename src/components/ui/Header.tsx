@@ -1,5 +1,5 @@
 import { useGameStore } from '@/stores/gameStore';
-import { formatNumber } from '@/utils';
+import { bigFloor, formatNumber } from '@/utils';
 import { XPDisplay } from './XPDisplay';
 import { canPrestige } from '@/game/mechanics/prestige';
 
@@ -33,7 +33,7 @@ export function Header({ onSettingsClick, onAchievementsClick, onPrestigeClick }
           <div className="flex items-center gap-2 bg-orange-50 px-3 py-2 rounded-xl">
             <span className="text-xl" aria-hidden="true">🥕</span>
             <span className="font-bold text-gray-900 text-sm">
-              {formatNumber(Math.floor(carrots))}
+              {formatNumber(bigFloor(carrots))}
             </span>
           </div>
 
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { requestTakeover } from '@/services';
+
+/**
+ * OpenElsewhereScreen Component
+ * Shown instead of the game while another tab runs it
+ * Taking over asks the other tab to save and stop, then reloads this tab with the latest save
+ */
+export function OpenElsewhereScreen() {
+  const [isTakingOver, setIsTakingOver] = useState(false);
+
+  const handleTakeOver = async () => {
+    setIsTakingOver(true);
+    await requestTakeover();
+    window.location.reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="text-center max-w-sm"
+      >
+        <div className="text-6xl mb-4">🐇</div>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Game is open elsewhere</h2>
+        <p className="text-gray-600 mb-6">
+          Rabbit Clicker is running in another tab or window. Only one tab can play at a
+          time so your progress is not counted or saved twice.
+        </p>
+        <button
+          onClick={handleTakeOver}
+          disabled={isTakingOver}
+          className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isTakingOver ? 'Taking over...' : 'Play Here Instead'}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { motion } from 'framer-motion';
 import { useGameStore } from '@/stores/gameStore';
-import { formatNumber } from '@/utils/formatNumber';
+import { bigToNumber } from '@/utils/bigNumber';
 import { ProductionBreakdown } from '@/components/clicker/ProductionBreakdown';
 import { useAnimatedNumber } from '@/hooks/useAnimatedNumber';
 
@@ -39,7 +39,7 @@ export function ProductionDisplay() {
         {/* CPS Value with Animation and Tooltip */}
         <div className="relative group">
           <motion.div
-            key={Math.floor(carrotsPerSecond / 10)}
+            key={Math.floor(bigToNumber(carrotsPerSecond) / 10)}
             initial={{ scale: 1.05, opacity: 0.8 }}
             animate={{ scale: 1, opacity: 1 }}
             transition={{
@@ -50,7 +50,7 @@ export function ProductionDisplay() {
             className="text-center cursor-help"
           >
             <div className="text-6xl font-black text-green-600">
-              {formatNumber(animatedCPS)}
+              {animatedCPS}
             </div>
             <div className="text-lg font-bold text-accent mt-2 uppercase tracking-wider">
               per second
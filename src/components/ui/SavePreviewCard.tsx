@@ -0,0 +1,100 @@
+import type { SavePreview } from '@/services';
+import { formatNumber } from '@/utils';
+
+interface SavePreviewCardProps {
+  preview: SavePreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Problems listed before the rest are summarized
+ */
+const MAX_LISTED_ISSUES = 8;
+
+/**
+ * SavePreviewCard Component
+ * Shows what an imported save contains and what will be repaired before it overwrites the game
+ */
+export function SavePreviewCard({ preview, onConfirm, onCancel }: SavePreviewCardProps) {
+  const { metadata, check, summary } = preview;
+
+  const rows: [string, string][] = summary
+    ? [
+        ['Saved', new Date(summary.savedAt).toLocaleString()],
+        ['Carrots', formatNumber(summary.carrots)],
+        ['Lifetime carrots', formatNumber(summary.lifetimeCarrots)],
+        ['Golden Carrots', formatNumber(summary.goldenCarrots)],
+        ['Prestiges', summary.prestigeCount.toString()],
+        ['Golden Seeds', formatNumber(summary.goldenSeeds)],
+        ['Rabbits', summary.rabbitsOwned.toString()],
+        ['Buildings', formatNumber(summary.buildingsOwned)],
+        ['Upgrades', summary.upgradesPurchased.toString()],
+        ['Achievements', summary.achievementsUnlocked.toString()],
+      ]
+    : [];
+
+  return (
+    <div className="mb-3 p-3 rounded-lg border border-gray-300 bg-gray-50 text-sm">
+      <p className="font-semibold text-gray-700 mb-2">
+        {summary ? 'This save contains:' : 'This save cannot be imported'}
+      </p>
+
+      {metadata && (
+        <p className="text-xs text-gray-500 mb-2">
+          Exported {new Date(metadata.exportedAt).toLocaleString()} (save version{' '}
+          {metadata.saveVersion})
+        </p>
+      )}
+
+      {rows.length > 0 && (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mb-2">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-2">
+              <dt className="text-gray-600">{label}</dt>
+              <dd className="font-semibold text-gray-800">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {check.issues.length > 0 && (
+        <div
+          role="alert"
+          className={`mb-2 p-2 rounded-lg ${
+            check.data ? 'bg-yellow-50 text-yellow-800' : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {check.data && <p className="font-semibold mb-1">These fields will be repaired:</p>}
+          <ul className="space-y-1">
+            {check.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+              <li key={index}>
+                <span className="font-mono text-xs">{issue.path}</span>: {issue.message}
+              </li>
+            ))}
+          </ul>
+          {check.issues.length > MAX_LISTED_ISSUES && (
+            <p className="mt-1">…and {check.issues.length - MAX_LISTED_ISSUES} more</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {summary && (
+          <button
+            onClick={onConfirm}
+            className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors font-semibold"
+          >
+            Overwrite Current Game
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors font-semibold"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
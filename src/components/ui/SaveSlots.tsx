@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import {
+  listSaveSlots,
+  getActiveSlot,
+  deleteSaveSlot,
+  loadSaveSlot,
+  saveToNewSlot,
+  restoreBackup,
+  MAX_SAVE_SLOTS,
+  MAX_SLOT_NAME_LENGTH,
+  type SaveSlot,
+} from '@/services';
+
+interface SaveSlotsProps {
+  onNotify: (message: string, type: 'success' | 'error') => void;
+}
+
+/**
+ * Format a save or backup timestamp for display
+ */
+function formatTimestamp(timestamp: number | null): string {
+  return timestamp === null ? 'Never saved' : new Date(timestamp).toLocaleString();
+}
+
+/**
+ * SaveSlots Component
+ * Settings section for switching between named save slots and restoring rolling backups
+ */
+export function SaveSlots({ onNotify }: SaveSlotsProps) {
+  const [slots, setSlots] = useState<SaveSlot[]>(() => listSaveSlots());
+  const [activeSlotId, setActiveSlotId] = useState(() => getActiveSlot().id);
+  const [newSlotName, setNewSlotName] = useState('');
+
+  const activeSlot = slots.find((slot) => slot.id === activeSlotId);
+
+  /**
+   * Re-read slots after an action changed them
+   */
+  const refresh = () => {
+    setSlots(listSaveSlots());
+    setActiveSlotId(getActiveSlot().id);
+  };
+
+  /**
+   * Switch to another slot, then reload so every screen shows its game
+   */
+  const handleLoad = (slot: SaveSlot) => {
+    if (loadSaveSlot(slot.id)) {
+      onNotify(`Loaded "${slot.name}"`, 'success');
+      setTimeout(() => window.location.reload(), 1000);
+    } else {
+      onNotify(`"${slot.name}" has no usable save`, 'error');
+    }
+    refresh();
+  };
+
+  /**
+   * Delete an inactive slot with its backups
+   */
+  const handleDelete = (slot: SaveSlot) => {
+    if (!window.confirm(`Delete "${slot.name}" and its backups? This cannot be undone!`)) {
+      return;
+    }
+
+    if (deleteSaveSlot(slot.id)) {
+      onNotify(`Deleted "${slot.name}"`, 'success');
+    } else {
+      onNotify('Failed to delete save slot', 'error');
+    }
+    refresh();
+  };
+
+  /**
+   * Save the current game to a new slot and switch to it
+   */
+  const handleSaveAsNew = () => {
+    const slot = saveToNewSlot(newSlotName);
+    if (slot) {
+      onNotify(`Saved to "${slot.name}"`, 'success');
+      setNewSlotName('');
+    } else {
+      onNotify('Failed to create save slot', 'error');
+    }
+    refresh();
+  };
+
+  /**
+   * Restore a backup of the active slot, then reload so every screen shows it
+   */
+  const handleRestore = (timestamp: number) => {
+    if (restoreBackup(timestamp)) {
+      onNotify('Backup restored!', 'success');
+      setTimeout(() => window.location.reload(), 1000);
+    } else {
+      onNotify('Backup is missing or corrupted', 'error');
+    }
+    refresh();
+  };
+
+  const canCreateSlot = slots.length < MAX_SAVE_SLOTS;
+
+  return (
+    <>
+      {/* Save Slots */}
+      <div className="mb-6">
+        <h3 className="font-semibold text-gray-700 mb-2">Save Slots</h3>
+        <ul className="space-y-2 mb-3">
+          {slots.map((slot) => {
+            const isActive = slot.id === activeSlotId;
+
+            return (
+              <li
+                key={slot.id}
+                className={`flex items-center gap-2 p-2 rounded-lg border ${
+                  isActive ? 'border-orange-500 bg-orange-50' : 'border-gray-300'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-sm text-gray-800 truncate">
+                    {slot.name}
+                    {isActive && (
+                      <span className="ml-2 text-xs text-orange-600 font-normal">Active</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">{formatTimestamp(slot.updatedAt)}</div>
+                </div>
+                {!isActive && (
+                  <>
+                    <button
+                      onClick={() => handleLoad(slot)}
+                      disabled={slot.updatedAt === null}
+                      className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => handleDelete(slot)}
+                      className="px-3 py-1 text-sm bg-red-100 text-red-600 rounded-lg hover:bg-red-200 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newSlotName}
+            onChange={(e) => setNewSlotName(e.target.value)}
+            maxLength={MAX_SLOT_NAME_LENGTH}
+            placeholder={canCreateSlot ? 'New slot name' : `All ${MAX_SAVE_SLOTS} slots used`}
+            disabled={!canCreateSlot}
+            className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+          />
+          <button
+            onClick={handleSaveAsNew}
+            disabled={!canCreateSlot || !newSlotName.trim()}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save as New
+          </button>
+        </div>
+      </div>
+
+      {/* Backups */}
+      <div className="mb-6">
+        <h3 className="font-semibold text-gray-700 mb-2">Backups</h3>
+        {!activeSlot || activeSlot.backups.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No backups yet. Backups are written automatically while you play.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {activeSlot.backups.map((timestamp) => (
+              <li
+                key={timestamp}
+                className="flex items-center justify-between p-2 rounded-lg border border-gray-300"
+              >
+                <span className="text-sm text-gray-700">{formatTimestamp(timestamp)}</span>
+                <button
+                  onClick={() => handleRestore(timestamp)}
+                  className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
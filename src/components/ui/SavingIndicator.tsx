@@ -1,25 +1,51 @@
 import { motion, AnimatePresence } from 'framer-motion';
+import type { StorageError } from '@/utils/storage';
 
 interface SavingIndicatorProps {
   isSaving: boolean;
+  storageError?: StorageError | null;
 }
 
+/**
+ * Messages shown while saves cannot be written
+ */
+const STORAGE_ERROR_MESSAGES: Record<StorageError['kind'], string> = {
+  quota: 'Storage is full - progress is not being saved. Delete unused save slots in Settings.',
+  write: 'Progress could not be saved. Check your browser storage settings.',
+};
+
 /**
  * SavingIndicator Component
- * Displays a subtle "Saving..." indicator when auto-save is active
+ * Displays a subtle "Saving..." indicator when auto-save is active,
+ * or a warning that stays up while saves fail to reach storage
  */
-export function SavingIndicator({ isSaving }: SavingIndicatorProps) {
+export function SavingIndicator({ isSaving, storageError = null }: SavingIndicatorProps) {
   return (
     <AnimatePresence>
-      {isSaving && (
+      {storageError ? (
         <motion.div
+          key="storage-error"
+          role="alert"
+          title={storageError.message}
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -10 }}
-          className="fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg text-sm font-semibold z-[60]"
+          className="fixed top-4 right-4 max-w-xs bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg text-sm font-semibold z-[60]"
         >
-          Saving...
+          {STORAGE_ERROR_MESSAGES[storageError.kind]}
         </motion.div>
+      ) : (
+        isSaving && (
+          <motion.div
+            key="saving"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg text-sm font-semibold z-[60]"
+          >
+            Saving...
+          </motion.div>
+        )
       )}
     </AnimatePresence>
   );
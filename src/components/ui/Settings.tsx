@@ -1,6 +1,17 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { exportSave, importSave } from '@/services';
+import {
+  clearSavedProgress,
+  createBackup,
+  createSaveFile,
+  exportSave,
+  getSaveFileName,
+  importSave,
+  previewSave,
+  MAX_SAVE_FILE_SIZE,
+  SAVE_FILE_EXTENSION,
+  type SavePreview,
+} from '@/services';
 import { useGameStore } from '@/stores/gameStore';
 import { useUpgradeStore } from '@/stores/upgradeStore';
 import { useRabbitStore } from '@/stores/rabbitStore';
@@ -8,18 +19,81 @@ import { useCrateStore } from '@/stores/crateStore';
 import { useAchievementStore } from '@/stores/achievementStore';
 import { usePrestigeStore } from '@/stores/prestigeStore';
 import { useMilestoneStore } from '@/stores/milestoneStore';
+import { useAutomationStore } from '@/stores/automationStore';
+import {
+  useSettingsStore,
+  NUMBER_NOTATIONS,
+  SOUND_CATEGORIES,
+  AUTO_SAVE_INTERVALS,
+} from '@/stores/settingsStore';
+import { SavePreviewCard } from './SavePreviewCard';
+import { SaveSlots } from './SaveSlots';
+import { BIG_ZERO, flushStorage, formatNumber, toBigNumber } from '@/utils';
+import type { NumberNotation, SoundCategory } from '@/types/settings';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+/**
+ * Display names for each number notation
+ */
+const NOTATION_LABELS: Record<NumberNotation, string> = {
+  standard: 'Standard',
+  scientific: 'Scientific',
+  engineering: 'Engineering',
+  longScale: 'Long Scale',
+  alphabetic: 'Alphabetic',
+};
+
+/**
+ * Value used to preview each notation
+ */
+const NOTATION_SAMPLE = 1.234e16;
+
+/**
+ * Display names for each sound category
+ */
+const SOUND_CATEGORY_LABELS: Record<SoundCategory, string> = {
+  click: 'Clicks',
+  purchase: 'Purchases',
+  crate: 'Crates',
+  achievement: 'Achievements',
+};
+
+/**
+ * Format an auto-save interval for the interval picker
+ */
+function formatInterval(seconds: number): string {
+  return seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds === 60 ? '' : 's'}`;
+}
+
 /**
  * Settings Component
- * Modal for save management (export, import, reset)
+ * Modal for audio, display and accessibility settings and save management
+ * (slots, backups, export, import, reset)
  */
 export function Settings({ isOpen, onClose }: SettingsProps) {
+  const {
+    soundEnabled,
+    masterVolume,
+    soundVolumes,
+    particlesEnabled,
+    reducedMotion,
+    notation,
+    autoSaveInterval,
+    setSoundEnabled,
+    setMasterVolume,
+    setSoundVolume,
+    setParticlesEnabled,
+    setReducedMotion,
+    setNotation,
+    setAutoSaveInterval,
+  } = useSettingsStore();
   const [importText, setImportText] = useState('');
+  const [importPreview, setImportPreview] = useState<SavePreview | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [notification, setNotification] = useState<{
     message: string;
@@ -28,6 +102,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
 
   const notificationTimerRef = useRef<number | null>(null);
   const modalRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   /**
    * Show temporary notification
@@ -63,19 +138,80 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
   };
 
   /**
-   * Import save from text input
+   * Export save as a downloadable .rabbitsave file
    */
-  const handleImport = () => {
+  const handleDownload = () => {
     try {
-      if (!importText.trim()) {
-        showNotification('Please paste a save string', 'error');
+      const contents = createSaveFile();
+      if (!contents) {
+        showNotification('Failed to export save', 'error');
         return;
       }
 
-      const success = importSave(importText.trim());
+      const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getSaveFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+      showNotification('Save file downloaded!', 'success');
+    } catch (error) {
+      console.error('Download failed:', error);
+      showNotification('Failed to download save file', 'error');
+    }
+  };
+
+  /**
+   * Preview pasted save text before importing it
+   */
+  const handlePreviewText = () => {
+    if (!importText.trim()) {
+      showNotification('Please paste a save string', 'error');
+      return;
+    }
+    setImportPreview(previewSave(importText));
+  };
+
+  /**
+   * Preview a chosen or dropped save file before importing it
+   */
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (file.size > MAX_SAVE_FILE_SIZE) {
+      showNotification('File is too large to be a save', 'error');
+      return;
+    }
+
+    try {
+      setImportPreview(previewSave(await file.text()));
+    } catch (error) {
+      console.error('Failed to read save file:', error);
+      showNotification('Failed to read save file', 'error');
+    }
+  };
+
+  /**
+   * Accept a save file dropped onto the import area
+   */
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    void handleFile(e.dataTransfer.files[0]);
+  };
+
+  /**
+   * Import the previewed save, overwriting the current game
+   */
+  const handleImport = () => {
+    if (!importPreview) return;
+
+    try {
+      const success = importSave(importPreview.saveString);
       if (success) {
         showNotification('Save imported successfully!', 'success');
         setImportText('');
+        setImportPreview(null);
         // Reload page to update UI with new save data
         setTimeout(() => window.location.reload(), 1000);
       } else {
@@ -88,22 +224,26 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
   };
 
   /**
-   * Reset progress (clear localStorage and reset all stores)
+   * Reset progress (clear the active slot's save and reset all stores)
+   * A backup is written first so the reset can be undone from the Backups list
    */
-  const handleReset = () => {
+  const handleReset = async () => {
     try {
       console.log('Starting reset...');
 
+      // STEP 0: Back up the current game
+      createBackup(true);
+
       // STEP 1: Reset all Zustand stores to their initial state IN MEMORY
-      // This prevents them from auto-saving the old data back to localStorage
+      // This prevents them from auto-saving the old data back to storage
 
       // Reset game store
       const gameInitialState = (useGameStore as any).getInitialState?.() || {
-        carrots: 0,
+        carrots: BIG_ZERO,
         goldenCarrots: 0,
-        carrotsPerSecond: 0,
-        clickPower: 1,
-        lifetimeCarrots: 0,
+        carrotsPerSecond: BIG_ZERO,
+        clickPower: toBigNumber(1),
+        lifetimeCarrots: BIG_ZERO,
         totalClicks: 0,
         lastSaveTime: Date.now(),
         lastPlayTime: Date.now(),
@@ -150,7 +290,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
       usePrestigeStore.setState({
         goldenSeeds: 0,
         prestigeCount: 0,
-        totalLifetimeCarrots: 0,
+        totalLifetimeCarrots: BIG_ZERO,
       });
 
       // Reset milestone store
@@ -159,14 +299,20 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
         activeCelebration: null,
       });
 
+      // Reset automation store
+      useAutomationStore.setState({
+        automations: {},
+      });
+
       console.log('All stores reset in memory');
 
-      // STEP 2: Clear localStorage
-      localStorage.clear();
+      // STEP 2: Clear saved progress (backups, other slots and settings are kept)
+      clearSavedProgress();
       sessionStorage.clear();
-      console.log('localStorage cleared');
+      console.log('Saved progress cleared');
 
-      // STEP 3: Reload page immediately
+      // STEP 3: Reload page once the removals have reached storage
+      await flushStorage();
       window.location.href = window.location.origin + window.location.pathname;
     } catch (error) {
       console.error('Reset failed:', error);
@@ -225,7 +371,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
             aria-labelledby="settings-title"
             aria-modal="true"
             tabIndex={-1}
-            className="bg-white rounded-3xl shadow-2xl w-full max-w-md p-6 border-4 border-gray-800"
+            className="bg-white rounded-3xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 border-4 border-gray-800"
             onClick={(e) => e.stopPropagation()}
           >
             {/* Header */}
@@ -257,37 +403,215 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
               </motion.div>
             )}
 
+            {/* Sound */}
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-700">Sound</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={soundEnabled}
+                    onChange={(e) => setSoundEnabled(e.target.checked)}
+                    className="w-4 h-4 accent-orange-500"
+                  />
+                  Enabled
+                </label>
+              </div>
+              <div className={`space-y-2 ${soundEnabled ? '' : 'opacity-50'}`}>
+                <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                  <span className="w-36 font-semibold">Master</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(masterVolume * 100)}
+                    onChange={(e) => setMasterVolume(Number(e.target.value) / 100)}
+                    disabled={!soundEnabled}
+                    className="flex-1 accent-orange-500"
+                  />
+                  <span className="w-10 text-right tabular-nums">
+                    {Math.round(masterVolume * 100)}%
+                  </span>
+                </label>
+                {SOUND_CATEGORIES.map((category) => (
+                  <label
+                    key={category}
+                    className="flex items-center justify-between gap-3 text-sm text-gray-700"
+                  >
+                    <span className="w-36">{SOUND_CATEGORY_LABELS[category]}</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={Math.round(soundVolumes[category] * 100)}
+                      onChange={(e) => setSoundVolume(category, Number(e.target.value) / 100)}
+                      disabled={!soundEnabled}
+                      className="flex-1 accent-orange-500"
+                    />
+                    <span className="w-10 text-right tabular-nums">
+                      {Math.round(soundVolumes[category] * 100)}%
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Visuals & Accessibility */}
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-700 mb-3">Visuals & Accessibility</h3>
+              <div className="space-y-2">
+                <label className="flex items-center justify-between text-sm text-gray-700">
+                  <span>Click particles</span>
+                  <input
+                    type="checkbox"
+                    checked={particlesEnabled}
+                    onChange={(e) => setParticlesEnabled(e.target.checked)}
+                    className="w-4 h-4 accent-orange-500"
+                  />
+                </label>
+                <label className="flex items-center justify-between text-sm text-gray-700">
+                  <span>
+                    Reduced motion
+                    <span className="block text-xs text-gray-500">
+                      Skips crate shakes, bursts and confetti
+                    </span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={reducedMotion}
+                    onChange={(e) => setReducedMotion(e.target.checked)}
+                    className="w-4 h-4 accent-orange-500"
+                  />
+                </label>
+              </div>
+            </div>
+
+            {/* Number Notation */}
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-700 mb-2">Number Notation</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                Choose how large numbers are displayed
+              </p>
+              <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Number notation">
+                {NUMBER_NOTATIONS.map((option) => (
+                  <button
+                    key={option}
+                    role="radio"
+                    aria-checked={notation === option}
+                    onClick={() => setNotation(option)}
+                    className={`px-3 py-2 rounded-lg border-2 text-left transition-colors ${
+                      notation === option
+                        ? 'border-carrot bg-orange-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="text-sm font-semibold text-gray-800">
+                      {NOTATION_LABELS[option]}
+                    </div>
+                    <div className="text-xs text-gray-500 font-mono">
+                      {formatNumber(NOTATION_SAMPLE, 2, option)}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Auto-Save */}
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-700 mb-2">Auto-Save</h3>
+              <label className="flex items-center justify-between text-sm text-gray-700">
+                <span>Save every</span>
+                <select
+                  value={autoSaveInterval}
+                  onChange={(e) => setAutoSaveInterval(Number(e.target.value))}
+                  className="p-2 border border-gray-300 rounded-lg"
+                >
+                  {AUTO_SAVE_INTERVALS.map((seconds) => (
+                    <option key={seconds} value={seconds}>
+                      {formatInterval(seconds)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <SaveSlots onNotify={showNotification} />
+
             {/* Export Save */}
             <div className="mb-6">
               <h3 className="font-semibold text-gray-700 mb-2">Export Save</h3>
               <p className="text-sm text-gray-600 mb-3">
                 Create a backup of your progress
               </p>
-              <button onClick={handleExport} className="btn-primary w-full">
-                Export & Copy to Clipboard
-              </button>
+              <div className="flex gap-2">
+                <button onClick={handleDownload} className="btn-primary flex-1">
+                  Download File
+                </button>
+                <button onClick={handleExport} className="btn-primary flex-1">
+                  Copy to Clipboard
+                </button>
+              </div>
             </div>
 
             {/* Import Save */}
             <div className="mb-6">
               <h3 className="font-semibold text-gray-700 mb-2">Import Save</h3>
               <p className="text-sm text-gray-600 mb-3">
-                Restore progress from a save string
+                Restore progress from a save file or save string
               </p>
-              <textarea
-                value={importText}
-                onChange={(e) => setImportText(e.target.value)}
-                placeholder="Paste your save string here..."
-                className="w-full p-3 border border-gray-300 rounded-lg mb-3 font-mono text-sm resize-none"
-                rows={4}
-              />
-              <button
-                onClick={handleImport}
-                disabled={!importText.trim()}
-                className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Import Save
-              </button>
+              {importPreview ? (
+                <SavePreviewCard
+                  preview={importPreview}
+                  onConfirm={handleImport}
+                  onCancel={() => setImportPreview(null)}
+                />
+              ) : (
+                <>
+                  <div
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setIsDragging(true);
+                    }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    className={`mb-3 p-4 border-2 border-dashed rounded-lg text-center text-sm transition-colors ${
+                      isDragging ? 'border-orange-500 bg-orange-50' : 'border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    <p className="mb-2">Drop a {SAVE_FILE_EXTENSION} file here, or</p>
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                      Choose File
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={`${SAVE_FILE_EXTENSION},.json,.txt`}
+                      onChange={(e) => {
+                        void handleFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                      className="hidden"
+                    />
+                  </div>
+                  <textarea
+                    value={importText}
+                    onChange={(e) => setImportText(e.target.value)}
+                    placeholder="...or paste your save string here"
+                    className="w-full p-3 border border-gray-300 rounded-lg mb-3 font-mono text-sm resize-none"
+                    rows={4}
+                  />
+                  <button
+                    onClick={handlePreviewText}
+                    disabled={!importText.trim()}
+                    className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Preview Save
+                  </button>
+                </>
+              )}
             </div>
 
             {/* Reset Progress */}
@@ -296,7 +620,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
               {!showResetConfirm ? (
                 <>
                   <p className="text-sm text-gray-600 mb-3">
-                    Permanently delete all progress
+                    Delete all progress in this save slot
                   </p>
                   <button
                     onClick={() => setShowResetConfirm(true)}
@@ -308,7 +632,7 @@ export function Settings({ isOpen, onClose }: SettingsProps) {
               ) : (
                 <>
                   <p className="text-sm text-red-600 mb-3 font-semibold">
-                    Are you sure? This cannot be undone!
+                    Are you sure? Only a backup can bring this progress back!
                   </p>
                   <div className="flex gap-2">
                     <button
@@ -1,5 +1,5 @@
 import type { OfflineEarnings } from '@/stores/gameStore';
-import { formatNumber } from '@/utils';
+import { bigFloor, bigSubtract, formatNumber } from '@/utils';
 
 interface WelcomeBackModalProps {
   /** Offline earnings data */
@@ -40,9 +40,18 @@ function formatTimeAway(seconds: number): string {
  * Shows offline earnings when player returns to the game
  */
 export function WelcomeBackModal({ earnings, onClose }: WelcomeBackModalProps) {
-  const { timeAway, carrotsEarned, potentialCarrots, carrotsPerSecond } = earnings;
+  const {
+    timeAway,
+    uncappedTimeAway,
+    capSeconds,
+    carrotsEarned,
+    potentialCarrots,
+    carrotsPerSecond,
+    factors,
+  } = earnings;
   const timeAwayFormatted = formatTimeAway(timeAway);
-  const efficiency = 50; // Current offline efficiency
+  const wasCapped = uncappedTimeAway > capSeconds;
+  const efficiency = Math.round(earnings.efficiency * 100); // Offline efficiency as a percentage
 
   return (
     <div className="fixed inset-0 bg-white z-50 flex items-center justify-center p-4 animate-fade-in">
@@ -54,7 +63,7 @@ export function WelcomeBackModal({ earnings, onClose }: WelcomeBackModalProps) {
             <h2 className="text-3xl font-bold">Welcome Back!</h2>
           </div>
           <p className="text-center text-green-100 text-sm">
-            You've been away for {timeAwayFormatted}
+            You've been away for {formatTimeAway(uncappedTimeAway)}
           </p>
         </div>
 
@@ -68,7 +77,7 @@ export function WelcomeBackModal({ earnings, onClose }: WelcomeBackModalProps) {
                 <span className="text-4xl">🥕</span>
                 <div>
                   <div className="text-4xl font-black text-carrot">
-                    {formatNumber(Math.floor(carrotsEarned))}
+                    {formatNumber(bigFloor(carrotsEarned))}
                   </div>
                   <div className="text-sm text-gray-600 font-semibold">
                     Carrots ({efficiency}% efficiency)
@@ -89,25 +98,51 @@ export function WelcomeBackModal({ earnings, onClose }: WelcomeBackModalProps) {
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-gray-600">Time Away</span>
-                <span className="font-bold text-gray-900">{timeAwayFormatted}</span>
+                <span className="font-bold text-gray-900">
+                  {timeAwayFormatted}
+                  {wasCapped && (
+                    <span className="text-xs text-gray-500 font-semibold">
+                      {' '}
+                      (max {formatTimeAway(capSeconds)})
+                    </span>
+                  )}
+                </span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-gray-600">Offline Efficiency</span>
                 <span className="font-bold text-green-600">{efficiency}%</span>
               </div>
+              {/* Efficiency and cap breakdown */}
+              <ul className="space-y-1 pl-3 border-l-2 border-gray-200 text-xs">
+                {factors.map((factor) => (
+                  <li key={factor.source} className="flex items-center justify-between">
+                    <span className="text-gray-500">{factor.label}</span>
+                    <span className="font-semibold text-gray-700">
+                      {[
+                        factor.efficiency > 0 &&
+                          `${factor.source === 'base' ? '' : '+'}${Math.round(factor.efficiency * 100)}%`,
+                        factor.capSeconds > 0 &&
+                          `${factor.source === 'base' ? '' : '+'}${formatTimeAway(factor.capSeconds)} cap`,
+                      ]
+                        .filter(Boolean)
+                        .join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
               <div className="h-px bg-gray-300"></div>
               <div className="flex items-center justify-between">
                 <span className="text-gray-600">You Earned</span>
                 <span className="font-bold text-carrot">
-                  {formatNumber(Math.floor(carrotsEarned))} 🥕
+                  {formatNumber(bigFloor(carrotsEarned))} 🥕
                 </span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-gray-600 text-xs">
-                  (Missed: {formatNumber(Math.floor(potentialCarrots - carrotsEarned))})
+                  (Missed: {formatNumber(bigFloor(bigSubtract(potentialCarrots, carrotsEarned)))})
                 </span>
                 <span className="text-gray-400 text-xs">
-                  {formatNumber(Math.floor(potentialCarrots))} at 100%
+                  {formatNumber(bigFloor(potentialCarrots))} at 100%
                 </span>
               </div>
             </div>
@@ -1,9 +1,11 @@
 export { ProductionDisplay } from './ProductionDisplay';
 export { SavingIndicator } from './SavingIndicator';
 export { LoadingScreen } from './LoadingScreen';
+export { OpenElsewhereScreen } from './OpenElsewhereScreen';
 export { Settings } from './Settings';
 export { TabNavigation } from './TabNavigation';
 export { Header } from './Header';
 export { XPDisplay } from './XPDisplay';
 export { WelcomeBackModal } from './WelcomeBackModal';
+export { DailyRewardModal } from './DailyRewardModal';
 export { MilestoneCelebration } from './MilestoneCelebration';
@@ -1,10 +1,30 @@
-import type { Achievement } from '@/types/achievement';
+import type { Achievement, AchievementCondition } from '@/types/achievement';
+
+/**
+ * Achievement as written in the tables below
+ * Every achievement has a condition and takes its progress target from it
+ */
+type AchievementDefinition = Omit<Achievement, 'progress' | 'condition'> & {
+  condition: AchievementCondition;
+};
+
+/**
+ * Fill in the progress of achievements from their condition
+ * @param definitions - Achievement definitions
+ * @returns Achievements with progress starting at zero
+ */
+function defineAchievements(definitions: AchievementDefinition[]): Achievement[] {
+  return definitions.map((definition) => ({
+    ...definition,
+    progress: { current: 0, target: definition.condition.target, percentage: 0 },
+  }));
+}
 
 /**
  * Collection Achievements
  * Track rabbit collection progress
  */
-const COLLECTION_ACHIEVEMENTS: Achievement[] = [
+const COLLECTION_ACHIEVEMENTS: AchievementDefinition[] = [
   {
     id: 'bunny_collector',
     name: 'Bunny Collector',
@@ -13,7 +33,7 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'bronze',
     icon: '🐰',
     reward: { goldenCarrots: 5 },
-    progress: { current: 0, target: 10, percentage: 0 },
+    condition: { stat: 'rabbitsCollected', comparator: 'gte', target: 10 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -27,7 +47,7 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'silver',
     icon: '🐇',
     reward: { goldenCarrots: 15 },
-    progress: { current: 0, target: 20, percentage: 0 },
+    condition: { stat: 'rabbitsCollected', comparator: 'gte', target: 20 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -36,12 +56,12 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
   {
     id: 'master_collector',
     name: 'Master Collector',
-    description: 'Collect all 30 rabbits',
+    description: 'Collect all 33 rabbits',
     category: 'collection',
     tier: 'diamond',
     icon: '👑',
     reward: { goldenCarrots: 100 },
-    progress: { current: 0, target: 30, percentage: 0 },
+    condition: { stat: 'rabbitsCollected', comparator: 'gte', target: 33 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -55,7 +75,7 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '💎',
     reward: { goldenCarrots: 25 },
-    progress: { current: 0, target: 5, percentage: 0 },
+    condition: { stat: 'rareRabbitsCollected', comparator: 'gte', target: 5 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -69,7 +89,7 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '🌟',
     reward: { goldenCarrots: 50 },
-    progress: { current: 0, target: 1, percentage: 0 },
+    condition: { stat: 'legendaryRabbitsCollected', comparator: 'gte', target: 1 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -83,7 +103,7 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'platinum',
     icon: '🔮',
     reward: { goldenCarrots: 60 },
-    progress: { current: 0, target: 2, percentage: 0 },
+    condition: { stat: 'epicRabbitsCollected', comparator: 'gte', target: 2 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -95,7 +115,7 @@ const COLLECTION_ACHIEVEMENTS: Achievement[] = [
  * Production Achievements
  * Track carrot production milestones
  */
-const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
+const PRODUCTION_ACHIEVEMENTS: AchievementDefinition[] = [
   {
     id: 'carrot_novice',
     name: 'Carrot Novice',
@@ -104,7 +124,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'bronze',
     icon: '🥕',
     reward: { goldenCarrots: 5 },
-    progress: { current: 0, target: 1000, percentage: 0 },
+    condition: { stat: 'carrotsEarned', comparator: 'gte', target: 1000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -118,7 +138,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'silver',
     icon: '🌾',
     reward: { goldenCarrots: 10 },
-    progress: { current: 0, target: 100000, percentage: 0 },
+    condition: { stat: 'carrotsEarned', comparator: 'gte', target: 100000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -132,7 +152,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '💰',
     reward: { goldenCarrots: 25 },
-    progress: { current: 0, target: 10000000, percentage: 0 },
+    condition: { stat: 'carrotsEarned', comparator: 'gte', target: 10000000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -146,7 +166,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'platinum',
     icon: '🏦',
     reward: { goldenCarrots: 50 },
-    progress: { current: 0, target: 1000000000, percentage: 0 },
+    condition: { stat: 'carrotsEarned', comparator: 'gte', target: 1000000000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -160,7 +180,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'diamond',
     icon: '⚡',
     reward: { goldenCarrots: 100 },
-    progress: { current: 0, target: 1000000000000, percentage: 0 },
+    condition: { stat: 'carrotsEarned', comparator: 'gte', target: 1000000000000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -174,7 +194,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'bronze',
     icon: '⏱️',
     reward: { goldenCarrots: 5 },
-    progress: { current: 0, target: 100, percentage: 0 },
+    condition: { stat: 'carrotsPerSecond', comparator: 'gte', target: 100 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -188,7 +208,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'silver',
     icon: '🚀',
     reward: { goldenCarrots: 20 },
-    progress: { current: 0, target: 10000, percentage: 0 },
+    condition: { stat: 'carrotsPerSecond', comparator: 'gte', target: 10000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -202,7 +222,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '🌌',
     reward: { goldenCarrots: 40 },
-    progress: { current: 0, target: 1000000, percentage: 0 },
+    condition: { stat: 'carrotsPerSecond', comparator: 'gte', target: 1000000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -214,7 +234,7 @@ const PRODUCTION_ACHIEVEMENTS: Achievement[] = [
  * Clicking Achievements
  * Track manual clicking progress
  */
-const CLICKING_ACHIEVEMENTS: Achievement[] = [
+const CLICKING_ACHIEVEMENTS: AchievementDefinition[] = [
   {
     id: 'click_beginner',
     name: 'Click Beginner',
@@ -223,7 +243,7 @@ const CLICKING_ACHIEVEMENTS: Achievement[] = [
     tier: 'bronze',
     icon: '👆',
     reward: { goldenCarrots: 5 },
-    progress: { current: 0, target: 100, percentage: 0 },
+    condition: { stat: 'clicks', comparator: 'gte', target: 100 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -237,7 +257,7 @@ const CLICKING_ACHIEVEMENTS: Achievement[] = [
     tier: 'silver',
     icon: '👇',
     reward: { goldenCarrots: 10 },
-    progress: { current: 0, target: 1000, percentage: 0 },
+    condition: { stat: 'clicks', comparator: 'gte', target: 1000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -251,7 +271,7 @@ const CLICKING_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '✋',
     reward: { goldenCarrots: 25 },
-    progress: { current: 0, target: 10000, percentage: 0 },
+    condition: { stat: 'clicks', comparator: 'gte', target: 10000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -265,7 +285,7 @@ const CLICKING_ACHIEVEMENTS: Achievement[] = [
     tier: 'platinum',
     icon: '💪',
     reward: { goldenCarrots: 50 },
-    progress: { current: 0, target: 100000, percentage: 0 },
+    condition: { stat: 'clicks', comparator: 'gte', target: 100000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -279,7 +299,7 @@ const CLICKING_ACHIEVEMENTS: Achievement[] = [
     tier: 'diamond',
     icon: '🔥',
     reward: { goldenCarrots: 80 },
-    progress: { current: 0, target: 1000000, percentage: 0 },
+    condition: { stat: 'clicks', comparator: 'gte', target: 1000000 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -291,7 +311,7 @@ const CLICKING_ACHIEVEMENTS: Achievement[] = [
  * Crate Achievements
  * Track crate opening progress
  */
-const CRATE_ACHIEVEMENTS: Achievement[] = [
+const CRATE_ACHIEVEMENTS: AchievementDefinition[] = [
   {
     id: 'lucky_rabbit',
     name: 'Lucky Rabbit',
@@ -300,7 +320,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
     tier: 'bronze',
     icon: '📦',
     reward: { goldenCarrots: 10 },
-    progress: { current: 0, target: 10, percentage: 0 },
+    condition: { stat: 'cratesOpened', comparator: 'gte', target: 10, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -314,7 +334,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
     tier: 'silver',
     icon: '🎁',
     reward: { goldenCarrots: 15 },
-    progress: { current: 0, target: 50, percentage: 0 },
+    condition: { stat: 'cratesOpened', comparator: 'gte', target: 50, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -328,7 +348,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '🎰',
     reward: { goldenCarrots: 25 },
-    progress: { current: 0, target: 100, percentage: 0 },
+    condition: { stat: 'cratesOpened', comparator: 'gte', target: 100, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -342,7 +362,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
     tier: 'platinum',
     icon: '🏆',
     reward: { goldenCarrots: 50 },
-    progress: { current: 0, target: 500, percentage: 0 },
+    condition: { stat: 'cratesOpened', comparator: 'gte', target: 500, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -356,7 +376,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
     tier: 'diamond',
     icon: '👑',
     reward: { goldenCarrots: 100 },
-    progress: { current: 0, target: 1000, percentage: 0 },
+    condition: { stat: 'cratesOpened', comparator: 'gte', target: 1000, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -370,7 +390,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '💎',
     reward: { goldenCarrots: 30 },
-    progress: { current: 0, target: 1, percentage: 0 },
+    condition: { stat: 'premiumCratesOpened', comparator: 'gte', target: 1, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -382,7 +402,7 @@ const CRATE_ACHIEVEMENTS: Achievement[] = [
  * Special Achievements
  * Track special accomplishments and milestones
  */
-const SPECIAL_ACHIEVEMENTS: Achievement[] = [
+const SPECIAL_ACHIEVEMENTS: AchievementDefinition[] = [
   {
     id: 'first_prestige',
     name: 'First Prestige',
@@ -391,7 +411,7 @@ const SPECIAL_ACHIEVEMENTS: Achievement[] = [
     tier: 'platinum',
     icon: '✨',
     reward: { goldenCarrots: 50 },
-    progress: { current: 0, target: 1, percentage: 0 },
+    condition: { stat: 'prestiges', comparator: 'gte', target: 1 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -405,7 +425,7 @@ const SPECIAL_ACHIEVEMENTS: Achievement[] = [
     tier: 'platinum',
     icon: '⚡',
     reward: { goldenCarrots: 75 },
-    progress: { current: 0, target: 1000000, percentage: 0 },
+    condition: { stat: 'carrotsEarned', comparator: 'gte', target: 1000000, withinSeconds: 3600 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -419,7 +439,7 @@ const SPECIAL_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '😴',
     reward: { goldenCarrots: 50 },
-    progress: { current: 0, target: 1000000, percentage: 0 },
+    condition: { stat: 'offlineEarnings', comparator: 'gte', target: 1000000, scope: 'allTime' },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -433,7 +453,7 @@ const SPECIAL_ACHIEVEMENTS: Achievement[] = [
     tier: 'diamond',
     icon: '🎯',
     reward: { goldenCarrots: 80 },
-    progress: { current: 0, target: 100, percentage: 0 },
+    condition: { stat: 'highestRabbitLevel', comparator: 'gte', target: 100 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -447,7 +467,7 @@ const SPECIAL_ACHIEVEMENTS: Achievement[] = [
     tier: 'gold',
     icon: '🏗️',
     reward: { goldenCarrots: 35 },
-    progress: { current: 0, target: 100, percentage: 0 },
+    condition: { stat: 'buildingsOwned', comparator: 'gte', target: 100 },
     isUnlocked: false,
     isHidden: false,
     unlockedAt: null,
@@ -459,13 +479,13 @@ const SPECIAL_ACHIEVEMENTS: Achievement[] = [
  * All Achievements
  * Combined array of all achievement definitions
  */
-export const ACHIEVEMENTS: Achievement[] = [
+export const ACHIEVEMENTS: Achievement[] = defineAchievements([
   ...COLLECTION_ACHIEVEMENTS,
   ...PRODUCTION_ACHIEVEMENTS,
   ...CLICKING_ACHIEVEMENTS,
   ...CRATE_ACHIEVEMENTS,
   ...SPECIAL_ACHIEVEMENTS,
-];
+]);
 
 /**
  * Helper Functions
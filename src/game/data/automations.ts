@@ -0,0 +1,78 @@
+import type { Automation } from '@/types/upgrade';
+
+/**
+ * Automations
+ * Purchasable helpers that perform actions on a timer from the game loop
+ * Effect value is the number of actions performed each interval
+ */
+export const AUTOMATIONS: Automation[] = [
+  {
+    id: 'clicker_bot',
+    name: 'Clicker Bot',
+    description: 'A tireless little robot that clicks the carrot for you, once every second.',
+    cost: {
+      carrots: 10000,
+    },
+    effect: {
+      type: 'auto_click',
+      value: 1,
+      interval: 1000,
+    },
+    isPurchased: false,
+    isEnabled: false,
+  },
+  {
+    id: 'upgrade_butler',
+    name: 'Upgrade Butler',
+    description: 'Buys the cheapest available carrot upgrade every 5 seconds.',
+    cost: {
+      goldenCarrots: 25,
+    },
+    effect: {
+      type: 'auto_buy_upgrade',
+      value: 1,
+      interval: 5000,
+    },
+    isPurchased: false,
+    isEnabled: false,
+  },
+  {
+    id: 'construction_crew',
+    name: 'Construction Crew',
+    description: 'Builds the cheapest unlocked building every 2 seconds.',
+    cost: {
+      goldenCarrots: 50,
+    },
+    effect: {
+      type: 'auto_buy_building',
+      value: 1,
+      interval: 2000,
+    },
+    isPurchased: false,
+    isEnabled: false,
+  },
+  {
+    id: 'crate_courier',
+    name: 'Crate Courier',
+    description: 'Buys and opens a Basic Crate with Golden Carrots every minute.',
+    cost: {
+      goldenCarrots: 100,
+    },
+    effect: {
+      type: 'auto_open_crate',
+      value: 1,
+      interval: 60000,
+    },
+    isPurchased: false,
+    isEnabled: false,
+  },
+];
+
+/**
+ * Get automation by ID
+ * @param automationId - Unique automation identifier
+ * @returns Automation or undefined if not found
+ */
+export function getAutomationById(automationId: string): Automation | undefined {
+  return AUTOMATIONS.find((automation) => automation.id === automationId);
+}
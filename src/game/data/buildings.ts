@@ -1,4 +1,20 @@
 import type { Building } from '@/types/upgrade';
+import {
+  BIG_ZERO,
+  bigAdd,
+  bigDivide,
+  bigFloor,
+  bigGte,
+  bigLog10,
+  bigLt,
+  bigMultiply,
+  bigPow,
+  bigSubtract,
+  bigToNumber,
+  toBigNumber,
+  type BigNumber,
+  type BigNumberSource,
+} from '@/utils/bigNumber';
 
 /**
  * Building Data Definitions
@@ -223,7 +239,7 @@ export function getBuildingById(buildingId: string): BuildingData | undefined {
  * @returns Array of unlocked building data
  */
 export function getUnlockedBuildings(
-  lifetimeCarrots: number,
+  lifetimeCarrots: BigNumberSource,
   prestigeLevel: number = 0,
   buildingCounts: Map<string, number> = new Map()
 ): BuildingData[] {
@@ -232,7 +248,7 @@ export function getUnlockedBuildings(
 
     switch (req.type) {
       case 'lifetime_carrots':
-        return lifetimeCarrots >= req.value;
+        return bigGte(lifetimeCarrots, req.value);
 
       case 'prestige_level':
         return prestigeLevel >= req.value;
@@ -254,15 +270,91 @@ export function getUnlockedBuildings(
   });
 }
 
+/**
+ * Most buildings a single bulk purchase can buy
+ */
+export const MAX_BULK_BUILDINGS = 1000000;
+
 /**
  * Calculate building cost for next purchase
  * Uses exponential scaling: baseCost * (costMultiplier ^ count)
  * @param building - Building data
  * @param currentCount - Number already owned
- * @returns Cost for next purchase
+ * @returns Cost for next purchase (big number; high counts outgrow JS numbers)
+ */
+export function calculateBuildingCost(building: BuildingData, currentCount: number): BigNumber {
+  return bigFloor(bigMultiply(building.baseCost, bigPow(building.costMultiplier, currentCount)));
+}
+
+/**
+ * Calculate the total cost of buying several buildings at once
+ * Closed-form geometric sum: baseCost * m^count * (m^quantity - 1) / (m - 1)
+ * @param building - Building data
+ * @param currentCount - Number already owned
+ * @param quantity - Number to buy
+ * @returns Total cost for all units (0 if quantity is not positive)
  */
-export function calculateBuildingCost(building: BuildingData, currentCount: number): number {
-  return Math.floor(building.baseCost * Math.pow(building.costMultiplier, currentCount));
+export function calculateBulkBuildingCost(
+  building: BuildingData,
+  currentCount: number,
+  quantity: number
+): BigNumber {
+  if (quantity <= 0) {
+    return BIG_ZERO;
+  }
+
+  const { baseCost, costMultiplier } = building;
+  const nextCost = bigMultiply(baseCost, bigPow(costMultiplier, currentCount));
+
+  if (costMultiplier === 1) {
+    return bigFloor(bigMultiply(nextCost, quantity));
+  }
+
+  const growth = bigDivide(bigSubtract(bigPow(costMultiplier, quantity), 1), costMultiplier - 1);
+  return bigFloor(bigMultiply(nextCost, growth));
+}
+
+/**
+ * Calculate how many buildings a budget can buy
+ * Inverts the geometric sum in log space, then corrects for rounding
+ * @param building - Building data
+ * @param currentCount - Number already owned
+ * @param budget - Carrots available
+ * @returns Number of buildings affordable (0 if not even one, at most MAX_BULK_BUILDINGS)
+ */
+export function calculateMaxAffordableBuildings(
+  building: BuildingData,
+  currentCount: number,
+  budget: BigNumberSource
+): number {
+  const { baseCost, costMultiplier } = building;
+  const nextCost = bigMultiply(baseCost, bigPow(costMultiplier, currentCount));
+
+  if (toBigNumber(budget).mantissa <= 0 || nextCost.mantissa <= 0) {
+    return 0;
+  }
+
+  // Budget measured in units of the next building's cost
+  const ratio = bigDivide(budget, nextCost);
+
+  const estimate =
+    costMultiplier === 1
+      ? bigToNumber(ratio)
+      : bigLog10(bigAdd(1, bigMultiply(ratio, costMultiplier - 1))) / Math.log10(costMultiplier);
+  let quantity = Math.min(Math.floor(estimate), MAX_BULK_BUILDINGS);
+
+  // Floating point can land one unit either side of the true answer
+  while (quantity > 0 && bigLt(budget, calculateBulkBuildingCost(building, currentCount, quantity))) {
+    quantity--;
+  }
+  while (
+    quantity < MAX_BULK_BUILDINGS &&
+    bigGte(budget, calculateBulkBuildingCost(building, currentCount, quantity + 1))
+  ) {
+    quantity++;
+  }
+
+  return quantity;
 }
 
 /**
@@ -273,7 +365,7 @@ export function calculateBuildingCost(building: BuildingData, currentCount: numb
  * @returns Building instance
  */
 export function createBuildingInstance(data: BuildingData, count: number = 0): Building {
-  const currentCost = calculateBuildingCost(data, count);
+  const currentCost = bigToNumber(calculateBuildingCost(data, count));
 
   return {
     id: data.id,
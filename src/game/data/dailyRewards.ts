@@ -0,0 +1,69 @@
+import type { DailyReward } from '@/types/reward';
+
+/**
+ * Daily Login Rewards
+ * A 30-day calendar in weeks of 7: carrots and Golden Carrots on most days,
+ * a free crate at the end of each week and the best crate on day 30.
+ * The calendar starts over after day 30; a broken streak starts over at day 1.
+ */
+export const DAILY_REWARDS: DailyReward[] = [
+  // Week 1
+  { day: 1, productionMinutes: 10 },
+  { day: 2, goldenCarrots: 5 },
+  { day: 3, productionMinutes: 20 },
+  { day: 4, goldenCarrots: 10 },
+  { day: 5, productionMinutes: 30 },
+  { day: 6, goldenCarrots: 15 },
+  { day: 7, crate: 'basic', goldenCarrots: 10 },
+
+  // Week 2
+  { day: 8, productionMinutes: 30 },
+  { day: 9, goldenCarrots: 10 },
+  { day: 10, productionMinutes: 45 },
+  { day: 11, goldenCarrots: 15 },
+  { day: 12, productionMinutes: 60 },
+  { day: 13, goldenCarrots: 20 },
+  { day: 14, crate: 'silver', goldenCarrots: 15 },
+
+  // Week 3
+  { day: 15, productionMinutes: 60 },
+  { day: 16, goldenCarrots: 15 },
+  { day: 17, productionMinutes: 90 },
+  { day: 18, goldenCarrots: 20 },
+  { day: 19, productionMinutes: 120 },
+  { day: 20, goldenCarrots: 25 },
+  { day: 21, crate: 'silver', goldenCarrots: 25 },
+
+  // Week 4
+  { day: 22, productionMinutes: 120 },
+  { day: 23, goldenCarrots: 20 },
+  { day: 24, productionMinutes: 180 },
+  { day: 25, goldenCarrots: 25 },
+  { day: 26, productionMinutes: 240 },
+  { day: 27, goldenCarrots: 30 },
+  { day: 28, crate: 'gold', goldenCarrots: 30 },
+
+  // Month finale
+  { day: 29, productionMinutes: 360, goldenCarrots: 25 },
+  { day: 30, crate: 'premium', goldenCarrots: 50 },
+];
+
+/**
+ * Days in the reward calendar
+ */
+export const DAILY_REWARD_CYCLE_DAYS = DAILY_REWARDS.length;
+
+/**
+ * Days in a calendar week (a crate is given on the last day of each)
+ */
+export const DAILY_REWARD_WEEK_DAYS = 7;
+
+/**
+ * Get the reward for a day of a login streak
+ * @param streakDay - Day of the streak (1-based; wraps around after the last calendar day)
+ * @returns Reward for that day
+ */
+export function getDailyRewardForDay(streakDay: number): DailyReward {
+  const index = (Math.max(Math.floor(streakDay), 1) - 1) % DAILY_REWARD_CYCLE_DAYS;
+  return DAILY_REWARDS[index];
+}
@@ -0,0 +1,133 @@
+import type { GameEvent } from '@/types/event';
+import type { Rarity } from '@/types/rabbit';
+
+/**
+ * Harvest Moon Festival (autumn 2026)
+ * Currency: Harvest Tokens | Crate cost: 50 tokens
+ * Drop rates: 35% Common, 30% Uncommon, 20% Rare, 10% Epic, 5% Legendary
+ * Rare and above roll from the event rabbits first
+ */
+export const HARVEST_MOON_2026: GameEvent = {
+  id: 'harvest_moon_2026',
+  name: 'Harvest Moon Festival',
+  description: 'The fields glow under the harvest moon. Gather tokens to open Harvest Crates!',
+  icon: '🌕',
+  startDate: '2026-10-15T00:00:00Z',
+  endDate: '2026-11-02T00:00:00Z',
+  currency: {
+    name: 'Harvest Tokens',
+    icon: '🌾',
+    clicksPerUnit: 25,
+    secondsPerUnit: 60,
+    goldenCarrotsPerUnit: 0.5,
+  },
+  rabbits: [
+    {
+      id: 'russet',
+      name: 'Russet',
+      rarity: 'rare',
+      description: 'A rust-red rabbit who naps in piles of fallen leaves and wakes up covered in them.',
+      baseCPS: 350,
+      favoriteFood: 'Maple-Glazed Carrots',
+      image: '/assets/images/rabbits/russet.png',
+      ability: {
+        id: 'leaf_pile',
+        name: 'Leaf Pile',
+        description: 'Rustles up extra carrots from under the leaves',
+        type: 'passive',
+        value: 20,
+        target: 'cps',
+      },
+    },
+    {
+      id: 'lantern',
+      name: 'Lantern',
+      rarity: 'epic',
+      description: 'Carries a tiny paper lantern so the harvest can go on long after sunset.',
+      baseCPS: 1200,
+      favoriteFood: 'Candlelit Pumpkin',
+      image: '/assets/images/rabbits/lantern.png',
+      ability: {
+        id: 'night_harvest',
+        name: 'Night Harvest',
+        description: 'Keeps the fields lit while you are away',
+        type: 'passive',
+        value: 30,
+        target: 'offline_earnings',
+      },
+    },
+    {
+      id: 'harvest_moon',
+      name: 'Harvest Moon',
+      rarity: 'legendary',
+      description: 'Appears only when the moon is full and orange. Every carrot it touches ripens at once.',
+      baseCPS: 2500,
+      favoriteFood: 'Moonlit Carrots',
+      image: '/assets/images/rabbits/harvest_moon.png',
+      ability: {
+        id: 'full_moon',
+        name: 'Full Moon',
+        description: 'Activate to multiply all production by 4× for one minute',
+        type: 'active',
+        value: 300,
+        target: 'all',
+        duration: 60,
+        cooldown: 600,
+      },
+    },
+  ],
+  crate: {
+    id: 'harvest_moon_crate',
+    name: 'Harvest Crate',
+    type: 'special_event',
+    description: 'A basket of autumn surprises with a chance at the festival rabbits.',
+    cost: {
+      eventCurrency: 50,
+    },
+    icon: '🧺',
+    dropRates: {
+      common: 0.35,     // 35%
+      uncommon: 0.3,    // 30%
+      rare: 0.2,        // 20%
+      epic: 0.1,        // 10%
+      legendary: 0.05,  // 5%
+      mythical: 0,      // 0%
+    } as Record<Rarity, number>,
+    isAvailable: true,
+    features: ['Event rabbits', 'Legendary chance', 'Own pity counter'],
+  },
+  pityThresholds: {
+    epic: 20,
+    legendary: 60,
+    mythical: 500,
+  },
+  achievements: [
+    {
+      id: 'harvest_moon_2026_tokens',
+      name: 'Token Gatherer',
+      description: 'Earn 100 Harvest Tokens',
+      icon: '🌾',
+      tier: 'bronze',
+      requirement: { type: 'currency_earned', target: 100 },
+      goldenCarrots: 10,
+    },
+    {
+      id: 'harvest_moon_2026_crates',
+      name: 'Basket Weaver',
+      description: 'Open 5 Harvest Crates',
+      icon: '🧺',
+      tier: 'silver',
+      requirement: { type: 'crates_opened', target: 5 },
+      goldenCarrots: 25,
+    },
+    {
+      id: 'harvest_moon_2026_rabbits',
+      name: 'Moonlit Gathering',
+      description: 'Collect all 3 Harvest Moon rabbits',
+      icon: '🌕',
+      tier: 'gold',
+      requirement: { type: 'rabbits_collected', target: 3 },
+      goldenCarrots: 50,
+    },
+  ],
+};
@@ -0,0 +1,25 @@
+import type { GameEvent } from '@/types/event';
+import type { RabbitData } from '../rabbits';
+import { HARVEST_MOON_2026 } from './harvestMoon2026';
+import { WINTER_BURROW_2026 } from './winterBurrow2026';
+
+/**
+ * Limited-Time Events
+ * Each event lives in its own file; add new ones here to schedule them.
+ * Events must not overlap, since only one event crate is offered at a time.
+ */
+export const EVENTS: GameEvent[] = [HARVEST_MOON_2026, WINTER_BURROW_2026];
+
+/**
+ * Rabbits that can only be obtained from event crates
+ */
+export const EVENT_RABBITS: RabbitData[] = EVENTS.flatMap((event) => event.rabbits);
+
+/**
+ * Get event by ID
+ * @param eventId - Event identifier
+ * @returns Event or undefined if not found
+ */
+export function getEventById(eventId: string): GameEvent | undefined {
+  return EVENTS.find((event) => event.id === eventId);
+}
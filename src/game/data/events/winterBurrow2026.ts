@@ -0,0 +1,131 @@
+import type { GameEvent } from '@/types/event';
+import type { Rarity } from '@/types/rabbit';
+
+/**
+ * Winter Burrow (winter 2026)
+ * Currency: Snowflakes | Crate cost: 60 snowflakes
+ * Drop rates: 30% Common, 30% Uncommon, 25% Rare, 10% Epic, 5% Legendary
+ * Rare and above roll from the event rabbits first
+ */
+export const WINTER_BURROW_2026: GameEvent = {
+  id: 'winter_burrow_2026',
+  name: 'Winter Burrow',
+  description: 'Snow blankets the burrow. Collect snowflakes to open Frost Crates!',
+  icon: '❄️',
+  startDate: '2026-12-18T00:00:00Z',
+  endDate: '2027-01-04T00:00:00Z',
+  currency: {
+    name: 'Snowflakes',
+    icon: '❄️',
+    clicksPerUnit: 25,
+    secondsPerUnit: 60,
+    goldenCarrotsPerUnit: 0.5,
+  },
+  rabbits: [
+    {
+      id: 'flurry',
+      name: 'Flurry',
+      rarity: 'rare',
+      description: 'A snow-white rabbit that vanishes whenever it sits still in a snowdrift.',
+      baseCPS: 350,
+      favoriteFood: 'Frosted Carrots',
+      image: '/assets/images/rabbits/flurry.png',
+      ability: {
+        id: 'snow_dig',
+        name: 'Snow Dig',
+        description: 'Digs up carrots buried under the snow',
+        type: 'passive',
+        value: 20,
+        target: 'click_power',
+      },
+    },
+    {
+      id: 'cocoa',
+      name: 'Cocoa',
+      rarity: 'epic',
+      description: 'Keeps the burrow warm with mugs of cocoa. Nobody is quite sure where the mugs come from.',
+      baseCPS: 1000,
+      favoriteFood: 'Carrot Cake',
+      image: '/assets/images/rabbits/cocoa.png',
+      ability: {
+        id: 'warm_welcome',
+        name: 'Warm Welcome',
+        description: 'Merchants warm up to you and lower their prices',
+        type: 'passive',
+        value: 10,
+        target: 'cost_reduction',
+      },
+    },
+    {
+      id: 'yule',
+      name: 'Yule',
+      rarity: 'legendary',
+      description: 'Arrives on the longest night with a sack full of carrots for every burrow in the valley.',
+      baseCPS: 2500,
+      favoriteFood: 'Candied Carrots',
+      image: '/assets/images/rabbits/yule.png',
+      ability: {
+        id: 'gift_giver',
+        name: 'Gift Giver',
+        description: 'Brings extra luck to crate openings',
+        type: 'passive',
+        value: 25,
+        target: 'drop_rate',
+      },
+    },
+  ],
+  crate: {
+    id: 'winter_burrow_crate',
+    name: 'Frost Crate',
+    type: 'special_event',
+    description: 'A frosty gift box with a chance at the Winter Burrow rabbits.',
+    cost: {
+      eventCurrency: 60,
+    },
+    icon: '🎁',
+    dropRates: {
+      common: 0.3,      // 30%
+      uncommon: 0.3,    // 30%
+      rare: 0.25,       // 25%
+      epic: 0.1,        // 10%
+      legendary: 0.05,  // 5%
+      mythical: 0,      // 0%
+    } as Record<Rarity, number>,
+    isAvailable: true,
+    features: ['Event rabbits', 'Legendary chance', 'Own pity counter'],
+  },
+  pityThresholds: {
+    epic: 20,
+    legendary: 60,
+    mythical: 500,
+  },
+  achievements: [
+    {
+      id: 'winter_burrow_2026_snowflakes',
+      name: 'Snow Collector',
+      description: 'Earn 150 Snowflakes',
+      icon: '❄️',
+      tier: 'bronze',
+      requirement: { type: 'currency_earned', target: 150 },
+      goldenCarrots: 10,
+    },
+    {
+      id: 'winter_burrow_2026_crates',
+      name: 'Gift Unwrapper',
+      description: 'Open 5 Frost Crates',
+      icon: '🎁',
+      tier: 'silver',
+      requirement: { type: 'crates_opened', target: 5 },
+      goldenCarrots: 25,
+    },
+    {
+      id: 'winter_burrow_2026_rabbits',
+      name: 'Full Burrow',
+      description: 'Collect all 3 Winter Burrow rabbits',
+      icon: '🏔️',
+      tier: 'gold',
+      requirement: { type: 'rabbits_collected', target: 3 },
+      goldenCarrots: 50,
+    },
+  ],
+};
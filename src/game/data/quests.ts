@@ -0,0 +1,171 @@
+import type { Quest, QuestPeriod } from '@/types/quest';
+
+/**
+ * Quests
+ * Rotating goals drawn fresh every day and every week. Unlike achievements they
+ * can be completed again whenever they come back around.
+ */
+
+/**
+ * Daily quests (a few minutes of play each)
+ */
+const DAILY_QUESTS: Quest[] = [
+  {
+    id: 'daily_clicks_500',
+    period: 'daily',
+    description: 'Click 500 times',
+    icon: '👆',
+    objective: { type: 'clicks', target: 500 },
+    goldenCarrots: 5,
+  },
+  {
+    id: 'daily_clicks_1500',
+    period: 'daily',
+    description: 'Click 1,500 times',
+    icon: '👆',
+    objective: { type: 'clicks', target: 1500 },
+    goldenCarrots: 10,
+  },
+  {
+    id: 'daily_crates_3',
+    period: 'daily',
+    description: 'Open 3 crates',
+    icon: '📦',
+    objective: { type: 'open_crates', target: 3 },
+    goldenCarrots: 5,
+  },
+  {
+    id: 'daily_silver_crates_3',
+    period: 'daily',
+    description: 'Open 3 Silver Crates',
+    icon: '🎁',
+    objective: { type: 'open_crates', target: 3, crateType: 'silver' },
+    goldenCarrots: 15,
+  },
+  {
+    id: 'daily_gardens_10',
+    period: 'daily',
+    description: 'Buy 10 Carrot Gardens',
+    icon: '🌱',
+    objective: { type: 'buy_buildings', target: 10, buildingId: 'carrot_garden' },
+    goldenCarrots: 5,
+  },
+  {
+    id: 'daily_burrows_5',
+    period: 'daily',
+    description: 'Buy 5 Rabbit Burrows',
+    icon: '🕳️',
+    objective: { type: 'buy_buildings', target: 5, buildingId: 'rabbit_burrow' },
+    goldenCarrots: 8,
+  },
+  {
+    id: 'daily_buildings_25',
+    period: 'daily',
+    description: 'Buy 25 buildings of any kind',
+    icon: '🏗️',
+    objective: { type: 'buy_buildings', target: 25 },
+    goldenCarrots: 10,
+  },
+  {
+    id: 'daily_upgrades_1',
+    period: 'daily',
+    description: 'Buy an upgrade',
+    icon: '⬆️',
+    objective: { type: 'buy_upgrades', target: 1 },
+    goldenCarrots: 5,
+  },
+];
+
+/**
+ * Weekly quests (a few sessions of play each)
+ */
+const WEEKLY_QUESTS: Quest[] = [
+  {
+    id: 'weekly_clicks_10000',
+    period: 'weekly',
+    description: 'Click 10,000 times',
+    icon: '👆',
+    objective: { type: 'clicks', target: 10000 },
+    goldenCarrots: 40,
+  },
+  {
+    id: 'weekly_crates_20',
+    period: 'weekly',
+    description: 'Open 20 crates',
+    icon: '📦',
+    objective: { type: 'open_crates', target: 20 },
+    goldenCarrots: 30,
+  },
+  {
+    id: 'weekly_gold_crates_5',
+    period: 'weekly',
+    description: 'Open 5 Gold Crates',
+    icon: '✨',
+    objective: { type: 'open_crates', target: 5, crateType: 'gold' },
+    goldenCarrots: 75,
+  },
+  {
+    id: 'weekly_farms_25',
+    period: 'weekly',
+    description: 'Buy 25 Carrot Farms',
+    icon: '🚜',
+    objective: { type: 'buy_buildings', target: 25, buildingId: 'carrot_farm' },
+    goldenCarrots: 35,
+  },
+  {
+    id: 'weekly_buildings_150',
+    period: 'weekly',
+    description: 'Buy 150 buildings of any kind',
+    icon: '🏗️',
+    objective: { type: 'buy_buildings', target: 150 },
+    goldenCarrots: 40,
+  },
+  {
+    id: 'weekly_upgrades_5',
+    period: 'weekly',
+    description: 'Buy 5 upgrades',
+    icon: '⬆️',
+    objective: { type: 'buy_upgrades', target: 5 },
+    goldenCarrots: 30,
+  },
+];
+
+/**
+ * All quests combined
+ */
+export const QUESTS: Quest[] = [...DAILY_QUESTS, ...WEEKLY_QUESTS];
+
+/**
+ * Quests on the board at once for each period
+ */
+export const QUEST_SLOTS: Record<QuestPeriod, number> = {
+  daily: 3,
+  weekly: 3,
+};
+
+/**
+ * Golden Carrots charged to swap an unfinished quest for another
+ * Each further reroll in the same period costs this much more again
+ */
+export const QUEST_REROLL_COST: Record<QuestPeriod, number> = {
+  daily: 2,
+  weekly: 5,
+};
+
+/**
+ * Get quest by ID
+ * @param questId - Quest identifier
+ * @returns Quest or undefined if not found
+ */
+export function getQuestById(questId: string): Quest | undefined {
+  return QUESTS.find((quest) => quest.id === questId);
+}
+
+/**
+ * Get all quests drawn for a period
+ * @param period - Quest period
+ * @returns Quests of that period
+ */
+export function getQuestsByPeriod(period: QuestPeriod): Quest[] {
+  return QUESTS.filter((quest) => quest.period === period);
+}
@@ -1,4 +1,5 @@
 import type { Rarity, RabbitAbility } from '@/types/rabbit';
+import { EVENT_RABBITS } from './events';
 
 /**
  * Base rabbit character data (static definitions)
@@ -573,9 +574,70 @@ const LEGENDARY_RABBITS: RabbitData[] = [
   },
 ];
 
+/**
+ * MYTHICAL RABBITS (3 total)
+ * Rarity: Mythical | CPS Range: 5000+
+ * Beyond legend, each with an ability no other rabbit has
+ */
+const MYTHICAL_RABBITS: RabbitData[] = [
+  {
+    id: 'aurora',
+    name: 'Aurora',
+    rarity: 'mythical',
+    description: 'A shimmering rabbit woven from the northern lights. When she dances, the whole sky pours carrots.',
+    baseCPS: 6000,
+    favoriteFood: 'Starlight Carrots',
+    image: '/assets/images/rabbits/aurora.png',
+    ability: {
+      id: 'aurora_dance',
+      name: 'Aurora Dance',
+      description: 'Activate to multiply all production by 6× for one minute',
+      type: 'active',
+      value: 500,
+      target: 'all',
+      duration: 60,
+      cooldown: 600,
+    },
+  },
+  {
+    id: 'chronos',
+    name: 'Chronos',
+    rarity: 'mythical',
+    description: 'An ageless rabbit who keeps time itself. The carrot fields never rest while he watches over them.',
+    baseCPS: 5000,
+    favoriteFood: 'Timeless Carrots',
+    image: '/assets/images/rabbits/chronos.png',
+    ability: {
+      id: 'time_keeper',
+      name: 'Time Keeper',
+      description: 'Bends time so your rabbits keep working while you are away',
+      type: 'passive',
+      value: 50,
+      target: 'offline_earnings',
+    },
+  },
+  {
+    id: 'midas',
+    name: 'Midas',
+    rarity: 'mythical',
+    description: 'A gilded rabbit whose touch turns everything to gold. Merchants give him whatever he asks for.',
+    baseCPS: 5500,
+    favoriteFood: 'Solid Gold Carrots',
+    image: '/assets/images/rabbits/midas.png',
+    ability: {
+      id: 'golden_paw',
+      name: 'Golden Paw',
+      description: 'Reduces the cost of buildings and upgrades',
+      type: 'passive',
+      value: 25,
+      target: 'cost_reduction',
+    },
+  },
+];
+
 /**
  * All rabbits combined
- * Total: 30 rabbits (12 Common, 10 Uncommon, 5 Rare, 2 Epic, 1 Legendary)
+ * Total: 33 rabbits (12 Common, 10 Uncommon, 5 Rare, 2 Epic, 1 Legendary, 3 Mythical)
  */
 export const RABBITS: RabbitData[] = [
   ...COMMON_RABBITS,
@@ -583,19 +645,25 @@ export const RABBITS: RabbitData[] = [
   ...RARE_RABBITS,
   ...EPIC_RABBITS,
   ...LEGENDARY_RABBITS,
+  ...MYTHICAL_RABBITS,
 ];
 
 /**
  * Get rabbit by ID
+ * Includes event-exclusive rabbits, so they stay valid after their event ends
  * @param rabbitId - Unique rabbit identifier
  * @returns Rabbit data or undefined if not found
  */
 export function getRabbitById(rabbitId: string): RabbitData | undefined {
-  return RABBITS.find((rabbit) => rabbit.id === rabbitId);
+  return (
+    RABBITS.find((rabbit) => rabbit.id === rabbitId) ??
+    EVENT_RABBITS.find((rabbit) => rabbit.id === rabbitId)
+  );
 }
 
 /**
  * Get rabbits by rarity
+ * Event-exclusive rabbits are not included (they only drop from event crates)
  * @param rarity - Rarity tier to filter by
  * @returns Array of rabbits matching the rarity
  */
@@ -642,3 +710,11 @@ export function getEpicRabbits(): RabbitData[] {
 export function getLegendaryRabbits(): RabbitData[] {
   return LEGENDARY_RABBITS;
 }
+
+/**
+ * Get all mythical rabbits
+ * @returns Array of mythical rabbits
+ */
+export function getMythicalRabbits(): RabbitData[] {
+  return MYTHICAL_RABBITS;
+}
@@ -0,0 +1,176 @@
+import { useGameStore } from '@/stores/gameStore';
+import { useUpgradeStore } from '@/stores/upgradeStore';
+import { useCrateStore } from '@/stores/crateStore';
+import {
+  getClickUpgrades,
+  getAutoClickerUpgrades,
+  getCPSMultiplierUpgrades,
+  getSpecialUpgrades,
+} from '@/game/data/upgrades';
+import { getUnlockedBuildings } from '@/game/data/buildings';
+import { getCrateByType } from '@/game/data/crates';
+import type { Automation } from '@/types/upgrade';
+import type { CrateType } from '@/types/crate';
+import { bigCompare, bigLt, bigSubtract } from '@/utils/bigNumber';
+
+/**
+ * Crate type bought by auto_open_crate automations
+ */
+const AUTOMATION_CRATE_TYPE: CrateType = 'basic';
+
+/**
+ * Click the carrot
+ * @param clicks - Number of clicks to perform
+ * @returns Number of clicks performed
+ */
+function autoClick(clicks: number): number {
+  if (clicks > 0) {
+    useGameStore.getState().autoClick(clicks);
+  }
+  return clicks;
+}
+
+/**
+ * Buy the cheapest available carrot upgrades
+ * Golden Carrot upgrades are never bought automatically
+ * @param maxPurchases - Maximum upgrades to buy
+ * @param reserve - Carrots that must remain after each purchase
+ * @returns Number of upgrades bought
+ */
+function autoBuyUpgrades(maxPurchases: number, reserve: number): number {
+  let purchased = 0;
+
+  while (purchased < maxPurchases) {
+    const upgradeState = useUpgradeStore.getState();
+
+    const cheapest = [
+      ...getClickUpgrades(),
+      ...getAutoClickerUpgrades(),
+      ...getCPSMultiplierUpgrades(),
+      ...getSpecialUpgrades(),
+    ]
+      .filter(
+        (upgrade) =>
+          !upgrade.goldenCarrotCost &&
+          !upgradeState.isPurchased(upgrade.id) &&
+          upgradeState.checkRequirements(upgrade.id)
+      )
+      .map((upgrade) => ({ id: upgrade.id, cost: upgradeState.getUpgradeCost(upgrade.id) }))
+      .sort((a, b) => a.cost - b.cost)[0];
+
+    if (!cheapest || bigLt(bigSubtract(useGameStore.getState().carrots, cheapest.cost), reserve)) {
+      break;
+    }
+
+    if (!upgradeState.purchaseUpgrade(cheapest.id)) {
+      break;
+    }
+    purchased++;
+  }
+
+  return purchased;
+}
+
+/**
+ * Buy the cheapest unlocked buildings
+ * @param maxPurchases - Maximum buildings to buy
+ * @param reserve - Carrots that must remain after each purchase
+ * @returns Number of buildings bought
+ */
+function autoBuyBuildings(maxPurchases: number, reserve: number): number {
+  let purchased = 0;
+
+  while (purchased < maxPurchases) {
+    const upgradeState = useUpgradeStore.getState();
+    const gameState = useGameStore.getState();
+
+    const cheapest = getUnlockedBuildings(gameState.lifetimeCarrots)
+      .map((building) => ({ id: building.id, cost: upgradeState.getBuildingCost(building.id) }))
+      .sort((a, b) => bigCompare(a.cost, b.cost))[0];
+
+    if (!cheapest || bigLt(bigSubtract(gameState.carrots, cheapest.cost), reserve)) {
+      break;
+    }
+
+    if (!upgradeState.purchaseBuilding(cheapest.id)) {
+      break;
+    }
+    purchased++;
+  }
+
+  return purchased;
+}
+
+/**
+ * Buy and open Basic Crates with Golden Carrots
+ * @param maxCrates - Maximum crates to open
+ * @param reserve - Golden Carrots that must remain after each purchase
+ * @returns Number of crates opened
+ */
+function autoOpenCrates(maxCrates: number, reserve: number): number {
+  const crate = getCrateByType(AUTOMATION_CRATE_TYPE);
+  const cost = crate?.cost.goldenCarrots;
+
+  if (!crate || cost === undefined) {
+    console.error(`Automation crate not found: ${AUTOMATION_CRATE_TYPE}`);
+    return 0;
+  }
+
+  let opened = 0;
+
+  while (opened < maxCrates) {
+    const gameState = useGameStore.getState();
+
+    if (gameState.goldenCarrots - cost < reserve || !gameState.spendGoldenCarrots(cost)) {
+      break;
+    }
+
+    useCrateStore
+      .getState()
+      .openCrate(crate.type)
+      .catch((error) => console.error('Automation failed to open crate:', error));
+    opened++;
+  }
+
+  return opened;
+}
+
+/**
+ * Perform one run of an automation
+ * @param automation - Automation to run
+ * @param reserve - Currency that must remain after spending (carrots, or Golden Carrots for crates)
+ * @returns Number of actions performed
+ */
+export function runAutomation(automation: Automation, reserve: number): number {
+  const { type, value } = automation.effect;
+
+  switch (type) {
+    case 'auto_click':
+      return autoClick(value);
+    case 'auto_buy_upgrade':
+      return autoBuyUpgrades(value, reserve);
+    case 'auto_buy_building':
+      return autoBuyBuildings(value, reserve);
+    case 'auto_open_crate':
+      return autoOpenCrates(value, reserve);
+  }
+}
+
+/**
+ * Get the currency an automation spends (used for its budget reserve)
+ * @param automation - Automation to check
+ * @returns 'carrots', 'goldenCarrots', or null if it never spends
+ */
+export function getAutomationBudgetCurrency(
+  automation: Automation
+): 'carrots' | 'goldenCarrots' | null {
+  switch (automation.effect.type) {
+    case 'auto_click':
+      return null;
+    case 'auto_buy_upgrade':
+    case 'auto_buy_building':
+      return 'carrots';
+    case 'auto_open_crate':
+      return 'goldenCarrots';
+  }
+}
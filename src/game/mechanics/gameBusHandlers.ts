@@ -0,0 +1,87 @@
+import { gameBus } from '@/services/gameBus';
+import { useStatsStore } from '@/stores/statsStore';
+import { useEventStore } from '@/stores/eventStore';
+import { useQuestStore } from '@/stores/questStore';
+import { updateProductionValues } from './production';
+import { checkAchievementsForEvent } from '@/game/systems/achievements';
+import { playSound } from '@/utils/sounds';
+
+/**
+ * Unsubscribe function of the registered handlers (null while not registered)
+ */
+let unregisterHandlers: (() => void) | null = null;
+
+/**
+ * Subscribe the game systems to the game event bus
+ *
+ * Handlers per event:
+ * - Clicked: click stats; manual clicks also earn event currency and progress click quests
+ * - CarrotsEarned: offline stats
+ * - GoldenCarrotsEarned / GoldenCarrotsSpent: Golden Carrot stats
+ * - UpgradePurchased / BuildingPurchased: purchase quests, purchase sound
+ * - CrateOpened: crate stats, crate quests
+ * - RabbitObtained / RabbitLeveledUp / TeamChanged / AbilityActivated: recalculate production
+ * - Prestiged: close the run in the stats history
+ * - every event: achievements whose stats the event changes (after the handlers above,
+ *   so they read the updated stats)
+ *
+ * Safe to call more than once; handlers are only registered the first time.
+ * @returns Function that removes the handlers again
+ */
+export function registerGameBusHandlers(): () => void {
+  if (unregisterHandlers) {
+    return unregisterHandlers;
+  }
+
+  const unsubscribers = [
+    gameBus.on('Clicked', ({ carrots, source }) => {
+      useStatsStore.getState().recordClickCarrots(carrots);
+      // Automation clicks earn carrots but do not count as clicks
+      if (source === 'manual') {
+        useEventStore.getState().recordClick();
+        useQuestStore.getState().recordQuestProgress({ type: 'clicks', count: 1 });
+      }
+    }),
+    gameBus.on('CarrotsEarned', ({ amount, source }) => {
+      // Idle production is recorded by the stats step of the simulation
+      if (source === 'offline') {
+        useStatsStore.getState().recordIdleCarrots(amount);
+      }
+    }),
+    gameBus.on('GoldenCarrotsEarned', ({ amount }) => {
+      useStatsStore.getState().recordGoldenCarrotsEarned(amount);
+    }),
+    gameBus.on('GoldenCarrotsSpent', ({ amount }) => {
+      useStatsStore.getState().recordGoldenCarrotsSpent(amount);
+    }),
+    gameBus.on('UpgradePurchased', ({ upgradeId }) => {
+      useQuestStore.getState().recordQuestProgress({ type: 'buy_upgrades', upgradeId, count: 1 });
+      playSound('/assets/sounds/purchase.mp3', { volume: 0.5, category: 'purchase' });
+    }),
+    gameBus.on('BuildingPurchased', ({ buildingId, quantity }) => {
+      useQuestStore
+        .getState()
+        .recordQuestProgress({ type: 'buy_buildings', buildingId, count: quantity });
+      playSound('/assets/sounds/purchase.mp3', { volume: 0.5, category: 'purchase' });
+    }),
+    gameBus.on('CrateOpened', ({ crateType, count }) => {
+      useStatsStore.getState().recordCratesOpened(crateType, count);
+      useQuestStore.getState().recordQuestProgress({ type: 'open_crates', crateType, count });
+    }),
+    gameBus.on('RabbitObtained', () => updateProductionValues()),
+    gameBus.on('RabbitLeveledUp', () => updateProductionValues()),
+    gameBus.on('TeamChanged', () => updateProductionValues()),
+    gameBus.on('AbilityActivated', () => updateProductionValues()),
+    gameBus.on('Prestiged', ({ prestigeCount, carrotsEarned }) => {
+      useStatsStore.getState().recordPrestige(prestigeCount, carrotsEarned);
+    }),
+    // Listeners for every event run after the per-event ones
+    gameBus.onAny((type) => checkAchievementsForEvent(type)),
+  ];
+
+  unregisterHandlers = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    unregisterHandlers = null;
+  };
+  return unregisterHandlers;
+}
@@ -0,0 +1,87 @@
+import { useGameStore } from '@/stores/gameStore';
+import { useRabbitStore } from '@/stores/rabbitStore';
+import { useAutomationStore } from '@/stores/automationStore';
+import { useStatsStore } from '@/stores/statsStore';
+import { useEventStore } from '@/stores/eventStore';
+import { checkAllAchievements } from '@/game/systems/achievements';
+import {
+  createSimulation,
+  type Simulation,
+  type SimulationOptions,
+} from '@/game/systems/simulation';
+import { gameBus } from '@/services/gameBus';
+import { BIG_ZERO, bigAdd, bigCompare, bigSubtract, type BigNumber } from '@/utils/bigNumber';
+import { updateProductionValues } from './production';
+
+/**
+ * Seconds of idle production summed into one CarrotsEarned event
+ */
+const IDLE_EARNINGS_INTERVAL = 1;
+
+/**
+ * Create the game simulation wired to the stores
+ *
+ * Hooks per step:
+ * - production: refresh CPS when timed rabbit abilities start or end, then add idle carrots
+ *   (emitted as CarrotsEarned once per second)
+ * - automation: run purchased automations
+ * - achievements: check every achievement on the first step (game events cover the rest)
+ * - stats: record play time, idle carrots and production samples
+ * - events: earn event currency from play time and convert it when an event ends
+ *
+ * @param options - Timestep and frame cap (headless runs can lift maxFrameTime)
+ * @returns Simulation instance
+ */
+export function createGameSimulation(options?: SimulationOptions): Simulation {
+  let abilitiesInEffect: string | null = null;
+  let achievementsChecked = false;
+  let idleCarrots: BigNumber = BIG_ZERO;
+  let idleTime = 0;
+
+  return createSimulation(
+    {
+      production: (deltaTime) => {
+        // Recalculate production when an active/conditional ability starts or ends
+        const current = useRabbitStore.getState().getAbilitiesInEffect().join(',');
+        if (current !== abilitiesInEffect) {
+          abilitiesInEffect = current;
+          updateProductionValues();
+        }
+
+        const lifetimeBefore = useGameStore.getState().lifetimeCarrots;
+        useGameStore.getState().tick(deltaTime);
+
+        idleCarrots = bigAdd(
+          idleCarrots,
+          bigSubtract(useGameStore.getState().lifetimeCarrots, lifetimeBefore)
+        );
+        idleTime += deltaTime;
+        if (idleTime >= IDLE_EARNINGS_INTERVAL) {
+          if (bigCompare(idleCarrots, BIG_ZERO) > 0) {
+            gameBus.emit('CarrotsEarned', { amount: idleCarrots, source: 'idle' });
+          }
+          idleCarrots = BIG_ZERO;
+          idleTime = 0;
+        }
+      },
+      automation: (deltaTime) => {
+        useAutomationStore.getState().tick(deltaTime);
+      },
+      achievements: () => {
+        // Stats may have changed without events while loading (saves, older versions)
+        if (!achievementsChecked) {
+          achievementsChecked = true;
+          checkAllAchievements();
+        }
+      },
+      stats: (deltaTime) => {
+        const { carrotsPerSecond, carrots } = useGameStore.getState();
+        useStatsStore.getState().tick(deltaTime, carrotsPerSecond, carrots);
+      },
+      events: (deltaTime) => {
+        useEventStore.getState().tick(deltaTime);
+      },
+    },
+    options
+  );
+}
@@ -3,6 +3,9 @@ import { useRabbitStore } from '@/stores/rabbitStore';
 import { useUpgradeStore } from '@/stores/upgradeStore';
 import { usePrestigeStore } from '@/stores/prestigeStore';
 import { useCrateStore } from '@/stores/crateStore';
+import { updateProductionValues } from '@/game/mechanics/production';
+import { gameBus } from '@/services/gameBus';
+import { EVENT_RABBITS } from '@/game/data/events';
 import type { Rabbit } from '@/types/rabbit';
 
 /**
@@ -88,19 +91,38 @@ export function calculateMultiplierFromSeeds(seeds: number): number {
   return 1 + seeds * 0.1;
 }
 
+/**
+ * Limited-time event rabbits
+ * Kept through prestige, as their crates stop dropping them once the event ends
+ */
+const EVENT_RABBIT_IDS = new Set(EVENT_RABBITS.map((rabbit) => rabbit.id));
+
+/**
+ * Check whether a rabbit is kept through prestige
+ * @param rabbit - Owned rabbit
+ * @returns true for Legendary, Mythical and event rabbits
+ */
+export function isKeptOnPrestige(rabbit: Rabbit): boolean {
+  return (
+    rabbit.rarity === 'legendary' || rabbit.rarity === 'mythical' || EVENT_RABBIT_IDS.has(rabbit.id)
+  );
+}
+
 /**
  * Perform prestige and reset game state
  *
  * Keeps:
  * - Legendary and Mythical rabbits
+ * - Limited-time event rabbits (of any rarity)
  * - Golden Carrots
  * - Achievements
  * - Golden Seeds
+ * - Automations
  * - Prestige count
  * - Total lifetime carrots (across all runs)
  *
  * Resets:
- * - All other rabbits (Common, Uncommon, Rare, Epic)
+ * - All other rabbits (regular Common, Uncommon, Rare, Epic)
  * - Regular carrots
  * - Lifetime carrots (current run only)
  * - All upgrades
@@ -155,23 +177,26 @@ export function performPrestige(): PrestigeResult {
     console.log(`Milestone reward: +${milestoneGoldenCarrots} Golden Carrots for prestige #${newPrestigeCount}`);
   }
 
-  // Filter rabbits: keep only Legendary and Mythical
+  // Filter rabbits: keep Legendary, Mythical and event rabbits
   const allRabbits = rabbitStore.getOwnedRabbitsArray();
-  const keptRabbits = allRabbits.filter(
-    (rabbit) => rabbit.rarity === 'legendary' || rabbit.rarity === 'mythical'
-  );
-  const removedRabbits = allRabbits.filter(
-    (rabbit) => rabbit.rarity !== 'legendary' && rabbit.rarity !== 'mythical'
-  );
+  const keptRabbits = allRabbits.filter(isKeptOnPrestige);
+  const removedRabbits = allRabbits.filter((rabbit) => !isKeptOnPrestige(rabbit));
 
   // Reset game state
   resetGameState(keptRabbits);
 
+  // gameStore still holds the ended run's snapshot
+  gameBus.emit('Prestiged', {
+    prestigeCount: newPrestigeCount,
+    carrotsEarned: gameStore.lifetimeCarrots,
+    goldenSeedsEarned,
+  });
+
   console.log(`Prestige complete!`);
   console.log(`- Earned ${goldenSeedsEarned} Golden Seeds`);
   console.log(`- Total Golden Seeds: ${updatedPrestigeStore.goldenSeeds}`);
   console.log(`- Prestige count: ${newPrestigeCount}`);
-  console.log(`- Kept ${keptRabbits.length} Legendary/Mythical rabbits`);
+  console.log(`- Kept ${keptRabbits.length} Legendary/Mythical/event rabbits`);
   console.log(`- Removed ${removedRabbits.length} other rabbits`);
   if (milestoneGoldenCarrots > 0) {
     console.log(`- Milestone bonus: ${milestoneGoldenCarrots} Golden Carrots`);
@@ -257,6 +282,9 @@ function resetGameState(keptRabbits: Rabbit[]): void {
   // Note: achievementStore is NOT reset - achievements are permanent
   // Note: prestigeStore is NOT reset - Golden Seeds and prestige count are permanent
 
+  // Recalculate click power so the new Golden Seed bonus applies immediately
+  updateProductionValues();
+
   console.log('Game state reset for prestige');
 }
 
@@ -1,32 +1,58 @@
 import { useGameStore } from '@/stores/gameStore';
 import { useUpgradeStore } from '@/stores/upgradeStore';
 import { useRabbitStore } from '@/stores/rabbitStore';
+import { usePrestigeStore } from '@/stores/prestigeStore';
 import { CLICK_UPGRADES, AUTO_CLICKER_UPGRADES, CPS_MULTIPLIER_UPGRADES } from '@/game/data/upgrades';
 import { getBuildingById } from '@/game/data/buildings';
+import {
+  BIG_ZERO,
+  bigAdd,
+  bigMultiply,
+  bigSubtract,
+  toBigNumber,
+  type BigNumber,
+} from '@/utils/bigNumber';
+import { gameBus } from '@/services/gameBus';
 
 /**
  * Production breakdown by source
+ * Production math runs on big numbers throughout, so CPS keeps growing past
+ * Number.MAX_VALUE (~1.8e308) instead of overflowing to Infinity
  */
 export interface ProductionBreakdown {
   /** CPS from auto-clicker upgrades × click power */
-  autoClickers: number;
+  autoClickers: BigNumber;
   /** CPS from active rabbits in team */
-  rabbits: number;
+  rabbits: BigNumber;
   /** CPS from buildings (future) */
-  buildings: number;
+  buildings: BigNumber;
+  /** Production multiplier from rabbit abilities targeting 'all' (1.0 = none) */
+  abilityMultiplier: number;
+  /** CPS added by the Golden Seed prestige multiplier (already included in the fields above) */
+  prestige: BigNumber;
+  /** Golden Seed prestige multiplier (1.0 = no seeds) */
+  prestigeMultiplier: number;
   /** Total CPS from all sources */
-  total: number;
+  total: BigNumber;
 }
 
+/**
+ * Which ability state production is calculated with
+ * - current: abilities in effect right now
+ * - average: each ability by its long-run uptime (offline progress, where the state at
+ *   the moment the player returns says nothing about the time away)
+ */
+export type AbilityTiming = 'current' | 'average';
+
 /**
  * Calculate building CPS with special effects and synergies
  *
  * @param rabbitCount - Total number of owned rabbits
  * @returns Total building CPS
  */
-function calculateBuildingCPS(rabbitCount: number): number {
+function calculateBuildingCPS(rabbitCount: number): BigNumber {
   const upgradeState = useUpgradeStore.getState();
-  let totalBuildingCPS = 0;
+  let totalBuildingCPS = BIG_ZERO;
 
   // Ensure buildings is a Map (could be an object during hydration)
   const buildings = upgradeState.buildings instanceof Map
@@ -41,7 +67,7 @@ function calculateBuildingCPS(rabbitCount: number): number {
     if (!buildingData) return;
 
     // Base CPS: baseCPS * count
-    let buildingCPS = buildingData.baseCPS * count;
+    let buildingCPS = bigMultiply(buildingData.baseCPS, count);
 
     // Apply special effects that affect the building's own CPS
     if (buildingData.specialEffect) {
@@ -49,7 +75,10 @@ function calculateBuildingCPS(rabbitCount: number): number {
         case 'per_rabbit_boost':
           // Carrot Farm: +1% CPS per rabbit owned
           // This applies to the farm's own CPS
-          buildingCPS *= 1 + rabbitCount * buildingData.specialEffect.value;
+          buildingCPS = bigMultiply(
+            buildingCPS,
+            1 + rabbitCount * buildingData.specialEffect.value
+          );
           break;
 
         case 'rabbit_cps_boost':
@@ -66,7 +95,7 @@ function calculateBuildingCPS(rabbitCount: number): number {
       }
     }
 
-    totalBuildingCPS += buildingCPS;
+    totalBuildingCPS = bigAdd(totalBuildingCPS, buildingCPS);
   });
 
   return totalBuildingCPS;
@@ -78,9 +107,9 @@ function calculateBuildingCPS(rabbitCount: number): number {
  *
  * @returns Total multiplier (1.0 = no bonus, 2.0 = double production)
  */
-function calculateGlobalMultiplier(): number {
+function calculateGlobalMultiplier(): BigNumber {
   const upgradeState = useUpgradeStore.getState();
-  let multiplier = 1.0;
+  let multiplier = toBigNumber(1);
 
   // Ensure buildings is a Map (could be an object during hydration)
   const buildings = upgradeState.buildings instanceof Map
@@ -99,7 +128,7 @@ function calculateGlobalMultiplier(): number {
       // Each building adds its multiplier value
       // Example: Processing Plant with value 0.10 means +10% per plant
       // If you own 3 plants: 1 + (3 * 0.10) = 1.30 = 130% = +30% total
-      multiplier += count * buildingData.specialEffect.value;
+      multiplier = bigAdd(multiplier, bigMultiply(count, buildingData.specialEffect.value));
     }
   });
 
@@ -115,14 +144,14 @@ function calculateGlobalMultiplier(): number {
  * If you have 1.25× and 2× upgrades:
  * Result = 1.25 × 2.0 = 2.5× total
  */
-function calculateCPSMultiplier(): number {
+function calculateCPSMultiplier(): BigNumber {
   const upgradeState = useUpgradeStore.getState();
-  let multiplier = 1.0;
+  let multiplier = toBigNumber(1);
 
   // Apply all purchased CPS multiplier upgrades multiplicatively
   CPS_MULTIPLIER_UPGRADES.forEach((upgrade) => {
     if (upgradeState.purchasedUpgrades.has(upgrade.id)) {
-      multiplier *= upgrade.effect;
+      multiplier = bigMultiply(multiplier, upgrade.effect);
     }
   });
 
@@ -139,7 +168,7 @@ function calculateCPSMultiplier(): number {
  *
  * @returns Total CPS
  */
-export function calculateTotalCPS(): number {
+export function calculateTotalCPS(): BigNumber {
   const breakdown = calculateProductionBreakdown();
   return breakdown.total;
 }
@@ -148,11 +177,18 @@ export function calculateTotalCPS(): number {
  * Calculate detailed production breakdown by source
  * Useful for UI to show where CPS comes from
  *
+ * @param abilityTiming - Ability state to calculate with (default: current)
  * @returns ProductionBreakdown object with all sources
  */
-export function calculateProductionBreakdown(): ProductionBreakdown {
+export function calculateProductionBreakdown(
+  abilityTiming: AbilityTiming = 'current'
+): ProductionBreakdown {
   const upgradeState = useUpgradeStore.getState();
   const rabbitState = useRabbitStore.getState();
+  const abilityEffects =
+    abilityTiming === 'average'
+      ? rabbitState.getAverageAbilityEffects()
+      : rabbitState.getAbilityEffects();
 
   // 1. Calculate auto-clicker CPS
   let autoClicksPerSecond = 0;
@@ -163,11 +199,13 @@ export function calculateProductionBreakdown(): ProductionBreakdown {
   });
 
   // Auto-clickers are affected by click power
-  const clickPower = calculateClickPower();
-  let autoClickerCPS = autoClicksPerSecond * clickPower;
+  // Uses click power before the prestige bonus, which is applied once below
+  const clickPower = calculateBaseClickPower(abilityEffects.clickPowerMultiplier);
+  let autoClickerCPS = bigMultiply(clickPower, autoClicksPerSecond);
 
   // 2. Calculate rabbit CPS (base, before building synergies)
-  let rabbitCPS = rabbitState.getTeamCPS();
+  let rabbitCPS =
+    abilityTiming === 'average' ? rabbitState.getAverageTeamCPS() : rabbitState.getTeamCPS();
 
   // 3. Calculate building CPS with special effects
   let buildingCPS = calculateBuildingCPS(rabbitState.ownedRabbits.size);
@@ -177,67 +215,95 @@ export function calculateProductionBreakdown(): ProductionBreakdown {
   const burrowCount = upgradeState.getBuildingCount('rabbit_burrow');
   const burrowBuilding = getBuildingById('rabbit_burrow');
   if (burrowCount > 0 && burrowBuilding?.specialEffect?.type === 'rabbit_cps_boost') {
-    rabbitCPS *= 1 + burrowCount * burrowBuilding.specialEffect.value;
+    rabbitCPS = bigMultiply(rabbitCPS, 1 + burrowCount * burrowBuilding.specialEffect.value);
   }
 
   // 5. Apply global multipliers from buildings
   // Processing Plant, Genetic Lab, Space Station boost ALL production
   const globalMultiplier = calculateGlobalMultiplier();
-  autoClickerCPS *= globalMultiplier;
-  rabbitCPS *= globalMultiplier;
-  buildingCPS *= globalMultiplier;
+  autoClickerCPS = bigMultiply(autoClickerCPS, globalMultiplier);
+  rabbitCPS = bigMultiply(rabbitCPS, globalMultiplier);
+  buildingCPS = bigMultiply(buildingCPS, globalMultiplier);
 
   // 6. Apply CPS multiplier upgrades (stack multiplicatively)
   // Carrot Fertilizer, Growth Hormone, Genetic Engineering, etc.
   const cpsMultiplier = calculateCPSMultiplier();
-  autoClickerCPS *= cpsMultiplier;
-  rabbitCPS *= cpsMultiplier;
-  buildingCPS *= cpsMultiplier;
-
-  // 7. Total
-  const totalCPS = autoClickerCPS + rabbitCPS + buildingCPS;
+  autoClickerCPS = bigMultiply(autoClickerCPS, cpsMultiplier);
+  rabbitCPS = bigMultiply(rabbitCPS, cpsMultiplier);
+  buildingCPS = bigMultiply(buildingCPS, cpsMultiplier);
+
+  // 7. Apply rabbit abilities that boost all production
+  const abilityMultiplier = abilityEffects.productionMultiplier;
+  autoClickerCPS = bigMultiply(autoClickerCPS, abilityMultiplier);
+  rabbitCPS = bigMultiply(rabbitCPS, abilityMultiplier);
+  buildingCPS = bigMultiply(buildingCPS, abilityMultiplier);
+
+  // 8. Apply Golden Seed prestige bonus (+10% per seed)
+  // Track the CPS before the bonus so the seed contribution can be reported separately
+  const prestigeMultiplier = usePrestigeStore.getState().getPrestigeBonus();
+  const cpsBeforePrestige = bigAdd(bigAdd(autoClickerCPS, rabbitCPS), buildingCPS);
+  const autoClickers = bigMultiply(autoClickerCPS, prestigeMultiplier);
+  const rabbits = bigMultiply(rabbitCPS, prestigeMultiplier);
+  const buildings = bigMultiply(buildingCPS, prestigeMultiplier);
+
+  // 9. Total
+  const totalCPS = bigAdd(bigAdd(autoClickers, rabbits), buildings);
 
   return {
-    autoClickers: autoClickerCPS,
-    rabbits: rabbitCPS,
-    buildings: buildingCPS,
+    autoClickers,
+    rabbits,
+    buildings,
+    abilityMultiplier,
+    prestige: bigSubtract(totalCPS, cpsBeforePrestige),
+    prestigeMultiplier,
     total: totalCPS,
   };
 }
 
 /**
- * Calculate click power from all multiplier sources
+ * Calculate click power from upgrades and rabbit abilities
+ * Excludes global multipliers ('all' abilities, prestige) so auto-clicker CPS does not apply them twice
  *
- * Sources:
- * - Click power upgrades
- * - Rabbit abilities (if they affect click power)
- * - Other bonuses (future)
- *
- * @returns Total click power multiplier
+ * @param abilityClickMultiplier - Click power multiplier from rabbit abilities
+ * @returns Click power before global multipliers
  */
-export function calculateClickPower(): number {
+function calculateBaseClickPower(abilityClickMultiplier: number): BigNumber {
   const upgradeState = useUpgradeStore.getState();
-  const rabbitState = useRabbitStore.getState();
 
   // Base click power
-  let clickPower = 1;
+  let clickPower = toBigNumber(1);
 
   // 1. Click power upgrades (multiplicative)
   CLICK_UPGRADES.forEach((upgrade) => {
     if (upgradeState.purchasedUpgrades.has(upgrade.id)) {
-      clickPower *= upgrade.effect;
+      clickPower = bigMultiply(clickPower, upgrade.effect);
     }
   });
 
   // 2. Rabbit abilities that affect click power
-  const activeRabbits = rabbitState.getActiveRabbits();
-  activeRabbits.forEach((rabbit) => {
-    if (rabbit.ability && rabbit.ability.target === 'click_power') {
-      clickPower *= (1 + rabbit.ability.value / 100);
-    }
-  });
+  return bigMultiply(clickPower, abilityClickMultiplier);
+}
 
-  return clickPower;
+/**
+ * Calculate click power from all multiplier sources
+ *
+ * Sources:
+ * - Click power upgrades
+ * - Rabbit abilities (click power and all production)
+ * - Golden Seed prestige bonus
+ *
+ * @returns Total click power multiplier
+ */
+export function calculateClickPower(): BigNumber {
+  const abilityEffects = useRabbitStore.getState().getAbilityEffects();
+  const prestigeMultiplier = usePrestigeStore.getState().getPrestigeBonus();
+  return bigMultiply(
+    bigMultiply(
+      calculateBaseClickPower(abilityEffects.clickPowerMultiplier),
+      abilityEffects.productionMultiplier
+    ),
+    prestigeMultiplier
+  );
 }
 
 /**
@@ -246,6 +312,7 @@ export function calculateClickPower(): number {
  * - An upgrade is purchased
  * - A rabbit is added/removed from team
  * - Rabbit levels up
+ * - A timed rabbit ability starts or ends
  * - Any production-affecting change occurs
  */
 export function updateProductionValues(): void {
@@ -257,4 +324,6 @@ export function updateProductionValues(): void {
     carrotsPerSecond: breakdown.total,
     clickPower: clickPower,
   });
+
+  gameBus.emit('ProductionChanged', { carrotsPerSecond: breakdown.total, clickPower });
 }
@@ -0,0 +1,245 @@
+import type { Rabbit, RabbitAbility } from '@/types/rabbit';
+
+/**
+ * Combined effect of every ability currently in effect
+ */
+export interface AbilityEffects {
+  /** Multiplier on all production ('all' abilities) */
+  productionMultiplier: number;
+  /** Multiplier on click power ('click_power' abilities) */
+  clickPowerMultiplier: number;
+  /** Multiplier on carrot costs of buildings and upgrades ('cost_reduction' abilities) */
+  costMultiplier: number;
+  /** Multiplier on rare-and-above crate drop weights ('drop_rate' abilities) */
+  dropRateMultiplier: number;
+  /** Bonus added to offline efficiency, as a fraction ('offline_earnings' abilities) */
+  offlineEfficiencyBonus: number;
+}
+
+/**
+ * Activation timestamps for active abilities, keyed by rabbit ID
+ */
+export type AbilityActivations = Record<string, number>;
+
+/**
+ * Default timing for abilities that do not declare their own (seconds)
+ */
+export const DEFAULT_ABILITY_DURATION = 30;
+export const DEFAULT_ABILITY_COOLDOWN = 300;
+
+/**
+ * Lowest cost multiplier reachable through cost reduction (75% off)
+ */
+export const MIN_COST_MULTIPLIER = 0.25;
+
+/**
+ * Effects with no abilities in play
+ */
+const NO_EFFECTS: AbilityEffects = {
+  productionMultiplier: 1,
+  clickPowerMultiplier: 1,
+  costMultiplier: 1,
+  dropRateMultiplier: 1,
+  offlineEfficiencyBonus: 0,
+};
+
+/**
+ * Get the effect duration and cooldown of an ability
+ * The cooldown is counted from activation, so it is never shorter than the duration
+ * @param ability - Ability to inspect
+ * @returns Duration and cooldown in seconds
+ */
+export function getAbilityTiming(ability: RabbitAbility): { duration: number; cooldown: number } {
+  const duration = ability.duration ?? DEFAULT_ABILITY_DURATION;
+  const cooldown = Math.max(ability.cooldown ?? DEFAULT_ABILITY_COOLDOWN, duration);
+  return { duration, cooldown };
+}
+
+/**
+ * Check whether an ability is currently applying its effect
+ * - passive: always
+ * - conditional: triggers on its own for `duration` seconds out of every `cooldown` seconds,
+ *   counted from `cycleStart` so rabbits obtained at different times trigger at different times
+ * - active: for `duration` seconds after the player activates it
+ * @param ability - Ability to check
+ * @param activatedAt - Last activation timestamp (active abilities only)
+ * @param now - Current timestamp in milliseconds
+ * @param cycleStart - Timestamp the trigger cycle counts from (conditional abilities only;
+ *   the rabbit's obtainedAt)
+ * @returns true if the ability's effect applies
+ */
+export function isAbilityInEffect(
+  ability: RabbitAbility,
+  activatedAt: number | undefined,
+  now: number,
+  cycleStart: number = 0
+): boolean {
+  const { duration, cooldown } = getAbilityTiming(ability);
+
+  switch (ability.type) {
+    case 'passive':
+      return true;
+
+    case 'conditional':
+      // Wrap negative elapsed time too (clock earlier than cycleStart)
+      return ((((now - cycleStart) / 1000) % cooldown) + cooldown) % cooldown < duration;
+
+    case 'active':
+      return activatedAt !== undefined && now >= activatedAt && now < activatedAt + duration * 1000;
+  }
+}
+
+/**
+ * Get the long-run share of time an ability applies its effect
+ * Used for offline progress, where the ability state at the moment the player returns
+ * says nothing about the hours they were away
+ * - passive: always
+ * - conditional: `duration` out of every `cooldown` seconds
+ * - active: never (nobody activates it while away)
+ * @param ability - Ability to check
+ * @returns Share of time in effect (0-1)
+ */
+export function getAverageAbilityUptime(ability: RabbitAbility): number {
+  const { duration, cooldown } = getAbilityTiming(ability);
+
+  switch (ability.type) {
+    case 'passive':
+      return 1;
+    case 'conditional':
+      return cooldown > 0 ? duration / cooldown : 1;
+    case 'active':
+      return 0;
+  }
+}
+
+/**
+ * Get the seconds left before an active ability can be used again
+ * @param ability - Ability to check
+ * @param activatedAt - Last activation timestamp
+ * @param now - Current timestamp in milliseconds
+ * @returns Remaining cooldown in seconds (0 when ready; always 0 for non-active abilities)
+ */
+export function getAbilityCooldownRemaining(
+  ability: RabbitAbility,
+  activatedAt: number | undefined,
+  now: number
+): number {
+  if (ability.type !== 'active' || activatedAt === undefined) {
+    return 0;
+  }
+
+  const { cooldown } = getAbilityTiming(ability);
+  return Math.max(0, (activatedAt + cooldown * 1000 - now) / 1000);
+}
+
+/**
+ * Calculate a rabbit's own CPS (level scaling and 'cps' ability)
+ * @param rabbit - Rabbit to calculate
+ * @param abilityUptime - Share of time the rabbit's ability applies
+ *   (1 while in effect, 0 while not, between for averages)
+ * @returns Carrots per second from this rabbit
+ */
+export function calculateRabbitCPS(rabbit: Rabbit, abilityUptime: number): number {
+  let cps = rabbit.baseCPS;
+
+  // Apply level scaling (+10% per level)
+  const levelMultiplier = 1 + (rabbit.level - 1) * 0.1;
+  cps *= levelMultiplier;
+
+  // Apply ability bonus if it affects this rabbit's CPS
+  if (abilityUptime > 0 && rabbit.ability?.target === 'cps') {
+    cps *= 1 + (rabbit.ability.value / 100) * abilityUptime;
+  }
+
+  return cps;
+}
+
+/**
+ * Combine the abilities of the active team into a single set of effects
+ *
+ * Stacking:
+ * - all, click_power: multiplicative (+50% and +100% = ×3)
+ * - cost_reduction: multiplicative discounts, floored at MIN_COST_MULTIPLIER
+ * - drop_rate, offline_earnings: additive percentages
+ * - cps: applied to the rabbit's own CPS (see calculateRabbitCPS), not here
+ *
+ * @param rabbits - Rabbits in the active team
+ * @param activations - Activation timestamps for active abilities
+ * @param now - Current timestamp in milliseconds
+ * @returns Combined ability effects
+ */
+export function calculateAbilityEffects(
+  rabbits: Rabbit[],
+  activations: AbilityActivations,
+  now: number
+): AbilityEffects {
+  return combineAbilityEffects(rabbits, (rabbit, ability) =>
+    isAbilityInEffect(ability, activations[rabbit.id], now, rabbit.obtainedAt) ? 1 : 0
+  );
+}
+
+/**
+ * Combine the long-run average effects of the active team's abilities
+ * Each bonus is scaled by its ability's average uptime (see getAverageAbilityUptime)
+ * @param rabbits - Rabbits in the active team
+ * @returns Average ability effects
+ */
+export function calculateAverageAbilityEffects(rabbits: Rabbit[]): AbilityEffects {
+  return combineAbilityEffects(rabbits, (_rabbit, ability) => getAverageAbilityUptime(ability));
+}
+
+/**
+ * Combine ability effects, each bonus scaled by the share of time it applies
+ * (stacking rules: see calculateAbilityEffects)
+ */
+function combineAbilityEffects(
+  rabbits: Rabbit[],
+  getUptime: (rabbit: Rabbit, ability: RabbitAbility) => number
+): AbilityEffects {
+  const effects = { ...NO_EFFECTS };
+
+  rabbits.forEach((rabbit) => {
+    const ability = rabbit.ability;
+    const uptime = ability ? getUptime(rabbit, ability) : 0;
+    if (!ability || uptime <= 0) {
+      return;
+    }
+
+    const bonus = (ability.value / 100) * uptime;
+
+    switch (ability.target) {
+      case 'all':
+        effects.productionMultiplier *= 1 + bonus;
+        break;
+      case 'click_power':
+        effects.clickPowerMultiplier *= 1 + bonus;
+        break;
+      case 'cost_reduction':
+        effects.costMultiplier *= Math.max(0, 1 - bonus);
+        break;
+      case 'drop_rate':
+        effects.dropRateMultiplier += bonus;
+        break;
+      case 'offline_earnings':
+        effects.offlineEfficiencyBonus += bonus;
+        break;
+      case 'cps':
+        // Applied per rabbit in calculateRabbitCPS
+        break;
+    }
+  });
+
+  effects.costMultiplier = Math.max(MIN_COST_MULTIPLIER, effects.costMultiplier);
+
+  return effects;
+}
+
+/**
+ * Apply ability cost reduction to a carrot cost
+ * @param cost - Base cost in carrots
+ * @param costMultiplier - Cost multiplier from calculateAbilityEffects
+ * @returns Reduced cost
+ */
+export function applyCostReduction(cost: number, costMultiplier: number): number {
+  return Math.floor(cost * costMultiplier);
+}
@@ -0,0 +1,48 @@
+/**
+ * Achievement Condition System
+ * Compares stat values with the declarative conditions of achievement definitions
+ */
+
+import type { AchievementComparator, AchievementCondition } from '@/types/achievement';
+
+/**
+ * Comparison for each comparator
+ */
+const COMPARATORS: Record<AchievementComparator, (value: number, target: number) => boolean> = {
+  gte: (value, target) => value >= target,
+  gt: (value, target) => value > target,
+  lte: (value, target) => value <= target,
+  lt: (value, target) => value < target,
+  eq: (value, target) => value === target,
+};
+
+/**
+ * Check whether a stat value meets a condition
+ * @param condition - Achievement condition
+ * @param value - Current value of the condition's stat
+ * @returns true if the condition is met
+ */
+export function isConditionMet(condition: AchievementCondition, value: number): boolean {
+  return COMPARATORS[condition.comparator](value, condition.target);
+}
+
+/**
+ * Check whether a condition can still be met at a point in a run
+ * @param condition - Achievement condition
+ * @param runStartTime - Timestamp when the run started
+ * @param now - Current time (default: Date.now())
+ * @returns false once the condition's time limit has passed (always true without one)
+ */
+export function isWithinConditionTimeLimit(
+  condition: AchievementCondition,
+  runStartTime: number,
+  now: number = Date.now()
+): boolean {
+  if (condition.withinSeconds === undefined) {
+    return true;
+  }
+  if (!Number.isFinite(runStartTime) || runStartTime <= 0) {
+    return false;
+  }
+  return now - runStartTime <= condition.withinSeconds * 1000;
+}
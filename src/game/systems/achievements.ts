@@ -1,308 +1,250 @@
 /**
  * Achievement Checking System
- * Handles detection and unlocking of achievements based on game state
+ * Evaluates the declarative conditions of achievement definitions against game stats.
+ * Stats are re-read after the game events that change them.
  */
 
 import { useGameStore } from '@/stores/gameStore';
 import { useRabbitStore } from '@/stores/rabbitStore';
 import { useAchievementStore } from '@/stores/achievementStore';
 import { useUpgradeStore } from '@/stores/upgradeStore';
-import { getRareRabbits, getEpicRabbits, getLegendaryRabbits } from '@/game/data/rabbits';
+import { usePrestigeStore } from '@/stores/prestigeStore';
+import { useStatsStore, type RunStats } from '@/stores/statsStore';
+import { ACHIEVEMENTS } from '@/game/data/achievements';
+import {
+  RABBITS,
+  getRareRabbits,
+  getEpicRabbits,
+  getLegendaryRabbits,
+} from '@/game/data/rabbits';
+import type { Achievement, AchievementScope, AchievementStat } from '@/types/achievement';
+import type { GameBusEventType } from '@/types/gameBus';
+import type { Rarity } from '@/types/rabbit';
+import { bigAdd, bigMax, bigToNumber } from '@/utils/bigNumber';
+import { isConditionMet, isWithinConditionTimeLimit } from './achievementConditions';
 
 /**
- * Throttle configuration
- * Prevents excessive achievement checking
+ * How a stat is read and when it changes
  */
-const ACHIEVEMENT_CHECK_INTERVAL = 1000; // Check every 1 second
-let lastCheckTime = 0;
+interface AchievementStatSource {
+  /** Value over the current run */
+  run: () => number;
+  /** Value over every run (left out for stats no all-time total is kept for) */
+  allTime?: () => number;
+  /** Game events after which the stat may have changed */
+  changedBy: readonly GameBusEventType[];
+}
 
 /**
- * Check all achievements and update progress
- * This is the main entry point called from the game tick
- * Throttled to run at most once per second for performance
+ * Total crates opened in a run
  */
-export function checkAllAchievements(): void {
-  const now = Date.now();
-
-  // Throttle: only check once per interval
-  if (now - lastCheckTime < ACHIEVEMENT_CHECK_INTERVAL) {
-    return;
-  }
-
-  lastCheckTime = now;
-
-  // Get all store states
-  const gameState = useGameStore.getState();
-  const rabbitState = useRabbitStore.getState();
-  const achievementState = useAchievementStore.getState();
-  const upgradeState = useUpgradeStore.getState();
-
-  // Check each category of achievements
-  checkProductionAchievements(gameState, achievementState);
-  checkClickingAchievements(gameState, achievementState);
-  checkCollectionAchievements(rabbitState, achievementState);
-  checkCrateAchievements();
-  checkSpecialAchievements(rabbitState, upgradeState, achievementState);
+function countCratesOpened(run: RunStats): number {
+  return Object.values(run.cratesOpened).reduce((total, count) => total + (count ?? 0), 0);
 }
 
 /**
- * Check production-related achievements
- * Tracks lifetime carrots earned and CPS milestones
+ * Different regular rabbits owned
+ * Limited-time event rabbits are left out, so collection targets stay reachable
+ * only through the regular crates
  */
-function checkProductionAchievements(
-  gameState: ReturnType<typeof useGameStore.getState>,
-  achievementState: ReturnType<typeof useAchievementStore.getState>
-): void {
-  const { lifetimeCarrots, carrotsPerSecond } = gameState;
-
-  // Total carrots earned achievements
-  const carrotAchievements = [
-    { id: 'carrot_novice', target: 1000 },
-    { id: 'carrot_farmer', target: 100000 },
-    { id: 'carrot_magnate', target: 10000000 },
-    { id: 'carrot_tycoon', target: 1000000000 },
-    { id: 'carrot_god', target: 1000000000000 },
-  ];
-
-  carrotAchievements.forEach(({ id }) => {
-    if (!achievementState.isUnlocked(id)) {
-      achievementState.updateProgress(id, lifetimeCarrots);
-    }
-  });
-
-  // CPS milestone achievements
-  const cpsAchievements = [
-    { id: 'production_starter', target: 100 },
-    { id: 'production_master', target: 10000 },
-    { id: 'production_legend', target: 1000000 },
-  ];
-
-  cpsAchievements.forEach(({ id }) => {
-    if (!achievementState.isUnlocked(id)) {
-      achievementState.updateProgress(id, carrotsPerSecond);
-    }
-  });
+function countOwnedRegularRabbits(): number {
+  const { ownedRabbits } = useRabbitStore.getState();
+  return RABBITS.filter((rabbit) => ownedRabbits.has(rabbit.id)).length;
 }
 
 /**
- * Check clicking-related achievements
- * Tracks total manual clicks performed
+ * Different rabbits of a rarity owned (regular rabbits only)
  */
-function checkClickingAchievements(
-  gameState: ReturnType<typeof useGameStore.getState>,
-  achievementState: ReturnType<typeof useAchievementStore.getState>
-): void {
-  const { totalClicks } = gameState;
-
-  const clickAchievements = [
-    { id: 'click_beginner', target: 100 },
-    { id: 'click_enthusiast', target: 1000 },
-    { id: 'click_veteran', target: 10000 },
-    { id: 'click_master', target: 100000 },
-    { id: 'click_god', target: 1000000 },
-  ];
-
-  clickAchievements.forEach(({ id }) => {
-    if (!achievementState.isUnlocked(id)) {
-      achievementState.updateProgress(id, totalClicks);
-    }
-  });
+function countOwnedRabbits(rarity: Extract<Rarity, 'rare' | 'epic' | 'legendary'>): number {
+  const { ownedRabbits } = useRabbitStore.getState();
+  const rabbits = { rare: getRareRabbits, epic: getEpicRabbits, legendary: getLegendaryRabbits };
+  return rabbits[rarity]().filter((rabbit) => ownedRabbits.has(rabbit.id)).length;
 }
 
 /**
- * Check collection-related achievements
- * Tracks rabbit collection progress and specific rarity collections
+ * Read a stat that does not reset on prestige in both scopes
  */
-function checkCollectionAchievements(
-  rabbitState: ReturnType<typeof useRabbitStore.getState>,
-  achievementState: ReturnType<typeof useAchievementStore.getState>
-): void {
-  const { ownedRabbits } = rabbitState;
-
-  // Total unique rabbits collected
-  const uniqueRabbitsCount = ownedRabbits.size;
-
-  const collectionAchievements = [
-    { id: 'bunny_collector', target: 10 },
-    { id: 'rabbit_enthusiast', target: 20 },
-    { id: 'master_collector', target: 30 },
-  ];
-
-  collectionAchievements.forEach(({ id }) => {
-    if (!achievementState.isUnlocked(id)) {
-      achievementState.updateProgress(id, uniqueRabbitsCount);
-    }
-  });
-
-  // Count rare rabbits owned
-  const rareRabbits = getRareRabbits();
-  const ownedRareCount = rareRabbits.filter((rabbit) => ownedRabbits.has(rabbit.id)).length;
-
-  if (!achievementState.isUnlocked('rare_breeder')) {
-    achievementState.updateProgress('rare_breeder', ownedRareCount);
-  }
-
-  // Count legendary rabbits owned
-  const legendaryRabbits = getLegendaryRabbits();
-  const ownedLegendaryCount = legendaryRabbits.filter((rabbit) => ownedRabbits.has(rabbit.id))
-    .length;
-
-  if (!achievementState.isUnlocked('legendary_hunter')) {
-    achievementState.updateProgress('legendary_hunter', ownedLegendaryCount);
-  }
-
-  // Count epic rabbits owned
-  const epicRabbits = getEpicRabbits();
-  const ownedEpicCount = epicRabbits.filter((rabbit) => ownedRabbits.has(rabbit.id)).length;
-
-  if (!achievementState.isUnlocked('epic_collector')) {
-    achievementState.updateProgress('epic_collector', ownedEpicCount);
-  }
+function sameInEveryScope(read: () => number): Pick<AchievementStatSource, 'run' | 'allTime'> {
+  return { run: read, allTime: read };
 }
 
 /**
- * Check crate-related achievements
- * Tracks total crates opened (including premium crates)
- * Note: Progress for these achievements should be updated when crates are opened
- * This function is here for completeness and future integration
+ * Stat sources by stat
  */
-function checkCrateAchievements(): void {
-  // Crate achievements are tracked manually when crates are opened
-  // Progress is updated via achievementState.updateProgress() in the crate opening logic
-  // This function can be used for any additional crate-related checks in the future
-
-  // Example achievements:
-  // - lucky_rabbit: Open 10 crates
-  // - crate_opener: Open 50 crates
-  // - crate_addict: Open 100 crates
-  // - crate_collector: Open 500 crates
-  // - gacha_king: Open 1,000 crates
-  // - premium_patron: Open first Premium Crate
+const ACHIEVEMENT_STATS: Record<AchievementStat, AchievementStatSource> = {
+  carrotsEarned: {
+    run: () => bigToNumber(useGameStore.getState().lifetimeCarrots),
+    allTime: () =>
+      bigToNumber(
+        bigAdd(
+          usePrestigeStore.getState().totalLifetimeCarrots,
+          useGameStore.getState().lifetimeCarrots
+        )
+      ),
+    changedBy: ['Clicked', 'CarrotsEarned'],
+  },
+  carrotsPerSecond: {
+    run: () => bigToNumber(useGameStore.getState().carrotsPerSecond),
+    allTime: () =>
+      bigToNumber(
+        bigMax(
+          useStatsStore.getState().allTime.highestCarrotsPerSecond,
+          useGameStore.getState().carrotsPerSecond
+        )
+      ),
+    changedBy: ['ProductionChanged'],
+  },
+  offlineEarnings: {
+    run: () => bigToNumber(useStatsStore.getState().currentRun.largestOfflineEarnings),
+    allTime: () => bigToNumber(useStatsStore.getState().allTime.largestOfflineEarnings),
+    changedBy: ['CarrotsEarned'],
+  },
+  clicks: {
+    run: () => useGameStore.getState().totalClicks,
+    changedBy: ['Clicked'],
+  },
+  goldenCarrotsEarned: {
+    run: () => useStatsStore.getState().currentRun.goldenCarrotsEarned,
+    allTime: () => useStatsStore.getState().allTime.goldenCarrotsEarned,
+    changedBy: ['GoldenCarrotsEarned'],
+  },
+  cratesOpened: {
+    run: () => countCratesOpened(useStatsStore.getState().currentRun),
+    allTime: () => countCratesOpened(useStatsStore.getState().allTime),
+    changedBy: ['CrateOpened'],
+  },
+  premiumCratesOpened: {
+    run: () => useStatsStore.getState().currentRun.cratesOpened.premium ?? 0,
+    allTime: () => useStatsStore.getState().allTime.cratesOpened.premium ?? 0,
+    changedBy: ['CrateOpened'],
+  },
+  rabbitsCollected: {
+    ...sameInEveryScope(countOwnedRegularRabbits),
+    changedBy: ['RabbitObtained'],
+  },
+  rareRabbitsCollected: {
+    ...sameInEveryScope(() => countOwnedRabbits('rare')),
+    changedBy: ['RabbitObtained'],
+  },
+  epicRabbitsCollected: {
+    ...sameInEveryScope(() => countOwnedRabbits('epic')),
+    changedBy: ['RabbitObtained'],
+  },
+  legendaryRabbitsCollected: {
+    ...sameInEveryScope(() => countOwnedRabbits('legendary')),
+    changedBy: ['RabbitObtained'],
+  },
+  highestRabbitLevel: {
+    ...sameInEveryScope(() =>
+      Array.from(useRabbitStore.getState().ownedRabbits.values()).reduce(
+        (max, rabbit) => Math.max(max, rabbit.level),
+        0
+      )
+    ),
+    changedBy: ['RabbitObtained', 'RabbitLeveledUp'],
+  },
+  buildingsOwned: {
+    run: () => useUpgradeStore.getState().getTotalBuildingCount(),
+    changedBy: ['BuildingPurchased'],
+  },
+  prestiges: {
+    ...sameInEveryScope(() => usePrestigeStore.getState().prestigeCount),
+    changedBy: ['Prestiged'],
+  },
+};
+
+const ALL_STATS = Object.keys(ACHIEVEMENT_STATS) as AchievementStat[];
 
-  // These are tracked externally in the crate opening system
+/**
+ * Read the value of a stat
+ * @param stat - Stat to read
+ * @param scope - Scope to count the stat over (default: run)
+ * @returns Current value, or null if the stat has no value for that scope
+ */
+export function readAchievementStat(
+  stat: AchievementStat,
+  scope: AchievementScope = 'run'
+): number | null {
+  const source = ACHIEVEMENT_STATS[stat];
+  const read = scope === 'allTime' ? source.allTime : source.run;
+  if (!read) {
+    console.error(`Achievement stat ${stat} has no ${scope} value`);
+    return null;
+  }
+  return read();
 }
 
 /**
- * Check special achievements
- * Tracks prestige, buildings, speed runs, and other unique conditions
+ * Update the progress of an achievement from its condition
+ * Unlocks it when the condition is met
  */
-function checkSpecialAchievements(
-  rabbitState: ReturnType<typeof useRabbitStore.getState>,
-  upgradeState: ReturnType<typeof useUpgradeStore.getState>,
+function evaluateAchievement(
+  achievement: Achievement,
   achievementState: ReturnType<typeof useAchievementStore.getState>
 ): void {
-  // Building count achievement
-  const totalBuildings = upgradeState.getTotalBuildingCount();
-
-  if (!achievementState.isUnlocked('building_empire')) {
-    achievementState.updateProgress('building_empire', totalBuildings);
+  const { condition } = achievement;
+  if (!condition || achievementState.isUnlocked(achievement.id)) {
+    return;
   }
 
-  // Max level rabbit achievement
-  // Check if any rabbit has reached level 100
-  const rabbits = Array.from(rabbitState.ownedRabbits.values());
-  const maxRabbitLevel = rabbits.reduce((max, rabbit) => Math.max(max, rabbit.level), 0);
-
-  if (!achievementState.isUnlocked('max_level')) {
-    achievementState.updateProgress('max_level', maxRabbitLevel);
+  // A condition with a time limit cannot be met (or progressed) once it has passed
+  if (!isWithinConditionTimeLimit(condition, useGameStore.getState().gameSessionStartTime)) {
+    return;
   }
 
-  // Speed run achievement - automatically checked here
-  checkSpeedRunAchievement();
+  const value = readAchievementStat(condition.stat, condition.scope);
+  if (value === null) {
+    return;
+  }
 
-  // Note: Other special achievements require manual triggering:
-  // - first_prestige: Call updatePrestigeAchievement() when prestige() is performed
-  // - idle_master: Call checkIdleMasterAchievement() when calculateOfflineProgress() runs
+  // Skip unchanged progress so frequent checks do not write the store
+  if (value !== achievementState.getProgress(achievement.id) || isConditionMet(condition, value)) {
+    achievementState.updateProgress(achievement.id, value);
+  }
 }
 
 /**
- * Update crate achievement progress
- * Call this when a crate is opened
- * @param crateType - The type of crate opened (for premium crate tracking)
+ * Evaluate the achievements whose condition reads one of the given stats
+ * @param stats - Stats that may have changed
  */
-export function updateCrateAchievementProgress(crateType?: string): void {
+export function evaluateAchievements(stats: ReadonlySet<AchievementStat>): void {
   const achievementState = useAchievementStore.getState();
 
-  // Get current total crates opened from progress
-  const currentCratesOpened = achievementState.getProgress('lucky_rabbit');
-  const newCratesOpened = currentCratesOpened + 1;
-
-  // Update all crate-count achievements
-  const crateAchievements = [
-    { id: 'lucky_rabbit', target: 10 },
-    { id: 'crate_opener', target: 50 },
-    { id: 'crate_addict', target: 100 },
-    { id: 'crate_collector', target: 500 },
-    { id: 'gacha_king', target: 1000 },
-  ];
-
-  crateAchievements.forEach(({ id }) => {
-    if (!achievementState.isUnlocked(id)) {
-      achievementState.updateProgress(id, newCratesOpened);
+  ACHIEVEMENTS.forEach((achievement) => {
+    if (achievement.condition && stats.has(achievement.condition.stat)) {
+      evaluateAchievement(achievement, achievementState);
     }
   });
-
-  // Check premium crate achievement
-  if (crateType === 'premium' && !achievementState.isUnlocked('premium_patron')) {
-    achievementState.updateProgress('premium_patron', 1);
-  }
 }
 
 /**
- * Update prestige achievement
- * Call this when prestige() is performed
+ * Stats each game event may change
  */
-export function updatePrestigeAchievement(): void {
-  const achievementState = useAchievementStore.getState();
-
-  if (!achievementState.isUnlocked('first_prestige')) {
-    achievementState.updateProgress('first_prestige', 1);
-  }
-}
+const STATS_BY_EVENT = new Map<GameBusEventType, Set<AchievementStat>>();
+ALL_STATS.forEach((stat) => {
+  ACHIEVEMENT_STATS[stat].changedBy.forEach((type) => {
+    const stats = STATS_BY_EVENT.get(type) ?? new Set<AchievementStat>();
+    stats.add(stat);
+    STATS_BY_EVENT.set(type, stats);
+  });
+});
 
 /**
- * Check speed run achievement
- * Automatically reads session start time from game store, or accepts optional override
- * @param gameStartTime - Optional timestamp override (falls back to store value)
+ * Evaluate the achievements a game event may have progressed
+ * Subscribed to every event on the game event bus
+ * @param type - Event that was emitted
  */
-export function checkSpeedRunAchievement(gameStartTime?: number): void {
-  const achievementState = useAchievementStore.getState();
-  const gameState = useGameStore.getState();
-
-  if (achievementState.isUnlocked('speed_runner')) {
-    return;
-  }
-
-  // Use provided gameStartTime or fall back to store value
-  const sessionStartTime = gameStartTime ?? gameState.gameSessionStartTime;
-
-  // Guard: if no valid start time, cannot check speed run
-  if (!sessionStartTime || !Number.isFinite(sessionStartTime)) {
-    return;
-  }
-
-  const { lifetimeCarrots } = gameState;
-
-  // Only check if player has reached 1M carrots
-  if (lifetimeCarrots >= 1000000) {
-    const elapsedTime = Date.now() - sessionStartTime;
-    const oneHourMs = 60 * 60 * 1000;
-
-    if (elapsedTime <= oneHourMs) {
-      achievementState.updateProgress('speed_runner', lifetimeCarrots);
-    }
+export function checkAchievementsForEvent(type: GameBusEventType): void {
+  const stats = STATS_BY_EVENT.get(type);
+  if (stats) {
+    evaluateAchievements(stats);
   }
 }
 
 /**
- * Check idle master achievement
- * Call this when offline progress is calculated
- * @param offlineEarnings - Amount of carrots earned while offline
+ * Evaluate every achievement with a condition
+ * Used once the game has loaded, since stats may have changed without events
  */
-export function checkIdleMasterAchievement(offlineEarnings: number): void {
-  const achievementState = useAchievementStore.getState();
-
-  if (!achievementState.isUnlocked('idle_master') && offlineEarnings >= 1000000) {
-    achievementState.updateProgress('idle_master', offlineEarnings);
-  }
+export function checkAllAchievements(): void {
+  evaluateAchievements(new Set(ALL_STATS));
 }
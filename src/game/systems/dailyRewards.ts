@@ -0,0 +1,128 @@
+/**
+ * Daily Reward System
+ * Decides when the next daily login reward can be claimed and which streak day it is.
+ * Days follow the player's local calendar, so the reward unlocks at local midnight.
+ */
+
+import type { DailyReward } from '@/types/reward';
+import { bigMax, bigMultiply, type BigNumber, type BigNumberSource } from '@/utils/bigNumber';
+
+/**
+ * Days that can be missed without losing the streak
+ * With 1, claiming two days after the last claim still continues the streak
+ */
+export const STREAK_GRACE_DAYS = 1;
+
+/**
+ * Smallest carrot reward per production minute, so new players with little
+ * production still get a useful reward
+ */
+export const MIN_DAILY_REWARD_CARROTS_PER_MINUTE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the daily reward can be claimed
+ * - available: a reward is waiting
+ * - claimed: today's reward was already claimed
+ * - clockBehind: the device clock is earlier than the last claim (clock turned back)
+ */
+export type DailyRewardAvailability = 'available' | 'claimed' | 'clockBehind';
+
+/**
+ * Daily reward state at a point in time
+ */
+export interface DailyRewardStatus {
+  availability: DailyRewardAvailability;
+  /** Streak day the next claim counts as (1-based) */
+  nextStreakDay: number;
+  /** Whether more than the grace window was missed, so the next claim restarts the streak */
+  streakBroken: boolean;
+  /** Timestamp when the next reward unlocks (now if one is waiting) */
+  nextClaimAt: number;
+}
+
+/**
+ * Number of the local calendar day a timestamp falls on
+ * Consecutive local dates differ by exactly 1, across daylight saving changes too
+ * @param timestamp - Time in milliseconds
+ * @returns Day number
+ */
+export function getCalendarDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+/**
+ * Start of the local day after a timestamp
+ * @param timestamp - Time in milliseconds
+ * @returns Timestamp of the next local midnight
+ */
+export function getNextDayStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+}
+
+/**
+ * Work out whether a reward is waiting and which streak day it is
+ * @param lastClaimTime - Time of the last claim (null if never claimed)
+ * @param streak - Streak day of the last claim (0 if never claimed)
+ * @param now - Current time (default: Date.now())
+ * @returns Daily reward status
+ */
+export function getDailyRewardStatus(
+  lastClaimTime: number | null,
+  streak: number,
+  now: number = Date.now()
+): DailyRewardStatus {
+  if (lastClaimTime === null) {
+    return { availability: 'available', nextStreakDay: 1, streakBroken: false, nextClaimAt: now };
+  }
+
+  // Clock turned back past the last claim: wait until real time catches up again,
+  // so turning the clock forward and back cannot repeat rewards
+  if (now < lastClaimTime) {
+    return {
+      availability: 'clockBehind',
+      nextStreakDay: streak + 1,
+      streakBroken: false,
+      nextClaimAt: getNextDayStart(lastClaimTime),
+    };
+  }
+
+  const daysSinceClaim = getCalendarDay(now) - getCalendarDay(lastClaimTime);
+
+  if (daysSinceClaim === 0) {
+    return {
+      availability: 'claimed',
+      nextStreakDay: streak + 1,
+      streakBroken: false,
+      nextClaimAt: getNextDayStart(now),
+    };
+  }
+
+  const streakBroken = daysSinceClaim > STREAK_GRACE_DAYS + 1;
+  return {
+    availability: 'available',
+    nextStreakDay: streakBroken ? 1 : streak + 1,
+    streakBroken,
+    nextClaimAt: now,
+  };
+}
+
+/**
+ * Carrots granted by a daily reward
+ * @param reward - Daily reward
+ * @param carrotsPerSecond - Current production
+ * @returns Carrots for the reward's production minutes (at least the minimum per minute)
+ */
+export function calculateDailyRewardCarrots(
+  reward: DailyReward,
+  carrotsPerSecond: BigNumberSource
+): BigNumber {
+  const minutes = reward.productionMinutes ?? 0;
+  return bigMax(
+    bigMultiply(carrotsPerSecond, minutes * 60),
+    minutes * MIN_DAILY_REWARD_CARROTS_PER_MINUTE
+  );
+}
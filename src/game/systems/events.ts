@@ -0,0 +1,197 @@
+/**
+ * Limited-Time Event System
+ * Works out which event is running, rolls event crates and tracks event achievements.
+ * Event dates are absolute (ISO strings with a time zone), so every player sees the
+ * same window regardless of their local time zone.
+ */
+
+import type { Achievement } from '@/types/achievement';
+import type { EventAchievement, GameEvent } from '@/types/event';
+import type { Rarity } from '@/types/rabbit';
+import type { RabbitData } from '@/game/data/rabbits';
+import { EVENTS } from '@/game/data/events';
+import {
+  findAvailableRarity,
+  rollRarityFromRates,
+  selectRabbit,
+  type PityCounters,
+} from './gacha';
+import type { RandomSource } from './random';
+
+/**
+ * Where an event is in its schedule
+ * - upcoming: not started yet
+ * - active: running (start inclusive, end exclusive)
+ * - ended: over; leftover currency is converted
+ */
+export type EventStatus = 'upcoming' | 'active' | 'ended';
+
+/**
+ * Counts that event achievements are measured against
+ */
+export interface EventAchievementCounts {
+  /** Event currency earned in total (spending does not lower it) */
+  currencyEarned: number;
+  /** Event crates opened */
+  cratesOpened: number;
+  /** Event rabbits currently owned */
+  rabbitsCollected: number;
+}
+
+/**
+ * Start and end of an event as timestamps
+ * @param event - Event definition
+ * @returns Start and end time in milliseconds
+ */
+export function getEventTimes(event: GameEvent): { start: number; end: number } {
+  return { start: Date.parse(event.startDate), end: Date.parse(event.endDate) };
+}
+
+/**
+ * Get where an event is in its schedule
+ * @param event - Event definition
+ * @param now - Current time (default: Date.now())
+ * @returns Event status
+ */
+export function getEventStatus(event: GameEvent, now: number = Date.now()): EventStatus {
+  const { start, end } = getEventTimes(event);
+  if (now < start) return 'upcoming';
+  if (now < end) return 'active';
+  return 'ended';
+}
+
+/**
+ * Get the event running at a point in time
+ * @param now - Current time (default: Date.now())
+ * @param events - Events to search (default: all events)
+ * @returns Running event, or null if none is running
+ */
+export function getActiveEvent(
+  now: number = Date.now(),
+  events: GameEvent[] = EVENTS
+): GameEvent | null {
+  return events.find((event) => getEventStatus(event, now) === 'active') ?? null;
+}
+
+/**
+ * Time until an event's next boundary
+ * @param event - Event definition
+ * @param now - Current time (default: Date.now())
+ * @returns Milliseconds until the start (upcoming) or end (active); 0 once ended
+ */
+export function getTimeRemaining(event: GameEvent, now: number = Date.now()): number {
+  const { start, end } = getEventTimes(event);
+  return Math.max((now < start ? start : end) - now, 0);
+}
+
+/**
+ * Number of an event's rabbits that are owned
+ * @param event - Event definition
+ * @param ownedRabbits - Map of currently owned rabbits (by ID)
+ * @returns Owned event rabbits
+ */
+export function countEventRabbits(
+  event: GameEvent,
+  ownedRabbits: ReadonlyMap<string, unknown>
+): number {
+  return event.rabbits.filter((rabbit) => ownedRabbits.has(rabbit.id)).length;
+}
+
+/**
+ * Roll an event crate: rarity from the event's drop rates and pity thresholds,
+ * then a rabbit from the event rabbits of that rarity
+ * Rarities without event rabbits use the regular pool (closest available rarity);
+ * the returned rarity is still the rolled one so pity is satisfied
+ * @param event - Event whose crate is opened
+ * @param pityCounters - Event pity counters
+ * @param ownedRabbits - Map of currently owned rabbits (by ID)
+ * @param random - Random source
+ * @param dropRateMultiplier - Multiplier on rare-and-above drop weights
+ * @returns Rarity rolled and selected rabbit data
+ * @throws Error if no rabbits exist in any rarity
+ */
+export function rollEventCrate(
+  event: GameEvent,
+  pityCounters: PityCounters,
+  ownedRabbits: ReadonlyMap<string, unknown>,
+  random: RandomSource = Math.random,
+  dropRateMultiplier: number = 1
+): { rarity: Rarity; rabbitData: RabbitData } {
+  const rarity = rollRarityFromRates(
+    event.crate.dropRates,
+    pityCounters,
+    random,
+    dropRateMultiplier,
+    event.pityThresholds
+  );
+
+  const eventPool = event.rabbits.filter((rabbit) => rabbit.rarity === rarity);
+  if (eventPool.length > 0) {
+    const rabbitData = selectRabbit(rarity, ownedRabbits, random, eventPool);
+    if (rabbitData) {
+      return { rarity, rabbitData };
+    }
+  }
+
+  const poolRarity = findAvailableRarity(rarity);
+  const rabbitData = poolRarity && selectRabbit(poolRarity, ownedRabbits, random);
+  if (!rabbitData) {
+    throw new Error('No rabbits available in any rarity');
+  }
+
+  return { rarity, rabbitData };
+}
+
+/**
+ * Current progress towards an event achievement
+ * @param achievement - Event achievement definition
+ * @param counts - Event counts
+ * @returns Current value (capped at the target)
+ */
+export function getEventAchievementProgress(
+  achievement: EventAchievement,
+  counts: EventAchievementCounts
+): number {
+  const { type, target } = achievement.requirement;
+  const current =
+    type === 'currency_earned'
+      ? counts.currencyEarned
+      : type === 'crates_opened'
+        ? counts.cratesOpened
+        : counts.rabbitsCollected;
+  return Math.min(current, target);
+}
+
+/**
+ * Build an Achievement for an unlocked event achievement (for the achievement toast)
+ * @param achievement - Event achievement definition
+ * @param unlockedAt - Unlock time
+ * @returns Unlocked achievement
+ */
+export function toAchievement(achievement: EventAchievement, unlockedAt: number): Achievement {
+  const { target } = achievement.requirement;
+  return {
+    id: achievement.id,
+    name: achievement.name,
+    description: achievement.description,
+    category: 'special',
+    tier: achievement.tier,
+    icon: achievement.icon,
+    reward: { goldenCarrots: achievement.goldenCarrots },
+    progress: { current: target, target, percentage: 100 },
+    isUnlocked: true,
+    isHidden: false,
+    unlockedAt,
+    sortOrder: 0,
+  };
+}
+
+/**
+ * Golden Carrots given for event currency left over when the event ends
+ * @param event - Event definition
+ * @param currency - Leftover event currency
+ * @returns Golden Carrots (rounded down)
+ */
+export function calculateEventConversion(event: GameEvent, currency: number): number {
+  return Math.floor(Math.max(currency, 0) * event.currency.goldenCarrotsPerUnit);
+}
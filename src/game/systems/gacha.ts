@@ -1,8 +1,9 @@
 import type { Rarity, Rabbit } from '@/types/rabbit';
-import type { CrateType } from '@/types/crate';
+import type { CrateType, PityThresholds } from '@/types/crate';
 import type { RabbitData } from '@/game/data/rabbits';
 import { getCrateByType } from '@/game/data/crates';
 import { getRabbitsByRarity } from '@/game/data/rabbits';
+import { createSeededRandom, type RandomSource, type RngState } from './random';
 
 /**
  * Pity counter interface for tracking crates opened without specific rarities
@@ -13,62 +14,195 @@ export interface PityCounters {
   cratesSinceMythical: number;
 }
 
+/**
+ * Single crate opening recorded for replay
+ */
+export interface CrateHistoryEntry {
+  /** Crate type opened */
+  crateType: CrateType;
+  /** Rarity rolled */
+  rarity: Rarity;
+  /** Rabbit obtained */
+  rabbitId: string;
+  /** Drop rate multiplier from rabbit abilities at the time of opening (1 if omitted) */
+  dropRateMultiplier?: number;
+  /** Rarity floor applied by the multi-open guarantee (none if omitted) */
+  minimumRarity?: Rarity;
+}
+
+/**
+ * Starting point of a crate history
+ * Captured before the first opening so the whole history can be replayed
+ */
+export interface CrateHistoryStart {
+  /** PRNG state before the first opening (null = start of the seed's sequence) */
+  rngState: RngState | null;
+  /** Pity counters before the first opening */
+  pityCounters: PityCounters;
+  /** Rabbits owned before the first opening */
+  ownedRabbitIds: string[];
+}
+
+/**
+ * Result of replaying a crate history
+ */
+export interface CrateReplayResult {
+  /** Openings produced by the replay */
+  entries: CrateHistoryEntry[];
+  /** Index of the first opening that differs from the recorded history (null if all match) */
+  firstMismatch: number | null;
+}
+
 /**
  * Pity thresholds (matches crateStore defaults)
  */
-export const PITY_THRESHOLDS = {
+export const PITY_THRESHOLDS: PityThresholds = {
   epic: 50,
   legendary: 200,
   mythical: 200,
-} as const;
+};
+
+/**
+ * Crates per multi-open batch
+ */
+export const MULTI_OPEN_COUNT = 10;
+
+/**
+ * Rarity guaranteed at least once per multi-open batch
+ */
+export const MULTI_OPEN_GUARANTEED_RARITY: Rarity = 'rare';
+
+/**
+ * Rarities from lowest to highest
+ */
+const RARITY_ORDER: readonly Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary', 'mythical'];
+
+/**
+ * Check if a rarity is at or above another
+ * @param rarity - Rarity to check
+ * @param minimum - Minimum rarity
+ * @returns true if rarity is at least minimum
+ */
+export function isRarityAtLeast(rarity: Rarity, minimum: Rarity): boolean {
+  return RARITY_ORDER.indexOf(rarity) >= RARITY_ORDER.indexOf(minimum);
+}
 
 /**
  * Check if pity system should trigger a guaranteed drop
  * @param counters - Current pity counters
+ * @param thresholds - Pity thresholds (default: regular crate thresholds)
  * @returns Guaranteed rarity if pity triggered, null otherwise
  */
-export function checkPity(counters: PityCounters): Rarity | null {
+export function checkPity(
+  counters: PityCounters,
+  thresholds: PityThresholds = PITY_THRESHOLDS
+): Rarity | null {
   // Check from highest to lowest rarity
-  if (counters.cratesSinceMythical >= PITY_THRESHOLDS.mythical) {
+  if (counters.cratesSinceMythical >= thresholds.mythical) {
     return 'mythical';
   }
-  if (counters.cratesSinceLegendary >= PITY_THRESHOLDS.legendary) {
+  if (counters.cratesSinceLegendary >= thresholds.legendary) {
     return 'legendary';
   }
-  if (counters.cratesSinceEpic >= PITY_THRESHOLDS.epic) {
+  if (counters.cratesSinceEpic >= thresholds.epic) {
     return 'epic';
   }
   return null;
 }
 
+/**
+ * Advance pity counters after a crate opening
+ * Increments all counters, then resets counters for rarities at or below what was obtained
+ * @param counters - Pity counters before the opening
+ * @param rarity - Rarity obtained
+ * @returns New pity counters
+ */
+export function advancePityCounters(counters: PityCounters, rarity: Rarity): PityCounters {
+  const next: PityCounters = {
+    cratesSinceEpic: counters.cratesSinceEpic + 1,
+    cratesSinceLegendary: counters.cratesSinceLegendary + 1,
+    cratesSinceMythical: counters.cratesSinceMythical + 1,
+  };
+
+  if (rarity === 'mythical') {
+    next.cratesSinceMythical = 0;
+    next.cratesSinceLegendary = 0;
+    next.cratesSinceEpic = 0;
+  } else if (rarity === 'legendary') {
+    next.cratesSinceLegendary = 0;
+    next.cratesSinceEpic = 0;
+  } else if (rarity === 'epic') {
+    next.cratesSinceEpic = 0;
+  }
+
+  return next;
+}
+
+/**
+ * Rarities boosted by drop rate abilities
+ */
+const LUCKY_RARITIES: ReadonlySet<Rarity> = new Set(['rare', 'epic', 'legendary', 'mythical']);
+
 /**
  * Roll for rarity based on crate type and pity system
  * @param crateType - Type of crate being opened
  * @param pityCounters - Current pity counters
+ * @param random - Random source (defaults to Math.random; pass a seeded source for reproducible rolls)
+ * @param dropRateMultiplier - Multiplier on rare-and-above drop weights (rates are renormalized)
  * @returns Rarity tier obtained
  */
-export function rollRarity(crateType: CrateType, pityCounters: PityCounters): Rarity {
+export function rollRarity(
+  crateType: CrateType,
+  pityCounters: PityCounters,
+  random: RandomSource = Math.random,
+  dropRateMultiplier: number = 1
+): Rarity {
   // Get crate data
   const crate = getCrateByType(crateType);
   if (!crate) {
     throw new Error(`Crate type ${crateType} not found`);
   }
 
+  return rollRarityFromRates(crate.dropRates, pityCounters, random, dropRateMultiplier);
+}
+
+/**
+ * Roll for rarity from a drop rate table and pity counters
+ * Used directly for crates that are not in CRATE_TYPES (event crates)
+ * @param dropRates - Drop rate probabilities by rarity
+ * @param pityCounters - Current pity counters
+ * @param random - Random source
+ * @param dropRateMultiplier - Multiplier on rare-and-above drop weights (rates are renormalized)
+ * @param thresholds - Pity thresholds (default: regular crate thresholds)
+ * @returns Rarity tier obtained
+ */
+export function rollRarityFromRates(
+  dropRates: Record<Rarity, number>,
+  pityCounters: PityCounters,
+  random: RandomSource = Math.random,
+  dropRateMultiplier: number = 1,
+  thresholds: PityThresholds = PITY_THRESHOLDS
+): Rarity {
   // Check pity system first (guaranteed drops override probability)
-  const guaranteedRarity = checkPity(pityCounters);
+  const guaranteedRarity = checkPity(pityCounters, thresholds);
   if (guaranteedRarity) {
     return guaranteedRarity;
   }
 
+  const rarities = RARITY_ORDER;
+
+  // Weight drop rates by ability luck, then roll across the total weight
+  const weights = rarities.map(
+    (rarity) => (dropRates[rarity] ?? 0) * (LUCKY_RARITIES.has(rarity) ? dropRateMultiplier : 1)
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
   // Roll based on crate's drop rate probabilities
-  const roll = Math.random();
+  const roll = random() * totalWeight;
   let cumulative = 0;
 
-  const rarities: Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary', 'mythical'];
-
-  for (const rarity of rarities) {
-    const rate = crate.dropRates[rarity] ?? 0;
-    cumulative += rate;
+  for (const [index, rarity] of rarities.entries()) {
+    cumulative += weights[index];
     if (roll < cumulative) {
       return rarity;
     }
@@ -83,15 +217,16 @@ export function rollRarity(crateType: CrateType, pityCounters: PityCounters): Ra
  * Favors unowned rabbits to prevent duplicates when possible
  * @param rarity - Rarity tier to select from
  * @param ownedRabbits - Map of currently owned rabbits (by ID)
+ * @param random - Random source (defaults to Math.random; pass a seeded source for reproducible picks)
+ * @param rabbitPool - Rabbits to pick from (default: all regular rabbits of this rarity)
  * @returns Selected rabbit data, or null if no rabbits exist for this rarity
  */
 export function selectRabbit(
   rarity: Rarity,
-  ownedRabbits: Map<string, Rabbit>
+  ownedRabbits: ReadonlyMap<string, unknown>,
+  random: RandomSource = Math.random,
+  rabbitPool: RabbitData[] = getRabbitsByRarity(rarity)
 ): RabbitData | null {
-  // Get all rabbits of this rarity
-  const rabbitPool = getRabbitsByRarity(rarity);
-
   if (rabbitPool.length === 0) {
     console.warn(`No rabbits available for rarity: ${rarity}`);
     return null;
@@ -105,7 +240,7 @@ export function selectRabbit(
   let selectedPool: RabbitData[];
 
   if (unownedRabbits.length > 0) {
-    const favorUnowned = Math.random() < 0.9;
+    const favorUnowned = random() < 0.9;
     selectedPool = favorUnowned ? unownedRabbits : rabbitPool;
   } else {
     // All rabbits owned, select from full pool (duplicate)
@@ -113,17 +248,119 @@ export function selectRabbit(
   }
 
   // Randomly select from chosen pool
-  const randomIndex = Math.floor(Math.random() * selectedPool.length);
+  const randomIndex = Math.floor(random() * selectedPool.length);
   return selectedPool[randomIndex];
 }
 
+/**
+ * Find the closest rarity that has rabbits to give
+ * Tries the requested rarity, then lower rarities (highest first), then higher ones
+ * @param rarity - Requested rarity
+ * @returns Rarity with a non-empty pool, or null if no rabbits exist at all
+ */
+export function findAvailableRarity(rarity: Rarity): Rarity | null {
+  const rarities = RARITY_ORDER;
+  const index = rarities.indexOf(rarity);
+
+  const candidates = [
+    ...rarities.slice(0, index + 1).reverse(),
+    ...rarities.slice(index + 1),
+  ];
+
+  return candidates.find((candidate) => getRabbitsByRarity(candidate).length > 0) ?? null;
+}
+
+/**
+ * Roll a full crate opening: rarity (with pity) then the rabbit from that rarity's pool
+ * Shared by crateStore and replay so both consume random numbers identically
+ * If the rolled rarity has no rabbits, the closest available rarity is used instead;
+ * the returned rarity is still the rolled one so pity is satisfied
+ * @param crateType - Type of crate being opened
+ * @param pityCounters - Current pity counters
+ * @param ownedRabbits - Map of currently owned rabbits (by ID)
+ * @param random - Random source
+ * @param dropRateMultiplier - Multiplier on rare-and-above drop weights
+ * @param minimumRarity - Rolls below this rarity are raised to it (multi-open guarantee)
+ * @returns Rarity rolled and selected rabbit data
+ * @throws Error if no rabbits exist in any rarity
+ */
+export function rollCrate(
+  crateType: CrateType,
+  pityCounters: PityCounters,
+  ownedRabbits: ReadonlyMap<string, unknown>,
+  random: RandomSource = Math.random,
+  dropRateMultiplier: number = 1,
+  minimumRarity?: Rarity
+): { rarity: Rarity; rabbitData: RabbitData } {
+  const rolled = rollRarity(crateType, pityCounters, random, dropRateMultiplier);
+  const rarity = minimumRarity && !isRarityAtLeast(rolled, minimumRarity) ? minimumRarity : rolled;
+
+  // Fall back to the closest rarity with rabbits when this pool is empty
+  const poolRarity = findAvailableRarity(rarity);
+  if (poolRarity !== rarity) {
+    console.warn(`No rabbits available for rarity: ${rarity}, falling back to ${poolRarity}`);
+  }
+
+  const rabbitData = poolRarity && selectRabbit(poolRarity, ownedRabbits, random);
+  if (!rabbitData) {
+    throw new Error('No rabbits available in any rarity');
+  }
+
+  return { rarity, rabbitData };
+}
+
+/**
+ * Replay a recorded crate history from its starting point
+ * Debug helper: re-rolls every opening with the seeded PRNG and reports the first divergence.
+ * Rabbits obtained outside crates (e.g. shop purchases) change the selection pool,
+ * so a mismatch after such a purchase is expected.
+ * @param seed - PRNG seed the history was recorded with
+ * @param start - State captured before the first opening
+ * @param history - Recorded openings, oldest first
+ * @returns Replayed openings and index of the first mismatch
+ */
+export function replayCrateHistory(
+  seed: string,
+  start: CrateHistoryStart,
+  history: CrateHistoryEntry[]
+): CrateReplayResult {
+  const random = createSeededRandom(seed, start.rngState).next;
+  const owned = new Map<string, true>(start.ownedRabbitIds.map((id) => [id, true]));
+  let pityCounters = { ...start.pityCounters };
+  let firstMismatch: number | null = null;
+
+  const entries = history.map((recorded, index) => {
+    const { rarity, rabbitData } = rollCrate(
+      recorded.crateType,
+      pityCounters,
+      owned,
+      random,
+      recorded.dropRateMultiplier,
+      recorded.minimumRarity
+    );
+    const entry: CrateHistoryEntry = { ...recorded, rarity, rabbitId: rabbitData.id };
+
+    if (firstMismatch === null && (entry.rabbitId !== recorded.rabbitId || entry.rarity !== recorded.rarity)) {
+      firstMismatch = index;
+    }
+
+    // Follow the recorded outcome so later openings see the same collection as the original run
+    owned.set(recorded.rabbitId, true);
+    pityCounters = advancePityCounters(pityCounters, recorded.rarity);
+
+    return entry;
+  });
+
+  return { entries, firstMismatch };
+}
+
 /**
  * Check if a rabbit is a duplicate
  * @param rabbitId - ID of rabbit to check
  * @param ownedRabbits - Map of currently owned rabbits
  * @returns true if rabbit is already owned, false otherwise
  */
-export function isDuplicate(rabbitId: string, ownedRabbits: Map<string, Rabbit>): boolean {
+export function isDuplicate(rabbitId: string, ownedRabbits: ReadonlyMap<string, unknown>): boolean {
   return ownedRabbits.has(rabbitId);
 }
 
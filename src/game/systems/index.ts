@@ -1,2 +1,11 @@
 export * from './gacha';
+export * from './random';
+export * from './abilities';
+export * from './leveling';
+export * from './simulation';
+export * from './offline';
 export * from './achievements';
+export * from './achievementConditions';
+export * from './dailyRewards';
+export * from './events';
+export * from './quests';
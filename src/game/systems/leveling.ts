@@ -0,0 +1,118 @@
+import type { Rabbit, Rarity } from '@/types/rabbit';
+
+/**
+ * Maximum level a rabbit can reach, by rarity
+ */
+export const LEVEL_CAPS: Record<Rarity, number> = {
+  common: 10,
+  uncommon: 15,
+  rare: 20,
+  epic: 25,
+  legendary: 30,
+  mythical: 40,
+};
+
+/**
+ * XP needed to go from level 1 to level 2, by rarity
+ * Rarer rabbits cost more per level, matching their larger duplicate compensation
+ */
+const BASE_LEVEL_XP: Record<Rarity, number> = {
+  common: 100,
+  uncommon: 250,
+  rare: 600,
+  epic: 1500,
+  legendary: 4000,
+  mythical: 10000,
+};
+
+/**
+ * Growth of the XP requirement per level (+25% per level)
+ */
+const LEVEL_XP_GROWTH = 1.25;
+
+/**
+ * Result of investing XP into a rabbit
+ */
+export interface LevelUpResult {
+  /** Level after investing */
+  level: number;
+  /** XP toward the next level after investing */
+  experience: number;
+  /** XP actually consumed (less than offered when the cap is reached) */
+  xpUsed: number;
+}
+
+/**
+ * Get the maximum level for a rarity
+ * @param rarity - Rabbit rarity
+ * @returns Level cap
+ */
+export function getLevelCap(rarity: Rarity): number {
+  return LEVEL_CAPS[rarity];
+}
+
+/**
+ * Get the XP required to advance from a level to the next
+ * Uses exponential scaling: baseXP * (1.25 ^ (level - 1))
+ * @param rarity - Rabbit rarity
+ * @param level - Current level (1-based)
+ * @returns XP needed for the next level (0 if at the cap)
+ */
+export function getXPForNextLevel(rarity: Rarity, level: number): number {
+  if (level >= LEVEL_CAPS[rarity]) {
+    return 0;
+  }
+  return Math.floor(BASE_LEVEL_XP[rarity] * Math.pow(LEVEL_XP_GROWTH, level - 1));
+}
+
+/**
+ * Get the XP still missing before a rabbit reaches its next level
+ * @param rabbit - Rabbit to check
+ * @returns Remaining XP (0 if at the cap)
+ */
+export function getXPToNextLevel(rabbit: Rabbit): number {
+  const required = getXPForNextLevel(rabbit.rarity, rabbit.level);
+  return Math.max(0, required - rabbit.experience);
+}
+
+/**
+ * Check if a rabbit has reached its level cap
+ * @param rabbit - Rabbit to check
+ * @returns true if the rabbit cannot level further
+ */
+export function isMaxLevel(rabbit: Rabbit): boolean {
+  return rabbit.level >= LEVEL_CAPS[rabbit.rarity];
+}
+
+/**
+ * Invest XP into a rabbit, applying as many level-ups as the XP covers
+ * Stops at the level cap without consuming the excess
+ * @param rabbit - Rabbit receiving XP
+ * @param xp - XP offered
+ * @returns New level, leftover progress, and XP consumed
+ */
+export function applyExperience(rabbit: Rabbit, xp: number): LevelUpResult {
+  const cap = LEVEL_CAPS[rabbit.rarity];
+  let level = Math.min(rabbit.level, cap);
+  let experience = level >= cap ? 0 : rabbit.experience;
+  let remaining = Math.max(0, Math.floor(xp));
+
+  while (level < cap && remaining > 0) {
+    const needed = getXPForNextLevel(rabbit.rarity, level) - experience;
+
+    if (remaining < needed) {
+      experience += remaining;
+      remaining = 0;
+    } else {
+      remaining -= needed;
+      level += 1;
+      experience = 0;
+    }
+  }
+
+  return {
+    level,
+    experience,
+    xpUsed: Math.max(0, Math.floor(xp)) - remaining,
+  };
+}
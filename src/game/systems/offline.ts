@@ -0,0 +1,134 @@
+/**
+ * Offline Progress System
+ * Computes offline efficiency and time cap from upgrades, rabbit abilities and prestige
+ */
+
+/**
+ * Base offline production efficiency (fraction of online CPS)
+ */
+export const BASE_OFFLINE_EFFICIENCY = 0.5;
+
+/**
+ * Maximum offline production efficiency
+ */
+export const MAX_OFFLINE_EFFICIENCY = 1;
+
+/**
+ * Base offline time cap in seconds (24 hours)
+ */
+export const BASE_OFFLINE_CAP_SECONDS = 24 * 60 * 60;
+
+/**
+ * Offline time cap added per prestige in seconds (1 hour)
+ */
+export const PRESTIGE_OFFLINE_CAP_BONUS_SECONDS = 60 * 60;
+
+/**
+ * Maximum offline time cap in seconds (48 hours)
+ */
+export const MAX_OFFLINE_CAP_SECONDS = 48 * 60 * 60;
+
+/**
+ * Where an offline factor comes from
+ */
+export type OfflineFactorSource = 'base' | 'upgrade' | 'abilities' | 'prestige';
+
+/**
+ * A single contribution to offline efficiency or the offline time cap
+ */
+export interface OfflineFactor {
+  source: OfflineFactorSource;
+  /** Display label (e.g. "Offline Boost") */
+  label: string;
+  /** Efficiency added by this factor (0.25 = +25%) */
+  efficiency: number;
+  /** Offline time cap added by this factor in seconds */
+  capSeconds: number;
+}
+
+/**
+ * Inputs that modify offline progress
+ */
+export interface OfflineModifiers {
+  /**
+   * Offline efficiency granted by purchased upgrades (0.75 = 75%)
+   * null if no offline upgrade is owned
+   */
+  upgradeEfficiency: number | null;
+  /** Efficiency bonus from offline_earnings rabbit abilities (0.5 = +50%) */
+  abilityEfficiencyBonus: number;
+  /** Number of prestiges performed */
+  prestigeCount: number;
+}
+
+/**
+ * Offline efficiency and cap with the factors that produced them
+ */
+export interface OfflineRates {
+  /** Efficiency applied to offline production, capped at MAX_OFFLINE_EFFICIENCY */
+  efficiency: number;
+  /** Longest offline time credited in seconds */
+  capSeconds: number;
+  /** Contributing factors (base first) */
+  factors: OfflineFactor[];
+}
+
+/**
+ * Calculate offline efficiency and time cap
+ * Upgrades replace the base efficiency (Offline Boost: 50% → 75%), rabbit abilities add to it,
+ * and each prestige extends the offline time cap
+ * @param modifiers - Upgrade, ability and prestige inputs
+ * @returns Offline rates and their breakdown
+ */
+export function calculateOfflineRates(modifiers: OfflineModifiers): OfflineRates {
+  const factors: OfflineFactor[] = [
+    {
+      source: 'base',
+      label: 'Base',
+      efficiency: BASE_OFFLINE_EFFICIENCY,
+      capSeconds: BASE_OFFLINE_CAP_SECONDS,
+    },
+  ];
+
+  if (
+    modifiers.upgradeEfficiency !== null &&
+    modifiers.upgradeEfficiency > BASE_OFFLINE_EFFICIENCY
+  ) {
+    factors.push({
+      source: 'upgrade',
+      label: 'Offline Boost',
+      efficiency: modifiers.upgradeEfficiency - BASE_OFFLINE_EFFICIENCY,
+      capSeconds: 0,
+    });
+  }
+
+  if (modifiers.abilityEfficiencyBonus > 0) {
+    factors.push({
+      source: 'abilities',
+      label: 'Rabbit Abilities',
+      efficiency: modifiers.abilityEfficiencyBonus,
+      capSeconds: 0,
+    });
+  }
+
+  const prestigeCapSeconds = Math.min(
+    Math.max(0, modifiers.prestigeCount) * PRESTIGE_OFFLINE_CAP_BONUS_SECONDS,
+    MAX_OFFLINE_CAP_SECONDS - BASE_OFFLINE_CAP_SECONDS
+  );
+  if (prestigeCapSeconds > 0) {
+    factors.push({
+      source: 'prestige',
+      label: `Prestige ×${modifiers.prestigeCount}`,
+      efficiency: 0,
+      capSeconds: prestigeCapSeconds,
+    });
+  }
+
+  const efficiency = Math.min(
+    MAX_OFFLINE_EFFICIENCY,
+    factors.reduce((total, factor) => total + factor.efficiency, 0)
+  );
+  const capSeconds = factors.reduce((total, factor) => total + factor.capSeconds, 0);
+
+  return { efficiency, capSeconds, factors };
+}
@@ -0,0 +1,100 @@
+/**
+ * Quest System
+ * Decides when the daily and weekly quest boards refresh, draws quests for them
+ * and works out how much a player action advances a quest.
+ * Boards follow the player's local calendar: daily at midnight, weekly on Monday.
+ */
+
+import type { Quest, QuestAction, QuestPeriod } from '@/types/quest';
+import { QUEST_REROLL_COST } from '@/game/data/quests';
+import type { RandomSource } from './random';
+
+/**
+ * Start of the quest period a timestamp falls in
+ * @param period - Quest period
+ * @param timestamp - Time in milliseconds
+ * @returns Timestamp of the local midnight that started the day (daily) or week (weekly)
+ */
+export function getQuestPeriodStart(period: QuestPeriod, timestamp: number): number {
+  const date = new Date(timestamp);
+  // Weeks start on Monday (getDay() is 0 for Sunday)
+  const daysBack = period === 'weekly' ? (date.getDay() + 6) % 7 : 0;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysBack).getTime();
+}
+
+/**
+ * Start of the quest period after the one a timestamp falls in
+ * @param period - Quest period
+ * @param timestamp - Time in milliseconds
+ * @returns Timestamp when the board next refreshes
+ */
+export function getNextQuestPeriodStart(period: QuestPeriod, timestamp: number): number {
+  const start = new Date(getQuestPeriodStart(period, timestamp));
+  const days = period === 'weekly' ? 7 : 1;
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + days).getTime();
+}
+
+/**
+ * Draw distinct quests from a pool
+ * @param pool - Quests to draw from
+ * @param count - Number of quests to draw
+ * @param random - Random source (defaults to Math.random)
+ * @param excludeIds - Quests that must not be drawn (e.g. already on the board)
+ * @returns Drawn quests (fewer than count if the pool runs out)
+ */
+export function drawQuests(
+  pool: Quest[],
+  count: number,
+  random: RandomSource = Math.random,
+  excludeIds: string[] = []
+): Quest[] {
+  const remaining = pool.filter((quest) => !excludeIds.includes(quest.id));
+  const drawn: Quest[] = [];
+
+  while (drawn.length < count && remaining.length > 0) {
+    const index = Math.floor(random() * remaining.length);
+    drawn.push(...remaining.splice(index, 1));
+  }
+
+  return drawn;
+}
+
+/**
+ * How much a player action advances a quest
+ * @param quest - Quest definition
+ * @param action - Player action
+ * @returns Progress gained (0 if the action does not count for this quest)
+ */
+export function getQuestProgressGain(quest: Quest, action: QuestAction): number {
+  const { objective } = quest;
+  if (objective.type !== action.type) {
+    return 0;
+  }
+
+  if (
+    action.type === 'open_crates' &&
+    objective.crateType &&
+    objective.crateType !== action.crateType
+  ) {
+    return 0;
+  }
+  if (
+    action.type === 'buy_buildings' &&
+    objective.buildingId &&
+    objective.buildingId !== action.buildingId
+  ) {
+    return 0;
+  }
+
+  return action.count;
+}
+
+/**
+ * Golden Carrots charged for the next reroll
+ * @param period - Quest period
+ * @param rerolls - Rerolls already made this period
+ * @returns Reroll cost
+ */
+export function getQuestRerollCost(period: QuestPeriod, rerolls: number): number {
+  return QUEST_REROLL_COST[period] * (rerolls + 1);
+}
@@ -0,0 +1,53 @@
+import seedrandom from 'seedrandom';
+
+/**
+ * Random number source returning a float in [0, 1)
+ * Math.random satisfies this signature, so it can be used as the unseeded default
+ */
+export type RandomSource = () => number;
+
+/**
+ * Serializable PRNG state (Alea algorithm: three seeds and a carry)
+ * Small enough to persist alongside the crate store
+ */
+export type RngState = seedrandom.State.Alea;
+
+/**
+ * Seeded random number generator with exportable state
+ */
+export interface SeededRandom {
+  /** Draw the next number in [0, 1) */
+  next: RandomSource;
+  /** Snapshot the current generator state (restores to the same position) */
+  getState: () => RngState;
+}
+
+/**
+ * Generate a new random seed string
+ * Used when starting a new game or run
+ * @returns Seed string (base-36, 16 characters)
+ */
+export function createSeed(): string {
+  const values = new Uint32Array(2);
+  crypto.getRandomValues(values);
+  return Array.from(values, (value) => value.toString(36).padStart(8, '0')).join('');
+}
+
+/**
+ * Create a seeded PRNG
+ * When a saved state is provided the generator resumes from that position,
+ * otherwise it starts from the beginning of the seed's sequence
+ * @param seed - Seed string
+ * @param state - Optional state captured by getState()
+ * @returns Seeded random number generator
+ */
+export function createSeededRandom(seed: string, state?: RngState | null): SeededRandom {
+  const prng = state
+    ? seedrandom.alea(seed, { state: { ...state } })
+    : seedrandom.alea(seed, { state: true });
+
+  return {
+    next: () => prng(),
+    getState: () => prng.state(),
+  };
+}
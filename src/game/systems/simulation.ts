@@ -0,0 +1,131 @@
+/**
+ * Fixed-Timestep Simulation Core
+ * Framework-independent game loop: callers feed elapsed real time, the core
+ * runs the registered hooks in fixed steps. Works the same driven by
+ * requestAnimationFrame, a worker timer, or a headless test.
+ */
+
+/**
+ * Hook run once per fixed step
+ * @param deltaTime - Step length in seconds (always the configured timestep)
+ */
+export type SimulationHook = (deltaTime: number) => void;
+
+/**
+ * Hooks run each step, in this order
+ */
+export interface SimulationHooks {
+  /** Idle production (carrots per second, timed effects) */
+  production?: SimulationHook;
+  /** Automations (auto-clickers, auto-buyers) */
+  automation?: SimulationHook;
+  /** Achievement checks */
+  achievements?: SimulationHook;
+  /** Statistics recording (play time, production history) */
+  stats?: SimulationHook;
+  /** Limited-time events (currency from play time, expiry) */
+  events?: SimulationHook;
+}
+
+/**
+ * Simulation configuration
+ */
+export interface SimulationOptions {
+  /** Fixed step length in seconds (default 1/30) */
+  timestep?: number;
+  /** Longest real-time slice accepted per advance, in seconds (default 0.25) */
+  maxFrameTime?: number;
+}
+
+/**
+ * Fixed-timestep simulation
+ */
+export interface Simulation {
+  /**
+   * Feed elapsed real time and run as many fixed steps as it covers
+   * Leftover time is kept in the accumulator for the next call
+   * @param elapsed - Real time since the last call in seconds
+   * @returns Number of steps run
+   */
+  advance: (elapsed: number) => number;
+  /**
+   * Run exactly one step, ignoring the accumulator
+   * Useful for headless runs that simulate a known number of steps
+   */
+  step: () => void;
+  /** Clear the accumulator (e.g. after a pause, so time is not caught up) */
+  resetAccumulator: () => void;
+  /** Total simulated time in seconds */
+  getSimulatedTime: () => number;
+  /** Fraction of a step waiting in the accumulator (0-1), for render interpolation */
+  getAlpha: () => number;
+}
+
+/**
+ * Default fixed step (30 steps per second)
+ */
+export const DEFAULT_TIMESTEP = 1 / 30;
+
+/**
+ * Default cap on real time per advance
+ * Long frames (tab switch, breakpoint) are clamped instead of spiralling into catch-up
+ */
+export const DEFAULT_MAX_FRAME_TIME = 0.25;
+
+/**
+ * Create a fixed-timestep simulation
+ * @param hooks - Hooks run each step (production, automation, achievements, stats, events)
+ * @param options - Timestep and frame cap
+ * @returns Simulation instance
+ */
+export function createSimulation(
+  hooks: SimulationHooks,
+  options: SimulationOptions = {}
+): Simulation {
+  const timestep = options.timestep ?? DEFAULT_TIMESTEP;
+  const maxFrameTime = options.maxFrameTime ?? DEFAULT_MAX_FRAME_TIME;
+
+  if (!Number.isFinite(timestep) || timestep <= 0) {
+    throw new Error(`Invalid simulation timestep: ${timestep}`);
+  }
+
+  let accumulator = 0;
+  let simulatedTime = 0;
+
+  const step = () => {
+    hooks.production?.(timestep);
+    hooks.automation?.(timestep);
+    hooks.achievements?.(timestep);
+    hooks.stats?.(timestep);
+    hooks.events?.(timestep);
+    simulatedTime += timestep;
+  };
+
+  const advance = (elapsed: number) => {
+    if (!Number.isFinite(elapsed) || elapsed < 0) {
+      console.error('Invalid elapsed time for simulation:', elapsed);
+      return 0;
+    }
+
+    accumulator += Math.min(elapsed, maxFrameTime);
+
+    let steps = 0;
+    while (accumulator >= timestep) {
+      step();
+      accumulator -= timestep;
+      steps++;
+    }
+
+    return steps;
+  };
+
+  return {
+    advance,
+    step,
+    resetAccumulator: () => {
+      accumulator = 0;
+    },
+    getSimulatedTime: () => simulatedTime,
+    getAlpha: () => accumulator / timestep,
+  };
+}
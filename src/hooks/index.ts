@@ -8,3 +8,6 @@ export { useAutoSave } from './useAutoSave';
 export { useOfflineTime } from './useOfflineTime';
 export { useAnimatedNumber } from './useAnimatedNumber';
 export { useMilestoneDetection } from './useMilestoneDetection';
+export { useStorageError } from './useStorageError';
+export { useTabRole } from './useTabRole';
+export { useDailyReward } from './useDailyReward';
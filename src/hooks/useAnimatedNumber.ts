@@ -1,4 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { bigToNumber, type BigNumberSource } from '@/utils/bigNumber';
+import { formatNumber } from '@/utils/formatNumber';
 
 export interface UseAnimatedNumberOptions {
   /**
@@ -24,33 +27,45 @@ export interface UseAnimatedNumberOptions {
    * @default 20
    */
   damping?: number;
+
+  /**
+   * Decimal places in the formatted value
+   * @default 1
+   */
+  decimals?: number;
 }
 
 /**
  * Hook that smoothly animates number transitions with optional spring physics.
+ * The animated value is formatted in the player's notation setting.
+ * Values past Number.MAX_VALUE cannot be interpolated and are shown as-is.
  *
  * @param target - The target number to animate to
  * @param options - Animation configuration options
- * @returns The current animated value
+ * @returns The current animated value, formatted for display
  *
  * @example
  * ```tsx
  * const animatedValue = useAnimatedNumber(carrots, { duration: 800 });
- * return <div>{formatNumber(animatedValue)}</div>;
+ * return <div>{animatedValue}</div>;
  * ```
  */
 export function useAnimatedNumber(
-  target: number,
+  target: BigNumberSource,
   options: UseAnimatedNumberOptions = {}
-): number {
+): string {
   const {
     duration = 500,
     useSpring = true,
     stiffness = 100,
     damping = 20,
+    decimals = 1,
   } = options;
 
-  const [displayValue, setDisplayValue] = useState(target);
+  const notation = useSettingsStore((state) => state.notation);
+  const targetNumber = bigToNumber(target);
+
+  const [displayValue, setDisplayValue] = useState(targetNumber);
   const animationRef = useRef<number | null>(null);
   const startTimeRef = useRef<number | undefined>(undefined);
 
@@ -79,7 +94,7 @@ export function useAnimatedNumber(
 
       if (useSpring) {
         // Spring physics animation with duration enforcement
-        const delta = target - currentValue;
+        const delta = targetNumber - currentValue;
         const springForce = delta * (stiffness / 1000);
         const dampingForce = velocity * (damping / 1000);
         const acceleration = springForce - dampingForce;
@@ -89,15 +104,15 @@ export function useAnimatedNumber(
 
         // Lerp from spring result to target based on time progress
         // At progress=0: pure spring physics, at progress=1: exact target
-        newValue = springValue + (target - springValue) * progress;
+        newValue = springValue + (targetNumber - springValue) * progress;
 
         // Force completion when duration elapsed
         if (progress >= 1) {
-          newValue = target;
+          newValue = targetNumber;
           velocity = 0;
         } else if (Math.abs(delta) < 0.01 && Math.abs(velocity) < 0.01) {
           // Stop when close enough to target with low velocity
-          newValue = target;
+          newValue = targetNumber;
           velocity = 0;
         }
 
@@ -105,14 +120,14 @@ export function useAnimatedNumber(
       } else {
         // Easing function (ease-out cubic)
         const easeOut = 1 - Math.pow(1 - progress, 3);
-        newValue = startValue + (target - startValue) * easeOut;
+        newValue = startValue + (targetNumber - startValue) * easeOut;
         currentValue = newValue;
       }
 
       setDisplayValue(newValue);
 
       // Continue animation if not complete
-      if (newValue !== target) {
+      if (newValue !== targetNumber) {
         animationRef.current = requestAnimationFrame(animate);
       }
     };
@@ -124,7 +139,10 @@ export function useAnimatedNumber(
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [target, duration, useSpring, stiffness, damping]);
+  }, [targetNumber, duration, useSpring, stiffness, damping]);
 
-  return Math.round(displayValue);
+  if (targetNumber >= Number.MAX_VALUE) {
+    return formatNumber(target, decimals, notation);
+  }
+  return formatNumber(Math.round(displayValue), decimals, notation);
 }
@@ -1,10 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
-import { saveGame } from '@/services';
-
-/**
- * Auto-save interval in milliseconds (30 seconds)
- */
-const AUTO_SAVE_INTERVAL = 30000;
+import { createBackup, saveGame } from '@/services';
+import { useSettingsStore } from '@/stores/settingsStore';
 
 /**
  * Duration to show "Saving..." indicator in milliseconds
@@ -14,6 +10,7 @@ const SAVING_INDICATOR_DURATION = 1000;
 /**
  * useAutoSave Hook
  * Automatically saves game state periodically and on page unload
+ * The interval comes from the auto-save setting; periodic saves also keep rolling backups
  *
  * @param isLoading - Whether the game is still loading (prevents race conditions)
  * @returns Object containing saving state and manual save trigger function
@@ -21,6 +18,7 @@ const SAVING_INDICATOR_DURATION = 1000;
 export function useAutoSave(isLoading?: boolean) {
   const [isSaving, setIsSaving] = useState(false);
   const savingTimeoutRef = useRef<number | null>(null);
+  const autoSaveInterval = useSettingsStore((state) => state.autoSaveInterval);
 
   /**
    * Perform save operation with indicator
@@ -64,10 +62,13 @@ export function useAutoSave(isLoading?: boolean) {
       return;
     }
 
-    // Set up auto-save timer (every 30 seconds)
+    // Set up auto-save timer (restarted when the interval setting changes)
     const intervalId = setInterval(() => {
-      performSave();
-    }, AUTO_SAVE_INTERVAL);
+      if (performSave()) {
+        // Backups are only written once the previous one is old enough
+        createBackup();
+      }
+    }, autoSaveInterval * 1000);
 
     // Set up beforeunload handler to save on page close/refresh
     const handleBeforeUnload = () => {
@@ -86,7 +87,7 @@ export function useAutoSave(isLoading?: boolean) {
         clearTimeout(savingTimeoutRef.current);
       }
     };
-  }, [isLoading]);
+  }, [isLoading, autoSaveInterval]);
 
   return {
     isSaving,
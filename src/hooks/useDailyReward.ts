@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { useDailyRewardStore } from '@/stores/dailyRewardStore';
+
+/**
+ * How often a running game checks whether a new day's reward has unlocked
+ */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * useDailyReward Hook
+ * Tracks whether a daily reward is waiting, including one that unlocks at midnight
+ * while the game stays open
+ *
+ * @param isInactive - Whether checks are paused (while loading or in a follower tab)
+ * @returns true if a reward can be claimed
+ */
+export function useDailyReward(isInactive?: boolean): boolean {
+  const [isAvailable, setIsAvailable] = useState(false);
+  const lastClaimTime = useDailyRewardStore((state) => state.lastClaimTime);
+
+  useEffect(() => {
+    if (isInactive) {
+      return;
+    }
+
+    const check = () => {
+      setIsAvailable(useDailyRewardStore.getState().getStatus().availability === 'available');
+    };
+
+    check();
+    const intervalId = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isInactive, lastClaimTime]);
+
+  return isAvailable;
+}
@@ -1,16 +1,19 @@
 import { useEffect, useRef } from 'react';
 import { useGameStore } from '@/stores/gameStore';
+import { createGameSimulation } from '@/game/mechanics/gameSimulation';
+import type { Simulation } from '@/game/systems/simulation';
 
 /**
  * Game Loop Hook using requestAnimationFrame
  *
- * Implements the main game tick system for idle production.
- * Runs continuously and updates game state based on elapsed time.
+ * Drives the fixed-timestep game simulation from animation frames.
+ * The simulation (production, automation, achievements) lives outside React;
+ * this hook only feeds it elapsed time.
  *
  * Features:
  * - Uses requestAnimationFrame for smooth, efficient updates
- * - Calculates delta time between frames
- * - Caps delta time at 0.1s to prevent "spiral of death"
+ * - Calculates delta time between frames and passes it to the simulation accumulator
+ * - Long frames are clamped by the simulation to prevent "spiral of death"
  * - Supports pause functionality
  * - Proper cleanup on unmount to prevent memory leaks
  *
@@ -18,11 +21,11 @@ import { useGameStore } from '@/stores/gameStore';
  * @param isLoading - Whether the game is still loading (prevents race conditions)
  */
 export function useGameLoop(isPaused?: boolean, isLoading?: boolean) {
-  const tick = useGameStore((state) => state.tick);
   const calculateOfflineProgress = useGameStore((state) => state.calculateOfflineProgress);
   const animationFrameId = useRef<number | undefined>(undefined);
   const lastTimeRef = useRef<number>(performance.now());
   const hasCalculatedOfflineProgress = useRef<boolean>(false);
+  const simulationRef = useRef<Simulation | null>(null);
 
   // Calculate offline progress on mount (only once) - skip if loading
   useEffect(() => {
@@ -42,20 +45,22 @@ export function useGameLoop(isPaused?: boolean, isLoading?: boolean) {
       return;
     }
 
+    // Create the simulation once; it keeps its accumulator between pauses
+    if (!simulationRef.current) {
+      simulationRef.current = createGameSimulation();
+    }
+    const simulation = simulationRef.current;
+
     /**
      * Game loop function called every frame
-     * Calculates delta time and calls the game tick
+     * Feeds elapsed time to the simulation, which runs fixed steps
      */
     const gameLoop = (currentTime: number) => {
       // Calculate time elapsed since last frame (in seconds)
-      const deltaTime = (currentTime - lastTimeRef.current) / 1000;
+      const deltaTime = Math.max(0, (currentTime - lastTimeRef.current) / 1000);
 
-      // Cap delta time at 0.1 seconds (100ms) to prevent spiral of death
-      // This prevents huge time jumps when tab is inactive or frame rate drops
-      const cappedDeltaTime = Math.min(deltaTime, 0.1);
-
-      // Update game state with capped delta time
-      tick(cappedDeltaTime);
+      // Run as many fixed steps as the elapsed time covers
+      simulation.advance(deltaTime);
 
       // Store current time for next frame
       lastTimeRef.current = currentTime;
@@ -73,12 +78,13 @@ export function useGameLoop(isPaused?: boolean, isLoading?: boolean) {
         cancelAnimationFrame(animationFrameId.current);
       }
     };
-  }, [isLoading, isPaused, tick]);
+  }, [isLoading, isPaused]);
 
   // Reset lastTime when unpausing or finishing load to prevent large delta time spike
   useEffect(() => {
     if (!isLoading && isPaused !== true) {
       lastTimeRef.current = performance.now();
+      simulationRef.current?.resetAccumulator();
     }
   }, [isLoading, isPaused]);
 
@@ -92,8 +98,9 @@ export function useGameLoop(isPaused?: boolean, isLoading?: boolean) {
       if (document.visibilityState === 'visible') {
         // Tab became visible - calculate offline progress
         calculateOfflineProgress();
-        // Reset lastTime to prevent delta spike
+        // Reset lastTime and accumulator so away time is not simulated twice
         lastTimeRef.current = performance.now();
+        simulationRef.current?.resetAccumulator();
       }
     };
 
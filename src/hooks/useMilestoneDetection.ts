@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import { useGameStore } from '@/stores/gameStore';
 import { usePrestigeStore } from '@/stores/prestigeStore';
 import { useMilestoneStore } from '@/stores/milestoneStore';
+import { bigCompare } from '@/utils/bigNumber';
 
 /**
  * Hook to automatically detect and trigger milestone celebrations
@@ -30,7 +31,7 @@ export function useMilestoneDetection() {
     }
 
     // Check carrot milestones when lifetime carrots increase
-    if (lifetimeCarrots > prevLifetimeCarrots.current) {
+    if (bigCompare(lifetimeCarrots, prevLifetimeCarrots.current) > 0) {
       checkCarrotMilestone(lifetimeCarrots);
       prevLifetimeCarrots.current = lifetimeCarrots;
     }
@@ -3,21 +3,26 @@ import { useGameStore, type OfflineEarnings } from '@/stores/gameStore';
 
 /**
  * Hook to handle offline earnings calculation
- * Calculates and applies offline progress when the game loads
+ * Calculates and applies offline progress once the game has loaded
+ * @param isLoading - Whether the game is still loading (progress waits for the save)
  * @returns Offline earnings data if player was away, null otherwise
  */
-export function useOfflineTime(): OfflineEarnings | null {
+export function useOfflineTime(isLoading?: boolean): OfflineEarnings | null {
   const [offlineEarnings, setOfflineEarnings] = useState<OfflineEarnings | null>(null);
   const calculateOfflineProgress = useGameStore((state) => state.calculateOfflineProgress);
 
   useEffect(() => {
-    // Calculate offline progress once on mount
+    // Calculate offline progress once loading completes
+    if (isLoading) {
+      return;
+    }
+
     const earnings = calculateOfflineProgress();
 
     if (earnings) {
       setOfflineEarnings(earnings);
     }
-  }, [calculateOfflineProgress]);
+  }, [isLoading, calculateOfflineProgress]);
 
   return offlineEarnings;
 }
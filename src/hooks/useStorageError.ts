@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getStorageError, subscribeToStorageErrors, type StorageError } from '@/utils/storage';
+
+/**
+ * useStorageError Hook
+ * Subscribes to failed storage writes (such as a full quota)
+ *
+ * @returns Current storage error, or null while writes succeed
+ */
+export function useStorageError(): StorageError | null {
+  return useSyncExternalStore(subscribeToStorageErrors, getStorageError);
+}
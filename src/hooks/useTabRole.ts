@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getTabRole, subscribeToTabRole, type TabRole } from '@/services/tabLeadership';
+
+/**
+ * useTabRole Hook
+ * Subscribes to whether this tab runs the game or another tab does
+ *
+ * @returns Current tab role
+ */
+export function useTabRole(): TabRole {
+  return useSyncExternalStore(subscribeToTabRole, getTabRole);
+}
@@ -2,6 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerGameBusHandlers } from './game/mechanics/gameBusHandlers'
+import { useCrateStore } from './stores/crateStore'
+
+// Subscribe achievements, stats, quests and sounds to game actions before anything runs
+registerGameBusHandlers()
+
+// Debug: run window.__replayCrates() in the console to check a bug report's crate history
+if (import.meta.env.DEV) {
+  window.__replayCrates = () => useCrateStore.getState().replayCrateHistory()
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,10 @@
+import { createEventBus } from '@/utils/eventBus';
+import type { GameBusEvents } from '@/types/gameBus';
+
+/**
+ * Game event bus
+ * Store actions emit what happened; achievements, stats, quests, sounds and
+ * notifications subscribe instead of being called from the actions.
+ * Subscriptions for game systems are registered by registerGameBusHandlers().
+ */
+export const gameBus = createEventBus<GameBusEvents>();
@@ -1 +1,50 @@
-export { saveGame, loadGame, exportSave, importSave } from './saveService';
+export {
+  saveGame,
+  loadGame,
+  initializePersistence,
+  exportSave,
+  importSave,
+  checkImportedSave,
+  createSaveData,
+  migrateSaveData,
+  restoreSaveData,
+  createBackup,
+  restoreBackup,
+  loadSaveSlot,
+  saveToNewSlot,
+  clearSavedProgress,
+  SAVE_VERSION,
+} from './saveService';
+export {
+  listSaveSlots,
+  getActiveSlot,
+  deleteSaveSlot,
+  MAX_SAVE_SLOTS,
+  MAX_BACKUPS_PER_SLOT,
+  MAX_SLOT_NAME_LENGTH,
+  type SaveSlot,
+} from './saveSlots';
+export {
+  createSaveFile,
+  getSaveFileName,
+  previewSave,
+  summarizeSave,
+  SAVE_FILE_EXTENSION,
+  MAX_SAVE_FILE_SIZE,
+  type SaveFileMetadata,
+  type SaveSummary,
+  type SavePreview,
+} from './saveFile';
+export {
+  acquireLeadership,
+  requestTakeover,
+  getTabRole,
+  subscribeToTabRole,
+  type TabRole,
+} from './tabLeadership';
+export {
+  validateSaveData,
+  type SaveValidationIssue,
+  type SaveValidationResult,
+} from './saveValidation';
+export { gameBus } from './gameBus';
@@ -0,0 +1,206 @@
+/**
+ * Save Files
+ * Downloadable .rabbitsave files: a small metadata header plus the exported save string,
+ * and previews of a file's contents before it overwrites the current game
+ */
+
+import type { SaveData } from '@/types/game';
+import { BIG_ZERO, parseBigNumber, type BigNumber } from '@/utils/bigNumber';
+import { checkImportedSave, createSaveData, exportSave } from './saveService';
+import type { SaveValidationResult } from './saveValidation';
+
+/**
+ * File extension for downloaded saves
+ */
+export const SAVE_FILE_EXTENSION = '.rabbitsave';
+
+/**
+ * Largest file accepted for import (1 MB); real saves are a few kilobytes
+ */
+export const MAX_SAVE_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Identifies the JSON in a save file
+ */
+const SAVE_FILE_FORMAT = 'rabbit-clicker-save';
+
+/**
+ * Header written at the top of a save file
+ * Informational only: previews are built from the save itself, which a header cannot fake
+ */
+export interface SaveFileMetadata {
+  /** Save format version of the contained save */
+  saveVersion: number;
+  /** Timestamp when the file was exported */
+  exportedAt: number;
+  /** Prestige count at export time */
+  prestigeCount: number;
+  /** Carrots at export time */
+  carrots: BigNumber;
+}
+
+/**
+ * Contents of a .rabbitsave file
+ */
+interface SaveFile {
+  format: typeof SAVE_FILE_FORMAT;
+  metadata: SaveFileMetadata;
+  save: string;
+}
+
+/**
+ * Progress shown in an import preview
+ */
+export interface SaveSummary {
+  /** Timestamp when the save was made */
+  savedAt: number;
+  carrots: BigNumber;
+  lifetimeCarrots: BigNumber;
+  goldenCarrots: number;
+  prestigeCount: number;
+  goldenSeeds: number;
+  rabbitsOwned: number;
+  buildingsOwned: number;
+  upgradesPurchased: number;
+  achievementsUnlocked: number;
+}
+
+/**
+ * What a pasted save string or save file would import
+ */
+export interface SavePreview {
+  /** File header (null for a bare save string) */
+  metadata: SaveFileMetadata | null;
+  /** Save string to pass to importSave */
+  saveString: string;
+  /** Validation result, including per-field issues */
+  check: SaveValidationResult;
+  /** Progress in the save (null if the save cannot be imported) */
+  summary: SaveSummary | null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+function countOf(value: unknown): number {
+  return Array.isArray(value) ? value.length : Object.keys(asRecord(value)).length;
+}
+
+function numberOf(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Check that a parsed file header has the expected fields
+ */
+function isSaveFileMetadata(value: unknown): value is SaveFileMetadata {
+  const metadata = asRecord(value);
+  return (
+    typeof metadata.saveVersion === 'number' &&
+    typeof metadata.exportedAt === 'number' &&
+    typeof metadata.prestigeCount === 'number' &&
+    parseBigNumber(metadata.carrots) !== null
+  );
+}
+
+/**
+ * Summarize the progress in validated save data
+ * @param saveData - Save data returned by validateSaveData
+ * @returns Summary (stores missing from older saves count as empty)
+ */
+export function summarizeSave(saveData: SaveData): SaveSummary {
+  const game = asRecord(saveData.gameState);
+  const { stores } = saveData;
+  const upgrades = asRecord(stores.upgrades);
+  const prestige = asRecord(stores.prestige);
+
+  return {
+    savedAt: saveData.timestamp,
+    carrots: parseBigNumber(game.carrots) ?? BIG_ZERO,
+    lifetimeCarrots: parseBigNumber(game.lifetimeCarrots) ?? BIG_ZERO,
+    goldenCarrots: numberOf(game.goldenCarrots),
+    prestigeCount: numberOf(prestige.prestigeCount),
+    goldenSeeds: numberOf(prestige.goldenSeeds),
+    rabbitsOwned: countOf(asRecord(stores.rabbits).ownedRabbits),
+    buildingsOwned: Object.values(asRecord(upgrades.buildings)).reduce<number>(
+      (total, count) => total + numberOf(count),
+      0
+    ),
+    upgradesPurchased: countOf(upgrades.purchasedUpgrades),
+    achievementsUnlocked: countOf(asRecord(stores.achievements).unlockedAchievements),
+  };
+}
+
+/**
+ * Build the contents of a .rabbitsave file for the current game
+ * @returns File contents, or null if the game could not be exported
+ */
+export function createSaveFile(): string | null {
+  const save = exportSave();
+  if (!save) {
+    return null;
+  }
+
+  const saveData = createSaveData();
+  const game = asRecord(saveData.gameState);
+  const file: SaveFile = {
+    format: SAVE_FILE_FORMAT,
+    metadata: {
+      saveVersion: saveData.version,
+      exportedAt: saveData.timestamp,
+      prestigeCount: numberOf(asRecord(saveData.stores.prestige).prestigeCount),
+      carrots: parseBigNumber(game.carrots) ?? BIG_ZERO,
+    },
+    save,
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Name for a downloaded save file
+ * @param date - Export date (default: now)
+ * @returns File name such as "rabbit-clicker-2026-01-31.rabbitsave"
+ */
+export function getSaveFileName(date: Date = new Date()): string {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+  return `rabbit-clicker-${day}${SAVE_FILE_EXTENSION}`;
+}
+
+/**
+ * Preview what a save file or pasted save string would import
+ * Accepts .rabbitsave file contents and bare strings from exportSave()
+ * @param text - File contents or save string
+ * @returns Preview with the validation result and a summary of the save
+ */
+export function previewSave(text: string): SavePreview {
+  const trimmed = text.trim();
+  let metadata: SaveFileMetadata | null = null;
+  let saveString = trimmed;
+
+  // A bare save string is base64 and never starts with "{"
+  if (trimmed.startsWith('{')) {
+    try {
+      const file = asRecord(JSON.parse(trimmed));
+      if (file.format === SAVE_FILE_FORMAT && typeof file.save === 'string') {
+        metadata = isSaveFileMetadata(file.metadata) ? file.metadata : null;
+        saveString = file.save;
+      }
+    } catch (error) {
+      console.error('Failed to parse save file:', error);
+    }
+  }
+
+  const check = checkImportedSave(saveString);
+  return {
+    metadata,
+    saveString,
+    check,
+    summary: check.data && summarizeSave(check.data),
+  };
+}
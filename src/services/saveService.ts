@@ -1,68 +1,582 @@
 import * as LZString from 'lz-string';
-import { useGameStore } from '@/stores/gameStore';
+import { useGameStore, migrateGameBigNumbers } from '@/stores/gameStore';
 import { useUpgradeStore } from '@/stores/upgradeStore';
+import { useRabbitStore } from '@/stores/rabbitStore';
+import { useCrateStore } from '@/stores/crateStore';
+import { useAchievementStore } from '@/stores/achievementStore';
+import { usePrestigeStore, migratePrestigeBigNumbers } from '@/stores/prestigeStore';
+import { useMilestoneStore } from '@/stores/milestoneStore';
+import { useAutomationStore } from '@/stores/automationStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useStatsStore } from '@/stores/statsStore';
+import { useDailyRewardStore } from '@/stores/dailyRewardStore';
+import { useEventStore } from '@/stores/eventStore';
+import { useQuestStore } from '@/stores/questStore';
+import type { SaveData } from '@/types/game';
+import type { Rabbit } from '@/types/rabbit';
+import { checksum } from '@/utils/checksum';
+import { initStorage, type StorageBackendName } from '@/utils/storage';
+import {
+  clearSlotData,
+  createSaveSlot,
+  getActiveSlot,
+  readBackupData,
+  readSlotData,
+  setActiveSlot,
+  writeBackupData,
+  writeSlotData,
+  type SaveSlot,
+} from './saveSlots';
+import { validateSaveData, type SaveValidationResult } from './saveValidation';
 
 /**
  * Current save version for migration compatibility
  * Increment this when making breaking changes to save format
+ * and add a matching step to SAVE_MIGRATIONS
  */
-const SAVE_VERSION = 1;
+export const SAVE_VERSION = 8;
 
 /**
- * Serializable game state (excludes methods)
+ * Minimum time between automatic backups in milliseconds (5 minutes)
  */
-type SerializableGameState = Omit<
-  ReturnType<typeof useGameStore.getState>,
-  'addCarrots' | 'spendCarrots' | 'click' | 'tick' | 'calculateOfflineProgress'
->;
+const BACKUP_INTERVAL_MS = 5 * 60 * 1000;
 
 /**
- * Serializable upgrade state (excludes methods, Set converted to Array)
+ * Stores that persist game progress (settings persist separately and survive resets)
  */
-type SerializableUpgradeState = Omit<
-  ReturnType<typeof useUpgradeStore.getState>,
-  'canAfford' | 'isPurchased' | 'checkRequirements' | 'purchaseUpgrade' | 'recalculateMultipliers' | 'purchasedUpgrades'
+const GAME_STORES = [
+  useGameStore,
+  useUpgradeStore,
+  useRabbitStore,
+  useCrateStore,
+  useAchievementStore,
+  usePrestigeStore,
+  useMilestoneStore,
+  useAutomationStore,
+  useStatsStore,
+  useDailyRewardStore,
+  useEventStore,
+  useQuestStore,
+];
+
+/**
+ * Save as written to a slot, backup or export string: the serialized save data and its checksum
+ */
+interface StoredSave {
+  checksum: string;
+  save: string;
+}
+
+/**
+ * Store state with all action functions removed
+ */
+type StoreData<T> = {
+  [K in keyof T as T[K] extends (...args: never[]) => unknown ? never : K]: T[K];
+};
+
+/**
+ * Serialized game store (plain values only)
+ */
+type SerializedGameState = StoreData<ReturnType<typeof useGameStore.getState>>;
+
+/**
+ * Serialized upgrade store (Set and Map converted to JSON-friendly shapes)
+ */
+type SerializedUpgradeState = Omit<
+  StoreData<ReturnType<typeof useUpgradeStore.getState>>,
+  'purchasedUpgrades' | 'buildings'
 > & {
   purchasedUpgrades: string[];
+  buildings: Record<string, number>;
+};
+
+/**
+ * Serialized rabbit store (Map converted to object keyed by rabbit ID)
+ */
+type SerializedRabbitState = Omit<
+  StoreData<ReturnType<typeof useRabbitStore.getState>>,
+  'ownedRabbits'
+> & {
+  ownedRabbits: Record<string, Rabbit>;
 };
 
 /**
- * Save data structure
+ * Serialized achievement store (Set and Maps converted to arrays/objects)
+ */
+type SerializedAchievementState = Omit<
+  StoreData<ReturnType<typeof useAchievementStore.getState>>,
+  'unlockedAchievements' | 'achievementProgress' | 'unlockTimestamps'
+> & {
+  unlockedAchievements: string[];
+  achievementProgress: Record<string, number>;
+  unlockTimestamps: Record<string, number>;
+};
+
+/**
+ * Serialized crate store (plain values only)
+ */
+type SerializedCrateState = StoreData<ReturnType<typeof useCrateStore.getState>>;
+
+/**
+ * Serialized prestige store (plain values only)
+ */
+type SerializedPrestigeState = StoreData<ReturnType<typeof usePrestigeStore.getState>>;
+
+/**
+ * Serialized milestone store (only completed milestones are persisted)
  */
-interface SaveData {
-  version: number;
-  timestamp: number;
-  game: SerializableGameState;
-  upgrades: SerializableUpgradeState;
+interface SerializedMilestoneState {
+  completedMilestones: string[];
 }
 
 /**
- * Save the current game state to localStorage
- * Uses LZ-String compression to reduce storage size
- * @returns true if save successful, false otherwise
+ * Serialized automation store (plain values only)
  */
-export function saveGame(): boolean {
-  try {
-    const gameState = useGameStore.getState();
-    const upgradeState = useUpgradeStore.getState();
+type SerializedAutomationState = StoreData<ReturnType<typeof useAutomationStore.getState>>;
 
-    // Convert Set to Array for serialization
-    const serializableUpgradeState = {
-      ...upgradeState,
-      purchasedUpgrades: Array.from(upgradeState.purchasedUpgrades),
+/**
+ * Serialized stats store (plain values only)
+ */
+type SerializedStatsState = StoreData<ReturnType<typeof useStatsStore.getState>>;
+
+/**
+ * Serialized daily reward store (plain values only)
+ */
+type SerializedDailyRewardState = StoreData<ReturnType<typeof useDailyRewardStore.getState>>;
+
+/**
+ * Serialized event store (plain values only)
+ */
+type SerializedEventState = StoreData<ReturnType<typeof useEventStore.getState>>;
+
+/**
+ * Serialized quest store (plain values only)
+ */
+type SerializedQuestState = StoreData<ReturnType<typeof useQuestStore.getState>>;
+
+/**
+ * Migration step that upgrades save data by exactly one version
+ */
+type SaveMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migration chain keyed on the version being migrated FROM
+ * Each step must return data in the shape of the next version
+ */
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  /**
+   * v1 → v2
+   * v1 saves only contained `game` and `upgrades` (buildings were lost as an empty object)
+   * Stores that were not part of v1 are left as null so their current state is kept
+   */
+  1: (data) => {
+    const upgrades = (data.upgrades ?? {}) as Record<string, unknown>;
+    const buildings = upgrades.buildings;
+
+    return {
+      version: 2,
+      timestamp: data.timestamp,
+      gameState: data.game,
+      stores: {
+        rabbits: null,
+        upgrades: {
+          purchasedUpgrades: Array.isArray(upgrades.purchasedUpgrades)
+            ? upgrades.purchasedUpgrades
+            : [],
+          buildings: buildings && typeof buildings === 'object' ? buildings : {},
+          clickMultiplier: upgrades.clickMultiplier ?? 1,
+          productionMultiplier: upgrades.productionMultiplier ?? 1,
+        },
+        achievements: null,
+        crates: null,
+        prestige: null,
+        milestones: null,
+      },
     };
+  },
 
-    const saveData: SaveData = {
-      version: SAVE_VERSION,
-      timestamp: Date.now(),
-      game: gameState as SerializableGameState,
-      upgrades: serializableUpgradeState as SerializableUpgradeState,
+  /**
+   * v2 → v3
+   * Adds the automation store
+   */
+  2: (data) => ({
+    ...data,
+    version: 3,
+    stores: {
+      ...(data.stores as Record<string, unknown>),
+      automations: null,
+    },
+  }),
+
+  /**
+   * v3 → v4
+   * Carrot totals, production and lifetime prestige carrots become big numbers
+   */
+  3: (data) => {
+    const stores = data.stores as Record<string, unknown>;
+    const gameState = data.gameState as Record<string, unknown> | undefined;
+    const prestige = stores.prestige as Record<string, unknown> | null;
+
+    return {
+      ...data,
+      version: 4,
+      gameState: gameState && migrateGameBigNumbers(gameState),
+      stores: {
+        ...stores,
+        prestige: prestige && migratePrestigeBigNumbers(prestige),
+      },
     };
+  },
+
+  /**
+   * v4 → v5
+   * Adds the stats store
+   */
+  4: (data) => ({
+    ...data,
+    version: 5,
+    stores: {
+      ...(data.stores as Record<string, unknown>),
+      stats: null,
+    },
+  }),
+
+  /**
+   * v5 → v6
+   * Adds the daily reward store
+   */
+  5: (data) => ({
+    ...data,
+    version: 6,
+    stores: {
+      ...(data.stores as Record<string, unknown>),
+      dailyRewards: null,
+    },
+  }),
+
+  /**
+   * v6 → v7
+   * Adds the event store
+   */
+  6: (data) => ({
+    ...data,
+    version: 7,
+    stores: {
+      ...(data.stores as Record<string, unknown>),
+      events: null,
+    },
+  }),
+
+  /**
+   * v7 → v8
+   * Adds the quest store
+   */
+  7: (data) => ({
+    ...data,
+    version: 8,
+    stores: {
+      ...(data.stores as Record<string, unknown>),
+      quests: null,
+    },
+  }),
+};
+
+/**
+ * Remove action functions from a store state so only data remains
+ * @param state - Store state returned by getState()
+ * @returns Copy of the state without functions
+ */
+function pickData<T extends object>(state: T): StoreData<T> {
+  return Object.fromEntries(
+    Object.entries(state).filter(([, value]) => typeof value !== 'function')
+  ) as StoreData<T>;
+}
+
+/**
+ * Convert a Map or a plain object (possible during hydration) into a plain object
+ */
+function toRecord<V>(value: Map<string, V> | Record<string, V> | undefined): Record<string, V> {
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
+  }
+  return { ...(value || {}) };
+}
+
+/**
+ * Check whether parsed storage content is a checksummed save
+ * Saves written before checksums hold the save data directly
+ */
+function isStoredSave(value: unknown): value is StoredSave {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as StoredSave).checksum === 'string' &&
+    typeof (value as StoredSave).save === 'string'
+  );
+}
+
+/**
+ * Serialize and checksum save data
+ * @param saveData - Save data to store
+ * @returns JSON of the checksummed save, ready for compression
+ */
+function wrapSave(saveData: SaveData): string {
+  const serialized = JSON.stringify(saveData);
+  const stored: StoredSave = { checksum: checksum(serialized), save: serialized };
+  return JSON.stringify(stored);
+}
+
+/**
+ * Parse decompressed save JSON and verify its checksum
+ * @param decompressed - JSON written by wrapSave, or an older save without a checksum
+ * @returns Parsed save data (not yet migrated) and whether it carried a checksum
+ * @throws Error if the JSON is malformed or the checksum does not match
+ */
+function unwrapSave(decompressed: string): { raw: unknown; hasChecksum: boolean } {
+  const parsed: unknown = JSON.parse(decompressed);
+  if (!isStoredSave(parsed)) {
+    return { raw: parsed, hasChecksum: false };
+  }
+
+  if (checksum(parsed.save) !== parsed.checksum) {
+    throw new Error('Save data failed checksum validation');
+  }
+  return { raw: JSON.parse(parsed.save), hasChecksum: true };
+}
+
+/**
+ * Migrate and validate parsed save data
+ * @param raw - Parsed save data of any supported version
+ * @returns Sanitized save data and the issues found
+ * @throws Error if the save cannot be migrated
+ */
+function checkSaveData(raw: unknown): SaveValidationResult {
+  return validateSaveData(migrateSaveData(raw));
+}
+
+/**
+ * Log validation issues that were repaired while loading
+ */
+function warnIssues(source: string, result: SaveValidationResult): void {
+  if (result.issues.length > 0) {
+    console.warn(`${source} had invalid fields that were repaired:`, result.issues);
+  }
+}
+
+/**
+ * Serialize, checksum and compress save data for a slot or backup
+ * @param saveData - Save data to store
+ * @returns Compressed string for storage
+ */
+function encodeSave(saveData: SaveData): string {
+  return LZString.compressToUTF16(wrapSave(saveData));
+}
+
+/**
+ * Decompress, verify, migrate and validate a save read from a slot or backup
+ * @param compressed - String written by encodeSave (or an unchecksummed older save)
+ * @returns Sanitized save data in the current format
+ * @throws Error if the save cannot be decompressed, fails its checksum or is rejected
+ */
+function decodeSave(compressed: string): SaveData {
+  const decompressed = LZString.decompressFromUTF16(compressed);
+  if (!decompressed) {
+    throw new Error('Failed to decompress save data');
+  }
+
+  const result = checkSaveData(unwrapSave(decompressed).raw);
+  if (!result.data) {
+    throw new Error(`Invalid save data: ${result.issues.map((i) => i.path).join(', ')}`);
+  }
+
+  warnIssues('Save', result);
+  return result.data;
+}
+
+/**
+ * Snapshot every persisted store into a single save envelope
+ * @returns Save data for the current game
+ */
+export function createSaveData(): SaveData {
+  const upgradeState = useUpgradeStore.getState();
+  const rabbitState = useRabbitStore.getState();
+  const achievementState = useAchievementStore.getState();
+  const milestoneState = useMilestoneStore.getState();
+
+  const upgrades: SerializedUpgradeState = {
+    ...pickData(upgradeState),
+    purchasedUpgrades: Array.from(upgradeState.purchasedUpgrades),
+    buildings: toRecord(upgradeState.buildings),
+  };
+
+  const rabbits: SerializedRabbitState = {
+    ...pickData(rabbitState),
+    ownedRabbits: toRecord(rabbitState.ownedRabbits),
+  };
+
+  const achievements: SerializedAchievementState = {
+    ...pickData(achievementState),
+    unlockedAchievements: Array.from(achievementState.unlockedAchievements),
+    achievementProgress: toRecord(achievementState.achievementProgress),
+    unlockTimestamps: toRecord(achievementState.unlockTimestamps),
+  };
+
+  const milestones: SerializedMilestoneState = {
+    completedMilestones: Array.from(milestoneState.completedMilestones),
+  };
+
+  return {
+    version: SAVE_VERSION,
+    timestamp: Date.now(),
+    gameState: pickData(useGameStore.getState()) as SerializedGameState,
+    stores: {
+      rabbits,
+      upgrades,
+      achievements,
+      crates: pickData(useCrateStore.getState()) as SerializedCrateState,
+      prestige: pickData(usePrestigeStore.getState()) as SerializedPrestigeState,
+      milestones,
+      automations: pickData(useAutomationStore.getState()) as SerializedAutomationState,
+      stats: pickData(useStatsStore.getState()) as SerializedStatsState,
+      dailyRewards: pickData(useDailyRewardStore.getState()) as SerializedDailyRewardState,
+      events: pickData(useEventStore.getState()) as SerializedEventState,
+      quests: pickData(useQuestStore.getState()) as SerializedQuestState,
+    },
+  };
+}
+
+/**
+ * Run the migration chain until the data reaches SAVE_VERSION
+ * @param raw - Parsed save data of any supported version
+ * @returns Save data in the current format
+ * @throws Error if the save is malformed, from a newer version, or has no migration path
+ */
+export function migrateSaveData(raw: unknown): SaveData {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid save data structure');
+  }
 
-    const serialized = JSON.stringify(saveData);
-    const compressed = LZString.compressToUTF16(serialized);
+  let data = raw as Record<string, unknown>;
+  let version = data.version;
 
-    localStorage.setItem('rabbit-clicker-save', compressed);
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Invalid save data structure');
+  }
+
+  if (version > SAVE_VERSION) {
+    throw new Error('Save file is from a newer version of the game');
+  }
+
+  while (version < SAVE_VERSION) {
+    const migrate = SAVE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available for save version ${version}`);
+    }
+    data = migrate(data);
+    version += 1;
+    data.version = version;
+  }
+
+  if (!data.gameState || !data.stores || typeof data.stores !== 'object') {
+    throw new Error('Invalid save data structure');
+  }
+
+  return data as unknown as SaveData;
+}
+
+/**
+ * Restore every store from a save envelope
+ * All store states are built before any store is touched, so a malformed
+ * section aborts the restore without leaving the game half-loaded
+ * @param saveData - Save data in the current format
+ */
+export function restoreSaveData(saveData: SaveData): void {
+  const { stores } = saveData;
+  const gameState = saveData.gameState as Partial<SerializedGameState>;
+  const upgrades = stores.upgrades as Partial<SerializedUpgradeState> | null;
+  const rabbits = stores.rabbits as Partial<SerializedRabbitState> | null;
+  const achievements = stores.achievements as Partial<SerializedAchievementState> | null;
+  const crates = stores.crates as Partial<SerializedCrateState> | null;
+  const prestige = stores.prestige as Partial<SerializedPrestigeState> | null;
+  const milestones = stores.milestones as Partial<SerializedMilestoneState> | null;
+  const automations = stores.automations as Partial<SerializedAutomationState> | null;
+  const stats = stores.stats as Partial<SerializedStatsState> | null;
+  const dailyRewards = stores.dailyRewards as Partial<SerializedDailyRewardState> | null;
+  const events = stores.events as Partial<SerializedEventState> | null;
+  const quests = stores.quests as Partial<SerializedQuestState> | null;
+
+  // Build every next state first
+  const nextUpgradeState = upgrades && {
+    ...upgrades,
+    purchasedUpgrades: new Set(
+      Array.isArray(upgrades.purchasedUpgrades) ? upgrades.purchasedUpgrades : []
+    ),
+    buildings: new Map(
+      Object.entries(upgrades.buildings || {}).map(([k, v]) => [k, Number(v) || 0])
+    ),
+  };
+
+  const nextRabbitState = rabbits && {
+    ...rabbits,
+    ownedRabbits: new Map(Object.entries(rabbits.ownedRabbits || {})),
+    activeTeam: Array.isArray(rabbits.activeTeam) ? rabbits.activeTeam : [],
+  };
+
+  const nextAchievementState = achievements && {
+    ...achievements,
+    unlockedAchievements: new Set(
+      Array.isArray(achievements.unlockedAchievements) ? achievements.unlockedAchievements : []
+    ),
+    achievementProgress: new Map(Object.entries(achievements.achievementProgress || {})),
+    unlockTimestamps: new Map(Object.entries(achievements.unlockTimestamps || {})),
+  };
+
+  const nextMilestoneState = milestones && {
+    completedMilestones: new Set(
+      Array.isArray(milestones.completedMilestones) ? milestones.completedMilestones : []
+    ),
+  };
+
+  // Apply all states together
+  useGameStore.setState(gameState);
+  if (nextUpgradeState) useUpgradeStore.setState(nextUpgradeState);
+  if (nextRabbitState) useRabbitStore.setState(nextRabbitState);
+  if (nextAchievementState) useAchievementStore.setState(nextAchievementState);
+  if (crates) useCrateStore.setState(crates);
+  if (prestige) usePrestigeStore.setState(prestige);
+  if (nextMilestoneState) useMilestoneStore.setState(nextMilestoneState);
+  if (automations) useAutomationStore.setState(automations);
+  if (stats) useStatsStore.setState(stats);
+  if (dailyRewards) useDailyRewardStore.setState(dailyRewards);
+  if (events) useEventStore.setState(events);
+  if (quests) useQuestStore.setState(quests);
+
+  // Recalculate derived game values based on restored upgrades, rabbits and seeds
+  useUpgradeStore.getState().recalculateMultipliers();
+}
+
+/**
+ * Open persistent storage and restore every store from it
+ * Stores skip hydration when created because storage is only readable once it has loaded;
+ * call this before loadGame()
+ * @returns Storage backend in use
+ */
+export async function initializePersistence(): Promise<StorageBackendName> {
+  const backend = await initStorage();
+  await Promise.all(
+    [...GAME_STORES, useSettingsStore].map((store) => store.persist.rehydrate())
+  );
+  return backend;
+}
+
+/**
+ * Save the current game state to the active save slot
+ * Uses LZ-String compression to reduce storage size
+ * @returns true if save successful, false otherwise
+ */
+export function saveGame(): boolean {
+  try {
+    writeSlotData(getActiveSlot().id, encodeSave(createSaveData()));
     return true;
   } catch (error) {
     console.error('Failed to save game:', error);
@@ -71,80 +585,181 @@ export function saveGame(): boolean {
 }
 
 /**
- * Load game state from localStorage
- * Handles decompression and state restoration
- * @returns true if load successful, false otherwise
+ * Load game state from the active save slot
+ * Handles decompression, checksum validation, migration and state restoration.
+ * If the slot's save is corrupted, the newest valid backup is restored instead
+ * and written back to the slot.
+ * @returns true if load successful, false if there is no usable save
  */
 export function loadGame(): boolean {
+  let slot: SaveSlot;
+  let stored: string | null;
+
   try {
-    const compressed = localStorage.getItem('rabbit-clicker-save');
-    if (!compressed) {
+    slot = getActiveSlot();
+    stored = readSlotData(slot.id);
+  } catch (error) {
+    console.error('Failed to read save slot:', error);
+    return false;
+  }
+
+  // Nothing saved yet (new slot or reset progress)
+  if (!stored) {
+    return false;
+  }
+
+  try {
+    restoreSaveData(decodeSave(stored));
+    return true;
+  } catch (error) {
+    console.error('Failed to load game:', error);
+  }
+
+  // Fall back to the newest backup that passes validation
+  for (const timestamp of slot.backups) {
+    const backup = readBackupData(slot.id, timestamp);
+    if (!backup) continue;
+
+    try {
+      restoreSaveData(decodeSave(backup));
+      writeSlotData(slot.id, backup);
+      console.warn(
+        `Save was unreadable; restored backup from ${new Date(timestamp).toLocaleString()}`
+      );
+      return true;
+    } catch (error) {
+      console.error(`Backup from ${new Date(timestamp).toLocaleString()} is unusable:`, error);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Write a rolling backup of the current game to the active slot
+ * Skipped if the newest backup is younger than BACKUP_INTERVAL_MS, unless forced
+ * @param force - Write a backup regardless of the interval (default: false)
+ * @returns true if a backup was written, false if skipped or failed
+ */
+export function createBackup(force: boolean = false): boolean {
+  try {
+    const slot = getActiveSlot();
+    const now = Date.now();
+    const newest = slot.backups[0];
+
+    if (!force && newest !== undefined && now - newest < BACKUP_INTERVAL_MS) {
       return false;
     }
 
-    const decompressed = LZString.decompressFromUTF16(compressed);
-    if (!decompressed) {
-      throw new Error('Failed to decompress save data');
+    writeBackupData(slot.id, encodeSave(createSaveData()), now);
+    return true;
+  } catch (error) {
+    console.error('Failed to create backup:', error);
+    return false;
+  }
+}
+
+/**
+ * Restore the game from one of the active slot's backups
+ * The current game is backed up first so the restore can be undone
+ * @param timestamp - Backup timestamp
+ * @returns true if restored, false if the backup is missing or invalid
+ */
+export function restoreBackup(timestamp: number): boolean {
+  try {
+    const slot = getActiveSlot();
+    const backup = readBackupData(slot.id, timestamp);
+    if (!backup) {
+      throw new Error(`Backup not found: ${timestamp}`);
     }
 
-    const saveData: SaveData = JSON.parse(decompressed);
+    const saveData = decodeSave(backup);
+    createBackup(true);
+    restoreSaveData(saveData);
+    writeSlotData(slot.id, encodeSave(createSaveData()));
 
-    // Validate save version
-    if (saveData.version > SAVE_VERSION) {
-      throw new Error('Save file is from a newer version of the game');
+    return true;
+  } catch (error) {
+    console.error('Failed to restore backup:', error);
+    return false;
+  }
+}
+
+/**
+ * Switch to another save slot and load its game
+ * The current game is saved to its slot first
+ * @param slotId - Slot identifier
+ * @returns true if switched, false if the slot has no usable save
+ */
+export function loadSaveSlot(slotId: string): boolean {
+  try {
+    const previousSlotId = getActiveSlot().id;
+    if (slotId === previousSlotId) {
+      return true;
     }
 
-    // Restore game state
-    useGameStore.setState(saveData.game);
-
-    // Restore upgrade state (handle Set serialization)
-    const upgradeState = {
-      ...saveData.upgrades,
-      purchasedUpgrades: new Set(
-        Array.isArray(saveData.upgrades.purchasedUpgrades)
-          ? saveData.upgrades.purchasedUpgrades
-          : []
-      ),
-    };
-    useUpgradeStore.setState(upgradeState);
+    if (!saveGame() || !setActiveSlot(slotId)) {
+      return false;
+    }
 
-    // Recalculate derived game values based on loaded upgrades
-    useUpgradeStore.getState().recalculateMultipliers();
+    if (!loadGame()) {
+      setActiveSlot(previousSlotId);
+      console.error(`Save slot has no usable save: ${slotId}`);
+      return false;
+    }
 
     return true;
   } catch (error) {
-    console.error('Failed to load game:', error);
+    console.error('Failed to load save slot:', error);
     return false;
   }
 }
 
 /**
- * Export current game state as a base64 encoded string
- * Can be shared or backed up externally
- * @returns Compressed and encoded save string
+ * Save the current game to a new slot and make it the active slot
+ * The current game is also saved to its existing slot
+ * @param name - Slot name
+ * @returns The new slot, or null if it could not be created
  */
-export function exportSave(): string {
+export function saveToNewSlot(name: string): SaveSlot | null {
   try {
-    const gameState = useGameStore.getState();
-    const upgradeState = useUpgradeStore.getState();
+    if (!saveGame()) {
+      return null;
+    }
 
-    // Convert Set to Array for serialization
-    const serializableUpgradeState = {
-      ...upgradeState,
-      purchasedUpgrades: Array.from(upgradeState.purchasedUpgrades),
-    };
+    const slot = createSaveSlot(name);
+    if (!slot) {
+      return null;
+    }
 
-    const saveData: SaveData = {
-      version: SAVE_VERSION,
-      timestamp: Date.now(),
-      game: gameState as SerializableGameState,
-      upgrades: serializableUpgradeState as SerializableUpgradeState,
-    };
+    writeSlotData(slot.id, encodeSave(createSaveData()));
+    setActiveSlot(slot.id);
+    return getActiveSlot();
+  } catch (error) {
+    console.error('Failed to save to new slot:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete saved progress for the active slot
+ * Clears every game store's own persisted copy and the slot's save.
+ * Backups, other slots and settings are kept, so a reset can be undone from a backup.
+ */
+export function clearSavedProgress(): void {
+  GAME_STORES.forEach((store) => store.persist.clearStorage());
 
-    const serialized = JSON.stringify(saveData);
-    const compressed = LZString.compressToBase64(serialized);
+  clearSlotData(getActiveSlot().id);
+}
 
-    return compressed;
+/**
+ * Export current game state as a base64 encoded string
+ * Can be shared or backed up externally; carries a checksum so edits are detected on import
+ * @returns Compressed and encoded save string
+ */
+export function exportSave(): string {
+  try {
+    return LZString.compressToBase64(wrapSave(createSaveData()));
   } catch (error) {
     console.error('Failed to export save:', error);
     return '';
@@ -152,12 +767,12 @@ export function exportSave(): string {
 }
 
 /**
- * Import game state from a base64 encoded save string
- * Validates and restores the game state
+ * Check a base64 encoded save string without loading it
+ * Used to show the player what an import would repair before they confirm it
  * @param encoded - Base64 encoded save string from exportSave()
- * @returns true if import successful, false otherwise
+ * @returns Sanitized save (or null if it cannot be imported) and per-field issues
  */
-export function importSave(encoded: string): boolean {
+export function checkImportedSave(encoded: string): SaveValidationResult {
   try {
     if (!encoded || typeof encoded !== 'string') {
       throw new Error('Invalid save string');
@@ -168,34 +783,39 @@ export function importSave(encoded: string): boolean {
       throw new Error('Failed to decompress save data');
     }
 
-    const saveData: SaveData = JSON.parse(decompressed);
+    const { raw, hasChecksum } = unwrapSave(decompressed);
+    const result = checkSaveData(raw);
 
-    // Validate save structure
-    if (saveData.version === undefined || saveData.version === null || !saveData.game || !saveData.upgrades) {
-      throw new Error('Invalid save data structure');
+    // Exports from before checksums cannot be checked for edits
+    if (!hasChecksum && result.data) {
+      result.issues.unshift({
+        path: 'checksum',
+        message: 'Save has no checksum, so edits cannot be detected',
+      });
     }
 
-    // Validate save version
-    if (saveData.version > SAVE_VERSION) {
-      throw new Error('Save file is from a newer version of the game');
-    }
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { data: null, issues: [{ path: 'save', message }] };
+  }
+}
 
-    // Restore game state
-    useGameStore.setState(saveData.game);
-
-    // Restore upgrade state (handle Set serialization)
-    const upgradeState = {
-      ...saveData.upgrades,
-      purchasedUpgrades: new Set(
-        Array.isArray(saveData.upgrades.purchasedUpgrades)
-          ? saveData.upgrades.purchasedUpgrades
-          : []
-      ),
-    };
-    useUpgradeStore.setState(upgradeState);
+/**
+ * Import game state from a base64 encoded save string
+ * Migrates older save versions, repairs invalid fields, then restores every store
+ * @param encoded - Base64 encoded save string from exportSave()
+ * @returns true if import successful, false otherwise
+ */
+export function importSave(encoded: string): boolean {
+  try {
+    const result = checkImportedSave(encoded);
+    if (!result.data) {
+      throw new Error(result.issues.map((issue) => issue.message).join('; '));
+    }
 
-    // Recalculate derived game values based on imported upgrades
-    useUpgradeStore.getState().recalculateMultipliers();
+    warnIssues('Imported save', result);
+    restoreSaveData(result.data);
 
     return true;
   } catch (error) {
@@ -0,0 +1,354 @@
+/**
+ * Save Slot Storage
+ * Bookkeeping for named save slots and their rolling backups in persistent storage
+ * Slot and backup contents are opaque strings; encoding and validation live in saveService
+ */
+
+import { persistentStorage } from '@/utils/storage';
+
+/**
+ * Named save slot
+ */
+export interface SaveSlot {
+  /** Unique slot identifier */
+  id: string;
+  /** Player-chosen slot name */
+  name: string;
+  /** Timestamp when the slot was created */
+  createdAt: number;
+  /** Timestamp of the last save written to the slot (null if never saved) */
+  updatedAt: number | null;
+  /** Timestamps of the slot's backups, newest first */
+  backups: number[];
+}
+
+/**
+ * Slot index persisted alongside the slot contents
+ */
+interface SaveSlotIndex {
+  activeSlotId: string;
+  slots: SaveSlot[];
+}
+
+/**
+ * Maximum number of save slots
+ */
+export const MAX_SAVE_SLOTS = 5;
+
+/**
+ * Rolling backups kept per slot; the oldest is dropped when a new one is written
+ */
+export const MAX_BACKUPS_PER_SLOT = 5;
+
+/**
+ * Maximum length of a slot name
+ */
+export const MAX_SLOT_NAME_LENGTH = 32;
+
+/**
+ * Storage key of the single save used before save slots existed
+ */
+const LEGACY_SAVE_KEY = 'rabbit-clicker-save';
+
+/**
+ * Storage keys for the slot index, slot contents and backups
+ */
+const SLOT_INDEX_KEY = 'rabbit-clicker-save-slots';
+const SLOT_KEY_PREFIX = 'rabbit-clicker-save-slot:';
+const BACKUP_KEY_PREFIX = 'rabbit-clicker-save-backup:';
+
+/**
+ * Slot created on first run (and for saves from before slots existed)
+ */
+const DEFAULT_SLOT_ID = 'slot-1';
+const DEFAULT_SLOT_NAME = 'Slot 1';
+
+function getSlotKey(slotId: string): string {
+  return SLOT_KEY_PREFIX + slotId;
+}
+
+function getBackupKey(slotId: string, timestamp: number): string {
+  return `${BACKUP_KEY_PREFIX}${slotId}:${timestamp}`;
+}
+
+/**
+ * Check that a parsed value is a well-formed slot
+ */
+function isSaveSlot(value: unknown): value is SaveSlot {
+  const slot = value as SaveSlot;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof slot.id === 'string' &&
+    typeof slot.name === 'string' &&
+    typeof slot.createdAt === 'number' &&
+    (slot.updatedAt === null || typeof slot.updatedAt === 'number') &&
+    Array.isArray(slot.backups) &&
+    slot.backups.every((timestamp) => typeof timestamp === 'number')
+  );
+}
+
+/**
+ * Rebuild the slot index from the keys in persistent storage
+ * Used on first run and when the index itself is missing or corrupted.
+ * A save from before slots existed is moved into the default slot.
+ * @returns Rebuilt index (always has at least one slot)
+ */
+function rebuildIndex(): SaveSlotIndex {
+  const slots = new Map<string, SaveSlot>();
+  const getOrCreateSlot = (id: string) => {
+    let slot = slots.get(id);
+    if (!slot) {
+      slot = {
+        id,
+        name: `Slot ${slots.size + 1}`,
+        createdAt: Date.now(),
+        updatedAt: null,
+        backups: [],
+      };
+      slots.set(id, slot);
+    }
+    return slot;
+  };
+
+  for (const key of persistentStorage.keys()) {
+    if (key.startsWith(SLOT_KEY_PREFIX)) {
+      getOrCreateSlot(key.slice(SLOT_KEY_PREFIX.length)).updatedAt = Date.now();
+    } else if (key.startsWith(BACKUP_KEY_PREFIX)) {
+      const rest = key.slice(BACKUP_KEY_PREFIX.length);
+      const separator = rest.lastIndexOf(':');
+      const timestamp = Number(rest.slice(separator + 1));
+      if (separator > 0 && Number.isFinite(timestamp)) {
+        getOrCreateSlot(rest.slice(0, separator)).backups.push(timestamp);
+      }
+    }
+  }
+
+  // Move a pre-slot save into the default slot
+  const legacySave = persistentStorage.getItem(LEGACY_SAVE_KEY);
+  if (legacySave && !slots.has(DEFAULT_SLOT_ID)) {
+    persistentStorage.setItem(getSlotKey(DEFAULT_SLOT_ID), legacySave);
+    persistentStorage.removeItem(LEGACY_SAVE_KEY);
+    getOrCreateSlot(DEFAULT_SLOT_ID).updatedAt = Date.now();
+  }
+
+  if (slots.size === 0) {
+    getOrCreateSlot(DEFAULT_SLOT_ID);
+  }
+
+  const defaultSlot = slots.get(DEFAULT_SLOT_ID);
+  if (defaultSlot) {
+    defaultSlot.name = DEFAULT_SLOT_NAME;
+  }
+
+  const rebuiltSlots = Array.from(slots.values());
+  rebuiltSlots.forEach((slot) => slot.backups.sort((a, b) => b - a));
+
+  const index = { activeSlotId: rebuiltSlots[0].id, slots: rebuiltSlots };
+  writeIndex(index);
+  return index;
+}
+
+/**
+ * Read the slot index, rebuilding it if it is missing or corrupted
+ * @returns Slot index (always has at least one slot)
+ */
+function readIndex(): SaveSlotIndex {
+  try {
+    const raw = persistentStorage.getItem(SLOT_INDEX_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<SaveSlotIndex>;
+      const slots = Array.isArray(parsed.slots) ? parsed.slots.filter(isSaveSlot) : [];
+
+      if (slots.length > 0) {
+        const activeSlotId = slots.some((slot) => slot.id === parsed.activeSlotId)
+          ? (parsed.activeSlotId as string)
+          : slots[0].id;
+        return { activeSlotId, slots };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to read save slots, rebuilding:', error);
+  }
+
+  return rebuildIndex();
+}
+
+/**
+ * Persist the slot index
+ */
+function writeIndex(index: SaveSlotIndex): void {
+  persistentStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+}
+
+/**
+ * Get all save slots
+ * @returns Slots in creation order
+ */
+export function listSaveSlots(): SaveSlot[] {
+  return readIndex().slots;
+}
+
+/**
+ * Get the slot that saves are written to
+ * @returns Active slot
+ */
+export function getActiveSlot(): SaveSlot {
+  const index = readIndex();
+  return index.slots.find((slot) => slot.id === index.activeSlotId) ?? index.slots[0];
+}
+
+/**
+ * Make a slot the one saves are written to
+ * @param slotId - Slot identifier
+ * @returns true if switched, false if the slot does not exist
+ */
+export function setActiveSlot(slotId: string): boolean {
+  const index = readIndex();
+
+  if (!index.slots.some((slot) => slot.id === slotId)) {
+    console.error(`Save slot not found: ${slotId}`);
+    return false;
+  }
+
+  writeIndex({ ...index, activeSlotId: slotId });
+  return true;
+}
+
+/**
+ * Create an empty save slot
+ * @param name - Slot name (trimmed, 1 to MAX_SLOT_NAME_LENGTH characters)
+ * @returns The new slot, or null if the name is invalid or all slots are used
+ */
+export function createSaveSlot(name: string): SaveSlot | null {
+  const trimmed = name.trim();
+  if (trimmed.length === 0 || trimmed.length > MAX_SLOT_NAME_LENGTH) {
+    console.error('Invalid save slot name:', name);
+    return null;
+  }
+
+  const index = readIndex();
+  if (index.slots.length >= MAX_SAVE_SLOTS) {
+    console.error(`Cannot create more than ${MAX_SAVE_SLOTS} save slots`);
+    return null;
+  }
+
+  let id = `slot-${Date.now().toString(36)}`;
+  while (index.slots.some((slot) => slot.id === id)) {
+    id += '0';
+  }
+
+  const slot: SaveSlot = { id, name: trimmed, createdAt: Date.now(), updatedAt: null, backups: [] };
+  writeIndex({ ...index, slots: [...index.slots, slot] });
+  return slot;
+}
+
+/**
+ * Delete a save slot with its save and backups
+ * The active slot cannot be deleted
+ * @param slotId - Slot identifier
+ * @returns true if deleted, false if not found or active
+ */
+export function deleteSaveSlot(slotId: string): boolean {
+  const index = readIndex();
+  const slot = index.slots.find((s) => s.id === slotId);
+
+  if (!slot) {
+    console.error(`Save slot not found: ${slotId}`);
+    return false;
+  }
+
+  if (slotId === index.activeSlotId) {
+    console.error('Cannot delete the active save slot');
+    return false;
+  }
+
+  persistentStorage.removeItem(getSlotKey(slotId));
+  slot.backups.forEach((timestamp) => {
+    persistentStorage.removeItem(getBackupKey(slotId, timestamp));
+  });
+  writeIndex({ ...index, slots: index.slots.filter((s) => s.id !== slotId) });
+  return true;
+}
+
+/**
+ * Read the stored save of a slot
+ * @param slotId - Slot identifier
+ * @returns Stored save, or null if the slot has none
+ */
+export function readSlotData(slotId: string): string | null {
+  return persistentStorage.getItem(getSlotKey(slotId));
+}
+
+/**
+ * Write the stored save of a slot
+ * @param slotId - Slot identifier
+ * @param data - Encoded save
+ */
+export function writeSlotData(slotId: string, data: string): void {
+  persistentStorage.setItem(getSlotKey(slotId), data);
+
+  const index = readIndex();
+  writeIndex({
+    ...index,
+    slots: index.slots.map((slot) =>
+      slot.id === slotId ? { ...slot, updatedAt: Date.now() } : slot
+    ),
+  });
+}
+
+/**
+ * Remove the stored save of a slot (its backups are kept)
+ * @param slotId - Slot identifier
+ */
+export function clearSlotData(slotId: string): void {
+  persistentStorage.removeItem(getSlotKey(slotId));
+
+  const index = readIndex();
+  writeIndex({
+    ...index,
+    slots: index.slots.map((slot) => (slot.id === slotId ? { ...slot, updatedAt: null } : slot)),
+  });
+}
+
+/**
+ * Read one backup of a slot
+ * @param slotId - Slot identifier
+ * @param timestamp - Backup timestamp
+ * @returns Stored backup, or null if missing
+ */
+export function readBackupData(slotId: string, timestamp: number): string | null {
+  return persistentStorage.getItem(getBackupKey(slotId, timestamp));
+}
+
+/**
+ * Write a new backup for a slot, dropping the oldest past MAX_BACKUPS_PER_SLOT
+ * @param slotId - Slot identifier
+ * @param data - Encoded save
+ * @param timestamp - Backup timestamp
+ * @throws Error if the slot does not exist
+ */
+export function writeBackupData(slotId: string, data: string, timestamp: number): void {
+  const index = readIndex();
+  const slot = index.slots.find((s) => s.id === slotId);
+
+  if (!slot) {
+    throw new Error(`Save slot not found: ${slotId}`);
+  }
+
+  persistentStorage.setItem(getBackupKey(slotId, timestamp), data);
+
+  const backups = [timestamp, ...slot.backups.filter((t) => t !== timestamp)];
+  backups
+    .slice(MAX_BACKUPS_PER_SLOT)
+    .forEach((oldTimestamp) => {
+      persistentStorage.removeItem(getBackupKey(slotId, oldTimestamp));
+    });
+
+  writeIndex({
+    ...index,
+    slots: index.slots.map((s) =>
+      s.id === slotId ? { ...s, backups: backups.slice(0, MAX_BACKUPS_PER_SLOT) } : s
+    ),
+  });
+}
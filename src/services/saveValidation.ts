@@ -0,0 +1,1064 @@
+/**
+ * Save Validation
+ * Schema checks for a migrated save envelope before it reaches the stores.
+ * Out-of-range values are clamped, unknown IDs and fields are dropped, and every
+ * change is reported per field so the player can see what was fixed.
+ */
+
+import { getUpgradeById } from '@/game/data/upgrades';
+import { getBuildingById } from '@/game/data/buildings';
+import { getRabbitById } from '@/game/data/rabbits';
+import { getAchievementById } from '@/game/data/achievements';
+import { getAutomationById } from '@/game/data/automations';
+import { getCrateByType } from '@/game/data/crates';
+import { getEventById } from '@/game/data/events';
+import { getQuestById } from '@/game/data/quests';
+import { createRabbitInstance, type CrateHistoryEntry } from '@/game/systems/gacha';
+import { LEVEL_CAPS } from '@/game/systems/leveling';
+import { MILESTONES } from '@/stores/milestoneStore';
+import {
+  createRunStats,
+  MAX_PRESTIGE_RUNS,
+  MAX_STATS_SAMPLES,
+  type PrestigeRunRecord,
+  type RunStats,
+  type StatsSample,
+} from '@/stores/statsStore';
+import { createEventProgress, type EventProgress } from '@/stores/eventStore';
+import {
+  createQuestBoard,
+  QUEST_PERIODS,
+  type ActiveQuest,
+  type QuestBoard,
+} from '@/stores/questStore';
+import type { SaveData } from '@/types/game';
+import type { CrateType } from '@/types/crate';
+import type { GameEvent } from '@/types/event';
+import type { QuestPeriod } from '@/types/quest';
+import type { Rabbit, Rarity } from '@/types/rabbit';
+import {
+  BIG_ZERO,
+  bigLt,
+  parseBigNumber,
+  toBigNumber,
+  type BigNumber,
+} from '@/utils/bigNumber';
+
+/**
+ * Problem found in one field of a save
+ */
+export interface SaveValidationIssue {
+  /** Dotted path of the field (e.g. "gameState.carrots") */
+  path: string;
+  /** What was wrong and what was done about it */
+  message: string;
+}
+
+/**
+ * Outcome of validating a save
+ */
+export interface SaveValidationResult {
+  /** Sanitized save, or null if the save was rejected */
+  data: SaveData | null;
+  /** Every field that was clamped, dropped or caused the rejection */
+  issues: SaveValidationIssue[];
+}
+
+type SaveSection = Record<string, unknown>;
+
+/**
+ * Fields each store section may contain; anything else is dropped
+ */
+const GAME_FIELDS = [
+  'carrots',
+  'goldenCarrots',
+  'lifetimeCarrots',
+  'carrotsPerSecond',
+  'clickPower',
+  'totalClicks',
+  'lastSaveTime',
+  'lastPlayTime',
+  'gameSessionStartTime',
+];
+const UPGRADE_FIELDS = [
+  'purchasedUpgrades',
+  'buildings',
+  'clickMultiplier',
+  'productionMultiplier',
+];
+const RABBIT_FIELDS = [
+  'ownedRabbits',
+  'activeTeam',
+  'maxTeamSize',
+  'rabbitXP',
+  'abilityActivations',
+];
+const ACHIEVEMENT_FIELDS = [
+  'unlockedAchievements',
+  'achievementProgress',
+  'unlockTimestamps',
+  'lastCheckTime',
+];
+const CRATE_FIELDS = [
+  'cratesSinceEpic',
+  'cratesSinceLegendary',
+  'cratesSinceMythical',
+  'recentDrops',
+  'epicPityThreshold',
+  'legendaryPityThreshold',
+  'mythicalPityThreshold',
+  'rngSeed',
+  'rngState',
+  'crateHistory',
+  'crateHistoryStart',
+];
+const PRESTIGE_FIELDS = ['goldenSeeds', 'prestigeCount', 'totalLifetimeCarrots'];
+const MILESTONE_FIELDS = ['completedMilestones'];
+const AUTOMATION_FIELDS = ['automations'];
+const STATS_FIELDS = ['currentRun', 'allTime', 'prestigeRuns', 'samples'];
+const DAILY_REWARD_FIELDS = ['lastClaimTime', 'streak', 'longestStreak', 'totalClaims'];
+const EVENT_FIELDS = ['events', 'rngSeed', 'rngState'];
+const EVENT_PROGRESS_FIELDS = [
+  'currency',
+  'currencyEarned',
+  'clickProgress',
+  'timeProgress',
+  'cratesOpened',
+  'pity',
+  'completedAchievements',
+  'conversion',
+];
+const PITY_FIELDS = ['cratesSinceEpic', 'cratesSinceLegendary', 'cratesSinceMythical'];
+const QUEST_FIELDS = ['boards'];
+const QUEST_BOARD_FIELDS = ['periodStart', 'quests', 'rerolls'];
+const RUN_STATS_FIELDS = [
+  'startedAt',
+  'timePlayed',
+  'carrotsFromClicks',
+  'carrotsFromIdle',
+  'highestCarrotsPerSecond',
+  'largestOfflineEarnings',
+  'cratesOpened',
+  'goldenCarrotsEarned',
+  'goldenCarrotsSpent',
+];
+
+/**
+ * Constraints for a numeric field
+ */
+interface NumberRule {
+  /** Smallest allowed value (default: 0) */
+  min?: number;
+  /** Largest allowed value (default: none) */
+  max?: number;
+  /** Round down to a whole number */
+  integer?: boolean;
+  /** Value used when the field is not a number */
+  fallback: number;
+}
+
+function isSection(value: unknown): value is SaveSection {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRarity(value: unknown): value is Rarity {
+  return typeof value === 'string' && value in LEVEL_CAPS;
+}
+
+/**
+ * Collects issues while a save is being checked
+ */
+function createReporter(issues: SaveValidationIssue[]) {
+  return (path: string, message: string) => {
+    issues.push({ path, message });
+  };
+}
+
+type Report = ReturnType<typeof createReporter>;
+
+/**
+ * Copy only the known fields of a section, reporting the rest
+ */
+function pickKnownFields(
+  section: SaveSection,
+  fields: string[],
+  path: string,
+  report: Report
+): SaveSection {
+  const known: SaveSection = {};
+
+  Object.entries(section).forEach(([key, value]) => {
+    if (fields.includes(key)) {
+      known[key] = value;
+    } else {
+      report(`${path}.${key}`, 'Unknown field removed');
+    }
+  });
+
+  return known;
+}
+
+/**
+ * Check a number against its rule
+ * @returns Valid (possibly clamped) number
+ */
+function checkNumber(value: unknown, rule: NumberRule, path: string, report: Report): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    report(path, `Not a valid number; reset to ${rule.fallback}`);
+    return rule.fallback;
+  }
+
+  const min = rule.min ?? 0;
+  let checked = rule.integer ? Math.floor(value) : value;
+
+  if (checked < min) {
+    report(path, `${value} is below the minimum; clamped to ${min}`);
+    checked = min;
+  } else if (rule.max !== undefined && checked > rule.max) {
+    report(path, `${value} is above the maximum; clamped to ${rule.max}`);
+    checked = rule.max;
+  } else if (checked !== value) {
+    report(path, `${value} is not a whole number; rounded down to ${checked}`);
+  }
+
+  return checked;
+}
+
+/**
+ * Check an optional numeric field in place (missing fields are left missing)
+ */
+function checkNumberField(
+  section: SaveSection,
+  key: string,
+  rule: NumberRule,
+  path: string,
+  report: Report
+): void {
+  if (key in section) {
+    section[key] = checkNumber(section[key], rule, `${path}.${key}`, report);
+  }
+}
+
+/**
+ * Check an optional non-negative big number field in place
+ */
+function checkBigNumberField(
+  section: SaveSection,
+  key: string,
+  fallback: BigNumber,
+  path: string,
+  report: Report
+): void {
+  if (!(key in section)) return;
+
+  const parsed = parseBigNumber(section[key]);
+  if (!parsed) {
+    report(`${path}.${key}`, 'Not a valid number; reset to its default');
+    section[key] = fallback;
+  } else if (bigLt(parsed, 0)) {
+    report(`${path}.${key}`, 'Negative amount; clamped to 0');
+    section[key] = BIG_ZERO;
+  } else {
+    section[key] = parsed;
+  }
+}
+
+/**
+ * Check a timestamp field in place; future times are clamped to now
+ */
+function checkTimestampField(
+  section: SaveSection,
+  key: string,
+  now: number,
+  path: string,
+  report: Report
+): void {
+  checkNumberField(section, key, { max: now, fallback: now }, path, report);
+}
+
+/**
+ * Check a list of IDs, dropping duplicates, non-strings and unknown IDs
+ * @returns Cleaned list
+ */
+function checkIdList(
+  value: unknown,
+  isKnown: (id: string) => boolean,
+  path: string,
+  report: Report
+): string[] {
+  if (!Array.isArray(value)) {
+    report(path, 'Not a list; reset to empty');
+    return [];
+  }
+
+  const ids: string[] = [];
+  value.forEach((id, index) => {
+    if (typeof id !== 'string' || !isKnown(id)) {
+      report(`${path}[${index}]`, `Unknown ID ${JSON.stringify(id)} removed`);
+    } else if (ids.includes(id)) {
+      report(`${path}[${index}]`, `Duplicate ID "${id}" removed`);
+    } else {
+      ids.push(id);
+    }
+  });
+
+  return ids;
+}
+
+/**
+ * Check an object keyed by ID, dropping unknown keys and invalid values
+ * @param checkValue - Returns the checked value, or undefined to drop the entry
+ * @returns Cleaned record
+ */
+function checkIdRecord<V>(
+  value: unknown,
+  isKnown: (id: string) => boolean,
+  checkValue: (entry: unknown, entryPath: string, id: string) => V | undefined,
+  path: string,
+  report: Report
+): Record<string, V> {
+  if (!isSection(value)) {
+    report(path, 'Not an object; reset to empty');
+    return {};
+  }
+
+  const record: Record<string, V> = {};
+  Object.entries(value).forEach(([id, entry]) => {
+    if (!isKnown(id)) {
+      report(`${path}.${id}`, 'Unknown ID removed');
+      return;
+    }
+
+    const checked = checkValue(entry, `${path}.${id}`, id);
+    if (checked !== undefined) {
+      record[id] = checked;
+    }
+  });
+
+  return record;
+}
+
+/**
+ * Rebuild a saved rabbit from game data, keeping only its progress
+ * Static stats (CPS, rarity, ability) always come from the game data
+ * @returns Rabbit, or undefined if it is not a known rabbit
+ */
+function checkRabbit(value: unknown, path: string, report: Report): Rabbit | undefined {
+  const saved = isSection(value) ? value : null;
+  const data = saved && typeof saved.id === 'string' ? getRabbitById(saved.id) : undefined;
+
+  if (!saved || !data) {
+    report(path, 'Not a known rabbit; removed');
+    return undefined;
+  }
+
+  if (saved.baseCPS !== data.baseCPS || saved.rarity !== data.rarity) {
+    report(path, 'Stats did not match the game data; restored');
+  }
+
+  const rabbit = createRabbitInstance(data);
+  const levelCap = LEVEL_CAPS[data.rarity];
+
+  return {
+    ...rabbit,
+    level: checkNumber(
+      saved.level,
+      { min: 1, max: levelCap, integer: true, fallback: 1 },
+      `${path}.level`,
+      report
+    ),
+    experience: checkNumber(saved.experience, { fallback: 0 }, `${path}.experience`, report),
+    isActive: saved.isActive === true,
+    obtainedAt: checkNumber(saved.obtainedAt, { fallback: 0 }, `${path}.obtainedAt`, report),
+  };
+}
+
+/**
+ * Check one recorded crate opening
+ */
+function isCrateHistoryEntry(value: unknown): value is CrateHistoryEntry {
+  if (!isSection(value)) return false;
+
+  const { crateType, rarity, rabbitId, dropRateMultiplier, minimumRarity } = value;
+  return (
+    typeof crateType === 'string' &&
+    getCrateByType(crateType as CrateType) !== undefined &&
+    isRarity(rarity) &&
+    typeof rabbitId === 'string' &&
+    getRabbitById(rabbitId) !== undefined &&
+    (dropRateMultiplier === undefined ||
+      (typeof dropRateMultiplier === 'number' && Number.isFinite(dropRateMultiplier))) &&
+    (minimumRarity === undefined || isRarity(minimumRarity))
+  );
+}
+
+/**
+ * Check a saved PRNG state (Alea: three seeds and a carry)
+ */
+function isRngState(value: unknown): boolean {
+  return (
+    isSection(value) &&
+    ['c', 's0', 's1', 's2'].every(
+      (key) => typeof value[key] === 'number' && Number.isFinite(value[key])
+    )
+  );
+}
+
+function validateGameState(section: SaveSection, now: number, report: Report): SaveSection {
+  const path = 'gameState';
+  const game = pickKnownFields(section, GAME_FIELDS, path, report);
+
+  checkBigNumberField(game, 'carrots', BIG_ZERO, path, report);
+  checkBigNumberField(game, 'lifetimeCarrots', BIG_ZERO, path, report);
+  checkBigNumberField(game, 'carrotsPerSecond', BIG_ZERO, path, report);
+  checkBigNumberField(game, 'clickPower', toBigNumber(1), path, report);
+  checkNumberField(game, 'goldenCarrots', { fallback: 0 }, path, report);
+  checkNumberField(game, 'totalClicks', { integer: true, fallback: 0 }, path, report);
+  checkTimestampField(game, 'lastSaveTime', now, path, report);
+  checkTimestampField(game, 'lastPlayTime', now, path, report);
+  checkTimestampField(game, 'gameSessionStartTime', now, path, report);
+
+  return game;
+}
+
+function validateUpgrades(section: SaveSection, report: Report): SaveSection {
+  const path = 'stores.upgrades';
+  const upgrades = pickKnownFields(section, UPGRADE_FIELDS, path, report);
+
+  if ('purchasedUpgrades' in upgrades) {
+    upgrades.purchasedUpgrades = checkIdList(
+      upgrades.purchasedUpgrades,
+      (id) => getUpgradeById(id) !== undefined,
+      `${path}.purchasedUpgrades`,
+      report
+    );
+  }
+
+  if ('buildings' in upgrades) {
+    upgrades.buildings = checkIdRecord(
+      upgrades.buildings,
+      (id) => getBuildingById(id) !== undefined,
+      (count, entryPath) => checkNumber(count, { integer: true, fallback: 0 }, entryPath, report),
+      `${path}.buildings`,
+      report
+    );
+  }
+
+  // Multipliers are recalculated after loading; they only need to be sane here
+  checkNumberField(upgrades, 'clickMultiplier', { min: 1, fallback: 1 }, path, report);
+  checkNumberField(upgrades, 'productionMultiplier', { min: 1, fallback: 1 }, path, report);
+
+  return upgrades;
+}
+
+function validateRabbits(section: SaveSection, report: Report): SaveSection {
+  const path = 'stores.rabbits';
+  const rabbits = pickKnownFields(section, RABBIT_FIELDS, path, report);
+
+  if ('ownedRabbits' in rabbits) {
+    const owned = checkIdRecord(
+      rabbits.ownedRabbits,
+      (id) => getRabbitById(id) !== undefined,
+      (rabbit, entryPath) => checkRabbit(rabbit, entryPath, report),
+      `${path}.ownedRabbits`,
+      report
+    );
+
+    // The key and the rabbit it holds must agree
+    Object.entries(owned).forEach(([id, rabbit]) => {
+      if (rabbit.id !== id) {
+        report(`${path}.ownedRabbits.${id}`, `Holds rabbit "${rabbit.id}"; removed`);
+        delete owned[id];
+      }
+    });
+    rabbits.ownedRabbits = owned;
+  }
+
+  checkNumberField(rabbits, 'maxTeamSize', { min: 1, integer: true, fallback: 3 }, path, report);
+  checkNumberField(rabbits, 'rabbitXP', { fallback: 0 }, path, report);
+
+  if ('activeTeam' in rabbits) {
+    const owned = isSection(rabbits.ownedRabbits) ? rabbits.ownedRabbits : null;
+    const team = checkIdList(
+      rabbits.activeTeam,
+      (id) => (owned ? id in owned : getRabbitById(id) !== undefined),
+      `${path}.activeTeam`,
+      report
+    );
+    const maxTeamSize = typeof rabbits.maxTeamSize === 'number' ? rabbits.maxTeamSize : team.length;
+
+    if (team.length > maxTeamSize) {
+      report(`${path}.activeTeam`, `More than ${maxTeamSize} rabbits; extra rabbits removed`);
+    }
+    rabbits.activeTeam = team.slice(0, maxTeamSize);
+  }
+
+  if ('abilityActivations' in rabbits) {
+    rabbits.abilityActivations = checkIdRecord(
+      rabbits.abilityActivations,
+      (id) => getRabbitById(id) !== undefined,
+      (timestamp, entryPath) => checkNumber(timestamp, { fallback: 0 }, entryPath, report),
+      `${path}.abilityActivations`,
+      report
+    );
+  }
+
+  return rabbits;
+}
+
+function validateAchievements(section: SaveSection, now: number, report: Report): SaveSection {
+  const path = 'stores.achievements';
+  const achievements = pickKnownFields(section, ACHIEVEMENT_FIELDS, path, report);
+  const isKnown = (id: string) => getAchievementById(id) !== undefined;
+
+  if ('unlockedAchievements' in achievements) {
+    achievements.unlockedAchievements = checkIdList(
+      achievements.unlockedAchievements,
+      isKnown,
+      `${path}.unlockedAchievements`,
+      report
+    );
+  }
+
+  if ('achievementProgress' in achievements) {
+    achievements.achievementProgress = checkIdRecord(
+      achievements.achievementProgress,
+      isKnown,
+      (progress, entryPath) => checkNumber(progress, { fallback: 0 }, entryPath, report),
+      `${path}.achievementProgress`,
+      report
+    );
+  }
+
+  if ('unlockTimestamps' in achievements) {
+    achievements.unlockTimestamps = checkIdRecord(
+      achievements.unlockTimestamps,
+      isKnown,
+      (timestamp, entryPath) =>
+        checkNumber(timestamp, { max: now, fallback: now }, entryPath, report),
+      `${path}.unlockTimestamps`,
+      report
+    );
+  }
+
+  checkTimestampField(achievements, 'lastCheckTime', now, path, report);
+
+  return achievements;
+}
+
+function validateCrates(section: SaveSection, report: Report): SaveSection {
+  const path = 'stores.crates';
+  const crates = pickKnownFields(section, CRATE_FIELDS, path, report);
+  const counter: NumberRule = { integer: true, fallback: 0 };
+  const threshold: NumberRule = { min: 1, integer: true, fallback: 1 };
+
+  checkNumberField(crates, 'cratesSinceEpic', counter, path, report);
+  checkNumberField(crates, 'cratesSinceLegendary', counter, path, report);
+  checkNumberField(crates, 'cratesSinceMythical', counter, path, report);
+  checkNumberField(crates, 'epicPityThreshold', threshold, path, report);
+  checkNumberField(crates, 'legendaryPityThreshold', threshold, path, report);
+  checkNumberField(crates, 'mythicalPityThreshold', threshold, path, report);
+
+  if ('recentDrops' in crates) {
+    if (Array.isArray(crates.recentDrops)) {
+      crates.recentDrops = crates.recentDrops
+        .map((rabbit, index) => checkRabbit(rabbit, `${path}.recentDrops[${index}]`, report))
+        .filter((rabbit): rabbit is Rabbit => rabbit !== undefined);
+    } else {
+      report(`${path}.recentDrops`, 'Not a list; reset to empty');
+      crates.recentDrops = [];
+    }
+  }
+
+  if ('rngSeed' in crates && (typeof crates.rngSeed !== 'string' || !crates.rngSeed)) {
+    report(`${path}.rngSeed`, 'Not a valid seed; the current seed is kept');
+    delete crates.rngSeed;
+  }
+
+  if ('rngState' in crates && crates.rngState !== null && !isRngState(crates.rngState)) {
+    report(`${path}.rngState`, 'Not a valid random state; reset');
+    crates.rngState = null;
+  }
+
+  // A history that cannot be replayed is dropped together with its starting point
+  if ('crateHistory' in crates) {
+    const history = crates.crateHistory;
+    if (!Array.isArray(history) || !history.every(isCrateHistoryEntry)) {
+      report(`${path}.crateHistory`, 'Contains invalid openings; history cleared');
+      crates.crateHistory = [];
+      crates.crateHistoryStart = null;
+    }
+  }
+
+  return crates;
+}
+
+function validatePrestige(section: SaveSection, report: Report): SaveSection {
+  const path = 'stores.prestige';
+  const prestige = pickKnownFields(section, PRESTIGE_FIELDS, path, report);
+
+  checkNumberField(prestige, 'goldenSeeds', { integer: true, fallback: 0 }, path, report);
+  checkNumberField(prestige, 'prestigeCount', { integer: true, fallback: 0 }, path, report);
+  checkBigNumberField(prestige, 'totalLifetimeCarrots', BIG_ZERO, path, report);
+
+  return prestige;
+}
+
+function validateMilestones(section: SaveSection, report: Report): SaveSection {
+  const path = 'stores.milestones';
+  const milestones = pickKnownFields(section, MILESTONE_FIELDS, path, report);
+
+  if ('completedMilestones' in milestones) {
+    milestones.completedMilestones = checkIdList(
+      milestones.completedMilestones,
+      (id) => MILESTONES.some((milestone) => milestone.id === id),
+      `${path}.completedMilestones`,
+      report
+    );
+  }
+
+  return milestones;
+}
+
+function validateAutomations(section: SaveSection, report: Report): SaveSection {
+  const path = 'stores.automations';
+  const automations = pickKnownFields(section, AUTOMATION_FIELDS, path, report);
+
+  if ('automations' in automations) {
+    automations.automations = checkIdRecord(
+      automations.automations,
+      (id) => getAutomationById(id) !== undefined,
+      (settings, entryPath) => {
+        if (!isSection(settings)) {
+          report(entryPath, 'Not valid automation settings; removed');
+          return undefined;
+        }
+        return {
+          isEnabled: settings.isEnabled === true,
+          reserve: checkNumber(settings.reserve, { fallback: 0 }, `${entryPath}.reserve`, report),
+        };
+      },
+      `${path}.automations`,
+      report
+    );
+  }
+
+  return automations;
+}
+
+/**
+ * Check per-run metrics; missing fields are filled with zero totals
+ * @returns Complete run metrics, or undefined to keep the current ones
+ */
+function checkRunStats(
+  value: unknown,
+  now: number,
+  path: string,
+  report: Report
+): RunStats | undefined {
+  if (!isSection(value)) {
+    report(path, 'Not an object; the current stats are kept');
+    return undefined;
+  }
+
+  const run = pickKnownFields(value, RUN_STATS_FIELDS, path, report);
+  checkTimestampField(run, 'startedAt', now, path, report);
+  checkNumberField(run, 'timePlayed', { fallback: 0 }, path, report);
+  checkBigNumberField(run, 'carrotsFromClicks', BIG_ZERO, path, report);
+  checkBigNumberField(run, 'carrotsFromIdle', BIG_ZERO, path, report);
+  checkBigNumberField(run, 'highestCarrotsPerSecond', BIG_ZERO, path, report);
+  checkBigNumberField(run, 'largestOfflineEarnings', BIG_ZERO, path, report);
+  checkNumberField(run, 'goldenCarrotsEarned', { fallback: 0 }, path, report);
+  checkNumberField(run, 'goldenCarrotsSpent', { fallback: 0 }, path, report);
+
+  if ('cratesOpened' in run) {
+    run.cratesOpened = checkIdRecord(
+      run.cratesOpened,
+      // Event crates are not in CRATE_TYPES but are counted under their shared type
+      (crateType) =>
+        crateType === 'special_event' || getCrateByType(crateType as CrateType) !== undefined,
+      (count, entryPath) => checkNumber(count, { integer: true, fallback: 0 }, entryPath, report),
+      `${path}.cratesOpened`,
+      report
+    );
+  }
+
+  return { ...createRunStats(now), ...run };
+}
+
+/**
+ * Check one finished run in the prestige history
+ */
+function isPrestigeRunRecord(value: unknown): value is PrestigeRunRecord {
+  if (!isSection(value)) return false;
+
+  const { prestigeNumber, startedAt, endedAt, timePlayed, carrotsEarned } = value;
+  const isCount = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+  return (
+    isCount(prestigeNumber) &&
+    isCount(startedAt) &&
+    isCount(endedAt) &&
+    isCount(timePlayed) &&
+    parseBigNumber(carrotsEarned) !== null
+  );
+}
+
+/**
+ * Check one production sample
+ */
+function isStatsSample(value: unknown): value is StatsSample {
+  return (
+    isSection(value) &&
+    typeof value.time === 'number' &&
+    Number.isFinite(value.time) &&
+    parseBigNumber(value.carrotsPerSecond) !== null &&
+    parseBigNumber(value.carrots) !== null
+  );
+}
+
+/**
+ * Check a history list, dropping invalid entries and keeping the newest up to the limit
+ * @returns Cleaned list
+ */
+function checkHistory<T>(
+  value: unknown,
+  isEntry: (entry: unknown) => entry is T,
+  limit: number,
+  path: string,
+  report: Report
+): T[] {
+  if (!Array.isArray(value)) {
+    report(path, 'Not a list; reset to empty');
+    return [];
+  }
+
+  const entries = value.filter(isEntry);
+  if (entries.length < value.length) {
+    report(path, `${value.length - entries.length} invalid entries removed`);
+  }
+  if (entries.length > limit) {
+    report(path, `${entries.length - limit} oldest entries removed`);
+  }
+  return entries.slice(-limit);
+}
+
+function validateStats(section: SaveSection, now: number, report: Report): SaveSection {
+  const path = 'stores.stats';
+  const stats = pickKnownFields(section, STATS_FIELDS, path, report);
+
+  for (const key of ['currentRun', 'allTime']) {
+    if (!(key in stats)) continue;
+
+    const run = checkRunStats(stats[key], now, `${path}.${key}`, report);
+    if (run) {
+      stats[key] = run;
+    } else {
+      delete stats[key];
+    }
+  }
+
+  if ('prestigeRuns' in stats) {
+    stats.prestigeRuns = checkHistory(
+      stats.prestigeRuns,
+      isPrestigeRunRecord,
+      MAX_PRESTIGE_RUNS,
+      `${path}.prestigeRuns`,
+      report
+    );
+  }
+
+  if ('samples' in stats) {
+    stats.samples = checkHistory(
+      stats.samples,
+      isStatsSample,
+      MAX_STATS_SAMPLES,
+      `${path}.samples`,
+      report
+    );
+  }
+
+  return stats;
+}
+
+function validateDailyRewards(section: SaveSection, now: number, report: Report): SaveSection {
+  const path = 'stores.dailyRewards';
+  const dailyRewards = pickKnownFields(section, DAILY_REWARD_FIELDS, path, report);
+  const counter: NumberRule = { integer: true, fallback: 0 };
+
+  // A claim time from the future would block claims until then
+  if (dailyRewards.lastClaimTime !== null) {
+    checkTimestampField(dailyRewards, 'lastClaimTime', now, path, report);
+  }
+  checkNumberField(dailyRewards, 'streak', counter, path, report);
+  checkNumberField(dailyRewards, 'longestStreak', counter, path, report);
+  checkNumberField(dailyRewards, 'totalClaims', counter, path, report);
+
+  return dailyRewards;
+}
+
+/**
+ * Check progress in one event; missing fields are filled with empty progress
+ * @returns Complete event progress, or undefined to drop it
+ */
+function checkEventProgress(
+  value: unknown,
+  event: GameEvent,
+  now: number,
+  path: string,
+  report: Report
+): EventProgress | undefined {
+  if (!isSection(value)) {
+    report(path, 'Not valid event progress; removed');
+    return undefined;
+  }
+
+  const progress = pickKnownFields(value, EVENT_PROGRESS_FIELDS, path, report);
+  const counter: NumberRule = { integer: true, fallback: 0 };
+
+  checkNumberField(progress, 'currency', counter, path, report);
+  checkNumberField(progress, 'currencyEarned', counter, path, report);
+  checkNumberField(progress, 'cratesOpened', counter, path, report);
+  checkNumberField(
+    progress,
+    'clickProgress',
+    { integer: true, max: event.currency.clicksPerUnit - 1, fallback: 0 },
+    path,
+    report
+  );
+  checkNumberField(
+    progress,
+    'timeProgress',
+    { max: event.currency.secondsPerUnit, fallback: 0 },
+    path,
+    report
+  );
+
+  if ('pity' in progress) {
+    if (isSection(progress.pity)) {
+      const pity = pickKnownFields(progress.pity, PITY_FIELDS, `${path}.pity`, report);
+      PITY_FIELDS.forEach((key) => checkNumberField(pity, key, counter, `${path}.pity`, report));
+      progress.pity = { ...createEventProgress().pity, ...pity };
+    } else {
+      report(`${path}.pity`, 'Not an object; reset');
+      delete progress.pity;
+    }
+  }
+
+  if ('completedAchievements' in progress) {
+    progress.completedAchievements = checkIdList(
+      progress.completedAchievements,
+      (id) => event.achievements.some((achievement) => achievement.id === id),
+      `${path}.completedAchievements`,
+      report
+    );
+  }
+
+  if ('conversion' in progress && progress.conversion !== null) {
+    const conversion = progress.conversion;
+    const conversionPath = `${path}.conversion`;
+    if (isSection(conversion)) {
+      checkNumberField(conversion, 'currency', counter, conversionPath, report);
+      checkNumberField(conversion, 'goldenCarrots', counter, conversionPath, report);
+      checkTimestampField(conversion, 'convertedAt', now, conversionPath, report);
+      progress.conversion = {
+        currency: conversion.currency ?? 0,
+        goldenCarrots: conversion.goldenCarrots ?? 0,
+        convertedAt: conversion.convertedAt ?? now,
+      };
+    } else {
+      // Keep the event marked as converted so leftover currency is not paid out twice
+      report(conversionPath, 'Not a valid conversion; reset to an empty one');
+      progress.conversion = { currency: 0, goldenCarrots: 0, convertedAt: now };
+    }
+  }
+
+  return { ...createEventProgress(), ...progress };
+}
+
+function validateEvents(section: SaveSection, now: number, report: Report): SaveSection {
+  const path = 'stores.events';
+  const events = pickKnownFields(section, EVENT_FIELDS, path, report);
+
+  if ('events' in events) {
+    events.events = checkIdRecord(
+      events.events,
+      (id) => getEventById(id) !== undefined,
+      (progress, entryPath, id) => {
+        const event = getEventById(id);
+        return event && checkEventProgress(progress, event, now, entryPath, report);
+      },
+      `${path}.events`,
+      report
+    );
+  }
+
+  if ('rngSeed' in events && (typeof events.rngSeed !== 'string' || !events.rngSeed)) {
+    report(`${path}.rngSeed`, 'Not a valid seed; the current seed is kept');
+    delete events.rngSeed;
+  }
+
+  if ('rngState' in events && events.rngState !== null && !isRngState(events.rngState)) {
+    report(`${path}.rngState`, 'Not a valid random state; reset');
+    events.rngState = null;
+  }
+
+  return events;
+}
+
+/**
+ * Check one quest board; quests that are unknown or belong to another period are dropped
+ * @returns Complete quest board (empty if the saved one is unusable)
+ */
+function checkQuestBoard(
+  value: unknown,
+  period: QuestPeriod,
+  now: number,
+  path: string,
+  report: Report
+): QuestBoard {
+  if (!isSection(value)) {
+    report(path, 'Not an object; reset to an empty board');
+    return createQuestBoard();
+  }
+
+  const board = pickKnownFields(value, QUEST_BOARD_FIELDS, path, report);
+  checkTimestampField(board, 'periodStart', now, path, report);
+  checkNumberField(board, 'rerolls', { integer: true, fallback: 0 }, path, report);
+
+  if ('quests' in board) {
+    if (Array.isArray(board.quests)) {
+      board.quests = board.quests.flatMap((entry, index): ActiveQuest[] => {
+        const entryPath = `${path}.quests[${index}]`;
+        const data =
+          isSection(entry) && typeof entry.questId === 'string'
+            ? getQuestById(entry.questId)
+            : undefined;
+
+        if (!isSection(entry) || !data || data.period !== period) {
+          report(entryPath, 'Not a known quest for this board; removed');
+          return [];
+        }
+
+        return [
+          {
+            questId: data.id,
+            progress: checkNumber(
+              entry.progress,
+              { max: data.objective.target, fallback: 0 },
+              `${entryPath}.progress`,
+              report
+            ),
+            claimed: entry.claimed === true,
+          },
+        ];
+      });
+    } else {
+      report(`${path}.quests`, 'Not a list; reset to empty');
+      board.quests = [];
+    }
+  }
+
+  return { ...createQuestBoard(), ...board };
+}
+
+function validateQuests(section: SaveSection, now: number, report: Report): SaveSection {
+  const path = 'stores.quests';
+  const quests = pickKnownFields(section, QUEST_FIELDS, path, report);
+
+  if ('boards' in quests) {
+    const boards = isSection(quests.boards) ? quests.boards : {};
+    if (!isSection(quests.boards)) {
+      report(`${path}.boards`, 'Not an object; boards reset');
+    }
+
+    quests.boards = Object.fromEntries(
+      QUEST_PERIODS.map((period) => [
+        period,
+        checkQuestBoard(boards[period], period, now, `${path}.boards.${period}`, report),
+      ])
+    );
+  }
+
+  return quests;
+}
+
+/**
+ * Validate one store section
+ * Sections that are missing (null) are kept as null so the current store state is used
+ */
+function validateSection(
+  value: unknown,
+  name: string,
+  validate: (section: SaveSection) => SaveSection,
+  report: Report
+): SaveSection | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (!isSection(value)) {
+    report(`stores.${name}`, 'Not an object; ignored');
+    return null;
+  }
+
+  return validate(value);
+}
+
+/**
+ * Validate and sanitize a save in the current format
+ * Rejects saves without a game state or store list; everything else is repaired
+ * @param saveData - Save data returned by migrateSaveData
+ * @param now - Current time, used to clamp timestamps from the future (default: Date.now())
+ * @returns Sanitized save (or null if rejected) and the issues found
+ */
+export function validateSaveData(
+  saveData: SaveData,
+  now: number = Date.now()
+): SaveValidationResult {
+  const issues: SaveValidationIssue[] = [];
+  const report = createReporter(issues);
+
+  if (!isSection(saveData.gameState)) {
+    report('gameState', 'Missing or not an object');
+    return { data: null, issues };
+  }
+
+  if (!isSection(saveData.stores)) {
+    report('stores', 'Missing or not an object');
+    return { data: null, issues };
+  }
+
+  const { stores } = saveData;
+  const timestamp = checkNumber(
+    saveData.timestamp,
+    { max: now, fallback: now },
+    'timestamp',
+    report
+  );
+  const section = (
+    name: keyof SaveData['stores'],
+    validate: (value: SaveSection) => SaveSection
+  ) => validateSection(stores[name], name, validate, report);
+
+  return {
+    data: {
+      version: saveData.version,
+      timestamp,
+      gameState: validateGameState(saveData.gameState, now, report),
+      stores: {
+        rabbits: section('rabbits', (value) => validateRabbits(value, report)),
+        upgrades: section('upgrades', (value) => validateUpgrades(value, report)),
+        achievements: section('achievements', (value) => validateAchievements(value, now, report)),
+        crates: section('crates', (value) => validateCrates(value, report)),
+        prestige: section('prestige', (value) => validatePrestige(value, report)),
+        milestones: section('milestones', (value) => validateMilestones(value, report)),
+        automations: section('automations', (value) => validateAutomations(value, report)),
+        stats: section('stats', (value) => validateStats(value, now, report)),
+        dailyRewards: section('dailyRewards', (value) => validateDailyRewards(value, now, report)),
+        events: section('events', (value) => validateEvents(value, now, report)),
+        quests: section('quests', (value) => validateQuests(value, now, report)),
+      },
+    },
+    issues,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Tab Leadership
+ * Only one browser tab runs and saves the game. Tabs coordinate over a BroadcastChannel:
+ * a starting tab asks whether a leader exists and becomes leader if nobody answers.
+ * Other tabs stay followers until the player takes the game over from them.
+ */
+
+import { flushStorage, setStorageWritable } from '@/utils/storage';
+import { saveGame } from './saveService';
+
+/**
+ * Role of this tab
+ * - pending: still finding out whether another tab runs the game
+ * - leader: this tab runs and saves the game
+ * - follower: another tab runs the game; this tab must not simulate or save
+ */
+export type TabRole = 'pending' | 'leader' | 'follower';
+
+/**
+ * Messages exchanged between tabs
+ */
+type TabMessage =
+  /** A starting tab asks whether a leader exists */
+  | { type: 'ping'; tabId: string }
+  /** The leader announces itself */
+  | { type: 'leader'; tabId: string }
+  /** A follower asks the leader to hand the game over */
+  | { type: 'takeover'; tabId: string }
+  /** The leader saved and stepped down after a take-over request */
+  | { type: 'released'; tabId: string };
+
+const CHANNEL_NAME = 'rabbit-clicker-tabs';
+
+/**
+ * How long a starting tab waits for an existing leader to answer
+ */
+const LEADER_REPLY_TIMEOUT_MS = 300;
+
+/**
+ * How long a take-over waits for the leader to save and step down
+ * A leader that does not answer in time is assumed to be frozen or closed
+ */
+const RELEASE_TIMEOUT_MS = 2000;
+
+/**
+ * Earlier-started tabs sort first, which settles two tabs claiming leadership at once
+ */
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+let role: TabRole = 'pending';
+let channel: BroadcastChannel | null = null;
+let acquirePromise: Promise<TabRole> | null = null;
+const roleListeners = new Set<() => void>();
+
+function setRole(next: TabRole): void {
+  if (role === next) return;
+  role = next;
+  roleListeners.forEach((listener) => listener());
+}
+
+function post(type: TabMessage['type']): void {
+  channel?.postMessage({ type, tabId } satisfies TabMessage);
+}
+
+/**
+ * Save the game and hand it to another tab
+ * Storage writes stop once the save has been flushed, so nothing this tab does
+ * afterwards can overwrite the new leader's progress
+ */
+async function stepDown(): Promise<void> {
+  if (role !== 'leader') return;
+
+  saveGame();
+  await flushStorage();
+  setStorageWritable(false);
+  setRole('follower');
+  post('released');
+}
+
+function handleMessage(message: TabMessage): void {
+  if (message.tabId === tabId) return;
+
+  switch (message.type) {
+    case 'ping':
+      if (role === 'leader') post('leader');
+      break;
+
+    case 'leader':
+      if (role === 'pending') {
+        setRole('follower');
+      } else if (role === 'leader') {
+        // Two tabs claimed leadership at the same time; the earlier tab keeps it
+        if (message.tabId < tabId) {
+          void stepDown();
+        } else {
+          post('leader');
+        }
+      }
+      break;
+
+    case 'takeover':
+      void stepDown();
+      break;
+
+    case 'released':
+      // Awaited by requestTakeover() in the tab that asked
+      break;
+  }
+}
+
+/**
+ * Find out whether this tab should run the game
+ * Resolves as leader when no other tab answers (or BroadcastChannel is unsupported);
+ * safe to call more than once
+ * @returns Role of this tab
+ */
+export function acquireLeadership(): Promise<TabRole> {
+  if (acquirePromise) return acquirePromise;
+
+  if (typeof BroadcastChannel === 'undefined') {
+    setRole('leader');
+    acquirePromise = Promise.resolve(role);
+    return acquirePromise;
+  }
+
+  const openChannel = new BroadcastChannel(CHANNEL_NAME);
+  channel = openChannel;
+  openChannel.onmessage = (event: MessageEvent<TabMessage>) => handleMessage(event.data);
+
+  acquirePromise = new Promise((resolve) => {
+    post('ping');
+    setTimeout(() => {
+      if (role === 'pending') {
+        setRole('leader');
+        post('leader');
+      } else {
+        setStorageWritable(false);
+      }
+      resolve(role);
+    }, LEADER_REPLY_TIMEOUT_MS);
+  });
+  return acquirePromise;
+}
+
+/**
+ * Ask the leader tab to save and step down
+ * Resolves once the leader has released the game (or did not answer in time);
+ * the caller should then reload so this tab loads the latest save and becomes leader
+ */
+export function requestTakeover(): Promise<void> {
+  return new Promise((resolve) => {
+    if (!channel) {
+      resolve();
+      return;
+    }
+
+    const openChannel = channel;
+    const finish = () => {
+      clearTimeout(timeoutId);
+      openChannel.removeEventListener('message', handleReleased);
+      resolve();
+    };
+    const handleReleased = (event: MessageEvent<TabMessage>) => {
+      if (event.data.type === 'released') finish();
+    };
+    const timeoutId = setTimeout(finish, RELEASE_TIMEOUT_MS);
+
+    openChannel.addEventListener('message', handleReleased);
+    post('takeover');
+  });
+}
+
+/**
+ * Get the role of this tab
+ * @returns Current role
+ */
+export function getTabRole(): TabRole {
+  return role;
+}
+
+/**
+ * Listen for this tab's role changing
+ * @param listener - Called when getTabRole() changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToTabRole(listener: () => void): () => void {
+  roleListeners.add(listener);
+  return () => {
+    roleListeners.delete(listener);
+  };
+}
@@ -1,8 +1,11 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import { useGameStore } from './gameStore';
-import { ACHIEVEMENTS, getAchievementById } from '@/game/data/achievements';
+import { getAchievementById } from '@/game/data/achievements';
+import { isConditionMet } from '@/game/systems/achievementConditions';
 import type { Achievement } from '@/types/achievement';
+import { persistentStorage } from '@/utils/storage';
+import { gameBus } from '@/services/gameBus';
 
 /**
  * Achievement with runtime tracking data
@@ -31,8 +34,6 @@ interface AchievementState {
   lastCheckTime: number;
 
   // Actions
-  /** Check all achievements for completion based on current game state */
-  checkAchievements: () => void;
   /** Unlock a specific achievement and award rewards */
   unlockAchievement: (achievementId: string) => boolean;
   /** Get progress for a specific achievement */
@@ -117,7 +118,10 @@ export const useAchievementStore = create<AchievementState>()(
         });
 
         // Check if achievement should be unlocked
-        if (value >= achievement.progress.target) {
+        const isMet = achievement.condition
+          ? isConditionMet(achievement.condition, value)
+          : value >= achievement.progress.target;
+        if (isMet) {
           get().unlockAchievement(achievementId);
         }
       },
@@ -160,10 +164,7 @@ export const useAchievementStore = create<AchievementState>()(
 
         console.log(`Achievement unlocked: ${achievement.name}`);
 
-        // Show toast notification
-        if (typeof window !== 'undefined' && (window as any).showAchievementToast) {
-          (window as any).showAchievementToast(achievement);
-        }
+        gameBus.emit('AchievementUnlocked', { achievement });
 
         return true;
       },
@@ -200,76 +201,6 @@ export const useAchievementStore = create<AchievementState>()(
         return true;
       },
 
-      /**
-       * Check all achievements for completion based on current game state
-       * This should be called periodically or when relevant game state changes
-       */
-      checkAchievements: () => {
-        const state = get();
-        const gameStore = useGameStore.getState();
-
-        // Update lastCheckTime
-        set({ lastCheckTime: Date.now() });
-
-        // Check each achievement
-        ACHIEVEMENTS.forEach((achievement) => {
-          // Skip if already unlocked
-          if (state.isUnlocked(achievement.id)) {
-            return;
-          }
-
-          let currentValue = 0;
-
-          // Determine current progress based on achievement category
-          switch (achievement.category) {
-            case 'production': {
-              // Check if it's a CPS achievement or total carrots achievement
-              if (achievement.id.includes('production_')) {
-                // CPS-based achievement
-                currentValue = gameStore.carrotsPerSecond;
-              } else {
-                // Total carrots earned achievement
-                currentValue = gameStore.lifetimeCarrots;
-              }
-              break;
-            }
-
-            case 'clicking': {
-              currentValue = gameStore.totalClicks;
-              break;
-            }
-
-            case 'collection': {
-              // Collection achievements need to be updated from rabbitStore
-              // This will be handled when rabbits are collected
-              currentValue = state.getProgress(achievement.id);
-              break;
-            }
-
-            case 'crates': {
-              // Crate achievements need to be updated when crates are opened
-              // This will be handled in the crate opening logic
-              currentValue = state.getProgress(achievement.id);
-              break;
-            }
-
-            case 'special': {
-              // Special achievements have custom tracking
-              // This will be handled in specific game events
-              currentValue = state.getProgress(achievement.id);
-              break;
-            }
-
-            default:
-              // Unknown category
-              currentValue = state.getProgress(achievement.id);
-          }
-
-          // Always update progress to ensure display is current
-          state.updateProgress(achievement.id, currentValue);
-        });
-      },
-
       /**
        * Get achievement with current progress data
        * @param achievementId - Achievement identifier
@@ -301,6 +232,9 @@ export const useAchievementStore = create<AchievementState>()(
     }),
     {
       name: 'rabbit-clicker-achievement-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
       version: 1,
       // Custom serialization for Set and Map
       partialize: (state) => ({
@@ -0,0 +1,254 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { Automation } from '@/types/upgrade';
+import { AUTOMATIONS, getAutomationById } from '@/game/data/automations';
+import { runAutomation } from '@/game/mechanics/automation';
+import { useGameStore } from './gameStore';
+import { bigLt } from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
+
+/**
+ * Player settings for a purchased automation
+ */
+export interface AutomationSettings {
+  /** Whether the automation runs */
+  isEnabled: boolean;
+  /** Never spend below this amount (carrots, or Golden Carrots for crate automations) */
+  reserve: number;
+}
+
+/**
+ * Maximum runs of a single automation per tick
+ * Prevents a long frame from triggering a burst of purchases
+ */
+const MAX_RUNS_PER_TICK = 5;
+
+/**
+ * Milliseconds accumulated toward each automation's next run
+ * Kept outside the store so ticking does not trigger a persist write every frame
+ */
+const automationTimers = new Map<string, number>();
+
+/**
+ * Automation Store State Interface
+ * Manages purchased automations, their toggles and budget limits
+ */
+interface AutomationState {
+  // Purchased automations (automationId → settings)
+  automations: Record<string, AutomationSettings>;
+
+  // Actions
+  purchaseAutomation: (automationId: string) => boolean;
+  isPurchased: (automationId: string) => boolean;
+  setAutomationEnabled: (automationId: string, enabled: boolean) => boolean;
+  toggleAutomation: (automationId: string) => boolean;
+  setReserve: (automationId: string, reserve: number) => boolean;
+  getAutomations: () => Automation[];
+  tick: (deltaTime: number) => void;
+}
+
+/**
+ * Initial automation store state values
+ * Used for store creation
+ */
+const getInitialAutomationState = () => ({
+  automations: {} as Record<string, AutomationSettings>,
+});
+
+/**
+ * Automation store using Zustand
+ * Automations are kept through prestige
+ */
+export const useAutomationStore = create<AutomationState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...getInitialAutomationState(),
+
+      /**
+       * Purchase an automation
+       * New automations start enabled with no budget reserve
+       * @param automationId - Automation identifier
+       * @returns true if purchase successful, false otherwise
+       */
+      purchaseAutomation: (automationId: string) => {
+        const state = get();
+        const automation = getAutomationById(automationId);
+
+        if (!automation) {
+          console.error(`Automation not found: ${automationId}`);
+          return false;
+        }
+
+        if (state.isPurchased(automationId)) {
+          console.warn(`Automation already purchased: ${automationId}`);
+          return false;
+        }
+
+        const gameState = useGameStore.getState();
+        const { carrots, goldenCarrots } = automation.cost;
+
+        if (
+          bigLt(gameState.carrots, carrots ?? 0) ||
+          (goldenCarrots ?? 0) > gameState.goldenCarrots
+        ) {
+          console.warn(`Cannot afford automation: ${automationId}`);
+          return false;
+        }
+
+        if (carrots && !gameState.spendCarrots(carrots)) {
+          console.error(`Failed to spend carrots for automation: ${automationId}`);
+          return false;
+        }
+
+        if (goldenCarrots && !gameState.spendGoldenCarrots(goldenCarrots)) {
+          console.error(`Failed to spend golden carrots for automation: ${automationId}`);
+          return false;
+        }
+
+        set({
+          automations: {
+            ...state.automations,
+            [automationId]: { isEnabled: true, reserve: 0 },
+          },
+        });
+
+        return true;
+      },
+
+      /**
+       * Check if an automation has been purchased
+       * @param automationId - Automation identifier
+       * @returns true if purchased, false otherwise
+       */
+      isPurchased: (automationId: string) => {
+        return automationId in get().automations;
+      },
+
+      /**
+       * Enable or disable a purchased automation
+       * @param automationId - Automation identifier
+       * @param enabled - Whether the automation should run
+       * @returns true if updated, false if not purchased
+       */
+      setAutomationEnabled: (automationId: string, enabled: boolean) => {
+        const settings = get().automations[automationId];
+
+        if (!settings) {
+          console.error(`Automation not purchased: ${automationId}`);
+          return false;
+        }
+
+        set((state) => ({
+          automations: {
+            ...state.automations,
+            [automationId]: { ...settings, isEnabled: enabled },
+          },
+        }));
+
+        // Restart the interval when toggled
+        automationTimers.delete(automationId);
+
+        return true;
+      },
+
+      /**
+       * Toggle a purchased automation on or off
+       * @param automationId - Automation identifier
+       * @returns true if toggled, false if not purchased
+       */
+      toggleAutomation: (automationId: string) => {
+        const settings = get().automations[automationId];
+        if (!settings) {
+          console.error(`Automation not purchased: ${automationId}`);
+          return false;
+        }
+        return get().setAutomationEnabled(automationId, !settings.isEnabled);
+      },
+
+      /**
+       * Set the budget reserve of a purchased automation
+       * The automation never spends below this amount
+       * @param automationId - Automation identifier
+       * @param reserve - Amount to keep (must be non-negative and finite)
+       * @returns true if updated, false if invalid or not purchased
+       */
+      setReserve: (automationId: string, reserve: number) => {
+        const settings = get().automations[automationId];
+
+        if (!settings) {
+          console.error(`Automation not purchased: ${automationId}`);
+          return false;
+        }
+
+        if (!Number.isFinite(reserve) || reserve < 0) {
+          console.error('Invalid automation reserve:', reserve);
+          return false;
+        }
+
+        set((state) => ({
+          automations: {
+            ...state.automations,
+            [automationId]: { ...settings, reserve },
+          },
+        }));
+
+        return true;
+      },
+
+      /**
+       * Get all automations with purchase and enabled state applied
+       * @returns Array of automations
+       */
+      getAutomations: () => {
+        const { automations } = get();
+        return AUTOMATIONS.map((automation) => ({
+          ...automation,
+          isPurchased: automation.id in automations,
+          isEnabled: automations[automation.id]?.isEnabled ?? false,
+        }));
+      },
+
+      /**
+       * Advance automation timers and run every automation whose interval has elapsed
+       * Called from the game loop
+       * @param deltaTime - Time elapsed since last tick in seconds
+       */
+      tick: (deltaTime: number) => {
+        if (!Number.isFinite(deltaTime) || deltaTime < 0) {
+          console.error('Invalid deltaTime for automation tick:', deltaTime);
+          return;
+        }
+
+        const { automations } = get();
+
+        Object.entries(automations).forEach(([automationId, settings]) => {
+          const automation = getAutomationById(automationId);
+          if (!automation || !settings.isEnabled) {
+            return;
+          }
+
+          const interval = automation.effect.interval;
+          let elapsed = (automationTimers.get(automationId) ?? 0) + deltaTime * 1000;
+          let runs = 0;
+
+          while (elapsed >= interval && runs < MAX_RUNS_PER_TICK) {
+            runAutomation(automation, settings.reserve);
+            elapsed -= interval;
+            runs++;
+          }
+
+          // Drop any backlog beyond the per-tick limit
+          automationTimers.set(automationId, elapsed >= interval ? 0 : elapsed);
+        });
+      },
+    }),
+    {
+      name: 'rabbit-clicker-automation-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 1,
+    }
+  )
+);
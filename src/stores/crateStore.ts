@@ -1,17 +1,41 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import type { CrateType } from '@/types/crate';
 import type { Rabbit, Rarity } from '@/types/rabbit';
 import {
-  rollRarity,
-  selectRabbit,
+  rollCrate,
+  advancePityCounters,
+  replayCrateHistory,
   isDuplicate,
   calculateDuplicateCompensation,
   createRabbitInstance,
+  isRarityAtLeast,
   PITY_THRESHOLDS,
+  MULTI_OPEN_COUNT,
+  MULTI_OPEN_GUARANTEED_RARITY,
   type PityCounters,
+  type CrateHistoryEntry,
+  type CrateHistoryStart,
+  type CrateReplayResult,
 } from '@/game/systems/gacha';
+import { createSeed, createSeededRandom, type RngState } from '@/game/systems/random';
+import { getCrateByType } from '@/game/data/crates';
+import { useGameStore } from './gameStore';
 import { useRabbitStore } from './rabbitStore';
+import { persistentStorage } from '@/utils/storage';
+import { gameBus } from '@/services/gameBus';
+
+/**
+ * Result of a single crate opening
+ */
+export interface CrateOpenResult {
+  /** Rabbit obtained */
+  rabbit: Rabbit;
+  /** Whether the rabbit was already owned */
+  isDuplicate: boolean;
+  /** XP awarded for a duplicate (0 if new) */
+  xpCompensation: number;
+}
 
 /**
  * Crate Store State Interface
@@ -31,13 +55,36 @@ interface CrateState {
   legendaryPityThreshold: number;
   mythicalPityThreshold: number;
 
+  // Seeded RNG (same seed + state + openings = same rabbits)
+  rngSeed: string;
+  rngState: RngState | null;
+
+  // Crate History (for replaying openings when reproducing bugs)
+  crateHistory: CrateHistoryEntry[];
+  crateHistoryStart: CrateHistoryStart | null;
+
   // Actions
   openCrate: (crateType: CrateType) => Promise<Rabbit>;
+  openCrates: (crateType: CrateType, count: number) => Promise<CrateOpenResult[]>;
+  purchaseCrates: (crateType: CrateType, count: number) => Promise<CrateOpenResult[]>;
   updatePity: (rarity: Rarity) => void;
   addToRecentDrops: (rabbit: Rabbit) => void;
   resetPityCounters: () => void;
+  setRngSeed: (seed: string) => boolean;
+  replayCrateHistory: () => CrateReplayResult | null;
 }
 
+/**
+ * Maximum number of openings kept in crate history
+ * When full, the history restarts from the next opening
+ */
+const MAX_CRATE_HISTORY = 500;
+
+/**
+ * Maximum crates opened in a single openCrates call
+ */
+const MAX_CRATES_PER_OPEN = 100;
+
 /**
  * Initial crate store state values
  * Used for store creation and state reset
@@ -50,6 +97,10 @@ const getInitialCrateState = () => ({
   epicPityThreshold: PITY_THRESHOLDS.epic,
   legendaryPityThreshold: PITY_THRESHOLDS.legendary,
   mythicalPityThreshold: PITY_THRESHOLDS.mythical,
+  rngSeed: createSeed(),
+  rngState: null as RngState | null,
+  crateHistory: [] as CrateHistoryEntry[],
+  crateHistoryStart: null as CrateHistoryStart | null,
 });
 
 /**
@@ -68,51 +119,168 @@ export const useCrateStore = create<CrateState>()(
        * @returns Promise resolving to the rabbit obtained
        */
       openCrate: async (crateType: CrateType): Promise<Rabbit> => {
-        const state = get();
+        const [result] = await get().openCrates(crateType, 1);
+        if (!result) {
+          throw new Error(`Failed to open crate: ${crateType}`);
+        }
+        return result.rabbit;
+      },
+
+      /**
+       * Open several crates of the same type in one batch
+       * Does not charge currency (see purchaseCrates); callers pay for the whole batch once.
+       * Pity carries across the batch, and every full block of MULTI_OPEN_COUNT crates
+       * contains at least one rabbit of MULTI_OPEN_GUARANTEED_RARITY or better.
+       * @param crateType - Type of crate to open
+       * @param count - Number of crates (1 to MAX_CRATES_PER_OPEN)
+       * @returns Promise resolving to the results in opening order (empty if count is invalid)
+       */
+      openCrates: async (crateType: CrateType, count: number): Promise<CrateOpenResult[]> => {
+        if (!Number.isInteger(count) || count < 1 || count > MAX_CRATES_PER_OPEN) {
+          console.error('Invalid crate count:', count);
+          return [];
+        }
 
-        // Get owned rabbits from rabbit store
-        const ownedRabbits = useRabbitStore.getState().ownedRabbits;
+        const state = get();
 
         // Build pity counters object
-        const pityCounters: PityCounters = {
+        let pityCounters: PityCounters = {
           cratesSinceEpic: state.cratesSinceEpic,
           cratesSinceLegendary: state.cratesSinceLegendary,
           cratesSinceMythical: state.cratesSinceMythical,
         };
 
-        // Roll for rarity using gacha system (includes pity check)
-        const rarity = rollRarity(crateType, pityCounters);
+        // Resume the seeded PRNG from its persisted position
+        const random = createSeededRandom(state.rngSeed, state.rngState);
+
+        // Capture the starting point when a new history begins
+        const restartHistory = state.crateHistory.length + count > MAX_CRATE_HISTORY;
+        const historyStart: CrateHistoryStart =
+          !restartHistory && state.crateHistoryStart
+            ? state.crateHistoryStart
+            : {
+                rngState: state.rngState,
+                pityCounters,
+                ownedRabbitIds: Array.from(useRabbitStore.getState().ownedRabbits.keys()),
+              };
+
+        // Drop rate abilities in the active team improve rare-and-above odds
+        const { dropRateMultiplier } = useRabbitStore.getState().getAbilityEffects();
+
+        const results: CrateOpenResult[] = [];
+        const entries: CrateHistoryEntry[] = [];
+        let blockHasGuaranteedRarity = false;
+
+        for (let i = 0; i < count; i++) {
+          if (i % MULTI_OPEN_COUNT === 0) {
+            blockHasGuaranteedRarity = false;
+          }
+
+          // Raise the last crate of a full block if the block has no rare-or-better yet
+          const isLastInFullBlock =
+            count >= MULTI_OPEN_COUNT && i % MULTI_OPEN_COUNT === MULTI_OPEN_COUNT - 1;
+          const minimumRarity =
+            isLastInFullBlock && !blockHasGuaranteedRarity ? MULTI_OPEN_GUARANTEED_RARITY : undefined;
+
+          // Owned rabbits change as the batch adds new ones
+          const ownedRabbits = useRabbitStore.getState().ownedRabbits;
+
+          // Roll for rarity (includes pity check) and select rabbit from pool (favors unowned)
+          const { rarity, rabbitData } = rollCrate(
+            crateType,
+            pityCounters,
+            ownedRabbits,
+            random.next,
+            dropRateMultiplier,
+            minimumRarity
+          );
+
+          if (isRarityAtLeast(rarity, MULTI_OPEN_GUARANTEED_RARITY)) {
+            blockHasGuaranteedRarity = true;
+          }
+
+          // Check if this is a duplicate
+          const isRabbitDuplicate = isDuplicate(rabbitData.id, ownedRabbits);
+
+          // Create rabbit instance
+          const rabbit = createRabbitInstance(rabbitData, isRabbitDuplicate);
+
+          // If duplicate, award XP compensation
+          let xpCompensation = 0;
+          if (isRabbitDuplicate) {
+            xpCompensation = calculateDuplicateCompensation(rabbit.rarity);
+            useRabbitStore.getState().addRabbitXP(xpCompensation);
+            console.log(`Duplicate ${rabbit.name}! Awarded ${xpCompensation} XP`);
+          } else {
+            // Add new rabbit to collection
+            useRabbitStore.getState().addRabbit(rabbit);
+          }
 
-        // Select rabbit from pool (favors unowned)
-        const rabbitData = selectRabbit(rarity, ownedRabbits);
+          // Update pity counters
+          pityCounters = advancePityCounters(pityCounters, rarity);
 
-        if (!rabbitData) {
-          throw new Error(`No rabbits available for rarity: ${rarity}`);
+          entries.push({
+            crateType,
+            rarity,
+            rabbitId: rabbitData.id,
+            ...(dropRateMultiplier !== 1 && { dropRateMultiplier }),
+            ...(minimumRarity && { minimumRarity }),
+          });
+          results.push({ rabbit, isDuplicate: isRabbitDuplicate, xpCompensation });
         }
 
-        // Check if this is a duplicate
-        const isRabbitDuplicate = isDuplicate(rabbitData.id, ownedRabbits);
+        // Newest drops first
+        const drops = results.map((result) => result.rabbit).reverse();
 
-        // Create rabbit instance
-        const rabbit = createRabbitInstance(rabbitData, isRabbitDuplicate);
+        // Persist pity, PRNG position, the recorded openings and recent drops
+        set({
+          ...pityCounters,
+          rngState: random.getState(),
+          crateHistory: restartHistory ? entries : [...state.crateHistory, ...entries],
+          crateHistoryStart: historyStart,
+          recentDrops: [...drops, ...state.recentDrops].slice(0, 10),
+        });
+        results.forEach((result) => gameBus.emit('RabbitObtained', result));
+        gameBus.emit('CrateOpened', { crateType, count });
+
+        return results;
+      },
 
-        // If duplicate, award XP compensation
-        if (isRabbitDuplicate) {
-          const xpCompensation = calculateDuplicateCompensation(rarity);
-          useRabbitStore.getState().addRabbitXP(xpCompensation);
-          console.log(`Duplicate ${rabbit.name}! Awarded ${xpCompensation} XP`);
-        } else {
-          // Add new rabbit to collection
-          useRabbitStore.getState().addRabbit(rabbit);
+      /**
+       * Buy several crates of the same type and open them
+       * The whole batch is charged right before it is rolled, so it is never paid for
+       * without being opened.
+       * @param crateType - Type of crate to buy
+       * @param count - Number of crates (1 to MAX_CRATES_PER_OPEN)
+       * @returns Promise resolving to the results in opening order
+       *   (empty if the count is invalid or the batch is not affordable)
+       */
+      purchaseCrates: async (crateType: CrateType, count: number): Promise<CrateOpenResult[]> => {
+        const crate = getCrateByType(crateType);
+        if (!crate) {
+          console.error(`Crate type ${crateType} not found`);
+          return [];
         }
 
-        // Update pity counters
-        get().updatePity(rarity);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_CRATES_PER_OPEN) {
+          console.error('Invalid crate count:', count);
+          return [];
+        }
 
-        // Add to recent drops
-        get().addToRecentDrops(rabbit);
+        const gameStore = useGameStore.getState();
+        let didSpend = false;
+        if (crate.cost.goldenCarrots !== undefined) {
+          didSpend = gameStore.spendGoldenCarrots(crate.cost.goldenCarrots * count);
+        } else if (crate.cost.carrots !== undefined) {
+          didSpend = gameStore.spendCarrots(crate.cost.carrots * count);
+        }
 
-        return rabbit;
+        if (!didSpend) {
+          console.warn(`Cannot afford ${count} ${crate.name}s`);
+          return [];
+        }
+
+        return get().openCrates(crateType, count);
       },
 
       /**
@@ -120,28 +288,16 @@ export const useCrateStore = create<CrateState>()(
        * @param rarity - Rarity of rabbit obtained
        */
       updatePity: (rarity: Rarity) => {
-        set((state) => {
-          const updates: Partial<CrateState> = {};
-
-          // Increment all pity counters
-          updates.cratesSinceEpic = state.cratesSinceEpic + 1;
-          updates.cratesSinceLegendary = state.cratesSinceLegendary + 1;
-          updates.cratesSinceMythical = state.cratesSinceMythical + 1;
-
-          // Reset counters for rarities at or above what was obtained
-          if (rarity === 'mythical') {
-            updates.cratesSinceMythical = 0;
-            updates.cratesSinceLegendary = 0;
-            updates.cratesSinceEpic = 0;
-          } else if (rarity === 'legendary') {
-            updates.cratesSinceLegendary = 0;
-            updates.cratesSinceEpic = 0;
-          } else if (rarity === 'epic') {
-            updates.cratesSinceEpic = 0;
-          }
-
-          return updates as Partial<CrateState>;
-        });
+        set((state) =>
+          advancePityCounters(
+            {
+              cratesSinceEpic: state.cratesSinceEpic,
+              cratesSinceLegendary: state.cratesSinceLegendary,
+              cratesSinceMythical: state.cratesSinceMythical,
+            },
+            rarity
+          )
+        );
       },
 
       /**
@@ -165,9 +321,57 @@ export const useCrateStore = create<CrateState>()(
           cratesSinceMythical: 0,
         });
       },
+
+      /**
+       * Set the PRNG seed (for reproducing bug reports)
+       * Restarts the seed's sequence and clears the crate history
+       * @param seed - Seed string
+       * @returns true if seed was set, false if invalid
+       */
+      setRngSeed: (seed: string) => {
+        if (!seed || typeof seed !== 'string') {
+          console.error('Invalid RNG seed');
+          return false;
+        }
+
+        set({
+          rngSeed: seed,
+          rngState: null,
+          crateHistory: [],
+          crateHistoryStart: null,
+        });
+        return true;
+      },
+
+      /**
+       * Replay the recorded crate history with the current seed (debug helper)
+       * Logs the first opening that differs from what was recorded
+       * @returns Replay result, or null if there is no history
+       */
+      replayCrateHistory: () => {
+        const state = get();
+
+        if (!state.crateHistoryStart || state.crateHistory.length === 0) {
+          return null;
+        }
+
+        const result = replayCrateHistory(state.rngSeed, state.crateHistoryStart, state.crateHistory);
+
+        if (result.firstMismatch !== null) {
+          console.warn(
+            `Crate replay diverged at opening ${result.firstMismatch + 1} of ${state.crateHistory.length}`,
+            { recorded: state.crateHistory[result.firstMismatch], replayed: result.entries[result.firstMismatch] }
+          );
+        }
+
+        return result;
+      },
     }),
     {
       name: 'rabbit-clicker-crate-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
       version: 1,
     }
   )
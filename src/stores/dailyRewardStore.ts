@@ -0,0 +1,134 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { DailyReward } from '@/types/reward';
+import { getDailyRewardForDay } from '@/game/data/dailyRewards';
+import {
+  calculateDailyRewardCarrots,
+  getDailyRewardStatus,
+  type DailyRewardStatus,
+} from '@/game/systems/dailyRewards';
+import { useGameStore } from './gameStore';
+import { useCrateStore, type CrateOpenResult } from './crateStore';
+import type { BigNumber } from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
+
+/**
+ * What a daily reward claim granted
+ */
+export interface DailyRewardClaim {
+  /** Streak day that was claimed */
+  streakDay: number;
+  reward: DailyReward;
+  /** Carrots granted (scaled by production at claim time) */
+  carrots: BigNumber;
+  goldenCarrots: number;
+  /** Free crate result (null if the day has no crate) */
+  crateResult: CrateOpenResult | null;
+}
+
+/**
+ * Daily Reward Store State Interface
+ * Tracks the login streak and when the last reward was claimed
+ */
+interface DailyRewardState {
+  /** Time of the last claim (null if never claimed) */
+  lastClaimTime: number | null;
+  /** Streak day of the last claim (0 if never claimed) */
+  streak: number;
+  longestStreak: number;
+  totalClaims: number;
+
+  // Actions
+  getStatus: () => DailyRewardStatus;
+  claimReward: () => Promise<DailyRewardClaim | null>;
+}
+
+/**
+ * Initial daily reward store state values
+ * Used for store creation
+ */
+const getInitialDailyRewardState = () => ({
+  lastClaimTime: null as number | null,
+  streak: 0,
+  longestStreak: 0,
+  totalClaims: 0,
+});
+
+/**
+ * Daily reward store using Zustand
+ * The streak is kept through prestige
+ */
+export const useDailyRewardStore = create<DailyRewardState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...getInitialDailyRewardState(),
+
+      /**
+       * Get whether a reward is waiting and which streak day it would be
+       * @returns Daily reward status for the current time
+       */
+      getStatus: () => {
+        const { lastClaimTime, streak } = get();
+        return getDailyRewardStatus(lastClaimTime, streak, Date.now());
+      },
+
+      /**
+       * Claim today's reward
+       * Grants carrots scaled by current production, Golden Carrots and a free crate
+       * @returns Promise resolving to what was granted, or null if no reward is waiting
+       */
+      claimReward: async () => {
+        const now = Date.now();
+        const state = get();
+        const status = getDailyRewardStatus(state.lastClaimTime, state.streak, now);
+
+        if (status.availability !== 'available') {
+          console.warn(`Daily reward not available: ${status.availability}`);
+          return null;
+        }
+
+        const streakDay = status.nextStreakDay;
+        const reward = getDailyRewardForDay(streakDay);
+
+        // Record the claim first so a second claim while the crate opens is refused
+        set({
+          lastClaimTime: now,
+          streak: streakDay,
+          longestStreak: Math.max(state.longestStreak, streakDay),
+          totalClaims: state.totalClaims + 1,
+        });
+
+        const gameState = useGameStore.getState();
+        const carrots = calculateDailyRewardCarrots(reward, gameState.carrotsPerSecond);
+        const goldenCarrots = reward.goldenCarrots ?? 0;
+
+        if (carrots.mantissa > 0) {
+          gameState.addCarrots(carrots);
+        }
+        if (goldenCarrots > 0) {
+          gameState.addGoldenCarrots(goldenCarrots);
+        }
+
+        const [crateResult] = reward.crate
+          ? await useCrateStore.getState().openCrates(reward.crate, 1)
+          : [];
+
+        return {
+          streakDay,
+          reward,
+          carrots,
+          goldenCarrots,
+          crateResult: crateResult ?? null,
+        };
+      },
+    }),
+    {
+      name: 'rabbit-clicker-daily-reward-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 1,
+    }
+  )
+);
@@ -0,0 +1,387 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { EventAchievement, GameEvent } from '@/types/event';
+import { EVENTS, getEventById } from '@/game/data/events';
+import {
+  calculateEventConversion,
+  countEventRabbits,
+  getActiveEvent,
+  getEventAchievementProgress,
+  getEventStatus,
+  rollEventCrate,
+  toAchievement,
+} from '@/game/systems/events';
+import {
+  advancePityCounters,
+  calculateDuplicateCompensation,
+  createRabbitInstance,
+  isDuplicate,
+  type PityCounters,
+} from '@/game/systems/gacha';
+import { createSeed, createSeededRandom, type RngState } from '@/game/systems/random';
+import { useGameStore } from './gameStore';
+import { useRabbitStore } from './rabbitStore';
+import type { CrateOpenResult } from './crateStore';
+import { persistentStorage } from '@/utils/storage';
+import { gameBus } from '@/services/gameBus';
+
+/**
+ * Seconds of play between checks for a started or ended event
+ * Play time is also written to the store at this interval instead of every step
+ */
+const EVENT_CHECK_INTERVAL = 1;
+
+/**
+ * Leftover currency converted to Golden Carrots when an event ended
+ */
+export interface EventConversion {
+  /** Event currency that was left over */
+  currency: number;
+  /** Golden Carrots granted for it */
+  goldenCarrots: number;
+  /** Time the conversion happened */
+  convertedAt: number;
+}
+
+/**
+ * Player progress in one event
+ */
+export interface EventProgress {
+  /** Event currency available to spend */
+  currency: number;
+  /** Event currency earned in total */
+  currencyEarned: number;
+  /** Clicks made towards the next unit of currency */
+  clickProgress: number;
+  /** Seconds played towards the next unit of currency */
+  timeProgress: number;
+  /** Event crates opened */
+  cratesOpened: number;
+  /** Event crate pity (tracked apart from regular crates) */
+  pity: PityCounters;
+  /** IDs of completed event achievements */
+  completedAchievements: string[];
+  /** Leftover currency conversion (null until the event ends) */
+  conversion: EventConversion | null;
+}
+
+/**
+ * Event Store State Interface
+ * Tracks currency, crates and achievements for limited-time events
+ */
+interface EventState {
+  /** Progress by event ID (only events the player has taken part in) */
+  events: Record<string, EventProgress>;
+
+  // Seeded RNG for event crates
+  rngSeed: string;
+  rngState: RngState | null;
+
+  // Actions
+  getProgress: (eventId: string) => EventProgress;
+  recordClick: () => void;
+  tick: (deltaTime: number) => void;
+  openEventCrate: (eventId: string) => CrateOpenResult | null;
+  checkEventAchievements: (eventId: string) => EventAchievement[];
+  convertEndedEvents: () => EventConversion[];
+}
+
+/**
+ * Progress for an event the player has not taken part in yet
+ * @returns Empty event progress
+ */
+export function createEventProgress(): EventProgress {
+  return {
+    currency: 0,
+    currencyEarned: 0,
+    clickProgress: 0,
+    timeProgress: 0,
+    cratesOpened: 0,
+    pity: { cratesSinceEpic: 0, cratesSinceLegendary: 0, cratesSinceMythical: 0 },
+    completedAchievements: [],
+    conversion: null,
+  };
+}
+
+/**
+ * Initial event store state values
+ * Used for store creation
+ */
+const getInitialEventState = () => ({
+  events: {} as Record<string, EventProgress>,
+  rngSeed: createSeed(),
+  rngState: null as RngState | null,
+});
+
+// Play time collected between checks (kept out of the store so steps do not persist)
+let pendingPlayTime = 0;
+
+/**
+ * Add earned units of currency to event progress
+ * @param progress - Event progress
+ * @param units - Units earned
+ * @returns Updated progress
+ */
+function addCurrency(progress: EventProgress, units: number): EventProgress {
+  return {
+    ...progress,
+    currency: progress.currency + units,
+    currencyEarned: progress.currencyEarned + units,
+  };
+}
+
+/**
+ * Event store using Zustand
+ * Event progress is kept through prestige
+ */
+export const useEventStore = create<EventState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...getInitialEventState(),
+
+      /**
+       * Get the player's progress in an event
+       * @param eventId - Event identifier
+       * @returns Stored progress, or empty progress if the player has not taken part
+       */
+      getProgress: (eventId: string) => {
+        return get().events[eventId] ?? createEventProgress();
+      },
+
+      /**
+       * Count a click towards the running event's currency
+       * Does nothing while no event is running
+       */
+      recordClick: () => {
+        const event = getActiveEvent();
+        if (!event) {
+          return;
+        }
+
+        const progress = get().getProgress(event.id);
+        const clicks = progress.clickProgress + 1;
+        const units = Math.floor(clicks / event.currency.clicksPerUnit);
+        const updated = addCurrency(
+          { ...progress, clickProgress: clicks % event.currency.clicksPerUnit },
+          units
+        );
+
+        set((state) => ({ events: { ...state.events, [event.id]: updated } }));
+        if (units > 0) {
+          get().checkEventAchievements(event.id);
+        }
+      },
+
+      /**
+       * Advance play time for the running event
+       * Called by the simulation's events hook once per fixed step. Once per
+       * EVENT_CHECK_INTERVAL the play time is turned into currency and events
+       * that have ended get their leftover currency converted.
+       * @param deltaTime - Step length in seconds
+       */
+      tick: (deltaTime: number) => {
+        if (!Number.isFinite(deltaTime) || deltaTime < 0) {
+          console.error('Invalid deltaTime for event tick:', deltaTime);
+          return;
+        }
+
+        pendingPlayTime += deltaTime;
+        if (pendingPlayTime < EVENT_CHECK_INTERVAL) {
+          return;
+        }
+
+        const playTime = pendingPlayTime;
+        pendingPlayTime = 0;
+
+        get().convertEndedEvents();
+
+        const event = getActiveEvent();
+        if (!event) {
+          return;
+        }
+
+        const progress = get().getProgress(event.id);
+        const seconds = progress.timeProgress + playTime;
+        const units = Math.floor(seconds / event.currency.secondsPerUnit);
+        const updated = addCurrency(
+          { ...progress, timeProgress: seconds - units * event.currency.secondsPerUnit },
+          units
+        );
+
+        set((state) => ({ events: { ...state.events, [event.id]: updated } }));
+        if (units > 0) {
+          get().checkEventAchievements(event.id);
+        }
+      },
+
+      /**
+       * Open a crate of a running event, paying with event currency
+       * Uses the event's drop rates, rabbits and pity thresholds
+       * @param eventId - Event identifier
+       * @returns Opening result, or null if the event is not running or currency is short
+       */
+      openEventCrate: (eventId: string) => {
+        const event = getEventById(eventId);
+        if (!event) {
+          console.error('Unknown event:', eventId);
+          return null;
+        }
+        if (getEventStatus(event) !== 'active') {
+          console.warn(`Event ${eventId} is not running`);
+          return null;
+        }
+
+        const state = get();
+        const progress = state.getProgress(eventId);
+        const cost = event.crate.cost.eventCurrency ?? 0;
+        if (progress.currency < cost) {
+          console.warn(`Not enough ${event.currency.name} to open ${event.crate.name}`);
+          return null;
+        }
+
+        // Resume the seeded PRNG from its persisted position
+        const random = createSeededRandom(state.rngSeed, state.rngState);
+        const rabbitStore = useRabbitStore.getState();
+        const { dropRateMultiplier } = rabbitStore.getAbilityEffects();
+
+        const { rarity, rabbitData } = rollEventCrate(
+          event,
+          progress.pity,
+          rabbitStore.ownedRabbits,
+          random.next,
+          dropRateMultiplier
+        );
+
+        const isRabbitDuplicate = isDuplicate(rabbitData.id, rabbitStore.ownedRabbits);
+        const rabbit = createRabbitInstance(rabbitData, isRabbitDuplicate);
+
+        // If duplicate, award XP compensation
+        let xpCompensation = 0;
+        if (isRabbitDuplicate) {
+          xpCompensation = calculateDuplicateCompensation(rabbit.rarity);
+          rabbitStore.addRabbitXP(xpCompensation);
+        } else {
+          rabbitStore.addRabbit(rabbit);
+        }
+
+        set((current) => ({
+          events: {
+            ...current.events,
+            [eventId]: {
+              ...progress,
+              currency: progress.currency - cost,
+              cratesOpened: progress.cratesOpened + 1,
+              pity: advancePityCounters(progress.pity, rarity),
+            },
+          },
+          rngState: random.getState(),
+        }));
+        const result = { rabbit, isDuplicate: isRabbitDuplicate, xpCompensation };
+        gameBus.emit('RabbitObtained', result);
+        gameBus.emit('CrateOpened', { crateType: event.crate.type, count: 1 });
+        get().checkEventAchievements(eventId);
+
+        return result;
+      },
+
+      /**
+       * Complete any event achievements that are now met
+       * Awards their Golden Carrots and shows the achievement toast.
+       * Only possible while the event is running.
+       * @param eventId - Event identifier
+       * @returns Achievements completed by this check
+       */
+      checkEventAchievements: (eventId: string) => {
+        const event = getEventById(eventId);
+        if (!event || getEventStatus(event) !== 'active') {
+          return [];
+        }
+
+        const progress = get().getProgress(eventId);
+        const counts = {
+          currencyEarned: progress.currencyEarned,
+          cratesOpened: progress.cratesOpened,
+          rabbitsCollected: countEventRabbits(event, useRabbitStore.getState().ownedRabbits),
+        };
+
+        const completed = event.achievements.filter(
+          (achievement) =>
+            !progress.completedAchievements.includes(achievement.id) &&
+            getEventAchievementProgress(achievement, counts) >= achievement.requirement.target
+        );
+        if (completed.length === 0) {
+          return [];
+        }
+
+        set((state) => ({
+          events: {
+            ...state.events,
+            [eventId]: {
+              ...progress,
+              completedAchievements: [
+                ...progress.completedAchievements,
+                ...completed.map((achievement) => achievement.id),
+              ],
+            },
+          },
+        }));
+
+        const now = Date.now();
+        for (const achievement of completed) {
+          useGameStore.getState().addGoldenCarrots(achievement.goldenCarrots);
+          gameBus.emit('AchievementUnlocked', { achievement: toAchievement(achievement, now) });
+        }
+
+        return completed;
+      },
+
+      /**
+       * Convert leftover currency of ended events to Golden Carrots
+       * Each event is converted once; its progress keeps a record of the conversion
+       * @returns Conversions made by this call
+       */
+      convertEndedEvents: () => {
+        const now = Date.now();
+        const { events } = get();
+        const ended: [GameEvent, EventProgress][] = EVENTS.filter(
+          (event) =>
+            events[event.id] &&
+            events[event.id].conversion === null &&
+            getEventStatus(event, now) === 'ended'
+        ).map((event) => [event, events[event.id]]);
+
+        if (ended.length === 0) {
+          return [];
+        }
+
+        const updates: Record<string, EventProgress> = {};
+        const conversions = ended.map(([event, progress]) => {
+          const conversion: EventConversion = {
+            currency: progress.currency,
+            goldenCarrots: calculateEventConversion(event, progress.currency),
+            convertedAt: now,
+          };
+          updates[event.id] = { ...progress, currency: 0, conversion };
+          return conversion;
+        });
+
+        set((state) => ({ events: { ...state.events, ...updates } }));
+
+        const goldenCarrots = conversions.reduce((sum, c) => sum + c.goldenCarrots, 0);
+        if (goldenCarrots > 0) {
+          useGameStore.getState().addGoldenCarrots(goldenCarrots);
+        }
+
+        return conversions;
+      },
+    }),
+    {
+      name: 'rabbit-clicker-event-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 1,
+    }
+  )
+);
@@ -1,20 +1,68 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { checkAllAchievements } from '@/game/systems/achievements';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { calculateOfflineRates, type OfflineFactor } from '@/game/systems/offline';
+import { getUpgradeById } from '@/game/data/upgrades';
+import { calculateProductionBreakdown } from '@/game/mechanics/production';
+import { useRabbitStore } from './rabbitStore';
+import { useUpgradeStore } from './upgradeStore';
+import { usePrestigeStore } from './prestigeStore';
+import { formatNumberPrecise } from '@/utils/formatNumber';
+import {
+  BIG_ZERO,
+  bigAdd,
+  bigSubtract,
+  bigMultiply,
+  bigGte,
+  parseBigNumber,
+  toBigNumber,
+  type BigNumber,
+  type BigNumberSource,
+} from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
+import { gameBus } from '@/services/gameBus';
+
+/**
+ * Upgrade that raises offline efficiency (effect is the new efficiency)
+ */
+const OFFLINE_BOOST_UPGRADE_ID = 'offline_boost';
+
+/**
+ * Game store fields stored as big numbers
+ */
+const BIG_NUMBER_FIELDS = ['carrots', 'lifetimeCarrots', 'carrotsPerSecond', 'clickPower'] as const;
+
+/**
+ * Convert numeric carrot fields from older saves to big numbers
+ * Fields that are missing or invalid are left out so the store defaults apply
+ * @param state - Persisted game state
+ * @returns State with big number fields
+ */
+export function migrateGameBigNumbers(state: Record<string, unknown>): Record<string, unknown> {
+  const migrated = { ...state };
+  BIG_NUMBER_FIELDS.forEach((field) => {
+    const value = parseBigNumber(state[field]);
+    if (value) {
+      migrated[field] = value;
+    } else {
+      delete migrated[field];
+    }
+  });
+  return migrated;
+}
 
 /**
  * Game Store State Interface
  * Manages core game state including currency, production, and player stats
  */
 interface GameState {
-  // Currency
-  carrots: number;
+  // Currency (carrot totals are big numbers; they outgrow JS numbers late game)
+  carrots: BigNumber;
   goldenCarrots: number;
-  lifetimeCarrots: number;
+  lifetimeCarrots: BigNumber;
 
   // Production
-  carrotsPerSecond: number;
-  clickPower: number;
+  carrotsPerSecond: BigNumber;
+  clickPower: BigNumber;
 
   // Stats
   totalClicks: number;
@@ -23,11 +71,12 @@ interface GameState {
   gameSessionStartTime: number;
 
   // Actions
-  addCarrots: (amount: number) => void;
-  spendCarrots: (amount: number) => boolean;
+  addCarrots: (amount: BigNumberSource) => void;
+  spendCarrots: (amount: BigNumberSource) => boolean;
   addGoldenCarrots: (amount: number) => void;
   spendGoldenCarrots: (amount: number) => boolean;
   click: () => void;
+  autoClick: (clicks: number) => void;
   tick: (deltaTime: number) => void;
   calculateOfflineProgress: () => OfflineEarnings | null;
   resetSessionStartTime: () => void;
@@ -37,14 +86,22 @@ interface GameState {
  * Offline earnings result
  */
 export interface OfflineEarnings {
-  /** Time away in seconds */
+  /** Time away credited in seconds (capped) */
   timeAway: number;
-  /** Carrots earned at 50% efficiency */
-  carrotsEarned: number;
+  /** Actual time away in seconds */
+  uncappedTimeAway: number;
+  /** Offline time cap applied in seconds */
+  capSeconds: number;
+  /** Carrots earned at the offline efficiency */
+  carrotsEarned: BigNumber;
   /** What earnings would be at 100% efficiency */
-  potentialCarrots: number;
-  /** Production rate (carrots per second) */
-  carrotsPerSecond: number;
+  potentialCarrots: BigNumber;
+  /** Production rate used while away (abilities at their average uptime) */
+  carrotsPerSecond: BigNumber;
+  /** Offline efficiency applied (0.5 = 50%) */
+  efficiency: number;
+  /** Upgrades, abilities and prestige that produced the efficiency and cap */
+  factors: OfflineFactor[];
 }
 
 /**
@@ -52,11 +109,11 @@ export interface OfflineEarnings {
  * Used for store creation and state reset
  */
 const getInitialGameState = () => ({
-  carrots: 0,
+  carrots: BIG_ZERO,
   goldenCarrots: 0,
-  lifetimeCarrots: 0,
-  carrotsPerSecond: 0,
-  clickPower: 1,
+  lifetimeCarrots: BIG_ZERO,
+  carrotsPerSecond: BIG_ZERO,
+  clickPower: toBigNumber(1),
   totalClicks: 0,
   lastSaveTime: Date.now(),
   lastPlayTime: Date.now(),
@@ -78,15 +135,17 @@ export const useGameStore = create<GameState>()(
        * Add carrots to the player's balance
        * @param amount - Number of carrots to add (must be positive and finite)
        */
-      addCarrots: (amount: number) => {
-        if (!Number.isFinite(amount) || amount < 0) {
+      addCarrots: (amount: BigNumberSource) => {
+        const value = parseBigNumber(amount);
+        if (!value || value.mantissa < 0) {
           console.error('Invalid amount for addCarrots:', amount);
           return;
         }
         set((state) => ({
-          carrots: state.carrots + amount,
-          lifetimeCarrots: state.lifetimeCarrots + amount,
+          carrots: bigAdd(state.carrots, value),
+          lifetimeCarrots: bigAdd(state.lifetimeCarrots, value),
         }));
+        gameBus.emit('CarrotsEarned', { amount: value, source: 'reward' });
       },
 
       /**
@@ -94,14 +153,15 @@ export const useGameStore = create<GameState>()(
        * @param amount - Number of carrots to spend (must be positive and finite)
        * @returns true if successful, false if insufficient funds or invalid amount
        */
-      spendCarrots: (amount: number) => {
-        if (!Number.isFinite(amount) || amount < 0) {
+      spendCarrots: (amount: BigNumberSource) => {
+        const value = parseBigNumber(amount);
+        if (!value || value.mantissa < 0) {
           console.error('Invalid amount for spendCarrots:', amount);
           return false;
         }
         const state = get();
-        if (state.carrots >= amount) {
-          set({ carrots: state.carrots - amount });
+        if (bigGte(state.carrots, value)) {
+          set({ carrots: bigSubtract(state.carrots, value) });
           return true;
         }
         return false;
@@ -119,6 +179,7 @@ export const useGameStore = create<GameState>()(
         set((state) => ({
           goldenCarrots: state.goldenCarrots + amount,
         }));
+        gameBus.emit('GoldenCarrotsEarned', { amount });
       },
 
       /**
@@ -134,6 +195,7 @@ export const useGameStore = create<GameState>()(
         const state = get();
         if (state.goldenCarrots >= amount) {
           set({ goldenCarrots: state.goldenCarrots - amount });
+          gameBus.emit('GoldenCarrotsSpent', { amount });
           return true;
         }
         return false;
@@ -144,16 +206,37 @@ export const useGameStore = create<GameState>()(
        * Increments total clicks and adds carrots based on click power
        */
       click: () => {
+        const { clickPower } = get();
         set((state) => ({
           totalClicks: state.totalClicks + 1,
-          carrots: state.carrots + state.clickPower,
-          lifetimeCarrots: state.lifetimeCarrots + state.clickPower,
+          carrots: bigAdd(state.carrots, clickPower),
+          lifetimeCarrots: bigAdd(state.lifetimeCarrots, clickPower),
         }));
+        gameBus.emit('Clicked', { carrots: clickPower, source: 'manual' });
+      },
+
+      /**
+       * Handle automation clicks
+       * Adds carrots based on click power without counting as manual clicks,
+       * so click achievements, click quests and event currency ignore them
+       * @param clicks - Number of clicks (must be a positive integer)
+       */
+      autoClick: (clicks: number) => {
+        if (!Number.isInteger(clicks) || clicks <= 0) {
+          console.error('Invalid clicks for autoClick:', clicks);
+          return;
+        }
+        const carrots = bigMultiply(get().clickPower, clicks);
+        set((state) => ({
+          carrots: bigAdd(state.carrots, carrots),
+          lifetimeCarrots: bigAdd(state.lifetimeCarrots, carrots),
+        }));
+        gameBus.emit('Clicked', { carrots, source: 'auto' });
       },
 
       /**
        * Game tick for idle production
-       * Called every frame to update production and time-based mechanics
+       * Called by the simulation's production hook once per fixed step
        * @param deltaTime - Time elapsed since last tick in seconds (must be positive and finite)
        */
       tick: (deltaTime: number) => {
@@ -166,23 +249,23 @@ export const useGameStore = create<GameState>()(
 
         set((state) => {
           // Calculate idle production based on CPS
-          const idleProduction = state.carrotsPerSecond * cappedDeltaTime;
+          const idleProduction = bigMultiply(state.carrotsPerSecond, cappedDeltaTime);
 
           return {
-            carrots: state.carrots + idleProduction,
-            lifetimeCarrots: state.lifetimeCarrots + idleProduction,
+            carrots: bigAdd(state.carrots, idleProduction),
+            lifetimeCarrots: bigAdd(state.lifetimeCarrots, idleProduction),
             lastPlayTime: Date.now(),
           };
         });
-
-        // Check achievements after state update
-        checkAllAchievements();
       },
 
       /**
        * Calculate and apply offline progress
        * Called when the player returns to the game after being away
-       * Grants production based on time away (capped at 24 hours, 50% efficiency)
+       * Grants production based on time away
+       * Efficiency starts at 50% and is raised by the Offline Boost upgrade and
+       * offline_earnings rabbit abilities (up to 100%); the 24 hour cap grows with prestige.
+       * Timed rabbit abilities count by their average uptime, active ones not at all
        */
       calculateOfflineProgress: () => {
         const state = get();
@@ -201,35 +284,55 @@ export const useGameStore = create<GameState>()(
           return null;
         }
 
-        // Cap offline time at 24 hours (86400 seconds)
-        const cappedTimeAway = Math.min(timeAwaySec, 86400);
+        // Offline efficiency and cap from upgrades, rabbit abilities and prestige
+        const offlineBoost = getUpgradeById(OFFLINE_BOOST_UPGRADE_ID);
+        const { efficiency, capSeconds, factors } = calculateOfflineRates({
+          upgradeEfficiency:
+            offlineBoost && useUpgradeStore.getState().isPurchased(offlineBoost.id)
+              ? offlineBoost.effect
+              : null,
+          abilityEfficiencyBonus:
+            useRabbitStore.getState().getAverageAbilityEffects().offlineEfficiencyBonus,
+          prestigeCount: usePrestigeStore.getState().prestigeCount,
+        });
+
+        const cappedTimeAway = Math.min(timeAwaySec, capSeconds);
+
+        // Recalculate CPS from current purchases instead of the saved snapshot.
+        // Abilities count by their average uptime: the ones in effect right now (or just
+        // before leaving) say nothing about the time away
+        const carrotsPerSecond = calculateProductionBreakdown('average').total;
 
         // Calculate offline production at 100% (potential earnings)
-        const potentialCarrots = state.carrotsPerSecond * cappedTimeAway;
+        const potentialCarrots = bigMultiply(carrotsPerSecond, cappedTimeAway);
 
-        // Apply 50% efficiency for offline earnings
-        const offlineProduction = potentialCarrots * 0.5;
+        // Apply offline efficiency
+        const offlineProduction = bigMultiply(potentialCarrots, efficiency);
 
-        if (offlineProduction > 0) {
+        if (offlineProduction.mantissa > 0) {
           set({
-            carrots: state.carrots + offlineProduction,
-            lifetimeCarrots: state.lifetimeCarrots + offlineProduction,
+            carrots: bigAdd(state.carrots, offlineProduction),
+            lifetimeCarrots: bigAdd(state.lifetimeCarrots, offlineProduction),
+            carrotsPerSecond: calculateProductionBreakdown().total,
             lastPlayTime: now,
           });
 
           console.log(
-            `Offline progress: +${offlineProduction.toFixed(2)} carrots (50% of ${potentialCarrots.toFixed(2)}) from ${cappedTimeAway.toFixed(1)}s away`
+            `Offline progress: +${formatNumberPrecise(offlineProduction)} carrots (${(efficiency * 100).toFixed(0)}% of ${formatNumberPrecise(potentialCarrots)}) from ${cappedTimeAway.toFixed(1)}s away`
           );
 
-          // Check achievements after offline progress
-          checkAllAchievements();
+          gameBus.emit('CarrotsEarned', { amount: offlineProduction, source: 'offline' });
 
           // Return offline earnings data
           return {
             timeAway: cappedTimeAway,
+            uncappedTimeAway: timeAwaySec,
+            capSeconds,
             carrotsEarned: offlineProduction,
             potentialCarrots,
-            carrotsPerSecond: state.carrotsPerSecond,
+            carrotsPerSecond,
+            efficiency,
+            factors,
           };
         } else {
           // Update lastPlayTime even if no production
@@ -248,7 +351,18 @@ export const useGameStore = create<GameState>()(
     }),
     {
       name: 'rabbit-clicker-game-storage',
-      version: 1,
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 2,
+      // Version 2 stores carrot totals as big numbers
+      migrate: (persistedState: unknown, version: number) => {
+        const state = (persistedState ?? {}) as Record<string, unknown>;
+        if (version < 2) {
+          return migrateGameBigNumbers(state);
+        }
+        return state;
+      },
     }
   )
 );
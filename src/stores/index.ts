@@ -5,3 +5,9 @@ export { useCrateStore } from './crateStore';
 export { useAchievementStore } from './achievementStore';
 export { usePrestigeStore } from './prestigeStore';
 export { useMilestoneStore } from './milestoneStore';
+export { useAutomationStore } from './automationStore';
+export { useSettingsStore } from './settingsStore';
+export { useStatsStore } from './statsStore';
+export { useDailyRewardStore } from './dailyRewardStore';
+export { useEventStore } from './eventStore';
+export { useQuestStore } from './questStore';
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { bigGte, type BigNumberSource } from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
 
 /**
  * Milestone types
@@ -83,7 +85,7 @@ interface MilestoneState {
   activeCelebration: Milestone | null;
 
   /** Check and trigger milestone for carrots */
-  checkCarrotMilestone: (totalCarrots: number) => void;
+  checkCarrotMilestone: (totalCarrots: BigNumberSource) => void;
 
   /** Check and trigger milestone for prestige */
   checkPrestigeMilestone: (prestigeCount: number) => void;
@@ -111,14 +113,14 @@ export const useMilestoneStore = create<MilestoneState>()(
       completedMilestones: new Set<string>(),
       activeCelebration: null,
 
-      checkCarrotMilestone: (totalCarrots: number) => {
+      checkCarrotMilestone: (totalCarrots: BigNumberSource) => {
         const { completedMilestones, showCelebration, completeMilestone } = get();
 
         // Find the highest milestone that should be triggered
         const eligibleMilestone = MILESTONES.filter(
           (m) =>
             m.type === 'carrots' &&
-            totalCarrots >= m.value &&
+            bigGte(totalCarrots, m.value) &&
             !completedMilestones.has(m.id)
         ).sort((a, b) => b.value - a.value)[0];
 
@@ -164,6 +166,9 @@ export const useMilestoneStore = create<MilestoneState>()(
     }),
     {
       name: 'rabbit-clicker-milestones',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
       // Convert Set to Array for serialization
       partialize: (state) => ({
         completedMilestones: Array.from(state.completedMilestones),
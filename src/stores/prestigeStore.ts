@@ -1,5 +1,17 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  BIG_ZERO,
+  bigAdd,
+  bigDivide,
+  bigGte,
+  bigSqrt,
+  bigToNumber,
+  parseBigNumber,
+  type BigNumber,
+  type BigNumberSource,
+} from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
 
 /**
  * Prestige Store State Interface
@@ -13,19 +25,19 @@ interface PrestigeState {
   /** Total number of times player has prestiged */
   prestigeCount: number;
   /** Total carrots earned across all runs (lifetime) */
-  totalLifetimeCarrots: number;
+  totalLifetimeCarrots: BigNumber;
 
   // Actions
   /** Calculate how many Golden Seeds would be earned from current run */
-  calculateGoldenSeeds: (currentRunCarrots: number) => number;
+  calculateGoldenSeeds: (currentRunCarrots: BigNumberSource) => number;
   /** Perform prestige and award Golden Seeds */
-  performPrestige: (currentRunCarrots: number) => number;
+  performPrestige: (currentRunCarrots: BigNumberSource) => number;
   /** Get the total prestige bonus multiplier from Golden Seeds */
   getPrestigeBonus: () => number;
   /** Check if player can prestige (has 1 billion+ lifetime carrots in current run) */
-  canPrestige: (currentRunCarrots: number) => boolean;
+  canPrestige: (currentRunCarrots: BigNumberSource) => boolean;
   /** Add carrots to total lifetime counter (for special cases only - see performPrestige) */
-  addLifetimeCarrots: (amount: number) => void;
+  addLifetimeCarrots: (amount: BigNumberSource) => void;
 }
 
 /**
@@ -40,6 +52,23 @@ const PRESTIGE_UNLOCK_THRESHOLD = 1000000000; // 1 billion
  */
 const GOLDEN_SEED_BONUS_PERCENT = 10;
 
+/**
+ * Convert totalLifetimeCarrots from older saves to a big number
+ * An invalid value is left out so the store default applies
+ * @param state - Persisted prestige state
+ * @returns State with big number fields
+ */
+export function migratePrestigeBigNumbers(state: Record<string, unknown>): Record<string, unknown> {
+  const migrated = { ...state };
+  const totalLifetimeCarrots = parseBigNumber(state.totalLifetimeCarrots);
+  if (totalLifetimeCarrots) {
+    migrated.totalLifetimeCarrots = totalLifetimeCarrots;
+  } else {
+    delete migrated.totalLifetimeCarrots;
+  }
+  return migrated;
+}
+
 /**
  * Prestige Store using Zustand
  * Handles prestige system, Golden Seeds, and lifetime progression
@@ -51,7 +80,7 @@ export const usePrestigeStore = create<PrestigeState>()(
       // Initial state
       goldenSeeds: 0,
       prestigeCount: 0,
-      totalLifetimeCarrots: 0,
+      totalLifetimeCarrots: BIG_ZERO,
 
       /**
        * Calculate how many Golden Seeds would be earned from prestiging
@@ -59,14 +88,15 @@ export const usePrestigeStore = create<PrestigeState>()(
        * @param currentRunCarrots - Total carrots earned in current run
        * @returns Number of Golden Seeds that would be earned (floored)
        */
-      calculateGoldenSeeds: (currentRunCarrots: number) => {
-        if (!Number.isFinite(currentRunCarrots) || currentRunCarrots < PRESTIGE_UNLOCK_THRESHOLD) {
+      calculateGoldenSeeds: (currentRunCarrots: BigNumberSource) => {
+        if (!get().canPrestige(currentRunCarrots)) {
           return 0;
         }
 
         // Formula from GAME_DESIGN.md: sqrt(Lifetime Carrots / 1,000,000,000)
-        const goldenSeeds = Math.sqrt(currentRunCarrots / PRESTIGE_UNLOCK_THRESHOLD);
-        return Math.floor(goldenSeeds);
+        // Computed on big numbers so runs past Number.MAX_VALUE still award seeds
+        const goldenSeeds = bigSqrt(bigDivide(currentRunCarrots, PRESTIGE_UNLOCK_THRESHOLD));
+        return Math.floor(Math.min(bigToNumber(goldenSeeds), Number.MAX_SAFE_INTEGER));
       },
 
       /**
@@ -76,7 +106,7 @@ export const usePrestigeStore = create<PrestigeState>()(
        * @param currentRunCarrots - Total carrots earned in current run
        * @returns Number of Golden Seeds earned from this prestige
        */
-      performPrestige: (currentRunCarrots: number) => {
+      performPrestige: (currentRunCarrots: BigNumberSource) => {
         const state = get();
 
         // Calculate Golden Seeds for this prestige
@@ -91,7 +121,7 @@ export const usePrestigeStore = create<PrestigeState>()(
         set({
           goldenSeeds: state.goldenSeeds + newGoldenSeeds,
           prestigeCount: state.prestigeCount + 1,
-          totalLifetimeCarrots: state.totalLifetimeCarrots + currentRunCarrots,
+          totalLifetimeCarrots: bigAdd(state.totalLifetimeCarrots, currentRunCarrots),
         });
 
         console.log(
@@ -120,10 +150,9 @@ export const usePrestigeStore = create<PrestigeState>()(
        * @param currentRunCarrots - Total carrots earned in current run
        * @returns true if player can prestige, false otherwise
        */
-      canPrestige: (currentRunCarrots: number) => {
-        return (
-          Number.isFinite(currentRunCarrots) && currentRunCarrots >= PRESTIGE_UNLOCK_THRESHOLD
-        );
+      canPrestige: (currentRunCarrots: BigNumberSource) => {
+        const carrots = parseBigNumber(currentRunCarrots);
+        return carrots !== null && bigGte(carrots, PRESTIGE_UNLOCK_THRESHOLD);
       },
 
       /**
@@ -146,20 +175,32 @@ export const usePrestigeStore = create<PrestigeState>()(
        * @param amount - Number of carrots to add to lifetime total
        * @see performPrestige - Line 94 where totalLifetimeCarrots is normally updated
        */
-      addLifetimeCarrots: (amount: number) => {
-        if (!Number.isFinite(amount) || amount < 0) {
+      addLifetimeCarrots: (amount: BigNumberSource) => {
+        const value = parseBigNumber(amount);
+        if (!value || value.mantissa < 0) {
           console.error('Invalid amount for addLifetimeCarrots:', amount);
           return;
         }
 
         set((state) => ({
-          totalLifetimeCarrots: state.totalLifetimeCarrots + amount,
+          totalLifetimeCarrots: bigAdd(state.totalLifetimeCarrots, value),
         }));
       },
     }),
     {
       name: 'rabbit-clicker-prestige-storage',
-      version: 1,
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 2,
+      // Version 2 stores totalLifetimeCarrots as a big number
+      migrate: (persistedState: unknown, version: number) => {
+        const state = (persistedState ?? {}) as Record<string, unknown>;
+        if (version < 2) {
+          return migratePrestigeBigNumbers(state);
+        }
+        return state;
+      },
     }
   )
 );
@@ -0,0 +1,267 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { QuestAction, QuestPeriod } from '@/types/quest';
+import { getQuestById, getQuestsByPeriod, QUEST_SLOTS } from '@/game/data/quests';
+import {
+  drawQuests,
+  getQuestPeriodStart,
+  getQuestProgressGain,
+  getQuestRerollCost,
+} from '@/game/systems/quests';
+import { useGameStore } from './gameStore';
+import { persistentStorage } from '@/utils/storage';
+
+/**
+ * Quest periods in board order
+ */
+export const QUEST_PERIODS: readonly QuestPeriod[] = ['daily', 'weekly'];
+
+/**
+ * A quest on the board and the player's progress in it
+ */
+export interface ActiveQuest {
+  questId: string;
+  /** Progress towards the objective (capped at the target) */
+  progress: number;
+  /** Whether the reward has been paid */
+  claimed: boolean;
+}
+
+/**
+ * Quests drawn for one daily or weekly period
+ */
+export interface QuestBoard {
+  /** Start of the period the quests were drawn for (0 before the first draw) */
+  periodStart: number;
+  quests: ActiveQuest[];
+  /** Rerolls made this period (each costs more than the last) */
+  rerolls: number;
+}
+
+/**
+ * Quest Store State Interface
+ * Tracks the daily and weekly quest boards
+ */
+interface QuestState {
+  boards: Record<QuestPeriod, QuestBoard>;
+
+  // Actions
+  refreshQuests: () => void;
+  recordQuestProgress: (action: QuestAction) => void;
+  claimQuest: (period: QuestPeriod, index: number) => boolean;
+  rerollQuest: (period: QuestPeriod, index: number) => boolean;
+  getRerollCost: (period: QuestPeriod) => number;
+}
+
+/**
+ * Board before the first draw
+ * @returns Empty quest board
+ */
+export function createQuestBoard(): QuestBoard {
+  return { periodStart: 0, quests: [], rerolls: 0 };
+}
+
+/**
+ * Initial quest store state values
+ * Used for store creation
+ */
+const getInitialQuestState = () => ({
+  boards: {
+    daily: createQuestBoard(),
+    weekly: createQuestBoard(),
+  } as Record<QuestPeriod, QuestBoard>,
+});
+
+/**
+ * Whether a quest on the board has reached its target
+ * @param quest - Quest on the board
+ * @returns true if complete (claimed or not)
+ */
+export function isQuestComplete(quest: ActiveQuest): boolean {
+  const data = getQuestById(quest.questId);
+  return data !== undefined && quest.progress >= data.objective.target;
+}
+
+/**
+ * Quest store using Zustand
+ * Quests are kept through prestige
+ */
+export const useQuestStore = create<QuestState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...getInitialQuestState(),
+
+      /**
+       * Draw new boards for periods that have ended
+       * Completed quests that were not claimed are paid out before their board is replaced.
+       * A board is only replaced by a later period, so turning the clock back keeps it.
+       */
+      refreshQuests: () => {
+        const now = Date.now();
+        const { boards } = get();
+        const updates: Partial<Record<QuestPeriod, QuestBoard>> = {};
+        let unclaimedReward = 0;
+
+        for (const period of QUEST_PERIODS) {
+          const periodStart = getQuestPeriodStart(period, now);
+          if (periodStart <= boards[period].periodStart) continue;
+
+          unclaimedReward += boards[period].quests
+            .filter((quest) => !quest.claimed && isQuestComplete(quest))
+            .reduce((sum, quest) => sum + (getQuestById(quest.questId)?.goldenCarrots ?? 0), 0);
+
+          updates[period] = {
+            periodStart,
+            quests: drawQuests(getQuestsByPeriod(period), QUEST_SLOTS[period]).map((quest) => ({
+              questId: quest.id,
+              progress: 0,
+              claimed: false,
+            })),
+            rerolls: 0,
+          };
+        }
+
+        if (Object.keys(updates).length === 0) {
+          return;
+        }
+
+        set((state) => ({ boards: { ...state.boards, ...updates } }));
+        if (unclaimedReward > 0) {
+          useGameStore.getState().addGoldenCarrots(unclaimedReward);
+        }
+      },
+
+      /**
+       * Advance quests that count a player action
+       * Called from click, building and upgrade purchases, and crate openings
+       * @param action - Player action
+       */
+      recordQuestProgress: (action: QuestAction) => {
+        if (!Number.isFinite(action.count) || action.count <= 0) {
+          console.error('Invalid quest progress count:', action.count);
+          return;
+        }
+
+        get().refreshQuests();
+
+        const { boards } = get();
+        const updates: Partial<Record<QuestPeriod, QuestBoard>> = {};
+
+        for (const period of QUEST_PERIODS) {
+          let changed = false;
+          const quests = boards[period].quests.map((quest) => {
+            const data = getQuestById(quest.questId);
+            if (!data || quest.progress >= data.objective.target) return quest;
+
+            const gain = getQuestProgressGain(data, action);
+            if (gain === 0) return quest;
+
+            changed = true;
+            return { ...quest, progress: Math.min(quest.progress + gain, data.objective.target) };
+          });
+
+          if (changed) {
+            updates[period] = { ...boards[period], quests };
+          }
+        }
+
+        if (Object.keys(updates).length > 0) {
+          set((state) => ({ boards: { ...state.boards, ...updates } }));
+        }
+      },
+
+      /**
+       * Claim the reward of a completed quest
+       * @param period - Board the quest is on
+       * @param index - Position of the quest on the board
+       * @returns true if the reward was paid, false otherwise
+       */
+      claimQuest: (period: QuestPeriod, index: number) => {
+        const board = get().boards[period];
+        const quest = board?.quests[index];
+        const data = quest && getQuestById(quest.questId);
+
+        if (!quest || !data) {
+          console.error(`Quest not found: ${period} #${index}`);
+          return false;
+        }
+        if (quest.claimed || quest.progress < data.objective.target) {
+          console.warn(`Quest cannot be claimed: ${quest.questId}`);
+          return false;
+        }
+
+        const quests = board.quests.map((entry, i) =>
+          i === index ? { ...entry, claimed: true } : entry
+        );
+        set((state) => ({ boards: { ...state.boards, [period]: { ...board, quests } } }));
+        useGameStore.getState().addGoldenCarrots(data.goldenCarrots);
+
+        return true;
+      },
+
+      /**
+       * Swap an unfinished quest for a different one, paying Golden Carrots
+       * @param period - Board the quest is on
+       * @param index - Position of the quest on the board
+       * @returns true if the quest was swapped, false otherwise
+       */
+      rerollQuest: (period: QuestPeriod, index: number) => {
+        const board = get().boards[period];
+        const quest = board?.quests[index];
+
+        if (!quest) {
+          console.error(`Quest not found: ${period} #${index}`);
+          return false;
+        }
+        if (quest.claimed || isQuestComplete(quest)) {
+          console.warn(`Completed quests cannot be rerolled: ${quest.questId}`);
+          return false;
+        }
+
+        // Draw before paying so a player is never charged when no other quest is left
+        const [replacement] = drawQuests(
+          getQuestsByPeriod(period),
+          1,
+          Math.random,
+          board.quests.map((entry) => entry.questId)
+        );
+        if (!replacement) {
+          console.warn(`No other ${period} quests to reroll into`);
+          return false;
+        }
+
+        const cost = getQuestRerollCost(period, board.rerolls);
+        if (!useGameStore.getState().spendGoldenCarrots(cost)) {
+          console.warn(`Cannot afford quest reroll: ${cost} Golden Carrots`);
+          return false;
+        }
+
+        const quests = board.quests.map((entry, i) =>
+          i === index ? { questId: replacement.id, progress: 0, claimed: false } : entry
+        );
+        set((state) => ({
+          boards: { ...state.boards, [period]: { ...board, quests, rerolls: board.rerolls + 1 } },
+        }));
+
+        return true;
+      },
+
+      /**
+       * Get the cost of the next reroll on a board
+       * @param period - Quest period
+       * @returns Golden Carrots
+       */
+      getRerollCost: (period: QuestPeriod) => {
+        return getQuestRerollCost(period, get().boards[period].rerolls);
+      },
+    }),
+    {
+      name: 'rabbit-clicker-quest-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 1,
+    }
+  )
+);
@@ -1,7 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { Rabbit } from '@/types/rabbit';
-import { updateProductionValues } from '@/game/mechanics/production';
+import {
+  calculateAbilityEffects,
+  calculateAverageAbilityEffects,
+  getAverageAbilityUptime,
+  calculateRabbitCPS,
+  getAbilityCooldownRemaining,
+  isAbilityInEffect as checkAbilityInEffect,
+  type AbilityActivations,
+  type AbilityEffects,
+} from '@/game/systems/abilities';
+import { applyExperience, getXPToNextLevel } from '@/game/systems/leveling';
+import { persistentStorage } from '@/utils/storage';
+import { gameBus } from '@/services/gameBus';
+import { BIG_ZERO, bigAdd, type BigNumber } from '@/utils/bigNumber';
 
 /**
  * Rabbit Store State Interface
@@ -16,10 +29,15 @@ interface RabbitState {
   maxTeamSize: number; // Maximum rabbits that can be in active team
 
   // Experience & Progression
-  rabbitXP: number; // Global XP for unlocking team slots
+  rabbitXP: number; // Global XP pool (from duplicates), spent on leveling rabbits
+
+  // Abilities
+  abilityActivations: AbilityActivations; // Last activation time of active abilities (by rabbit ID)
 
   // Actions
   addRabbitXP: (amount: number) => void;
+  investXP: (rabbitId: string, amount: number) => boolean;
+  levelUpRabbit: (rabbitId: string) => boolean;
   addRabbit: (rabbit: Rabbit) => void;
   removeRabbit: (rabbitId: string) => void;
   updateRabbit: (rabbitId: string, updates: Partial<Rabbit>) => void;
@@ -33,9 +51,18 @@ interface RabbitState {
   isInActiveTeam: (rabbitId: string) => boolean;
   increaseMaxTeamSize: (amount: number) => void;
 
+  // Abilities
+  activateAbility: (rabbitId: string) => boolean;
+  isAbilityInEffect: (rabbitId: string) => boolean;
+  getAbilityCooldown: (rabbitId: string) => number;
+  getAbilitiesInEffect: () => string[];
+  getAbilityEffects: () => AbilityEffects;
+  getAverageAbilityEffects: () => AbilityEffects;
+
   // Calculations
-  getTotalCPS: () => number;
-  getTeamCPS: () => number;
+  getTotalCPS: () => BigNumber;
+  getTeamCPS: () => BigNumber;
+  getAverageTeamCPS: () => BigNumber;
 
   // Utility
   getOwnedRabbitsArray: () => Rabbit[];
@@ -54,6 +81,7 @@ const getInitialRabbitState = () => ({
   activeTeam: [],
   maxTeamSize: 3,
   rabbitXP: 0,
+  abilityActivations: {} as AbilityActivations,
 });
 
 /**
@@ -77,9 +105,73 @@ export const useRabbitStore = create<RabbitState>()(
         }));
       },
 
+      /**
+       * Invest pooled XP into a rabbit
+       * Applies as many level-ups as the XP covers; stops at the rarity level cap
+       * @param rabbitId - ID of rabbit to invest in
+       * @param amount - XP to invest (limited to the pool)
+       * @returns true if any XP was invested, false otherwise
+       */
+      investXP: (rabbitId: string, amount: number) => {
+        const state = get();
+        const rabbit = state.ownedRabbits.get(rabbitId);
+
+        if (!rabbit) {
+          console.error(`Rabbit ${rabbitId} not found`);
+          return false;
+        }
+
+        if (!Number.isFinite(amount) || amount <= 0) {
+          console.error('Invalid XP amount:', amount);
+          return false;
+        }
+
+        const result = applyExperience(rabbit, Math.min(amount, state.rabbitXP));
+        if (result.xpUsed <= 0) {
+          console.warn(`Cannot invest XP in ${rabbitId} (max level or no XP)`);
+          return false;
+        }
+
+        set({ rabbitXP: state.rabbitXP - result.xpUsed });
+        get().updateRabbit(rabbitId, {
+          level: result.level,
+          experience: result.experience,
+        });
+
+        if (result.level > rabbit.level) {
+          gameBus.emit('RabbitLeveledUp', { rabbitId, level: result.level });
+        }
+
+        return true;
+      },
+
+      /**
+       * Level up a rabbit by exactly one level using pooled XP
+       * @param rabbitId - ID of rabbit to level up
+       * @returns true if leveled up, false if not enough XP or at max level
+       */
+      levelUpRabbit: (rabbitId: string) => {
+        const state = get();
+        const rabbit = state.ownedRabbits.get(rabbitId);
+
+        if (!rabbit) {
+          console.error(`Rabbit ${rabbitId} not found`);
+          return false;
+        }
+
+        const needed = getXPToNextLevel(rabbit);
+        if (needed <= 0 || state.rabbitXP < needed) {
+          console.warn(`Cannot level up ${rabbitId} (needs ${needed} XP)`);
+          return false;
+        }
+
+        return get().investXP(rabbitId, needed);
+      },
+
       // CRUD Operations
       /**
        * Add a rabbit to the player's collection
+       * Obtained rabbits are added by the RabbitObtained handler
        * @param rabbit - Rabbit to add
        */
       addRabbit: (rabbit: Rabbit) => {
@@ -111,6 +203,8 @@ export const useRabbitStore = create<RabbitState>()(
        * @param rabbitId - ID of rabbit to remove
        */
       removeRabbit: (rabbitId: string) => {
+        const wasInActiveTeam = get().activeTeam.includes(rabbitId);
+
         set((state) => {
           const newOwned = new Map(state.ownedRabbits);
           newOwned.delete(rabbitId);
@@ -123,6 +217,10 @@ export const useRabbitStore = create<RabbitState>()(
             activeTeam: newActiveTeam,
           };
         });
+
+        if (wasInActiveTeam) {
+          gameBus.emit('TeamChanged', { activeTeam: [...get().activeTeam] });
+        }
       },
 
       /**
@@ -139,26 +237,11 @@ export const useRabbitStore = create<RabbitState>()(
           return;
         }
 
-        // Check if production-affecting fields are being updated
-        const productionFieldsChanged =
-          updates.level !== undefined ||
-          updates.baseCPS !== undefined ||
-          updates.ability !== undefined;
-
-        // Check if this rabbit is in the active team
-        const isInActiveTeam = state.activeTeam.includes(rabbitId);
-
         // Apply updates
         const newOwned = new Map(state.ownedRabbits);
         newOwned.set(rabbitId, { ...rabbit, ...updates });
 
         set({ ownedRabbits: newOwned });
-
-        // Update production if necessary
-        // Only recalculate if production-affecting fields changed AND rabbit is active
-        if (productionFieldsChanged && isInActiveTeam) {
-          updateProductionValues();
-        }
       },
 
       /**
@@ -206,8 +289,7 @@ export const useRabbitStore = create<RabbitState>()(
           ownedRabbits: newOwned,
         });
 
-        // Update production values to reflect new team composition
-        updateProductionValues();
+        gameBus.emit('TeamChanged', { activeTeam: [...rabbitIds] });
 
         return true;
       },
@@ -283,6 +365,105 @@ export const useRabbitStore = create<RabbitState>()(
         }));
       },
 
+      // Abilities
+      /**
+       * Activate a rabbit's active ability
+       * @param rabbitId - ID of rabbit whose ability to activate
+       * @returns true if activated, false if not in team, not activatable, or on cooldown
+       */
+      activateAbility: (rabbitId: string) => {
+        const state = get();
+        const rabbit = state.ownedRabbits.get(rabbitId);
+
+        if (!rabbit || !state.activeTeam.includes(rabbitId)) {
+          console.error(`Rabbit ${rabbitId} is not in the active team`);
+          return false;
+        }
+
+        if (!rabbit.ability || rabbit.ability.type !== 'active') {
+          console.error(`Rabbit ${rabbitId} has no active ability`);
+          return false;
+        }
+
+        const now = Date.now();
+        if (getAbilityCooldownRemaining(rabbit.ability, state.abilityActivations[rabbitId], now) > 0) {
+          console.warn(`Ability ${rabbit.ability.id} is on cooldown`);
+          return false;
+        }
+
+        set({
+          abilityActivations: { ...state.abilityActivations, [rabbitId]: now },
+        });
+
+        gameBus.emit('AbilityActivated', { rabbitId, abilityId: rabbit.ability.id });
+
+        return true;
+      },
+
+      /**
+       * Check if a rabbit's ability is currently in effect
+       * @param rabbitId - ID of rabbit to check
+       * @returns true if the rabbit is in the active team and its ability applies right now
+       */
+      isAbilityInEffect: (rabbitId: string) => {
+        const state = get();
+        const rabbit = state.ownedRabbits.get(rabbitId);
+
+        if (!rabbit?.ability || !state.activeTeam.includes(rabbitId)) {
+          return false;
+        }
+
+        return checkAbilityInEffect(
+          rabbit.ability,
+          state.abilityActivations[rabbitId],
+          Date.now(),
+          rabbit.obtainedAt
+        );
+      },
+
+      /**
+       * Get remaining cooldown of a rabbit's active ability
+       * @param rabbitId - ID of rabbit to check
+       * @returns Seconds until the ability can be activated again (0 if ready)
+       */
+      getAbilityCooldown: (rabbitId: string) => {
+        const state = get();
+        const rabbit = state.ownedRabbits.get(rabbitId);
+
+        if (!rabbit?.ability) {
+          return 0;
+        }
+
+        return getAbilityCooldownRemaining(rabbit.ability, state.abilityActivations[rabbitId], Date.now());
+      },
+
+      /**
+       * Get IDs of active team rabbits whose abilities are in effect right now
+       * Used by the game loop to detect when timed abilities start or end
+       * @returns Array of rabbit IDs
+       */
+      getAbilitiesInEffect: () => {
+        return get().activeTeam.filter((id) => get().isAbilityInEffect(id));
+      },
+
+      /**
+       * Get combined effects of all abilities in the active team
+       * @returns Ability effects (multipliers and bonuses)
+       */
+      getAbilityEffects: () => {
+        const state = get();
+        return calculateAbilityEffects(state.getActiveRabbits(), state.abilityActivations, Date.now());
+      },
+
+      /**
+       * Get the long-run average effects of the active team's abilities
+       * Used for offline progress instead of the abilities in effect right now
+       * @returns Ability effects with each bonus scaled by its average uptime
+       */
+      getAverageAbilityEffects: () => {
+        return calculateAverageAbilityEffects(get().getActiveRabbits());
+      },
+
       // Calculations
       /**
        * Get total CPS from all active rabbits
@@ -297,23 +478,28 @@ export const useRabbitStore = create<RabbitState>()(
        * @returns Carrots per second from active rabbits
        */
       getTeamCPS: () => {
-        const activeRabbits = get().getActiveRabbits();
+        const state = get();
+        const activeRabbits = state.getActiveRabbits();
 
         return activeRabbits.reduce((total, rabbit) => {
-          // Base CPS from rabbit
-          let cps = rabbit.baseCPS;
-
-          // Apply level scaling (example: +10% per level)
-          const levelMultiplier = 1 + (rabbit.level - 1) * 0.1;
-          cps *= levelMultiplier;
-
-          // Apply ability bonuses if applicable
-          if (rabbit.ability && rabbit.ability.target === 'cps') {
-            cps *= (1 + rabbit.ability.value / 100);
-          }
+          // Level scaling plus the rabbit's own 'cps' ability while it is in effect
+          const abilityInEffect = state.isAbilityInEffect(rabbit.id);
+          return bigAdd(total, calculateRabbitCPS(rabbit, abilityInEffect ? 1 : 0));
+        }, BIG_ZERO);
+      },
 
-          return total + cps;
-        }, 0);
+      /**
+       * Calculate the long-run average CPS of the active team
+       * 'cps' abilities count by their average uptime (used for offline progress)
+       * @returns Average carrots per second from active rabbits
+       */
+      getAverageTeamCPS: () => {
+        return get()
+          .getActiveRabbits()
+          .reduce((total, rabbit) => {
+            const uptime = rabbit.ability ? getAverageAbilityUptime(rabbit.ability) : 0;
+            return bigAdd(total, calculateRabbitCPS(rabbit, uptime));
+          }, BIG_ZERO);
       },
 
       // Utility
@@ -353,11 +539,13 @@ export const useRabbitStore = create<RabbitState>()(
     }),
     {
       name: 'rabbit-clicker-rabbit-storage',
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
       version: 1,
       // Custom storage to handle Map serialization
       storage: {
         getItem: (name) => {
-          const str = localStorage.getItem(name);
+          const str = persistentStorage.getItem(name);
           if (!str) return null;
 
           const { state } = JSON.parse(str);
@@ -378,9 +566,9 @@ export const useRabbitStore = create<RabbitState>()(
             ownedRabbits: Object.fromEntries(state.ownedRabbits),
           };
 
-          localStorage.setItem(name, JSON.stringify({ state: storageState }));
+          persistentStorage.setItem(name, JSON.stringify({ state: storageState }));
         },
-        removeItem: (name) => localStorage.removeItem(name),
+        removeItem: (name) => persistentStorage.removeItem(name),
       },
     }
   )
@@ -0,0 +1,267 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { NumberNotation, SoundCategory } from '@/types/settings';
+import { setNumberNotation } from '@/utils/formatNumber';
+import { setCategoryVolume, setMasterVolume, setSoundEnabled } from '@/utils/sounds';
+import { persistentStorage } from '@/utils/storage';
+
+/**
+ * Notations the player can choose from
+ */
+export const NUMBER_NOTATIONS: NumberNotation[] = [
+  'standard',
+  'scientific',
+  'engineering',
+  'longScale',
+  'alphabetic',
+];
+
+/**
+ * Sound categories with their own volume slider
+ */
+export const SOUND_CATEGORIES: SoundCategory[] = ['click', 'purchase', 'crate', 'achievement'];
+
+/**
+ * Auto-save intervals the player can choose from (seconds)
+ */
+export const AUTO_SAVE_INTERVALS = [15, 30, 60, 120, 300];
+
+/**
+ * Settings Store State Interface
+ * Player preferences; these belong to the device and are not part of the game save
+ */
+interface SettingsState {
+  // Audio
+  soundEnabled: boolean;
+  masterVolume: number;
+  soundVolumes: Record<SoundCategory, number>;
+
+  // Visuals and accessibility
+  particlesEnabled: boolean;
+  reducedMotion: boolean;
+  notation: NumberNotation;
+
+  // Saving
+  autoSaveInterval: number;
+
+  // Actions
+  setSoundEnabled: (enabled: boolean) => void;
+  setMasterVolume: (volume: number) => boolean;
+  setSoundVolume: (category: SoundCategory, volume: number) => boolean;
+  setParticlesEnabled: (enabled: boolean) => void;
+  setReducedMotion: (enabled: boolean) => void;
+  setNotation: (notation: NumberNotation) => boolean;
+  setAutoSaveInterval: (seconds: number) => boolean;
+}
+
+/**
+ * Persisted settings values (state without actions)
+ */
+type SettingsValues = ReturnType<typeof getInitialSettingsState>;
+
+/**
+ * Initial settings store state values
+ * Used for store creation and to replace invalid persisted values
+ */
+const getInitialSettingsState = () => ({
+  soundEnabled: true,
+  masterVolume: 0.5,
+  soundVolumes: { click: 1, purchase: 1, crate: 1, achievement: 1 } as Record<
+    SoundCategory,
+    number
+  >,
+  particlesEnabled: true,
+  reducedMotion: false,
+  notation: 'standard' as NumberNotation,
+  autoSaveInterval: 30,
+});
+
+/**
+ * Check that a volume is a finite number between 0 and 1
+ */
+function isValidVolume(volume: unknown): volume is number {
+  return typeof volume === 'number' && Number.isFinite(volume) && volume >= 0 && volume <= 1;
+}
+
+/**
+ * Push audio and display settings into the modules that use them
+ * The sound manager and number formatter keep module-level copies so they need no store access
+ * @param settings - Settings to apply
+ */
+function applySettings(settings: SettingsValues): void {
+  setSoundEnabled(settings.soundEnabled);
+  setMasterVolume(settings.masterVolume);
+  SOUND_CATEGORIES.forEach((category) => {
+    setCategoryVolume(category, settings.soundVolumes[category]);
+  });
+  setNumberNotation(settings.notation);
+}
+
+/**
+ * Settings store using Zustand
+ * Settings are kept through prestige
+ */
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...getInitialSettingsState(),
+
+      /**
+       * Enable or disable all sounds
+       * @param enabled - Whether sounds should play
+       */
+      setSoundEnabled: (enabled: boolean) => {
+        setSoundEnabled(enabled);
+        set({ soundEnabled: enabled });
+      },
+
+      /**
+       * Set the master volume applied to every sound
+       * @param volume - Volume level (0.0 to 1.0)
+       * @returns true if updated, false if the volume is invalid
+       */
+      setMasterVolume: (volume: number) => {
+        if (!isValidVolume(volume)) {
+          console.error('Invalid master volume:', volume);
+          return false;
+        }
+
+        setMasterVolume(volume);
+        set({ masterVolume: volume });
+        return true;
+      },
+
+      /**
+       * Set the volume of one sound category
+       * @param category - Sound category
+       * @param volume - Volume level (0.0 to 1.0)
+       * @returns true if updated, false if the category or volume is invalid
+       */
+      setSoundVolume: (category: SoundCategory, volume: number) => {
+        if (!SOUND_CATEGORIES.includes(category)) {
+          console.error('Invalid sound category:', category);
+          return false;
+        }
+
+        if (!isValidVolume(volume)) {
+          console.error('Invalid sound volume:', volume);
+          return false;
+        }
+
+        setCategoryVolume(category, volume);
+        set({ soundVolumes: { ...get().soundVolumes, [category]: volume } });
+        return true;
+      },
+
+      /**
+       * Show or hide click particles
+       * @param enabled - Whether clicks spawn particles
+       */
+      setParticlesEnabled: (enabled: boolean) => {
+        set({ particlesEnabled: enabled });
+      },
+
+      /**
+       * Turn reduced motion on or off
+       * Crate openings and milestone celebrations skip shakes, bursts and confetti when on
+       * @param enabled - Whether to reduce motion
+       */
+      setReducedMotion: (enabled: boolean) => {
+        set({ reducedMotion: enabled });
+      },
+
+      /**
+       * Set how large numbers are displayed
+       * @param notation - Number notation
+       * @returns true if updated, false if the notation is unknown
+       */
+      setNotation: (notation: NumberNotation) => {
+        if (!NUMBER_NOTATIONS.includes(notation)) {
+          console.error('Invalid number notation:', notation);
+          return false;
+        }
+
+        setNumberNotation(notation);
+        set({ notation });
+        return true;
+      },
+
+      /**
+       * Set how often the game auto-saves
+       * @param seconds - One of AUTO_SAVE_INTERVALS
+       * @returns true if updated, false if the interval is not offered
+       */
+      setAutoSaveInterval: (seconds: number) => {
+        if (!AUTO_SAVE_INTERVALS.includes(seconds)) {
+          console.error('Invalid auto-save interval:', seconds);
+          return false;
+        }
+
+        set({ autoSaveInterval: seconds });
+        return true;
+      },
+    }),
+    {
+      name: 'rabbit-clicker-settings',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      partialize: (state): SettingsValues => ({
+        soundEnabled: state.soundEnabled,
+        masterVolume: state.masterVolume,
+        soundVolumes: state.soundVolumes,
+        particlesEnabled: state.particlesEnabled,
+        reducedMotion: state.reducedMotion,
+        notation: state.notation,
+        autoSaveInterval: state.autoSaveInterval,
+      }),
+      // Replace missing or invalid persisted values with defaults
+      merge: (persistedState: unknown, currentState) => {
+        const persisted = (persistedState ?? {}) as Partial<Record<keyof SettingsValues, unknown>>;
+        const defaults = getInitialSettingsState();
+        const volumes = (persisted.soundVolumes ?? {}) as Partial<Record<SoundCategory, unknown>>;
+
+        const soundVolumes = { ...defaults.soundVolumes };
+        SOUND_CATEGORIES.forEach((category) => {
+          const volume = volumes[category];
+          if (isValidVolume(volume)) {
+            soundVolumes[category] = volume;
+          }
+        });
+
+        return {
+          ...currentState,
+          soundEnabled:
+            typeof persisted.soundEnabled === 'boolean'
+              ? persisted.soundEnabled
+              : defaults.soundEnabled,
+          masterVolume: isValidVolume(persisted.masterVolume)
+            ? persisted.masterVolume
+            : defaults.masterVolume,
+          soundVolumes,
+          particlesEnabled:
+            typeof persisted.particlesEnabled === 'boolean'
+              ? persisted.particlesEnabled
+              : defaults.particlesEnabled,
+          reducedMotion:
+            typeof persisted.reducedMotion === 'boolean'
+              ? persisted.reducedMotion
+              : defaults.reducedMotion,
+          notation: NUMBER_NOTATIONS.includes(persisted.notation as NumberNotation)
+            ? (persisted.notation as NumberNotation)
+            : defaults.notation,
+          autoSaveInterval: AUTO_SAVE_INTERVALS.includes(persisted.autoSaveInterval as number)
+            ? (persisted.autoSaveInterval as number)
+            : defaults.autoSaveInterval,
+        };
+      },
+      // Apply the restored settings to the sound manager and number formatter
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          applySettings(state);
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,399 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { CrateType } from '@/types/crate';
+import {
+  BIG_ZERO,
+  bigAdd,
+  bigMax,
+  bigMultiply,
+  isBigNumber,
+  parseBigNumber,
+  type BigNumber,
+  type BigNumberSource,
+} from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
+
+/**
+ * Seconds of play between CPS/carrot samples
+ */
+export const STATS_SAMPLE_INTERVAL = 60;
+
+/**
+ * Samples kept for the charts (6 hours of play at one per minute)
+ */
+export const MAX_STATS_SAMPLES = 360;
+
+/**
+ * Finished runs kept in the prestige history
+ */
+export const MAX_PRESTIGE_RUNS = 50;
+
+/**
+ * Seconds of play collected before idle totals are written to the store
+ * Production runs every simulation step; writing each step would persist 30 times a second
+ */
+const FLUSH_INTERVAL = 1;
+
+/**
+ * Metrics for one run (or for all runs combined)
+ */
+export interface RunStats {
+  /** Timestamp when the run started (first recorded play for all-time stats) */
+  startedAt: number;
+  /** Seconds the game was running (offline time not included) */
+  timePlayed: number;
+  /** Carrots from clicks, including auto-clicks */
+  carrotsFromClicks: BigNumber;
+  /** Carrots from idle production, including offline earnings */
+  carrotsFromIdle: BigNumber;
+  highestCarrotsPerSecond: BigNumber;
+  /** Carrots of the largest single offline return */
+  largestOfflineEarnings: BigNumber;
+  /** Crates opened by type */
+  cratesOpened: Partial<Record<CrateType, number>>;
+  goldenCarrotsEarned: number;
+  goldenCarrotsSpent: number;
+}
+
+/**
+ * A run that ended in a prestige
+ */
+export interface PrestigeRunRecord {
+  /** Prestige count reached by this prestige */
+  prestigeNumber: number;
+  startedAt: number;
+  endedAt: number;
+  /** Seconds the game was running during the run */
+  timePlayed: number;
+  /** Carrots earned during the run */
+  carrotsEarned: BigNumber;
+}
+
+/**
+ * Production snapshot for the charts
+ */
+export interface StatsSample {
+  /** Timestamp of the sample */
+  time: number;
+  carrotsPerSecond: BigNumber;
+  carrots: BigNumber;
+}
+
+/**
+ * Idle totals collected between store writes
+ */
+interface PlayTotals {
+  time: number;
+  idleCarrots: BigNumber;
+  highestCarrotsPerSecond: BigNumber;
+}
+
+/**
+ * Stats Store State Interface
+ * Records per-run and all-time metrics and a production history
+ */
+interface StatsState {
+  currentRun: RunStats;
+  allTime: RunStats;
+  prestigeRuns: PrestigeRunRecord[];
+  samples: StatsSample[];
+
+  // Actions
+  recordClickCarrots: (amount: BigNumberSource) => void;
+  recordIdleCarrots: (amount: BigNumberSource) => void;
+  recordGoldenCarrotsEarned: (amount: number) => void;
+  recordGoldenCarrotsSpent: (amount: number) => void;
+  recordCratesOpened: (crateType: CrateType, count: number) => void;
+  recordPrestige: (prestigeNumber: number, carrotsEarned: BigNumberSource) => void;
+  tick: (deltaTime: number, carrotsPerSecond: BigNumber, carrots: BigNumber) => void;
+}
+
+/**
+ * Idle totals not yet written to the store
+ * Kept outside the store so ticking does not trigger a persist write every frame
+ */
+let pendingTotals: PlayTotals = createPlayTotals();
+let timeSinceSample = 0;
+
+function createPlayTotals(): PlayTotals {
+  return { time: 0, idleCarrots: BIG_ZERO, highestCarrotsPerSecond: BIG_ZERO };
+}
+
+/**
+ * Empty metrics for a new run
+ * @param startedAt - Timestamp when the run started (default: now)
+ * @returns Run metrics with every total at zero
+ */
+export function createRunStats(startedAt: number = Date.now()): RunStats {
+  return {
+    startedAt,
+    timePlayed: 0,
+    carrotsFromClicks: BIG_ZERO,
+    carrotsFromIdle: BIG_ZERO,
+    highestCarrotsPerSecond: BIG_ZERO,
+    largestOfflineEarnings: BIG_ZERO,
+    cratesOpened: {},
+    goldenCarrotsEarned: 0,
+    goldenCarrotsSpent: 0,
+  };
+}
+
+/**
+ * Take the pending idle totals, starting a new collection
+ */
+function takePendingTotals(): PlayTotals {
+  const totals = pendingTotals;
+  pendingTotals = createPlayTotals();
+  return totals;
+}
+
+function addPlayTotals(run: RunStats, totals: PlayTotals): RunStats {
+  return {
+    ...run,
+    timePlayed: run.timePlayed + totals.time,
+    carrotsFromIdle: bigAdd(run.carrotsFromIdle, totals.idleCarrots),
+    highestCarrotsPerSecond: bigMax(run.highestCarrotsPerSecond, totals.highestCarrotsPerSecond),
+  };
+}
+
+/**
+ * Apply the same change to the current run and the all-time metrics
+ */
+function updateRuns(
+  state: StatsState,
+  update: (run: RunStats) => RunStats
+): Pick<StatsState, 'currentRun' | 'allTime'> {
+  return { currentRun: update(state.currentRun), allTime: update(state.allTime) };
+}
+
+/**
+ * Parse a non-negative carrot amount, logging invalid values
+ */
+function parseAmount(amount: BigNumberSource, action: string): BigNumber | null {
+  const value = parseBigNumber(amount);
+  if (!value || value.mantissa < 0) {
+    console.error(`Invalid amount for ${action}:`, amount);
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Add the largest offline return (unknown for older saves, so zero) to persisted run metrics
+ */
+function migrateLargestOfflineEarnings(state: Record<string, unknown>): Record<string, unknown> {
+  const migrated = { ...state };
+  (['currentRun', 'allTime'] as const).forEach((key) => {
+    const run = state[key];
+    if (run && typeof run === 'object') {
+      migrated[key] = { largestOfflineEarnings: BIG_ZERO, ...run };
+    }
+  });
+  return migrated;
+}
+
+/**
+ * Initial stats store state values
+ * Used for store creation
+ */
+const getInitialStatsState = () => ({
+  currentRun: createRunStats(),
+  allTime: createRunStats(),
+  prestigeRuns: [] as PrestigeRunRecord[],
+  samples: [] as StatsSample[],
+});
+
+/**
+ * Stats store using Zustand
+ * The current run resets on prestige; all-time metrics and the history are kept
+ */
+export const useStatsStore = create<StatsState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...getInitialStatsState(),
+
+      /**
+       * Record carrots earned by a click
+       * @param amount - Carrots earned (must be non-negative)
+       */
+      recordClickCarrots: (amount: BigNumberSource) => {
+        const value = parseAmount(amount, 'recordClickCarrots');
+        if (!value) return;
+
+        set((state) =>
+          updateRuns(state, (run) => ({
+            ...run,
+            carrotsFromClicks: bigAdd(run.carrotsFromClicks, value),
+          }))
+        );
+      },
+
+      /**
+       * Record carrots earned while the game was not running (offline earnings)
+       * Idle production while the game runs is recorded by tick()
+       * @param amount - Carrots earned (must be non-negative)
+       */
+      recordIdleCarrots: (amount: BigNumberSource) => {
+        const value = parseAmount(amount, 'recordIdleCarrots');
+        if (!value) return;
+
+        set((state) =>
+          updateRuns(state, (run) => ({
+            ...run,
+            carrotsFromIdle: bigAdd(run.carrotsFromIdle, value),
+            largestOfflineEarnings: bigMax(run.largestOfflineEarnings, value),
+          }))
+        );
+      },
+
+      /**
+       * Record Golden Carrots added to the player's balance
+       * @param amount - Golden Carrots earned (must be non-negative and finite)
+       */
+      recordGoldenCarrotsEarned: (amount: number) => {
+        if (!Number.isFinite(amount) || amount < 0) {
+          console.error('Invalid amount for recordGoldenCarrotsEarned:', amount);
+          return;
+        }
+
+        set((state) =>
+          updateRuns(state, (run) => ({
+            ...run,
+            goldenCarrotsEarned: run.goldenCarrotsEarned + amount,
+          }))
+        );
+      },
+
+      /**
+       * Record Golden Carrots spent
+       * @param amount - Golden Carrots spent (must be non-negative and finite)
+       */
+      recordGoldenCarrotsSpent: (amount: number) => {
+        if (!Number.isFinite(amount) || amount < 0) {
+          console.error('Invalid amount for recordGoldenCarrotsSpent:', amount);
+          return;
+        }
+
+        set((state) =>
+          updateRuns(state, (run) => ({
+            ...run,
+            goldenCarrotsSpent: run.goldenCarrotsSpent + amount,
+          }))
+        );
+      },
+
+      /**
+       * Record opened crates
+       * @param crateType - Type of crate opened
+       * @param count - Number of crates opened (must be a positive integer)
+       */
+      recordCratesOpened: (crateType: CrateType, count: number) => {
+        if (!Number.isInteger(count) || count < 1) {
+          console.error('Invalid crate count for recordCratesOpened:', count);
+          return;
+        }
+
+        set((state) =>
+          updateRuns(state, (run) => ({
+            ...run,
+            cratesOpened: {
+              ...run.cratesOpened,
+              [crateType]: (run.cratesOpened[crateType] ?? 0) + count,
+            },
+          }))
+        );
+      },
+
+      /**
+       * End the current run and start a new one
+       * Called by the prestige flow before game state is reset
+       * @param prestigeNumber - Prestige count reached by this prestige
+       * @param carrotsEarned - Carrots earned during the run that ended
+       */
+      recordPrestige: (prestigeNumber: number, carrotsEarned: BigNumberSource) => {
+        const carrots = parseAmount(carrotsEarned, 'recordPrestige');
+        if (!carrots) return;
+
+        const state = get();
+        const totals = takePendingTotals();
+        const endedRun = addPlayTotals(state.currentRun, totals);
+        const now = Date.now();
+
+        const record: PrestigeRunRecord = {
+          prestigeNumber,
+          startedAt: endedRun.startedAt,
+          endedAt: now,
+          timePlayed: endedRun.timePlayed,
+          carrotsEarned: carrots,
+        };
+
+        set({
+          currentRun: createRunStats(now),
+          allTime: addPlayTotals(state.allTime, totals),
+          prestigeRuns: [...state.prestigeRuns, record].slice(-MAX_PRESTIGE_RUNS),
+        });
+      },
+
+      /**
+       * Record a step of play
+       * Called by the simulation's stats hook once per fixed step. Totals are written
+       * about once a second and a sample is taken every STATS_SAMPLE_INTERVAL seconds.
+       * @param deltaTime - Step length in seconds (must be non-negative and finite)
+       * @param carrotsPerSecond - Current production
+       * @param carrots - Current carrot balance
+       */
+      tick: (deltaTime: number, carrotsPerSecond: BigNumber, carrots: BigNumber) => {
+        if (!Number.isFinite(deltaTime) || deltaTime < 0) {
+          console.error('Invalid deltaTime for stats tick:', deltaTime);
+          return;
+        }
+        if (!isBigNumber(carrotsPerSecond) || !isBigNumber(carrots)) {
+          console.error('Invalid production values for stats tick:', carrotsPerSecond, carrots);
+          return;
+        }
+
+        pendingTotals = {
+          time: pendingTotals.time + deltaTime,
+          idleCarrots: bigAdd(pendingTotals.idleCarrots, bigMultiply(carrotsPerSecond, deltaTime)),
+          highestCarrotsPerSecond: bigMax(pendingTotals.highestCarrotsPerSecond, carrotsPerSecond),
+        };
+        timeSinceSample += deltaTime;
+
+        if (pendingTotals.time < FLUSH_INTERVAL) {
+          return;
+        }
+
+        const totals = takePendingTotals();
+        const takeSample = timeSinceSample >= STATS_SAMPLE_INTERVAL;
+        if (takeSample) {
+          timeSinceSample = 0;
+        }
+
+        set((state) => ({
+          ...updateRuns(state, (run) => addPlayTotals(run, totals)),
+          ...(takeSample && {
+            samples: [...state.samples, { time: Date.now(), carrotsPerSecond, carrots }].slice(
+              -MAX_STATS_SAMPLES
+            ),
+          }),
+        }));
+      },
+    }),
+    {
+      name: 'rabbit-clicker-stats-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
+      version: 2,
+      // Version 2 adds the largest offline return to the run metrics
+      migrate: (persistedState: unknown, version: number) => {
+        const state = (persistedState ?? {}) as Record<string, unknown>;
+        if (version < 2) {
+          return migrateLargestOfflineEarnings(state);
+        }
+        return state;
+      },
+    }
+  )
+);
@@ -1,11 +1,39 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist } from 'zustand/middleware';
 import { useGameStore } from './gameStore';
 import { useRabbitStore } from './rabbitStore';
 import { getUpgradeById } from '@/game/data/upgrades';
-import { getBuildingById, calculateBuildingCost } from '@/game/data/buildings';
-import { playSound } from '@/utils/sounds';
+import {
+  getBuildingById,
+  calculateBuildingCost,
+  calculateBulkBuildingCost,
+  calculateMaxAffordableBuildings,
+} from '@/game/data/buildings';
 import { updateProductionValues } from '@/game/mechanics/production';
+import { applyCostReduction } from '@/game/systems/abilities';
+import {
+  BIG_ZERO,
+  bigDivide,
+  bigFloor,
+  bigGte,
+  bigLt,
+  bigMultiply,
+  type BigNumber,
+  type BigNumberSource,
+} from '@/utils/bigNumber';
+import { persistentStorage } from '@/utils/storage';
+import { gameBus } from '@/services/gameBus';
+
+/**
+ * Apply rabbit ability cost reduction to a building cost
+ * Big-number counterpart of applyCostReduction (building costs outgrow JS numbers)
+ * @param cost - Cost before reduction
+ * @returns Reduced cost, rounded down
+ */
+function applyBuildingCostReduction(cost: BigNumber): BigNumber {
+  const { costMultiplier } = useRabbitStore.getState().getAbilityEffects();
+  return bigFloor(bigMultiply(cost, costMultiplier));
+}
 
 /**
  * Upgrade Store State Interface
@@ -24,13 +52,18 @@ interface UpgradeState {
 
   // Upgrade Actions
   purchaseUpgrade: (upgradeId: string) => boolean;
-  canAfford: (cost: number) => boolean;
+  canAfford: (cost: BigNumberSource) => boolean;
+  getUpgradeCost: (upgradeId: string) => number;
   recalculateMultipliers: () => void;
   isPurchased: (upgradeId: string) => boolean;
   checkRequirements: (upgradeId: string) => boolean;
 
   // Building Actions
   purchaseBuilding: (buildingId: string) => boolean;
+  purchaseBuildings: (buildingId: string, quantity: number) => boolean;
+  getBuildingCost: (buildingId: string) => BigNumber;
+  getBulkBuildingCost: (buildingId: string, quantity: number) => BigNumber;
+  getMaxAffordableBuildings: (buildingId: string) => number;
   getBuildingCount: (buildingId: string) => number;
   getTotalBuildingCount: () => number;
 }
@@ -61,9 +94,24 @@ export const useUpgradeStore = create<UpgradeState>()(
        * @param cost - Cost in carrots
        * @returns true if affordable, false otherwise
        */
-      canAfford: (cost: number) => {
+      canAfford: (cost: BigNumberSource) => {
         const gameState = useGameStore.getState();
-        return gameState.carrots >= cost;
+        return bigGte(gameState.carrots, cost);
+      },
+
+      /**
+       * Get the carrot cost of an upgrade after rabbit ability cost reduction
+       * @param upgradeId - Upgrade identifier
+       * @returns Cost in carrots (0 if upgrade not found)
+       */
+      getUpgradeCost: (upgradeId: string) => {
+        const upgrade = getUpgradeById(upgradeId);
+        if (!upgrade) {
+          return 0;
+        }
+
+        const { costMultiplier } = useRabbitStore.getState().getAbilityEffects();
+        return applyCostReduction(upgrade.currentCost, costMultiplier);
       },
 
       /**
@@ -96,7 +144,7 @@ export const useUpgradeStore = create<UpgradeState>()(
 
             case 'carrot_total': {
               const gameState = useGameStore.getState();
-              return gameState.lifetimeCarrots >= (requirement.target as number);
+              return bigGte(gameState.lifetimeCarrots, requirement.target as number);
             }
 
             // Add more requirement types as needed
@@ -152,11 +200,12 @@ export const useUpgradeStore = create<UpgradeState>()(
           purchaseSuccess = gameState.spendGoldenCarrots(upgrade.goldenCarrotCost);
         } else {
           // This upgrade costs regular carrots
-          if (!state.canAfford(upgrade.currentCost)) {
+          const cost = state.getUpgradeCost(upgradeId);
+          if (!state.canAfford(cost)) {
             console.warn(`Cannot afford upgrade: ${upgradeId}`);
             return false;
           }
-          purchaseSuccess = gameState.spendCarrots(upgrade.currentCost);
+          purchaseSuccess = gameState.spendCarrots(cost);
         }
 
         if (!purchaseSuccess) {
@@ -184,8 +233,7 @@ export const useUpgradeStore = create<UpgradeState>()(
         // Recalculate multipliers
         get().recalculateMultipliers();
 
-        // Play purchase sound effect
-        playSound('/assets/sounds/purchase.mp3', { volume: 0.5 });
+        gameBus.emit('UpgradePurchased', { upgradeId });
 
         return true;
       },
@@ -211,6 +259,69 @@ export const useUpgradeStore = create<UpgradeState>()(
         updateProductionValues();
       },
 
+      /**
+       * Get the cost of the next building after rabbit ability cost reduction
+       * @param buildingId - Building identifier
+       * @returns Cost in carrots (0 if building not found)
+       */
+      getBuildingCost: (buildingId: string) => {
+        const buildingData = getBuildingById(buildingId);
+        if (!buildingData) {
+          return BIG_ZERO;
+        }
+
+        const baseCost = calculateBuildingCost(buildingData, get().getBuildingCount(buildingId));
+        return applyBuildingCostReduction(baseCost);
+      },
+
+      /**
+       * Get the total cost of the next N buildings after rabbit ability cost reduction
+       * @param buildingId - Building identifier
+       * @param quantity - Number of buildings
+       * @returns Cost in carrots (0 if building not found)
+       */
+      getBulkBuildingCost: (buildingId: string, quantity: number) => {
+        const buildingData = getBuildingById(buildingId);
+        if (!buildingData) {
+          return BIG_ZERO;
+        }
+
+        const baseCost = calculateBulkBuildingCost(
+          buildingData,
+          get().getBuildingCount(buildingId),
+          quantity
+        );
+        return applyBuildingCostReduction(baseCost);
+      },
+
+      /**
+       * Get how many of a building the current carrots can buy
+       * @param buildingId - Building identifier
+       * @returns Number of buildings affordable (0 if building not found)
+       */
+      getMaxAffordableBuildings: (buildingId: string) => {
+        const buildingData = getBuildingById(buildingId);
+        if (!buildingData) {
+          return 0;
+        }
+
+        const state = get();
+        const carrots = useGameStore.getState().carrots;
+        const { costMultiplier } = useRabbitStore.getState().getAbilityEffects();
+
+        // Search on the unreduced price, then correct for reduction rounding
+        let quantity = calculateMaxAffordableBuildings(
+          buildingData,
+          state.getBuildingCount(buildingId),
+          bigDivide(carrots, costMultiplier)
+        );
+        while (quantity > 0 && bigLt(carrots, state.getBulkBuildingCost(buildingId, quantity))) {
+          quantity--;
+        }
+
+        return quantity;
+      },
+
       /**
        * Get building count by ID
        * @param buildingId - Building identifier
@@ -244,6 +355,17 @@ export const useUpgradeStore = create<UpgradeState>()(
        * @returns true if purchase successful, false otherwise
        */
       purchaseBuilding: (buildingId: string) => {
+        return get().purchaseBuildings(buildingId, 1);
+      },
+
+      /**
+       * Purchase several buildings of one type at once
+       * Spends the whole cost in one transaction and recalculates production once
+       * @param buildingId - Building identifier
+       * @param quantity - Number of buildings to buy (positive integer)
+       * @returns true if purchase successful, false otherwise
+       */
+      purchaseBuildings: (buildingId: string, quantity: number) => {
         const state = get();
         const buildingData = getBuildingById(buildingId);
 
@@ -253,15 +375,20 @@ export const useUpgradeStore = create<UpgradeState>()(
           return false;
         }
 
+        if (!Number.isInteger(quantity) || quantity < 1) {
+          console.error('Invalid building quantity:', quantity);
+          return false;
+        }
+
         // Get current count
         const currentCount = state.getBuildingCount(buildingId);
 
-        // Calculate cost for next purchase
-        const cost = calculateBuildingCost(buildingData, currentCount);
+        // Calculate cost for all units (includes ability cost reduction)
+        const cost = state.getBulkBuildingCost(buildingId, quantity);
 
         // Check if affordable
         if (!state.canAfford(cost)) {
-          console.warn(`Cannot afford building: ${buildingId} (cost: ${cost})`);
+          console.warn(`Cannot afford ${quantity}x building: ${buildingId} (cost: ${cost})`);
           return false;
         }
 
@@ -281,7 +408,7 @@ export const useUpgradeStore = create<UpgradeState>()(
           : new Map(Object.entries(state.buildings || {}).map(([k, v]) => [k, Number(v) || 0]));
 
         const newBuildings = new Map(buildingsMap);
-        newBuildings.set(buildingId, currentCount + 1);
+        newBuildings.set(buildingId, currentCount + quantity);
 
         set({
           buildings: newBuildings,
@@ -290,14 +417,16 @@ export const useUpgradeStore = create<UpgradeState>()(
         // Update production values (buildings affect CPS)
         updateProductionValues();
 
-        // Play purchase sound effect
-        playSound('/assets/sounds/purchase.mp3', { volume: 0.5 });
+        gameBus.emit('BuildingPurchased', { buildingId, quantity });
 
         return true;
       },
     }),
     {
       name: 'rabbit-clicker-upgrade-storage',
+      storage: createJSONStorage(() => persistentStorage),
+      // Hydrated by initializePersistence() once storage has loaded
+      skipHydration: true,
       version: 2, // Bumped to clear incompatible buildings data structure
       // Migration function for version upgrades
       migrate: (persistedState: unknown, version: number) => {
@@ -341,7 +470,7 @@ export const useUpgradeStore = create<UpgradeState>()(
           try {
             buildingsMap = new Map(Object.entries(persisted.buildings).map(([k, v]) => [k, Number(v) || 0]));
           } catch (e) {
-            console.error('Failed to restore buildings from localStorage:', e);
+            console.error('Failed to restore buildings from storage:', e);
             buildingsMap = new Map();
           }
         }
@@ -20,6 +20,63 @@ export type AchievementCategory =
  */
 export type AchievementTier = 'bronze' | 'silver' | 'gold' | 'platinum' | 'diamond';
 
+/**
+ * Game stat an achievement condition reads
+ * - carrotsEarned: carrots earned (run: this run; allTime: every run)
+ * - carrotsPerSecond: production (run: current; allTime: highest ever)
+ * - offlineEarnings: carrots of the largest single offline return
+ * - clicks: manual clicks this run
+ * - goldenCarrotsEarned: Golden Carrots earned
+ * - cratesOpened / premiumCratesOpened: crates opened (all types / Premium only)
+ * - rabbitsCollected: different regular rabbits owned (limited-time event rabbits excluded)
+ * - rareRabbitsCollected / epicRabbitsCollected / legendaryRabbitsCollected:
+ *   different rabbits of that rarity owned
+ * - highestRabbitLevel: level of the highest-level rabbit owned
+ * - buildingsOwned: buildings owned this run
+ * - prestiges: times the player has prestiged
+ */
+export type AchievementStat =
+  | 'carrotsEarned'
+  | 'carrotsPerSecond'
+  | 'offlineEarnings'
+  | 'clicks'
+  | 'goldenCarrotsEarned'
+  | 'cratesOpened'
+  | 'premiumCratesOpened'
+  | 'rabbitsCollected'
+  | 'rareRabbitsCollected'
+  | 'epicRabbitsCollected'
+  | 'legendaryRabbitsCollected'
+  | 'highestRabbitLevel'
+  | 'buildingsOwned'
+  | 'prestiges';
+
+/**
+ * How a stat is compared with a condition's target
+ */
+export type AchievementComparator = 'gte' | 'gt' | 'lte' | 'lt' | 'eq';
+
+/**
+ * Which part of the game a stat is counted over
+ * - run: the current run (reset by prestige)
+ * - allTime: every run combined
+ */
+export type AchievementScope = 'run' | 'allTime';
+
+/**
+ * Declarative unlock condition of an achievement
+ */
+export interface AchievementCondition {
+  stat: AchievementStat;
+  comparator: AchievementComparator;
+  /** Value the stat is compared with (also the progress bar target) */
+  target: number;
+  /** Scope the stat is counted over (default: run) */
+  scope?: AchievementScope;
+  /** Seconds after the run started within which the condition must be met (optional) */
+  withinSeconds?: number;
+}
+
 /**
  * Achievement definition
  */
@@ -38,6 +95,8 @@ export interface Achievement {
   icon: string;
   /** Reward for completing */
   reward: AchievementReward;
+  /** Unlock condition (achievements without one are unlocked by code) */
+  condition?: AchievementCondition;
   /** Progress tracking */
   progress: {
     /** Current progress value */
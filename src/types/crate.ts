@@ -25,6 +25,8 @@ export interface Crate {
   cost: {
     carrots?: number;
     goldenCarrots?: number;
+    /** Event currency (event crates only) */
+    eventCurrency?: number;
   };
   /** Icon identifier or path */
   icon: string;
@@ -89,6 +91,15 @@ export interface PitySystem {
   mythicalPityThreshold: number;
 }
 
+/**
+ * Crates opened without a rarity before that rarity is guaranteed
+ */
+export interface PityThresholds {
+  epic: number;
+  legendary: number;
+  mythical: number;
+}
+
 /**
  * Crate purchase history
  */
@@ -0,0 +1,82 @@
+/**
+ * Limited-time event types
+ */
+
+import type { RabbitData } from '@/game/data/rabbits';
+import type { AchievementTier } from './achievement';
+import type { Crate, PityThresholds } from './crate';
+
+/**
+ * Currency earned during an event and spent on its crate
+ */
+export interface EventCurrency {
+  /** Display name (plural, e.g. "Harvest Tokens") */
+  name: string;
+  /** Icon shown next to amounts */
+  icon: string;
+  /** Clicks needed to earn one unit */
+  clicksPerUnit: number;
+  /** Seconds of play needed to earn one unit */
+  secondsPerUnit: number;
+  /** Golden Carrots given for each unit left over when the event ends */
+  goldenCarrotsPerUnit: number;
+}
+
+/**
+ * What an event achievement counts
+ * - currency_earned: event currency earned in total
+ * - crates_opened: event crates opened
+ * - rabbits_collected: event rabbits owned
+ */
+export type EventAchievementRequirement = 'currency_earned' | 'crates_opened' | 'rabbits_collected';
+
+/**
+ * Achievement that can only be earned while its event runs
+ */
+export interface EventAchievement {
+  /** Unique achievement identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Description of what needs to be done */
+  description: string;
+  /** Icon identifier */
+  icon: string;
+  /** Achievement tier */
+  tier: AchievementTier;
+  /** What is counted and how much is needed */
+  requirement: {
+    type: EventAchievementRequirement;
+    target: number;
+  };
+  /** Golden Carrots awarded */
+  goldenCarrots: number;
+}
+
+/**
+ * Limited-time event definition
+ */
+export interface GameEvent {
+  /** Unique event identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Description shown in the crate shop */
+  description: string;
+  /** Icon identifier */
+  icon: string;
+  /** ISO date-time the event starts (inclusive) */
+  startDate: string;
+  /** ISO date-time the event ends (exclusive) */
+  endDate: string;
+  /** Event currency */
+  currency: EventCurrency;
+  /** Rabbits only obtainable from this event's crate */
+  rabbits: RabbitData[];
+  /** Event crate (type special_event, priced in event currency) */
+  crate: Crate;
+  /** Pity thresholds for the event crate (tracked apart from regular crates) */
+  pityThresholds: PityThresholds;
+  /** Achievements available during the event */
+  achievements: EventAchievement[];
+}
@@ -2,21 +2,23 @@
  * Core game state and currency types
  */
 
+import type { BigNumber } from '@/utils/bigNumber';
+
 /**
  * Main game state containing currencies and production stats
  */
 export interface GameState {
   /** Regular currency earned through clicking and idle production */
-  carrots: number;
+  carrots: BigNumber;
   /** Premium currency (optional purchases, achievements, milestones) */
   goldenCarrots: number;
   /** Lifetime carrots earned (for achievements and milestones) */
-  lifetimeCarrots: number;
+  lifetimeCarrots: BigNumber;
 
   /** Current carrots per second from all sources */
-  carrotsPerSecond: number;
+  carrotsPerSecond: BigNumber;
   /** Current click power (carrots gained per click) */
-  clickPower: number;
+  clickPower: BigNumber;
 
   /** Total number of clicks made */
   totalClicks: number;
@@ -66,14 +68,20 @@ export interface SaveData {
   version: number;
   /** Timestamp when save was created */
   timestamp: number;
-  /** Game state data */
-  gameState: GameState;
-  /** Serialized store data */
+  /** Serialized game store data (currencies, production, stats) */
+  gameState: unknown;
+  /** Serialized store data (null when a migrated save has no data for a store) */
   stores: {
     rabbits: unknown;
     upgrades: unknown;
     achievements: unknown;
     crates: unknown;
     prestige: unknown;
+    milestones: unknown;
+    automations: unknown;
+    stats: unknown;
+    dailyRewards: unknown;
+    events: unknown;
+    quests: unknown;
   };
 }
@@ -0,0 +1,97 @@
+/**
+ * Game event bus types
+ * Payloads of the events store actions emit after they change state
+ */
+
+import type { BigNumber } from '@/utils/bigNumber';
+import type { Achievement } from './achievement';
+import type { CrateType } from './crate';
+import type { Rabbit } from './rabbit';
+
+/**
+ * Game events by name
+ */
+export interface GameBusEvents {
+  /** The carrot was clicked (manually, or by Clicker Bot automations) */
+  Clicked: {
+    /** Carrots the clicks earned */
+    carrots: BigNumber;
+    /** manual: one player click; auto: a batch of automation clicks */
+    source: 'manual' | 'auto';
+  };
+  /** Carrots were earned outside clicks */
+  CarrotsEarned: {
+    amount: BigNumber;
+    /**
+     * idle: production of the last second (summed, as production runs 30 times a second);
+     * offline: earnings while away; reward: one-off grants (daily rewards, milestones)
+     */
+    source: 'idle' | 'offline' | 'reward';
+  };
+  /** Carrots per second or click power were recalculated */
+  ProductionChanged: {
+    carrotsPerSecond: BigNumber;
+    clickPower: BigNumber;
+  };
+  /** Golden Carrots were added */
+  GoldenCarrotsEarned: {
+    amount: number;
+  };
+  /** Golden Carrots were spent */
+  GoldenCarrotsSpent: {
+    amount: number;
+  };
+  /** An upgrade was bought */
+  UpgradePurchased: {
+    upgradeId: string;
+  };
+  /** One or more buildings of a type were bought */
+  BuildingPurchased: {
+    buildingId: string;
+    quantity: number;
+  };
+  /** A batch of crates was opened (after every rabbit in it was added) */
+  CrateOpened: {
+    crateType: CrateType;
+    count: number;
+  };
+  /** A rabbit came out of a crate or was bought (already added, or converted to XP) */
+  RabbitObtained: {
+    rabbit: Rabbit;
+    isDuplicate: boolean;
+    /** XP awarded for a duplicate (0 if new) */
+    xpCompensation: number;
+  };
+  /** Invested XP raised a rabbit's level */
+  RabbitLeveledUp: {
+    rabbitId: string;
+    /** Level reached */
+    level: number;
+  };
+  /** The active team changed (rabbits added, removed or replaced) */
+  TeamChanged: {
+    activeTeam: string[];
+  };
+  /** A rabbit's active ability was activated */
+  AbilityActivated: {
+    rabbitId: string;
+    abilityId: string;
+  };
+  /** The player prestiged (after the reset) */
+  Prestiged: {
+    /** Prestige count reached */
+    prestigeCount: number;
+    /** Lifetime carrots of the run that ended */
+    carrotsEarned: BigNumber;
+    goldenSeedsEarned: number;
+  };
+  /** An achievement (regular or limited-time event) was unlocked */
+  AchievementUnlocked: {
+    achievement: Achievement;
+  };
+}
+
+/**
+ * Name of a game event
+ */
+export type GameBusEventType = keyof GameBusEvents;
@@ -34,6 +34,10 @@ export type {
   Achievement,
   AchievementCategory,
   AchievementTier,
+  AchievementStat,
+  AchievementComparator,
+  AchievementScope,
+  AchievementCondition,
   AchievementReward,
   AchievementNotification,
   AchievementProgress,
@@ -46,5 +50,32 @@ export type {
   CrateReward,
   CrateOpeningState,
   PitySystem,
+  PityThresholds,
   CratePurchase,
 } from './crate';
+
+// Limited-time event types
+export type {
+  GameEvent,
+  EventCurrency,
+  EventAchievement,
+  EventAchievementRequirement,
+} from './event';
+
+// Reward types
+export type { DailyReward } from './reward';
+
+// Quest types
+export type {
+  Quest,
+  QuestPeriod,
+  QuestObjective,
+  QuestObjectiveType,
+  QuestAction,
+} from './quest';
+
+// Game event bus types
+export type { GameBusEvents, GameBusEventType } from './gameBus';
+
+// Player settings types
+export type { NumberNotation, SoundCategory } from './settings';
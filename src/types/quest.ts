@@ -0,0 +1,58 @@
+/**
+ * Quest system types
+ */
+
+import type { CrateType } from './crate';
+
+/**
+ * How long a quest stays on the board
+ */
+export type QuestPeriod = 'daily' | 'weekly';
+
+/**
+ * What a quest counts
+ * - clicks: manual clicks (and auto-clicks)
+ * - open_crates: crates opened (optionally of one crate type)
+ * - buy_buildings: buildings bought (optionally of one building)
+ * - buy_upgrades: upgrades bought
+ */
+export type QuestObjectiveType = 'clicks' | 'open_crates' | 'buy_buildings' | 'buy_upgrades';
+
+/**
+ * Quest goal
+ */
+export interface QuestObjective {
+  type: QuestObjectiveType;
+  /** Amount needed */
+  target: number;
+  /** Only crates of this type count (open_crates only; any crate if omitted) */
+  crateType?: CrateType;
+  /** Only this building counts (buy_buildings only; any building if omitted) */
+  buildingId?: string;
+}
+
+/**
+ * Quest definition (static data)
+ */
+export interface Quest {
+  /** Unique quest identifier */
+  id: string;
+  /** Board the quest is drawn for */
+  period: QuestPeriod;
+  /** Description of what needs to be done */
+  description: string;
+  /** Icon identifier */
+  icon: string;
+  objective: QuestObjective;
+  /** Golden Carrots paid when the quest is claimed */
+  goldenCarrots: number;
+}
+
+/**
+ * Player action that can advance quests
+ */
+export type QuestAction =
+  | { type: 'clicks'; count: number }
+  | { type: 'open_crates'; crateType: CrateType; count: number }
+  | { type: 'buy_buildings'; buildingId: string; count: number }
+  | { type: 'buy_upgrades'; upgradeId: string; count: number };
@@ -17,12 +17,21 @@ export interface RabbitAbility {
   name: string;
   /** Ability description */
   description: string;
-  /** Ability type (passive, active, etc.) */
+  /**
+   * Ability type
+   * - passive: always in effect while the rabbit is in the active team
+   * - active: player-activated, lasts `duration` seconds, reusable after `cooldown` seconds
+   * - conditional: triggers on its own for `duration` seconds out of every `cooldown` seconds
+   */
   type: 'passive' | 'active' | 'conditional';
   /** Ability effect value (percentage, flat bonus, etc.) */
   value: number;
   /** What the ability affects */
   target: 'cps' | 'click_power' | 'cost_reduction' | 'drop_rate' | 'offline_earnings' | 'all';
+  /** Seconds the effect lasts once triggered (active/conditional only) */
+  duration?: number;
+  /** Seconds between triggers, counted from activation (active/conditional only) */
+  cooldown?: number;
 }
 
 /**
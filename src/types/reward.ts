@@ -0,0 +1,20 @@
+/**
+ * Reward type definitions
+ */
+
+import type { CrateType } from './crate';
+
+/**
+ * One day of the daily login reward calendar
+ * A day can combine several kinds of reward
+ */
+export interface DailyReward {
+  /** Day in the reward calendar (1-based) */
+  day: number;
+  /** Carrots worth this many minutes of current production */
+  productionMinutes?: number;
+  /** Golden Carrots granted */
+  goldenCarrots?: number;
+  /** Crate opened for free */
+  crate?: CrateType;
+}
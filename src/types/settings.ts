@@ -0,0 +1,22 @@
+/**
+ * Player settings types
+ */
+
+/**
+ * How large numbers are displayed
+ * - standard: short-scale suffixes (1.2K, 3.4M, … 5.6Dc, 7.8Vg)
+ * - scientific: mantissa and power of ten (1.23e+45)
+ * - engineering: power of ten in multiples of three (12.3e+45)
+ * - longScale: long-scale names (1.2 Million, 3.4 Milliard, 5.6 Billion)
+ * - alphabetic: K, M, B, T, then letter pairs (1.2aa, 3.4ab, …)
+ */
+export type NumberNotation = 'standard' | 'scientific' | 'engineering' | 'longScale' | 'alphabetic';
+
+/**
+ * Sound categories with their own volume setting
+ * - click: carrot clicks
+ * - purchase: upgrade and building purchases
+ * - crate: crate opening and reveals
+ * - achievement: achievement unlocks
+ */
+export type SoundCategory = 'click' | 'purchase' | 'crate' | 'achievement';
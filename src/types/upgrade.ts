@@ -57,6 +57,11 @@ export interface UpgradeRequirement {
   isMet: boolean;
 }
 
+/**
+ * Building purchase quantity ('max' buys as many as affordable)
+ */
+export type BuyQuantity = 1 | 10 | 100 | 'max';
+
 /**
  * Building definition (automated production structures)
  */
@@ -1,8 +1,9 @@
-import type { Achievement } from '@/types/achievement';
+import type { CrateReplayResult } from '@/game/systems/gacha';
 
 declare global {
   interface Window {
-    showAchievementToast?: (achievement: Achievement) => void;
+    /** Replay the recorded crate history (development builds only) */
+    __replayCrates?: () => CrateReplayResult | null;
   }
 }
 
@@ -31,5 +31,6 @@ export function playAchievementUnlockSound(): void {
   playSound(SOUND_PATHS.achievementUnlock, {
     volume: 0.65,
     throttle: 1000, // Prevent rapid-fire achievement sounds
+    category: 'achievement',
   });
 }
@@ -0,0 +1,258 @@
+/**
+ * Big number arithmetic
+ * Values are stored as mantissa × 10^exponent so totals can grow past Number.MAX_VALUE (~1.8e308).
+ * Big numbers are plain objects, so they persist and serialize to JSON without conversion.
+ */
+
+/**
+ * Big number (mantissa × 10^exponent)
+ * Normalized: 1 <= |mantissa| < 10 and exponent is an integer, or mantissa 0 and exponent 0
+ */
+export interface BigNumber {
+  mantissa: number;
+  exponent: number;
+}
+
+/**
+ * Anything that can be used where a big number is expected
+ */
+export type BigNumberSource = number | BigNumber;
+
+/**
+ * Zero
+ */
+export const BIG_ZERO: BigNumber = Object.freeze({ mantissa: 0, exponent: 0 });
+
+/**
+ * Exponent difference beyond which the smaller operand of an addition is negligible
+ */
+const MAX_SIGNIFICANT_DIGITS = 17;
+
+/**
+ * Exponent above which a big number no longer fits in a JS number
+ */
+const MAX_NUMBER_EXPONENT = 308;
+
+/**
+ * Normalize a mantissa and exponent
+ * @param mantissa - Any finite mantissa
+ * @param exponent - Integer exponent
+ * @returns Normalized big number
+ */
+function normalize(mantissa: number, exponent: number): BigNumber {
+  if (mantissa === 0 || !Number.isFinite(mantissa) || !Number.isFinite(exponent)) {
+    return BIG_ZERO;
+  }
+
+  const shift = Math.floor(Math.log10(Math.abs(mantissa)));
+  let normalizedMantissa = mantissa / Math.pow(10, shift);
+  let normalizedExponent = exponent + shift;
+
+  // Guard against log10 rounding (e.g. 9.999999999999999 → 10)
+  if (Math.abs(normalizedMantissa) >= 10) {
+    normalizedMantissa /= 10;
+    normalizedExponent += 1;
+  } else if (Math.abs(normalizedMantissa) < 1) {
+    normalizedMantissa *= 10;
+    normalizedExponent -= 1;
+  }
+
+  return { mantissa: normalizedMantissa, exponent: normalizedExponent };
+}
+
+/**
+ * Check if a value is a big number object
+ * @param value - Value to check
+ * @returns true if value has a finite mantissa and exponent
+ */
+export function isBigNumber(value: unknown): value is BigNumber {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isFinite((value as BigNumber).mantissa) &&
+    Number.isFinite((value as BigNumber).exponent)
+  );
+}
+
+/**
+ * Convert a number or big number to a normalized big number
+ * Non-finite numbers become zero
+ * @param value - Number or big number
+ * @returns Big number
+ */
+export function toBigNumber(value: BigNumberSource): BigNumber {
+  if (typeof value === 'number') {
+    return normalize(value, 0);
+  }
+  return normalize(value.mantissa, value.exponent);
+}
+
+/**
+ * Parse a big number from saved data
+ * Accepts plain numbers (saves from before big numbers) and { mantissa, exponent } objects
+ * @param value - Saved value
+ * @returns Big number, or null if the value is not a number
+ */
+export function parseBigNumber(value: unknown): BigNumber | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? toBigNumber(value) : null;
+  }
+  if (isBigNumber(value)) {
+    return toBigNumber(value);
+  }
+  return null;
+}
+
+/**
+ * Convert a big number to a JS number
+ * Values too large for a JS number are clamped to ±Number.MAX_VALUE so they stay finite
+ * @param value - Number or big number
+ * @returns Number
+ */
+export function bigToNumber(value: BigNumberSource): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const result =
+    value.exponent > MAX_NUMBER_EXPONENT ? Infinity : value.mantissa * Math.pow(10, value.exponent);
+  if (!Number.isFinite(result)) {
+    return value.mantissa > 0 ? Number.MAX_VALUE : -Number.MAX_VALUE;
+  }
+  return result;
+}
+
+/**
+ * Add two values
+ * @returns a + b
+ */
+export function bigAdd(a: BigNumberSource, b: BigNumberSource): BigNumber {
+  const x = toBigNumber(a);
+  const y = toBigNumber(b);
+
+  if (x.mantissa === 0) return y;
+  if (y.mantissa === 0) return x;
+
+  const [larger, smaller] = x.exponent >= y.exponent ? [x, y] : [y, x];
+  const difference = larger.exponent - smaller.exponent;
+
+  if (difference > MAX_SIGNIFICANT_DIGITS) {
+    return larger;
+  }
+
+  return normalize(larger.mantissa + smaller.mantissa / Math.pow(10, difference), larger.exponent);
+}
+
+/**
+ * Subtract one value from another
+ * @returns a - b
+ */
+export function bigSubtract(a: BigNumberSource, b: BigNumberSource): BigNumber {
+  const y = toBigNumber(b);
+  return bigAdd(a, { mantissa: -y.mantissa, exponent: y.exponent });
+}
+
+/**
+ * Multiply two values
+ * @returns a × b
+ */
+export function bigMultiply(a: BigNumberSource, b: BigNumberSource): BigNumber {
+  const x = toBigNumber(a);
+  const y = toBigNumber(b);
+  return normalize(x.mantissa * y.mantissa, x.exponent + y.exponent);
+}
+
+/**
+ * Divide one value by another
+ * @returns a ÷ b (zero if b is zero)
+ */
+export function bigDivide(a: BigNumberSource, b: BigNumberSource): BigNumber {
+  const x = toBigNumber(a);
+  const y = toBigNumber(b);
+
+  if (y.mantissa === 0) {
+    console.error('Big number division by zero');
+    return BIG_ZERO;
+  }
+
+  return normalize(x.mantissa / y.mantissa, x.exponent - y.exponent);
+}
+
+/**
+ * Raise a positive number to a power
+ * Computed in log space so results past Number.MAX_VALUE stay exact to double precision
+ * @param base - Positive base
+ * @param power - Power
+ * @returns base ^ power
+ */
+export function bigPow(base: BigNumberSource, power: number): BigNumber {
+  const x = toBigNumber(base);
+
+  if (x.mantissa <= 0) {
+    return power === 0 ? toBigNumber(1) : BIG_ZERO;
+  }
+
+  const log = (Math.log10(x.mantissa) + x.exponent) * power;
+  const exponent = Math.floor(log);
+  return normalize(Math.pow(10, log - exponent), exponent);
+}
+
+/**
+ * Square root of a non-negative value
+ * @returns √value
+ */
+export function bigSqrt(value: BigNumberSource): BigNumber {
+  return bigPow(value, 0.5);
+}
+
+/**
+ * Base-10 logarithm
+ * @returns log10(value) (-Infinity for zero, NaN for negative values)
+ */
+export function bigLog10(value: BigNumberSource): number {
+  const x = toBigNumber(value);
+  return Math.log10(x.mantissa) + x.exponent;
+}
+
+/**
+ * Round down to an integer
+ * Values with more digits than a double can hold are already integers
+ * @returns ⌊value⌋
+ */
+export function bigFloor(value: BigNumberSource): BigNumber {
+  const x = toBigNumber(value);
+  if (x.exponent >= MAX_SIGNIFICANT_DIGITS) {
+    return x;
+  }
+  return toBigNumber(Math.floor(bigToNumber(x)));
+}
+
+/**
+ * Compare two values
+ * @returns -1 if a < b, 0 if equal, 1 if a > b
+ */
+export function bigCompare(a: BigNumberSource, b: BigNumberSource): -1 | 0 | 1 {
+  const difference = bigSubtract(a, b).mantissa;
+  return difference > 0 ? 1 : difference < 0 ? -1 : 0;
+}
+
+/**
+ * @returns true if a >= b
+ */
+export function bigGte(a: BigNumberSource, b: BigNumberSource): boolean {
+  return bigCompare(a, b) >= 0;
+}
+
+/**
+ * @returns true if a < b
+ */
+export function bigLt(a: BigNumberSource, b: BigNumberSource): boolean {
+  return bigCompare(a, b) < 0;
+}
+
+/**
+ * @returns The larger of a and b
+ */
+export function bigMax(a: BigNumberSource, b: BigNumberSource): BigNumber {
+  return bigGte(a, b) ? toBigNumber(a) : toBigNumber(b);
+}
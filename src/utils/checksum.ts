@@ -0,0 +1,27 @@
+/**
+ * Checksum Utility
+ * Fast non-cryptographic hash for detecting corrupted save data
+ */
+
+/**
+ * FNV-1a 32-bit offset basis and prime
+ */
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Compute a 32-bit FNV-1a checksum of a string
+ * Detects accidental corruption (truncated writes, bit rot); it is not tamper-proof
+ * @param text - Text to hash
+ * @returns Checksum as 8 hexadecimal characters
+ */
+export function checksum(text: string): string {
+  let hash = FNV_OFFSET_BASIS;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -28,6 +28,7 @@ export function playCrateOpenSound(): void {
   playSound(SOUND_PATHS.crateOpen, {
     volume: 0.6,
     throttle: 1000, // Prevent rapid-fire opens
+    category: 'crate',
   });
 }
 
@@ -45,6 +46,7 @@ export function playRareDropSound(rarity: Rarity): void {
   playSound(SOUND_PATHS.rareDrop, {
     volume: 0.7,
     throttle: 500, // Allow multiple in sequence but not instantly
+    category: 'crate',
   });
 }
 
@@ -56,6 +58,7 @@ export function playDuplicateSound(): void {
   playSound(SOUND_PATHS.duplicate, {
     volume: 0.5,
     throttle: 500,
+    category: 'crate',
   });
 }
 
@@ -0,0 +1,85 @@
+/**
+ * Typed Event Bus
+ * Minimal synchronous publish/subscribe keyed on an event map
+ * (event name → payload type). Listeners run in subscription order during emit,
+ * and a listener that throws is logged without stopping the others.
+ */
+
+/**
+ * Listener for one event
+ */
+export type EventListener<TPayload> = (payload: TPayload) => void;
+
+/**
+ * Listener for every event (e.g. analytics or debug logging)
+ */
+export type AnyEventListener<TEvents> = <K extends keyof TEvents>(
+  type: K,
+  payload: TEvents[K]
+) => void;
+
+/**
+ * Event bus for an event map
+ */
+export interface EventBus<TEvents> {
+  /**
+   * Listen for one event
+   * @returns Unsubscribe function
+   */
+  on: <K extends keyof TEvents>(type: K, listener: EventListener<TEvents[K]>) => () => void;
+  /**
+   * Listen for every event
+   * @returns Unsubscribe function
+   */
+  onAny: (listener: AnyEventListener<TEvents>) => () => void;
+  /** Call every listener of an event with its payload */
+  emit: <K extends keyof TEvents>(type: K, payload: TEvents[K]) => void;
+  /** Remove every listener */
+  clear: () => void;
+}
+
+/**
+ * Create an event bus
+ * @returns Event bus with no listeners
+ */
+export function createEventBus<TEvents>(): EventBus<TEvents> {
+  const listeners = new Map<keyof TEvents, Set<EventListener<never>>>();
+  const anyListeners = new Set<AnyEventListener<TEvents>>();
+
+  const notify = (type: keyof TEvents, call: () => void) => {
+    try {
+      call();
+    } catch (error) {
+      console.error(`Event listener for ${String(type)} failed:`, error);
+    }
+  };
+
+  return {
+    on: (type, listener) => {
+      const typeListeners = listeners.get(type) ?? new Set();
+      typeListeners.add(listener as EventListener<never>);
+      listeners.set(type, typeListeners);
+      return () => {
+        typeListeners.delete(listener as EventListener<never>);
+      };
+    },
+    onAny: (listener) => {
+      anyListeners.add(listener);
+      return () => {
+        anyListeners.delete(listener);
+      };
+    },
+    emit: (type, payload) => {
+      // Copy so listeners that unsubscribe during emit do not skip others
+      const typeListeners = Array.from(listeners.get(type) ?? []) as EventListener<
+        TEvents[typeof type]
+      >[];
+      typeListeners.forEach((listener) => notify(type, () => listener(payload)));
+      Array.from(anyListeners).forEach((listener) => notify(type, () => listener(type, payload)));
+    },
+    clear: () => {
+      listeners.clear();
+      anyListeners.clear();
+    },
+  };
+}
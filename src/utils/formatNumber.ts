@@ -1,69 +1,242 @@
+import type { NumberNotation } from '@/types/settings';
+import { toBigNumber, type BigNumberSource } from './bigNumber';
+
+/**
+ * Short-scale suffixes for 10^3 through 10^30
+ */
+const SHORT_SCALE_BASE = ['K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No'];
+
+/**
+ * Unit and tens prefixes used to build short-scale suffixes from decillion (Dc) up
+ */
+const SHORT_SCALE_UNITS = ['', 'U', 'D', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No'];
+const SHORT_SCALE_TENS = ['', 'Dc', 'Vg', 'Tg', 'Qag', 'Qig', 'Sxg', 'Spg', 'Ocg', 'Nog'];
+
+/**
+ * Short-scale suffixes indexed by tier - 1 (K = 10^3 … Ce = 10^303)
+ */
+const SHORT_SCALE_SUFFIXES = [
+  ...SHORT_SCALE_BASE,
+  ...Array.from({ length: 90 }, (_, i) => {
+    const illion = i + 10;
+    return SHORT_SCALE_UNITS[illion % 10] + SHORT_SCALE_TENS[Math.floor(illion / 10)];
+  }),
+  'Ce',
+];
+
+/**
+ * Latin roots for long-scale names (Mi → Million/Milliard, Bi → Billion/Billiard, …)
+ */
+const LONG_SCALE_ROOTS = [
+  'Mi',
+  'Bi',
+  'Tri',
+  'Quadri',
+  'Quinti',
+  'Sexti',
+  'Septi',
+  'Octi',
+  'Noni',
+  'Deci',
+  'Undeci',
+  'Duodeci',
+  'Tredeci',
+  'Quattuordeci',
+  'Quindeci',
+  'Sexdeci',
+  'Septendeci',
+  'Octodeci',
+  'Novemdeci',
+  'Viginti',
+];
+
+/**
+ * Suffixes used before alphabetic notation switches to letter pairs
+ */
+const ALPHABETIC_BASE = ['K', 'M', 'B', 'T'];
+
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Notation used when a format call does not pass one
+ * Kept in sync with the settings store
+ */
+let activeNotation: NumberNotation = 'standard';
+
+/**
+ * Set the notation used by formatNumber and formatNumberPrecise
+ * @param notation - Notation to use by default
+ */
+export function setNumberNotation(notation: NumberNotation): void {
+  activeNotation = notation;
+}
+
+/**
+ * Get the notation currently used by formatNumber and formatNumberPrecise
+ * @returns Active notation
+ */
+export function getNumberNotation(): NumberNotation {
+  return activeNotation;
+}
+
 /**
- * Internal helper for number formatting with K, M, B, T notation
- * @param value - Number to format
+ * Get the suffix for a power-of-1000 tier
+ * @param notation - Suffix notation
+ * @param tier - Power of 1000 (1 = thousands)
+ * @returns Suffix, or null if the notation has no name for this tier
+ */
+function getSuffix(notation: NumberNotation, tier: number): string | null {
+  switch (notation) {
+    case 'standard':
+      return SHORT_SCALE_SUFFIXES[tier - 1] ?? null;
+
+    case 'longScale': {
+      if (tier === 1) return ' Thousand';
+      // Even tiers are -illions, odd tiers the -illiard in between
+      const root = LONG_SCALE_ROOTS[Math.floor(tier / 2) - 1];
+      if (!root) return null;
+      return ` ${root}${tier % 2 === 0 ? 'llion' : 'lliard'}`;
+    }
+
+    case 'alphabetic': {
+      if (tier <= ALPHABETIC_BASE.length) return ALPHABETIC_BASE[tier - 1];
+      const index = tier - ALPHABETIC_BASE.length - 1;
+      const first = Math.floor(index / ALPHABET.length);
+      if (first >= ALPHABET.length) return null;
+      return ALPHABET[first] + ALPHABET[index % ALPHABET.length];
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format a mantissa and exponent as mantissa × 10^power, where power is a multiple of step
+ * @param mantissa - Normalized mantissa
+ * @param exponent - Power of ten
+ * @param decimals - Number of decimal places
+ * @param step - 1 for scientific, 3 for engineering
+ * @returns Formatted string (e.g., "1.2e+45")
+ */
+function formatExponential(
+  mantissa: number,
+  exponent: number,
+  decimals: number,
+  step: number
+): string {
+  let power = Math.floor(exponent / step) * step;
+  let scaled = mantissa * Math.pow(10, exponent - power);
+
+  // Rounding can carry into the next power (9.96 → "10.0")
+  if (Math.abs(Number(scaled.toFixed(decimals))) >= Math.pow(10, step)) {
+    power += step;
+    scaled /= Math.pow(10, step);
+  }
+
+  return `${scaled.toFixed(decimals)}e+${power}`;
+}
+
+/**
+ * Internal helper for number formatting in the chosen notation
+ * @param value - Number or big number to format
  * @param decimals - Number of decimal places
  * @param showDecimalsUnder1000 - Whether to show decimals for values < 1000
+ * @param notation - Notation for values of 1000 and above
  * @returns Formatted string
  */
 function formatNumberInternal(
-  value: number,
+  value: BigNumberSource,
   decimals: number,
-  showDecimalsUnder1000: boolean
+  showDecimalsUnder1000: boolean,
+  notation: NumberNotation
 ): string {
-  if (!Number.isFinite(value)) {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
     return '0';
   }
 
-  const absValue = Math.abs(value);
+  const { mantissa, exponent } = toBigNumber(value);
 
-  if (absValue < 1000) {
+  if (exponent < 3) {
+    const small = mantissa * Math.pow(10, exponent);
     return showDecimalsUnder1000
-      ? value.toFixed(decimals)
-      : Math.floor(value).toString();
+      ? small.toFixed(decimals)
+      : Math.floor(small).toString();
+  }
+
+  if (notation === 'scientific') {
+    return formatExponential(mantissa, exponent, decimals, 1);
+  }
+  if (notation === 'engineering') {
+    return formatExponential(mantissa, exponent, decimals, 3);
   }
 
-  const units = ['K', 'M', 'B', 'T', 'Qa', 'Qi'];
-  const tier = Math.floor(Math.log10(absValue) / 3);
-  const unitIndex = tier - 1;
+  let tier = Math.floor(exponent / 3);
+  let scaled = mantissa * Math.pow(10, exponent - tier * 3);
 
-  if (unitIndex >= units.length) {
-    return value.toExponential(decimals);
+  // Rounding can carry into the next tier (999.96K → "1.0M")
+  if (Math.abs(Number(scaled.toFixed(decimals))) >= 1000) {
+    tier += 1;
+    scaled /= 1000;
   }
 
-  const unit = units[unitIndex];
-  const scaled = value / Math.pow(1000, tier);
-  return scaled.toFixed(decimals) + unit;
+  const suffix = getSuffix(notation, tier);
+
+  // Past the end of the suffix table, fall back to scientific notation
+  if (suffix === null) {
+    return formatExponential(mantissa, exponent, decimals, 1);
+  }
+
+  return scaled.toFixed(decimals) + suffix;
 }
 
 /**
- * Format a number with K, M, B, T notation for readability
- * @param value - Number to format
+ * Format a number for readability in the active notation
+ * @param value - Number or big number to format
  * @param decimals - Number of decimal places (default: 1)
+ * @param notation - Notation to use (default: the player's notation setting)
  * @returns Formatted string (e.g., "1.2K", "3.5M")
  *
- * Examples:
+ * Examples (standard notation):
  * - 123 → "123"
  * - 1234 → "1.2K"
  * - 1234567 → "1.2M"
  * - 1234567890 → "1.2B"
  * - 1234567890000 → "1.2T"
+ * - 1.5e36 → "1.5UDc"
+ * - { mantissa: 1.5, exponent: 400 } → "1.5e+400"
+ *
+ * Other notations for 1234567:
+ * - scientific → "1.2e+6"
+ * - engineering → "1.2e+6"
+ * - longScale → "1.2 Million"
+ * - alphabetic → "1.2M" (1.5e15 → "1.5aa")
  */
-export function formatNumber(value: number, decimals: number = 1): string {
-  return formatNumberInternal(value, decimals, false);
+export function formatNumber(
+  value: BigNumberSource,
+  decimals: number = 1,
+  notation: NumberNotation = activeNotation
+): string {
+  return formatNumberInternal(value, decimals, false, notation);
 }
 
 /**
  * Format a number with precise decimal representation
  * Shows more decimal places for better precision in displays
- * @param value - Number to format
+ * @param value - Number or big number to format
  * @param decimals - Number of decimal places (default: 2)
+ * @param notation - Notation to use (default: the player's notation setting)
  * @returns Formatted string with higher precision
  *
- * Examples:
+ * Examples (standard notation):
  * - 123.456 → "123.46"
  * - 1234.567 → "1.23K"
  * - 1234567.89 → "1.23M"
  */
-export function formatNumberPrecise(value: number, decimals: number = 2): string {
-  return formatNumberInternal(value, decimals, true);
+export function formatNumberPrecise(
+  value: BigNumberSource,
+  decimals: number = 2,
+  notation: NumberNotation = activeNotation
+): string {
+  return formatNumberInternal(value, decimals, true, notation);
 }
@@ -1,4 +1,44 @@
-export { formatNumber, formatNumberPrecise } from './formatNumber';
+export {
+  formatNumber,
+  formatNumberPrecise,
+  setNumberNotation,
+  getNumberNotation,
+} from './formatNumber';
+export {
+  BIG_ZERO,
+  isBigNumber,
+  toBigNumber,
+  parseBigNumber,
+  bigToNumber,
+  bigAdd,
+  bigSubtract,
+  bigMultiply,
+  bigDivide,
+  bigPow,
+  bigSqrt,
+  bigLog10,
+  bigFloor,
+  bigCompare,
+  bigGte,
+  bigLt,
+  bigMax,
+  type BigNumber,
+  type BigNumberSource,
+} from './bigNumber';
+export { checksum } from './checksum';
+export {
+  persistentStorage,
+  initStorage,
+  flushStorage,
+  setStorageWritable,
+  getStorageBackend,
+  getStorageError,
+  subscribeToStorageErrors,
+  isQuotaExceededError,
+  type StorageBackend,
+  type StorageBackendName,
+  type StorageError,
+} from './storage';
 export { playSound } from './sounds';
 export {
   playCrateOpenSound,
@@ -7,3 +47,9 @@ export {
   playCrateRevealSounds,
   preloadCrateSounds,
 } from './crateSounds';
+export {
+  createEventBus,
+  type EventBus,
+  type EventListener,
+  type AnyEventListener,
+} from './eventBus';
@@ -1,8 +1,11 @@
 /**
  * Sound Manager Utility
  * Handles audio loading, playing, and volume control for the game
+ * Volume settings are persisted by the settings store, which applies them here
  */
 
+import type { SoundCategory } from '@/types/settings';
+
 // Sound cache to avoid reloading audio files
 const soundCache = new Map<string, HTMLAudioElement>();
 
@@ -14,6 +17,14 @@ const DEFAULT_THROTTLE_MS = 100; // Minimum time between plays of the same sound
 let masterVolume = 0.5;
 let soundEnabled = true;
 
+// Per-category volume settings (0.0 to 1.0), multiplied with the master volume
+const categoryVolumes: Record<SoundCategory, number> = {
+  click: 1,
+  purchase: 1,
+  crate: 1,
+  achievement: 1,
+};
+
 /**
  * Load a sound file and cache it
  * @param soundPath - Path to the sound file relative to public directory
@@ -55,7 +66,8 @@ export async function playSound(
     loop?: boolean;
     playbackRate?: number;
     throttle?: number; // Custom throttle time in ms (default: 50ms)
-  } = {}
+    category: SoundCategory; // Volume category
+  }
 ): Promise<void> {
   // Skip if sound is disabled
   if (!soundEnabled) {
@@ -85,7 +97,8 @@ export async function playSound(
     const audioClone = audio.cloneNode(true) as HTMLAudioElement;
 
     // Apply options
-    audioClone.volume = (options.volume ?? 1.0) * masterVolume;
+    audioClone.volume =
+      (options.volume ?? 1.0) * masterVolume * categoryVolumes[options.category];
     audioClone.loop = options.loop ?? false;
     audioClone.playbackRate = options.playbackRate ?? 1.0;
 
@@ -127,6 +140,24 @@ export function getMasterVolume(): number {
   return masterVolume;
 }
 
+/**
+ * Set volume for one sound category
+ * @param category - Sound category
+ * @param volume - Volume level (0.0 to 1.0)
+ */
+export function setCategoryVolume(category: SoundCategory, volume: number): void {
+  categoryVolumes[category] = Math.max(0, Math.min(1, volume));
+}
+
+/**
+ * Get current volume for one sound category
+ * @param category - Sound category
+ * @returns Current volume level (0.0 to 1.0)
+ */
+export function getCategoryVolume(category: SoundCategory): number {
+  return categoryVolumes[category];
+}
+
 /**
  * Enable or disable all sounds
  * @param enabled - Whether sounds should be enabled
@@ -0,0 +1,355 @@
+/**
+ * Persistent Storage
+ * Key-value storage shared by the persisted stores and the save service.
+ * Entries live in IndexedDB when it is available (its quota is far larger than
+ * localStorage's ~5MB) and in localStorage otherwise.
+ *
+ * Reads are served from an in-memory copy loaded once by initStorage(), so callers
+ * stay synchronous. Writes update the copy immediately and reach the backend in the
+ * background; failures (such as a full quota) are reported to storage error listeners.
+ */
+
+/**
+ * Where entries are stored
+ */
+export type StorageBackendName = 'indexedDB' | 'localStorage';
+
+/**
+ * Storage implementation behind persistentStorage
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  /** Read every entry */
+  loadAll: () => Promise<Map<string, string>>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+/**
+ * Problem writing to storage, shown to the player until the write succeeds
+ */
+export interface StorageError {
+  /** quota: storage is full; write: any other failure */
+  kind: 'quota' | 'write';
+  /** Error message from the browser */
+  message: string;
+}
+
+/**
+ * Only keys with this prefix belong to the game (and are migrated from localStorage)
+ */
+const KEY_PREFIX = 'rabbit-clicker';
+
+/**
+ * IndexedDB database holding all entries in a single object store
+ */
+const DB_NAME = 'rabbit-clicker';
+const DB_VERSION = 1;
+const DB_STORE = 'entries';
+
+/**
+ * Storage state, filled by initStorage()
+ */
+const cache = new Map<string, string>();
+let backend: StorageBackend | null = null;
+let initPromise: Promise<StorageBackendName> | null = null;
+
+/**
+ * Whether this tab may write; turned off when another tab takes over the game
+ */
+let writable = true;
+
+/**
+ * Writes that have not reached the backend yet
+ */
+const pendingWrites = new Set<Promise<void>>();
+
+/**
+ * Keys whose latest write failed, and the error shown for them
+ */
+const failedKeys = new Set<string>();
+let storageError: StorageError | null = null;
+const errorListeners = new Set<() => void>();
+
+/**
+ * Check whether an error means the storage quota is exhausted
+ * @param error - Error thrown by localStorage or IndexedDB
+ * @returns true for quota errors
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+      error.code === 22)
+  );
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Game entries currently in localStorage
+ */
+function readLocalStorageEntries(): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const value = key?.startsWith(KEY_PREFIX) ? localStorage.getItem(key) : null;
+    if (key && value !== null) {
+      entries.set(key, value);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * localStorage backend, used when IndexedDB cannot be opened
+ */
+const localStorageBackend: StorageBackend = {
+  name: 'localStorage',
+  loadAll: async () => readLocalStorageEntries(),
+  setItem: async (key, value) => localStorage.setItem(key, value),
+  removeItem: async (key) => localStorage.removeItem(key),
+};
+
+/**
+ * Open (and create on first use) the game's IndexedDB database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(DB_STORE)) {
+      request.result.createObjectStore(DB_STORE);
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Create the IndexedDB backend for an open database
+ * Read-write transactions on the same store run in creation order, so writes never reorder
+ */
+function createIndexedDBBackend(db: IDBDatabase): StorageBackend {
+  const write = (action: (store: IDBObjectStore) => void) => {
+    const transaction = db.transaction(DB_STORE, 'readwrite');
+    action(transaction.objectStore(DB_STORE));
+    return transactionToPromise(transaction);
+  };
+
+  return {
+    name: 'indexedDB',
+    loadAll: async () => {
+      const store = db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+      ]);
+      return new Map(keys.map((key, i) => [String(key), String(values[i])]));
+    },
+    setItem: (key, value) => write((store) => store.put(value, key)),
+    removeItem: (key) => write((store) => store.delete(key)),
+  };
+}
+
+/**
+ * Move game entries from localStorage into IndexedDB
+ * localStorage only holds game entries written before IndexedDB was used (or while it
+ * was unavailable), so they are newer than any IndexedDB copy and replace it.
+ * They are removed from localStorage only after IndexedDB has committed them.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const entries = readLocalStorageEntries();
+  if (entries.size === 0) return;
+
+  const transaction = db.transaction(DB_STORE, 'readwrite');
+  const store = transaction.objectStore(DB_STORE);
+  entries.forEach((value, key) => store.put(value, key));
+  await transactionToPromise(transaction);
+
+  entries.forEach((_, key) => localStorage.removeItem(key));
+  console.log(`Moved ${entries.size} saved entries from localStorage to IndexedDB`);
+}
+
+/**
+ * Pick a backend: IndexedDB if it opens, localStorage otherwise
+ */
+async function openBackend(): Promise<StorageBackend> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      const db = await openDatabase();
+      await migrateFromLocalStorage(db);
+      return createIndexedDBBackend(db);
+    } catch (error) {
+      console.error('IndexedDB unavailable, falling back to localStorage:', error);
+    }
+  }
+  return localStorageBackend;
+}
+
+/**
+ * Open storage and load every entry into memory
+ * Must finish before stores hydrate or saves are read; safe to call more than once
+ * @returns Backend in use
+ */
+export function initStorage(): Promise<StorageBackendName> {
+  if (!initPromise) {
+    initPromise = openBackend().then(async (opened) => {
+      const entries = await opened.loadAll();
+      entries.forEach((value, key) => cache.set(key, value));
+      backend = opened;
+      return opened.name;
+    });
+  }
+  return initPromise;
+}
+
+/**
+ * Get the backend in use
+ * @returns Backend name, or null before initStorage() has finished
+ */
+export function getStorageBackend(): StorageBackendName | null {
+  return backend?.name ?? null;
+}
+
+function notifyErrorListeners(): void {
+  errorListeners.forEach((listener) => listener());
+}
+
+/**
+ * Track a background write, updating the storage error when it settles
+ */
+function trackWrite(key: string, write: Promise<void>): void {
+  const tracked = write.then(
+    () => {
+      if (failedKeys.delete(key) && failedKeys.size === 0) {
+        storageError = null;
+        notifyErrorListeners();
+      }
+    },
+    (error: unknown) => {
+      console.error(`Failed to write "${key}" to storage:`, error);
+      failedKeys.add(key);
+      storageError = {
+        kind: isQuotaExceededError(error) ? 'quota' : 'write',
+        message: error instanceof Error ? error.message : String(error),
+      };
+      notifyErrorListeners();
+    }
+  );
+
+  pendingWrites.add(tracked);
+  void tracked.finally(() => pendingWrites.delete(tracked));
+}
+
+/**
+ * Wait until every write so far has reached the backend (or failed)
+ * Call before reloading the page right after a write
+ */
+export async function flushStorage(): Promise<void> {
+  await Promise.all(Array.from(pendingWrites));
+}
+
+/**
+ * Allow or block writes from this tab
+ * A tab that handed the game to another tab stops writing so it cannot overwrite newer progress
+ * @param allowed - Whether writes reach storage
+ */
+export function setStorageWritable(allowed: boolean): void {
+  writable = allowed;
+}
+
+/**
+ * Get the current storage error
+ * @returns Error from the latest failed write, or null once every failed key was written
+ */
+export function getStorageError(): StorageError | null {
+  return storageError;
+}
+
+/**
+ * Listen for storage errors appearing or clearing
+ * @param listener - Called when getStorageError() changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToStorageErrors(listener: () => void): () => void {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+/**
+ * Check whether a write may go ahead, warning if not
+ */
+function canWrite(action: string): boolean {
+  if (!backend) {
+    console.warn(`Storage is not ready; ${action} ignored`);
+    return false;
+  }
+  if (!writable) {
+    console.warn(`Game is open in another tab; ${action} ignored`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Synchronous key-value storage for zustand persist and the save service
+ * Writes before initStorage() has finished are ignored, so a store's default
+ * state can never overwrite saved progress that has not been loaded yet.
+ * Writes are also ignored after setStorageWritable(false).
+ */
+export const persistentStorage = {
+  /**
+   * Read an entry
+   * @param key - Entry key
+   * @returns Stored value, or null if missing
+   */
+  getItem: (key: string): string | null => {
+    return cache.get(key) ?? null;
+  },
+
+  /**
+   * Write an entry
+   * @param key - Entry key
+   * @param value - Value to store
+   */
+  setItem: (key: string, value: string): void => {
+    if (!backend || !canWrite(`write to "${key}"`)) return;
+    cache.set(key, value);
+    trackWrite(key, backend.setItem(key, value));
+  },
+
+  /**
+   * Delete an entry
+   * @param key - Entry key
+   */
+  removeItem: (key: string): void => {
+    if (!backend || !canWrite(`removal of "${key}"`)) return;
+    cache.delete(key);
+    trackWrite(key, backend.removeItem(key));
+  },
+
+  /**
+   * List every entry key
+   * @returns Keys in no particular order
+   */
+  keys: (): string[] => {
+    return Array.from(cache.keys());
+  },
+};